@@ -18,6 +18,8 @@ const DashboardPage = React.lazy(() => import('./features/dashboard/ui/dashboard
 const TargetsPage = React.lazy(() => import('./features/targets/ui/targets-page'));
 const RoomsPage = React.lazy(() => import('./features/rooms/ui/rooms-page'));
 const GamesPage = React.lazy(() => import('./features/games/ui/games-page'));
+const AnalyticsPage = React.lazy(() => import('./features/dashboard/ui/analytics-page'));
+const TrainingPage = React.lazy(() => import('./features/training/ui/training-page'));
 const LeaderboardPage = React.lazy(() => import('./features/leaderboard/ui/leaderboard-page'));
 const ProfilePage = React.lazy(() => import('./features/profile/ui/profile-page'));
 const SettingsPage = React.lazy(() => import('./features/settings/ui/settings-page'));
@@ -86,6 +88,8 @@ function App() {
           <Route path="/dashboard/targets" element={<Suspense fallback={<ContentLoading />}><TargetsPage /></Suspense>} />
           <Route path="/dashboard/rooms" element={<Suspense fallback={<ContentLoading />}><RoomsPage /></Suspense>} />
           <Route path="/dashboard/games" element={<Suspense fallback={<ContentLoading />}><GamesPage /></Suspense>} />
+          <Route path="/dashboard/analytics" element={<Suspense fallback={<ContentLoading />}><AnalyticsPage /></Suspense>} />
+          <Route path="/dashboard/training" element={<Suspense fallback={<ContentLoading />}><TrainingPage /></Suspense>} />
           <Route path="/dashboard/leaderboard" element={<Suspense fallback={<ContentLoading />}><LeaderboardPage /></Suspense>} />
           <Route path="/dashboard/profile" element={<Suspense fallback={<ContentLoading />}><ProfilePage /></Suspense>} />
           <Route path="/dashboard/settings" element={<Suspense fallback={<ContentLoading />}><SettingsPage /></Suspense>} />
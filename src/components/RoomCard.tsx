@@ -24,6 +24,7 @@ import {
   Target,
   Eye,
   PenTool,
+  Flame,
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import type { Room } from '@/features/rooms/schema';
@@ -42,6 +43,8 @@ interface RoomCardProps {
   onDelete: (room: Room) => void;
   onAssignTargets: () => void;
   onViewDetails: () => void;
+  /** Opens the room's hit heat map; the footer button is hidden without it */
+  onViewHeatMap?: () => void;
 }
 
 const RoomCard: React.FC<RoomCardProps> = ({
@@ -53,6 +56,7 @@ const RoomCard: React.FC<RoomCardProps> = ({
   onDelete,
   onAssignTargets,
   onViewDetails,
+  onViewHeatMap,
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(room.name);
@@ -223,6 +227,17 @@ const RoomCard: React.FC<RoomCardProps> = ({
             <Eye className="w-3 h-3 md:w-3.5 md:h-3.5 mr-1 md:mr-1.5" />
             <span className="hidden sm:inline">View </span>Details
           </Button>
+          {onViewHeatMap && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onViewHeatMap}
+              className="text-brand-dark/60 hover:text-brand-dark hover:bg-brand-dark/[0.06] h-8 md:h-8 text-xs md:text-sm px-2 md:px-3"
+            >
+              <Flame className="w-3 h-3 md:w-3.5 md:h-3.5 mr-1 md:mr-1.5" />
+              Heat Map
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="sm"
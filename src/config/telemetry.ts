@@ -22,7 +22,7 @@ export const GAME_TELEMETRY_REALTIME = {
   fallbackGraceMs: 3_000,
 } as const;
 
-export const TELEMETRY_KEYS = ['hits', 'hit_ts', 'event', 'gameStatus', 'gameId'] as const;
+export const TELEMETRY_KEYS = ['hits', 'hit_ts', 'event', 'gameStatus', 'gameId', 'zone', 'intensity'] as const;
 
 export type TelemetryKey = (typeof TELEMETRY_KEYS)[number];
 
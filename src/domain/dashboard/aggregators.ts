@@ -5,7 +5,21 @@
  * Pure functions - no React or Supabase imports.
  */
 
-import type { SessionMetrics, TargetSummary, SessionTotals, DashboardMetrics } from './validators';
+import type {
+  SessionMetrics,
+  TargetSummary,
+  SessionTotals,
+  SessionModeTotals,
+  DashboardMetrics,
+} from './validators';
+import { getScoreDirection, resolveGameModeId } from '../games/modes';
+import type { GameModeId } from '../games/validators';
+import {
+  DEFAULT_SCORE_DIRECTION,
+  isCompletedScore,
+  pickBestScore,
+  type ScoreDirection,
+} from '../shared/score-direction';
 
 /**
  * Session data for aggregation
@@ -17,8 +31,30 @@ export type SessionData = {
   hitCount: number;
   durationMs: number;
   accuracyPercentage: number | null;
+  /** Game mode the session was scored under; the default (timed) mode when omitted */
+  gameMode?: string | null;
 };
 
+/**
+ * Completed scores of sessions scored in `direction`. Scores of the other
+ * direction (seconds vs hits) cannot be compared, so they are left out.
+ */
+function completedScores(sessions: SessionData[], direction: ScoreDirection): number[] {
+  return sessions
+    .filter((session) => getScoreDirection(session.gameMode) === direction)
+    .map((session) => session.score)
+    .filter((score) => isCompletedScore(score, direction));
+}
+
+/**
+ * Average of completed scores, rounded to whole units
+ */
+function averageScore(scores: number[]): number | null {
+  return scores.length > 0
+    ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+    : null;
+}
+
 /**
  * Target data for aggregation
  */
@@ -42,27 +78,42 @@ export type TrendDataPoint = {
 };
 
 /**
- * Calculate session totals from session data
+ * Session totals for each game mode, scored in the mode's own direction.
+ * Modes come out in the order their first session appears.
  */
-export function calculateSessionTotals(sessions: SessionData[]): SessionTotals {
-  if (sessions.length === 0) {
+export function calculateModeTotals(sessions: SessionData[]): SessionModeTotals[] {
+  const groups = new Map<GameModeId, SessionData[]>();
+  sessions.forEach((session) => {
+    const gameMode = resolveGameModeId(session.gameMode);
+    groups.set(gameMode, [...(groups.get(gameMode) ?? []), session]);
+  });
+
+  return Array.from(groups.entries()).map(([gameMode, group]) => {
+    const direction = getScoreDirection(gameMode);
+    // Only completed sessions count; a timed score of 0 is a DNF.
+    const validScores = completedScores(group, direction);
     return {
-      totalSessions: 0,
-      bestScore: null,
-      avgScore: null,
+      gameMode,
+      totalSessions: group.length,
+      bestScore: pickBestScore(validScores, direction),
+      avgScore: averageScore(validScores),
     };
-  }
+  });
+}
 
-  // Only include completed sessions (score > 0). Score=0 means DNF.
-  const validScores = sessions.map((s) => s.score).filter((s) => s > 0);
+/**
+ * Calculate session totals from session data. The headline best and
+ * average are timed scores (seconds) across the timed modes; every mode's
+ * own totals are in `byMode`.
+ */
+export function calculateSessionTotals(sessions: SessionData[]): SessionTotals {
+  const timedScores = completedScores(sessions, DEFAULT_SCORE_DIRECTION);
 
-  // For time-based scoring, "best" means the lowest/fastest time
   return {
     totalSessions: sessions.length,
-    bestScore: validScores.length > 0 ? Math.min(...validScores) : null,
-    avgScore: validScores.length > 0
-      ? Math.round(validScores.reduce((sum, score) => sum + score, 0) / validScores.length)
-      : null,
+    bestScore: pickBestScore(timedScores, DEFAULT_SCORE_DIRECTION),
+    avgScore: averageScore(timedScores),
+    byMode: calculateModeTotals(sessions),
   };
 }
 
@@ -182,7 +233,8 @@ export function calculateSessionsPerDay(
  */
 export function calculateScoreTrend(
   sessions: SessionData[],
-  period: TimePeriod = 'week'
+  period: TimePeriod = 'week',
+  direction: ScoreDirection = DEFAULT_SCORE_DIRECTION
 ): TrendDataPoint[] {
   if (sessions.length === 0) {
     return [];
@@ -190,27 +242,28 @@ export function calculateScoreTrend(
   
   const now = new Date();
   const periodMs = getPeriodMs(period);
-  const startDate = new Date(now.getTime() - periodMs);
+  // 'all' has no start; now minus MAX_SAFE_INTEGER is outside the Date range
+  const startDate = period === 'all' ? null : new Date(now.getTime() - periodMs);
   
   const sessionsInRange = sessions.filter(
-    (s) => new Date(s.startedAt) >= startDate
+    (s) => startDate === null || new Date(s.startedAt) >= startDate
   );
   
-  // Group by date — only include completed sessions (score > 0, DNF excluded)
+  // Group by date — only include completed sessions scored in `direction` (DNF excluded)
   const grouped = new Map<string, number[]>();
 
   for (const session of sessionsInRange) {
-    if (session.score <= 0) continue; // Skip DNF sessions
+    if (completedScores([session], direction).length === 0) continue;
     const date = new Date(session.startedAt).toISOString().split('T')[0];
     const existing = grouped.get(date) ?? [];
     existing.push(session.score);
     grouped.set(date, existing);
   }
 
-  // Calculate average per day
+  // Calculate average per day; timed scores are seconds, so keep hundredths
   const trend: TrendDataPoint[] = [];
   for (const [date, scores] of grouped) {
-    const avg = Math.round(scores.reduce((a, b) => a + b, 0) / scores.length);
+    const avg = Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 100) / 100;
     trend.push({ date, value: avg });
   }
   
@@ -0,0 +1,344 @@
+/**
+ * Dashboard Domain Analytics
+ *
+ * Functions behind the advanced analytics page: per-preset score trends,
+ * split-time distributions, consistency scores, transition breakdowns per
+ * target pair and performance by time of day.
+ * Pure functions - no React or Supabase imports.
+ */
+
+import {
+  calculateScoreTrend,
+  calculateSessionsPerDay,
+  type SessionData,
+  type TrendDataPoint,
+} from './aggregators';
+import { getScoreDirection } from '../games/modes';
+import {
+  DEFAULT_SCORE_DIRECTION,
+  isCompletedScore,
+  type ScoreDirection,
+} from '../shared/score-direction';
+
+/**
+ * Time (seconds) between two hits on different targets
+ */
+export type AnalyticsTransition = {
+  fromTarget: string;
+  toTarget: string;
+  time: number;
+};
+
+/**
+ * A stored session with the timing detail analytics reads
+ */
+export type AnalyticsSession = SessionData & {
+  roomId: string | null;
+  roomName: string | null;
+  presetId: string | null;
+  /** Preset name, or the session name when it was not started from a preset */
+  presetName: string;
+  /** Same-target split times in seconds */
+  splitTimes: number[];
+  transitions: AnalyticsTransition[];
+  /** Round-to-round times in seconds (multi-target sessions) */
+  roundTimes: number[];
+};
+
+/**
+ * Page filters; omitted or null fields match every session
+ */
+export type AnalyticsFilter = {
+  roomId?: string | null;
+  presetId?: string | null;
+  from?: Date | null;
+  to?: Date | null;
+};
+
+/**
+ * Spread of a set of times. The consistency score is 100 when every time
+ * is the same and falls to 0 as the deviation reaches the mean.
+ */
+export type ConsistencyStats = {
+  count: number;
+  mean: number;
+  standardDeviation: number;
+  coefficientOfVariation: number;
+  consistencyScore: number;
+};
+
+export type PresetTrend = {
+  key: string;
+  label: string;
+  direction: ScoreDirection;
+  sessionCount: number;
+  points: TrendDataPoint[];
+  splitConsistency: ConsistencyStats | null;
+};
+
+export type SplitHistogramBucket = {
+  /** Bucket bounds in seconds, start inclusive */
+  start: number;
+  end: number;
+  label: string;
+  count: number;
+};
+
+export type TransitionPairStats = {
+  key: string;
+  fromTarget: string;
+  toTarget: string;
+  count: number;
+  average: number;
+  best: number;
+  standardDeviation: number;
+};
+
+export type TimeOfDayBlock = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export type TimeOfDayPerformance = {
+  block: TimeOfDayBlock;
+  label: string;
+  sessionCount: number;
+  avgScore: number | null;
+  avgAccuracy: number | null;
+};
+
+export type SessionAnalytics = {
+  sessionCount: number;
+  sessionsPerDay: number;
+  presetTrends: PresetTrend[];
+  splitHistogram: SplitHistogramBucket[];
+  splitConsistency: ConsistencyStats | null;
+  roundConsistency: ConsistencyStats | null;
+  transitionPairs: TransitionPairStats[];
+  timeOfDay: TimeOfDayPerformance[];
+};
+
+/**
+ * Local-time blocks sessions are grouped into, with their first hour
+ */
+export const TIME_OF_DAY_BLOCKS: Array<{ block: TimeOfDayBlock; label: string; startHour: number }> = [
+  { block: 'night', label: 'Night (00-06)', startHour: 0 },
+  { block: 'morning', label: 'Morning (06-12)', startHour: 6 },
+  { block: 'afternoon', label: 'Afternoon (12-18)', startHour: 12 },
+  { block: 'evening', label: 'Evening (18-24)', startHour: 18 },
+];
+
+// Histogram bucket widths (seconds) to pick from, narrowest first
+const HISTOGRAM_BUCKET_SIZES = [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30, 60];
+
+const MAX_HISTOGRAM_BUCKETS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function validTimes(times: number[]): number[] {
+  return times.filter((time) => Number.isFinite(time) && time > 0);
+}
+
+function presetKey(session: AnalyticsSession): string {
+  return session.presetId ?? `name:${session.presetName}`;
+}
+
+/**
+ * Sessions matching the room, preset and date range filters
+ */
+export function filterAnalyticsSessions(
+  sessions: AnalyticsSession[],
+  filter: AnalyticsFilter
+): AnalyticsSession[] {
+  const fromMs = filter.from ? filter.from.getTime() : null;
+  const toMs = filter.to ? filter.to.getTime() : null;
+
+  return sessions.filter((session) => {
+    if (filter.roomId && session.roomId !== filter.roomId) return false;
+    if (filter.presetId && session.presetId !== filter.presetId) return false;
+    const startedAt = Date.parse(session.startedAt);
+    if (fromMs !== null && !(startedAt >= fromMs)) return false;
+    if (toMs !== null && !(startedAt <= toMs)) return false;
+    return true;
+  });
+}
+
+/**
+ * Mean, standard deviation and consistency score of a set of times
+ */
+export function calculateConsistency(times: number[]): ConsistencyStats | null {
+  const values = validTimes(times);
+  if (values.length === 0) {
+    return null;
+  }
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  const standardDeviation = Math.sqrt(variance);
+  const coefficientOfVariation = standardDeviation / mean;
+
+  return {
+    count: values.length,
+    mean: round(mean, 3),
+    standardDeviation: round(standardDeviation, 3),
+    coefficientOfVariation: round(coefficientOfVariation, 3),
+    consistencyScore: Math.round(Math.max(0, 1 - coefficientOfVariation) * 100),
+  };
+}
+
+/**
+ * Count times into equal-width buckets. Without a width, the narrowest
+ * width that keeps the histogram to a readable number of bars is used.
+ */
+export function calculateSplitHistogram(times: number[], bucketSeconds?: number): SplitHistogramBucket[] {
+  const values = validTimes(times);
+  if (values.length === 0) {
+    return [];
+  }
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = bucketSeconds && bucketSeconds > 0
+    ? bucketSeconds
+    : HISTOGRAM_BUCKET_SIZES.find(
+        (size) => Math.floor(max / size) - Math.floor(min / size) + 1 <= MAX_HISTOGRAM_BUCKETS
+      ) ?? HISTOGRAM_BUCKET_SIZES[HISTOGRAM_BUCKET_SIZES.length - 1];
+
+  const firstIndex = Math.floor(min / width);
+  const lastIndex = Math.floor(max / width);
+  const buckets: SplitHistogramBucket[] = [];
+  for (let index = firstIndex; index <= lastIndex; index += 1) {
+    const start = round(index * width, 3);
+    const end = round((index + 1) * width, 3);
+    buckets.push({ start, end, label: `${start}-${end}s`, count: 0 });
+  }
+  values.forEach((value) => {
+    buckets[Math.floor(value / width) - firstIndex].count += 1;
+  });
+
+  return buckets;
+}
+
+/**
+ * Average score trend for each preset, scored in the preset's own direction
+ */
+export function calculatePresetTrends(sessions: AnalyticsSession[]): PresetTrend[] {
+  const groups = new Map<string, AnalyticsSession[]>();
+  sessions.forEach((session) => {
+    const key = presetKey(session);
+    groups.set(key, [...(groups.get(key) ?? []), session]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => {
+      const direction = getScoreDirection(group[0].gameMode);
+      return {
+        key,
+        label: group[0].presetName,
+        direction,
+        sessionCount: group.length,
+        points: calculateScoreTrend(group, 'all', direction),
+        splitConsistency: calculateConsistency(group.flatMap((session) => session.splitTimes)),
+      };
+    })
+    .sort((a, b) => b.sessionCount - a.sessionCount || a.label.localeCompare(b.label));
+}
+
+/**
+ * Transition times per target pair, slowest pair first
+ */
+export function summarizeTransitionPairs(sessions: AnalyticsSession[]): TransitionPairStats[] {
+  const pairs = new Map<string, { fromTarget: string; toTarget: string; times: number[] }>();
+  sessions.forEach((session) => {
+    session.transitions.forEach((transition) => {
+      if (!Number.isFinite(transition.time) || transition.time <= 0) return;
+      const key = `${transition.fromTarget}→${transition.toTarget}`;
+      const pair = pairs.get(key) ?? { fromTarget: transition.fromTarget, toTarget: transition.toTarget, times: [] };
+      pair.times.push(transition.time);
+      pairs.set(key, pair);
+    });
+  });
+
+  return Array.from(pairs.entries())
+    .map(([key, pair]) => {
+      const stats = calculateConsistency(pair.times);
+      return {
+        key,
+        fromTarget: pair.fromTarget,
+        toTarget: pair.toTarget,
+        count: pair.times.length,
+        average: stats?.mean ?? 0,
+        best: round(Math.min(...pair.times), 3),
+        standardDeviation: stats?.standardDeviation ?? 0,
+      };
+    })
+    .sort((a, b) => b.average - a.average);
+}
+
+/**
+ * Session count, average score and accuracy per local time-of-day block.
+ * Only scores in `direction` are averaged.
+ */
+export function calculateTimeOfDayPerformance(
+  sessions: SessionData[],
+  direction: ScoreDirection = DEFAULT_SCORE_DIRECTION
+): TimeOfDayPerformance[] {
+  return TIME_OF_DAY_BLOCKS.map(({ block, label, startHour }) => {
+    const inBlock = sessions.filter((session) => {
+      const hour = new Date(session.startedAt).getHours();
+      return hour >= startHour && hour < startHour + 6;
+    });
+    const scores = inBlock
+      .filter((session) => getScoreDirection(session.gameMode) === direction)
+      .map((session) => session.score)
+      .filter((score) => isCompletedScore(score, direction));
+    const accuracies = inBlock
+      .map((session) => session.accuracyPercentage)
+      .filter((accuracy): accuracy is number => accuracy !== null);
+
+    return {
+      block,
+      label,
+      sessionCount: inBlock.length,
+      avgScore: scores.length > 0 ? round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null,
+      avgAccuracy: accuracies.length > 0
+        ? Math.round(accuracies.reduce((sum, accuracy) => sum + accuracy, 0) / accuracies.length)
+        : null,
+    };
+  });
+}
+
+/**
+ * Everything the analytics page shows for the sessions matching `filter`
+ */
+export function buildSessionAnalytics(
+  sessions: AnalyticsSession[],
+  filter: AnalyticsFilter = {},
+  now: Date = new Date()
+): SessionAnalytics {
+  const filtered = filterAnalyticsSessions(sessions, filter);
+  const splitTimes = filtered.flatMap((session) => session.splitTimes);
+
+  // Sessions per day over the selected range, or since the first session when open-ended
+  const earliest = filtered.reduce(
+    (min, session) => Math.min(min, Date.parse(session.startedAt)),
+    Number.POSITIVE_INFINITY
+  );
+  const rangeStart = filter.from ? filter.from.getTime() : earliest;
+  const rangeEnd = Math.min(filter.to ? filter.to.getTime() : now.getTime(), now.getTime());
+  // The day the range starts on counts, so a session right at the start stays in the window
+  const days = Number.isFinite(rangeStart) ? Math.max(1, Math.floor((rangeEnd - rangeStart) / DAY_MS) + 1) : 0;
+
+  return {
+    sessionCount: filtered.length,
+    sessionsPerDay: calculateSessionsPerDay(filtered, days),
+    presetTrends: calculatePresetTrends(filtered),
+    splitHistogram: calculateSplitHistogram(splitTimes),
+    splitConsistency: calculateConsistency(splitTimes),
+    roundConsistency: calculateConsistency(filtered.flatMap((session) => session.roundTimes)),
+    transitionPairs: summarizeTransitionPairs(filtered),
+    timeOfDay: calculateTimeOfDayPerformance(filtered),
+  };
+}
@@ -9,3 +9,4 @@ export * from './aggregators';
 export * from './mappers';
 export * from './permissions';
 export * from './ports';
+export * from './analytics';
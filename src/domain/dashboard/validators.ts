@@ -7,6 +7,7 @@
 
 import { z } from 'zod';
 import { validateWithSchema, type ValidationResult } from '../shared/validation-helpers';
+import { gameModeIdSchema } from '../games/validators';
 
 /**
  * Dashboard validation constants
@@ -56,6 +57,16 @@ export const targetSummarySchema = z.object({
   lastUpdated: z.number(),
 });
 
+/**
+ * Session totals of one game mode schema
+ */
+export const sessionModeTotalsSchema = z.object({
+  gameMode: gameModeIdSchema,
+  totalSessions: z.number().min(0),
+  bestScore: z.number().nullable(),
+  avgScore: z.number().nullable(),
+});
+
 /**
  * Session totals schema
  */
@@ -63,6 +74,7 @@ export const sessionTotalsSchema = z.object({
   totalSessions: z.number().min(0),
   bestScore: z.number().nullable(),
   avgScore: z.number().nullable(),
+  byMode: z.array(sessionModeTotalsSchema).optional(),
 });
 
 /**
@@ -79,6 +91,7 @@ export const dashboardMetricsSchema = z.object({
 export type DashboardQueryOptions = z.infer<typeof dashboardQueryOptionsSchema>;
 export type SessionMetrics = z.infer<typeof sessionMetricsSchema>;
 export type TargetSummary = z.infer<typeof targetSummarySchema>;
+export type SessionModeTotals = z.infer<typeof sessionModeTotalsSchema>;
 export type SessionTotals = z.infer<typeof sessionTotalsSchema>;
 export type DashboardMetrics = z.infer<typeof dashboardMetricsSchema>;
 
@@ -0,0 +1,90 @@
+/**
+ * Games Domain Clock Sync
+ *
+ * Per-target clock calibration. Each target is pinged a few times; from the
+ * exchange with the shortest round trip its clock offset against the local
+ * clock is estimated (NTP style), and device timestamps are shifted onto the
+ * local clock before splits and transitions are computed from them.
+ * Pure functions - no React or Supabase imports.
+ */
+
+/**
+ * Clock calibration limits
+ */
+export const CLOCK_SYNC_CONSTRAINTS = {
+  /** Pings sent to each target per calibration */
+  SAMPLE_COUNT: 5,
+  /** Exchanges slower than this say little about the offset and are discarded */
+  MAX_ROUND_TRIP_MS: 2_000,
+  /** Calibrations older than this are re-run; target clocks drift */
+  MAX_CALIBRATION_AGE_MS: 6 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * One ping exchange: local send and receive times around the device's reported time
+ */
+export type ClockSample = {
+  sentAt: number;
+  deviceTime: number;
+  receivedAt: number;
+};
+
+/**
+ * Estimated clock offset of one target
+ */
+export type ClockCalibration = {
+  /** Device clock minus local clock, in ms */
+  offsetMs: number;
+  /** Round trip of the exchange the offset was taken from, in ms; the offset is accurate to about half of it */
+  roundTripMs: number;
+  sampleCount: number;
+  calibratedAt: number;
+};
+
+const isUsableSample = (sample: ClockSample) =>
+  Number.isFinite(sample.sentAt) &&
+  Number.isFinite(sample.deviceTime) &&
+  Number.isFinite(sample.receivedAt) &&
+  sample.receivedAt >= sample.sentAt &&
+  sample.receivedAt - sample.sentAt <= CLOCK_SYNC_CONSTRAINTS.MAX_ROUND_TRIP_MS;
+
+/**
+ * Estimate a target's clock offset from its ping exchanges.
+ *
+ * The device is assumed to have read its clock halfway through the round
+ * trip, so the exchange with the shortest round trip gives the tightest
+ * estimate. Returns null when no exchange is usable.
+ */
+export function estimateClockOffset(samples: ClockSample[], calibratedAt: number): ClockCalibration | null {
+  const usable = samples.filter(isUsableSample);
+  if (usable.length === 0) {
+    return null;
+  }
+  const best = usable.reduce((fastest, sample) =>
+    sample.receivedAt - sample.sentAt < fastest.receivedAt - fastest.sentAt ? sample : fastest
+  );
+  const roundTripMs = best.receivedAt - best.sentAt;
+  return {
+    offsetMs: Math.round(best.deviceTime - (best.sentAt + roundTripMs / 2)),
+    roundTripMs,
+    sampleCount: usable.length,
+    calibratedAt,
+  };
+}
+
+/**
+ * Whether a calibration is recent enough to apply
+ */
+export function isCalibrationFresh(calibration: ClockCalibration | null | undefined, now: number): boolean {
+  if (!calibration) {
+    return false;
+  }
+  return now - calibration.calibratedAt <= CLOCK_SYNC_CONSTRAINTS.MAX_CALIBRATION_AGE_MS;
+}
+
+/**
+ * Move a device timestamp onto the local clock; unchanged without a calibration
+ */
+export function toLocalTime(deviceTimestamp: number, calibration: ClockCalibration | null | undefined): number {
+  return calibration ? deviceTimestamp - calibration.offsetMs : deviceTimestamp;
+}
@@ -0,0 +1,266 @@
+/**
+ * Games Domain Drills
+ *
+ * Custom drills built from ordered stages, e.g. "2 hits on T1, then 1 hit each
+ * on T2-T4, then 3 on T1". A stage can carry its own time limit and start beep,
+ * and decides what happens when that limit runs out (advance or end the drill).
+ * Pure functions - no React or Supabase imports.
+ */
+
+import { GAME_CONSTRAINTS, type DrillStageTimeoutAction } from './validators';
+import type { RuleResult, SessionHitRecordForScoring } from './rules';
+
+/**
+ * Drill size limits
+ */
+export const DRILL_CONSTRAINTS = {
+  MIN_STAGES: 1,
+  MAX_STAGES: 20,
+  MAX_STEPS_PER_STAGE: 10,
+  MIN_STAGE_TIME_LIMIT_SECONDS: 1,
+  MAX_STAGE_TIME_LIMIT_SECONDS: 600,
+  STAGE_LABEL_MAX_LENGTH: 40,
+} as const;
+
+/**
+ * Hits required on one target to clear a stage
+ */
+export type DrillStep = {
+  deviceId: string;
+  hits: number;
+};
+
+/**
+ * One stage of a drill. Its steps can be cleared in any order.
+ */
+export type DrillStage = {
+  id: string;
+  /** Display name; falls back to "Stage N" */
+  label?: string | null;
+  steps: DrillStep[];
+  /** Stage time limit in seconds, null for no limit */
+  timeLimitSeconds: number | null;
+  /** Beep the stage's first target when the stage starts */
+  startBeep: boolean;
+  /** Taken when the time limit runs out before the stage is cleared */
+  onTimeout: DrillStageTimeoutAction;
+};
+
+export type DrillStageStatus = 'pending' | 'active' | 'completed' | 'timed-out' | 'skipped';
+
+/**
+ * Progress and timing of a single stage
+ */
+export type DrillStageResult = {
+  stageId: string;
+  /** 0-based position in the drill */
+  index: number;
+  label: string;
+  status: DrillStageStatus;
+  startedAt: number | null;
+  endedAt: number | null;
+  /** Seconds from stage start to its last required hit, or the time limit on timeout */
+  timeSeconds: number | null;
+  /** Hits counted toward the stage's steps, by deviceId */
+  hitsByDevice: Record<string, number>;
+};
+
+/**
+ * Progress of a whole drill at a point in time
+ */
+export type DrillProgress = {
+  stages: DrillStageResult[];
+  /** Stage in progress, null once the drill is over */
+  currentStageIndex: number | null;
+  /** Time limit deadline (epoch ms) of the stage in progress, if it has one */
+  currentStageDeadline: number | null;
+  /** Every stage is resolved: cleared, timed out or skipped */
+  isComplete: boolean;
+  /** A stage timeout ended the drill before its last stage */
+  endedEarly: boolean;
+  /** Seconds from drill start to the end of the last resolved stage; null until complete */
+  totalTimeSeconds: number | null;
+};
+
+/**
+ * Display name of a stage
+ */
+export function getDrillStageLabel(stage: Pick<DrillStage, 'label'>, index: number): string {
+  const label = stage.label?.trim();
+  return label ? label : `Stage ${index + 1}`;
+}
+
+/**
+ * Check a drill against the session's selected targets
+ */
+export function validateDrill(stages: DrillStage[], targetIds: string[]): RuleResult {
+  if (stages.length < DRILL_CONSTRAINTS.MIN_STAGES || stages.length > DRILL_CONSTRAINTS.MAX_STAGES) {
+    return {
+      valid: false,
+      violation: `A drill needs ${DRILL_CONSTRAINTS.MIN_STAGES}-${DRILL_CONSTRAINTS.MAX_STAGES} stages`,
+      code: 'INVALID_DRILL_SIZE',
+    };
+  }
+
+  const selected = new Set(targetIds);
+  for (const [index, stage] of stages.entries()) {
+    const label = getDrillStageLabel(stage, index);
+
+    if (stage.steps.length === 0 || stage.steps.length > DRILL_CONSTRAINTS.MAX_STEPS_PER_STAGE) {
+      return {
+        valid: false,
+        violation: `${label} needs 1-${DRILL_CONSTRAINTS.MAX_STEPS_PER_STAGE} targets`,
+        code: 'INVALID_STAGE_STEPS',
+      };
+    }
+
+    const stageTargets = new Set<string>();
+    for (const step of stage.steps) {
+      if (!selected.has(step.deviceId)) {
+        return {
+          valid: false,
+          violation: `${label} uses a target that is not selected for this session`,
+          code: 'STAGE_TARGET_NOT_SELECTED',
+        };
+      }
+      if (stageTargets.has(step.deviceId)) {
+        return {
+          valid: false,
+          violation: `${label} lists the same target twice`,
+          code: 'DUPLICATE_STAGE_TARGET',
+        };
+      }
+      stageTargets.add(step.deviceId);
+      if (
+        !Number.isInteger(step.hits) ||
+        step.hits < GAME_CONSTRAINTS.MIN_SHOTS_PER_TARGET ||
+        step.hits > GAME_CONSTRAINTS.MAX_SHOTS_PER_TARGET
+      ) {
+        return {
+          valid: false,
+          violation: `${label} hits must be whole numbers between ${GAME_CONSTRAINTS.MIN_SHOTS_PER_TARGET} and ${GAME_CONSTRAINTS.MAX_SHOTS_PER_TARGET}`,
+          code: 'INVALID_STAGE_HITS',
+        };
+      }
+    }
+
+    if (
+      stage.timeLimitSeconds !== null &&
+      (stage.timeLimitSeconds < DRILL_CONSTRAINTS.MIN_STAGE_TIME_LIMIT_SECONDS ||
+        stage.timeLimitSeconds > DRILL_CONSTRAINTS.MAX_STAGE_TIME_LIMIT_SECONDS)
+    ) {
+      return {
+        valid: false,
+        violation: `${label} time limit must be ${DRILL_CONSTRAINTS.MIN_STAGE_TIME_LIMIT_SECONDS}-${DRILL_CONSTRAINTS.MAX_STAGE_TIME_LIMIT_SECONDS} seconds`,
+        code: 'INVALID_STAGE_TIME_LIMIT',
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Walk the hit history through the drill's stages.
+ *
+ * Stages run back to back: each starts when the previous one is cleared (its
+ * last required hit) or times out. Hits only count toward the stage in progress;
+ * hits on other targets, or beyond a step's count, are ignored. `asOf` is the
+ * time the drill is evaluated at (now while live, the session end afterwards)
+ * and decides whether a stage without further hits has run out of time.
+ */
+export function evaluateDrillProgress(
+  hitHistory: SessionHitRecordForScoring[],
+  stages: DrillStage[],
+  startTime: number,
+  asOf: number
+): DrillProgress {
+  const hits = hitHistory
+    .filter((hit) => hit.timestamp >= startTime)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const results: DrillStageResult[] = stages.map((stage, index) => ({
+    stageId: stage.id,
+    index,
+    label: getDrillStageLabel(stage, index),
+    status: 'pending',
+    startedAt: null,
+    endedAt: null,
+    timeSeconds: null,
+    hitsByDevice: {},
+  }));
+
+  let cursor = 0;
+  let stageStart = startTime;
+  let currentStageIndex: number | null = null;
+  let currentStageDeadline: number | null = null;
+  let endedEarly = false;
+
+  for (const [index, stage] of stages.entries()) {
+    const result = results[index];
+    const required = new Map(stage.steps.map((step) => [step.deviceId, step.hits]));
+    const deadline = stage.timeLimitSeconds ? stageStart + stage.timeLimitSeconds * 1000 : null;
+    result.startedAt = stageStart;
+
+    let clearedAt: number | null = stage.steps.length === 0 ? stageStart : null;
+    while (clearedAt === null && cursor < hits.length) {
+      const hit = hits[cursor];
+      if (deadline !== null && hit.timestamp > deadline) {
+        break;
+      }
+      cursor += 1;
+      const needed = required.get(hit.deviceId);
+      const counted = result.hitsByDevice[hit.deviceId] ?? 0;
+      if (needed === undefined || counted >= needed) {
+        continue;
+      }
+      result.hitsByDevice[hit.deviceId] = counted + 1;
+      if (stage.steps.every((step) => (result.hitsByDevice[step.deviceId] ?? 0) >= step.hits)) {
+        clearedAt = hit.timestamp;
+      }
+    }
+
+    if (clearedAt !== null) {
+      result.status = 'completed';
+      result.endedAt = clearedAt;
+      result.timeSeconds = (clearedAt - stageStart) / 1000;
+      stageStart = clearedAt;
+      continue;
+    }
+
+    // Leaving the loop early means a later hit landed past the deadline.
+    const timedOut = deadline !== null && (cursor < hits.length || asOf >= deadline);
+    if (!timedOut) {
+      result.status = 'active';
+      currentStageIndex = index;
+      currentStageDeadline = deadline;
+      break;
+    }
+
+    result.status = 'timed-out';
+    result.endedAt = deadline;
+    result.timeSeconds = stage.timeLimitSeconds;
+    stageStart = deadline;
+    if (stage.onTimeout === 'end') {
+      endedEarly = index < stages.length - 1;
+      results.slice(index + 1).forEach((skipped) => {
+        skipped.status = 'skipped';
+      });
+      break;
+    }
+  }
+
+  const isComplete = currentStageIndex === null;
+  const lastEndedAt = results.reduce<number | null>(
+    (latest, result) => (result.endedAt !== null ? Math.max(latest ?? result.endedAt, result.endedAt) : latest),
+    null
+  );
+
+  return {
+    stages: results,
+    currentStageIndex,
+    currentStageDeadline,
+    isComplete,
+    endedEarly,
+    totalTimeSeconds: isComplete && lastEndedAt !== null ? (lastEndedAt - startTime) / 1000 : null,
+  };
+}
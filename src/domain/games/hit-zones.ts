@@ -0,0 +1,97 @@
+/**
+ * Games Domain Hit Zones
+ *
+ * Rules for the scoring zone (A/C/D) and impact intensity zoned targets
+ * report with each hit: reading them from telemetry, weighting hits by
+ * zone and summarising where hits landed.
+ * Pure functions - no React or Supabase imports.
+ */
+
+/**
+ * Scoring zones of a zoned target, centre first
+ */
+export const HIT_ZONES = ['A', 'C', 'D'] as const;
+
+export type HitZone = typeof HIT_ZONES[number];
+
+/**
+ * Value of a hit in each zone relative to an A-zone hit (5/3/1 points).
+ * Hits from targets without zones count as A-zone hits.
+ */
+export const HIT_ZONE_WEIGHTS: Record<HitZone, number> = {
+  A: 1,
+  C: 0.6,
+  D: 0.2,
+};
+
+/**
+ * Hits per zone; `unzoned` counts hits from targets that report no zone
+ */
+export type HitZoneDistribution = Record<HitZone, number> & { unzoned: number };
+
+/**
+ * A hit as far as zone rules are concerned
+ */
+export type ZonedHit = {
+  zone?: HitZone | null;
+};
+
+/**
+ * Read a zone as targets report it ("A", "c", ...); anything else is no zone
+ */
+export function parseHitZone(value: unknown): HitZone | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const zone = value.trim().toUpperCase();
+  return (HIT_ZONES as readonly string[]).includes(zone) ? (zone as HitZone) : null;
+}
+
+/**
+ * Read an impact intensity; only finite, non-negative readings are kept
+ */
+export function parseHitIntensity(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const intensity = Number(value);
+  return Number.isFinite(intensity) && intensity >= 0 ? intensity : null;
+}
+
+/**
+ * Weight of a single hit by its zone
+ */
+export function hitZoneWeight(zone: HitZone | null | undefined): number {
+  return zone ? HIT_ZONE_WEIGHTS[zone] : 1;
+}
+
+/**
+ * Hit count with each hit weighted by its zone
+ */
+export function weightedHitCount(hits: ZonedHit[]): number {
+  const total = hits.reduce((sum, hit) => sum + hitZoneWeight(hit.zone), 0);
+  return Number(total.toFixed(2));
+}
+
+/**
+ * Count hits per zone
+ */
+export function summarizeHitZones(hits: ZonedHit[]): HitZoneDistribution {
+  const distribution: HitZoneDistribution = { A: 0, C: 0, D: 0, unzoned: 0 };
+  hits.forEach((hit) => {
+    const zone = parseHitZone(hit.zone);
+    if (zone) {
+      distribution[zone] += 1;
+    } else {
+      distribution.unzoned += 1;
+    }
+  });
+  return distribution;
+}
+
+/**
+ * Hits that reported a zone
+ */
+export function countZonedHits(distribution: HitZoneDistribution): number {
+  return HIT_ZONES.reduce((sum, zone) => sum + distribution[zone], 0);
+}
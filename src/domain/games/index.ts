@@ -6,5 +6,19 @@
 
 export * from './validators';
 export * from './rules';
+export * from './modes';
+export * from './squads';
+export * from './drills';
+export * from './personal-bests';
+export * from './start-signal';
+export * from './qualifications';
+export * from './recovery';
+export * from './clock-sync';
+export * from './telemetry-health';
+export * from './preflight';
+export * from './start-recovery';
+export * from './pauses';
+export * from './hit-zones';
 export * from './permissions';
 export * from './mappers';
+export * from './training-programs';
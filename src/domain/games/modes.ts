@@ -0,0 +1,773 @@
+/**
+ * Games Domain Game Modes
+ *
+ * Registry of scoring modes a session (or preset) can run under.
+ * Each mode defines its own validation, live progress, end condition and final scoring.
+ * Pure functions - no React or Supabase imports.
+ */
+
+import {
+  GAME_CONSTRAINTS,
+  GAME_MODE_IDS,
+  type GameModeId,
+} from './validators';
+import {
+  calculateSessionScore,
+  type RuleResult,
+  type SessionHitRecordForScoring,
+  type SessionPenaltyEntry,
+  type SessionScoreResult,
+} from './rules';
+import { weightedHitCount } from './hit-zones';
+import type { ScoreDirection } from '../shared/score-direction';
+
+/**
+ * Mode used when a preset or session does not specify one
+ */
+export const DEFAULT_GAME_MODE_ID: GameModeId = 'time-to-goal';
+
+/**
+ * Fixed drill parameters for the standard drills
+ */
+export const GAME_MODE_DEFAULTS = {
+  BILL_DRILL_SHOTS: 6,
+  EL_PRESIDENTE_TARGETS: 3,
+  EL_PRESIDENTE_SHOTS_PER_STRING: 2,
+  EL_PRESIDENTE_STRINGS: 2,
+  RANDOM_CALLOUT_COUNT: 5,
+  RANDOM_CALLOUT_MIN_TARGETS: 2,
+  /** Time a called target waits for a response before the callout counts as missed */
+  RANDOM_CALLOUT_RESPONSE_WINDOW_MS: 3000,
+  /** Random delay range between one callout resolving and the next being issued */
+  RANDOM_CALLOUT_MIN_DELAY_MS: 1500,
+  RANDOM_CALLOUT_MAX_DELAY_MS: 4000,
+  /** Seconds added to the score for each hit on a target that was not called */
+  RANDOM_CALLOUT_WRONG_TARGET_PENALTY_SECONDS: 1,
+  /** Par-time penalties (seconds) used when a target has no override */
+  PAR_TIME_MISS_PENALTY_SECONDS: 5,
+  PAR_TIME_EXTRA_HIT_PENALTY_SECONDS: 1,
+  PAR_TIME_OUT_OF_ORDER_PENALTY_SECONDS: 3,
+} as const;
+
+/**
+ * Unit of the score a mode produces
+ */
+export type GameModeScoreUnit = 'seconds' | 'hits';
+
+/**
+ * A single target callout issued during a callout drill
+ */
+export type GameModeCallout = {
+  deviceId: string;
+  /** Timestamp (ms) at which the target was called */
+  calledAt: number;
+  /** Timestamp (ms) at which the response window closed unanswered; hits after it no longer count */
+  expiredAt?: number | null;
+};
+
+/**
+ * Outcome of a single callout
+ */
+export type GameModeCalloutResult = GameModeCallout & {
+  /** Time (ms) from the callout to the first hit on the called target, null if unanswered */
+  reactionTimeMs: number | null;
+  /** Timestamp (ms) of the answering hit, null if unanswered */
+  respondedAt: number | null;
+  /** Hits on other targets while this callout was active */
+  wrongTargetHits: number;
+};
+
+/**
+ * How a hit relates to the callouts around it
+ * - response: first hit on the called target after the callout
+ * - wrong-target: hit on a target that was not called
+ * - stray: hit before the first callout or a repeat hit on an answered target
+ */
+export type GameModeCalloutHitKind = 'response' | 'wrong-target' | 'stray';
+
+export type GameModeCalloutHitClassification = {
+  kind: GameModeCalloutHitKind;
+  /** Index (in call order) of the callout the hit falls under, null before the first callout */
+  calloutIndex: number | null;
+  /** Reaction time (ms) for response hits, otherwise null */
+  reactionTimeMs: number | null;
+};
+
+/**
+ * Penalty values (seconds) applied per occurrence on a target in the par-time mode
+ */
+export type GameModePenaltyValues = {
+  /** Each required hit that never landed */
+  missSeconds: number;
+  /** Each hit beyond the target's required count */
+  extraHitSeconds: number;
+  /** Each hit landed before an earlier target in the order was complete */
+  outOfOrderSeconds: number;
+};
+
+/**
+ * Session configuration a mode is evaluated against
+ */
+export type GameModeConfig = {
+  /** Device IDs taking part in the session */
+  targetIds: string[];
+  /** Map of deviceId to required hit count */
+  goalShotsPerTarget: Record<string, number>;
+  /** Required engagement order for order-enforced sessions */
+  targetOrder?: string[];
+  /** Time limit in seconds for timed modes */
+  timeLimitSeconds?: number | null;
+  /** Number of callouts a callout drill issues */
+  calloutCount?: number | null;
+  /** Callouts issued so far (callout drills only) */
+  callouts?: GameModeCallout[];
+  /** Par time per target in seconds from the start signal (par-time mode) */
+  parTimesPerTarget?: Record<string, number>;
+  /** Per-target penalty overrides (par-time mode); missing values use the defaults */
+  penaltiesPerTarget?: Record<string, Partial<GameModePenaltyValues>>;
+  /** Shots fired in the session when counted; misses beyond unmet goals add penalties in the par-time mode */
+  shotsFired?: number | null;
+};
+
+/**
+ * Live progress towards a mode's end condition
+ */
+export type GameModeProgress = {
+  /** Hits (or callouts) counted towards the end condition */
+  completed: number;
+  /** Total required to finish, or null when the mode is open-ended */
+  required: number | null;
+  /** Fraction of the end condition reached (0..1), or null when unknown */
+  ratio: number | null;
+};
+
+/**
+ * Game mode definition
+ */
+export interface GameModeDefinition {
+  id: GameModeId;
+  label: string;
+  description: string;
+  scoreUnit: GameModeScoreUnit;
+  /** Which way the score runs; every ranking, best and rating follows it */
+  scoreDirection: ScoreDirection;
+  /** Whether the mode reads per-target goal shots from the session configuration */
+  usesGoalShots: boolean;
+  /** Check the session configuration before launch */
+  validate(config: GameModeConfig): RuleResult;
+  /** Progress towards the end condition while the session is running */
+  getProgress(hits: SessionHitRecordForScoring[], config: GameModeConfig, elapsedMs: number): GameModeProgress;
+  /** Whether the session has reached its end condition and should stop */
+  isComplete(hits: SessionHitRecordForScoring[], config: GameModeConfig, elapsedMs: number): boolean;
+  /** Final score for a finished session */
+  score(hits: SessionHitRecordForScoring[], config: GameModeConfig, startTime: number): SessionScoreResult;
+}
+
+const toRatio = (completed: number, required: number | null): number | null => {
+  if (required === null || required <= 0) {
+    return null;
+  }
+  return Math.min(1, completed / required);
+};
+
+const countHitsByDevice = (hits: SessionHitRecordForScoring[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const hit of hits) {
+    counts.set(hit.deviceId, (counts.get(hit.deviceId) ?? 0) + 1);
+  }
+  return counts;
+};
+
+const sortHits = (hits: SessionHitRecordForScoring[]): SessionHitRecordForScoring[] =>
+  [...hits].sort((a, b) => a.timestamp - b.timestamp);
+
+/**
+ * Diagnostic splits/transitions without any goal requirements
+ */
+const buildDiagnostics = (
+  hits: SessionHitRecordForScoring[],
+  startTime: number
+): Pick<SessionScoreResult, 'splitsByTarget' | 'transitionTimes'> => {
+  const { splitsByTarget, transitionTimes } = calculateSessionScore(hits, {}, startTime);
+  return { splitsByTarget, transitionTimes };
+};
+
+const sumPenalties = (penalties: SessionPenaltyEntry[]): number =>
+  Number(penalties.reduce((sum, entry) => sum + entry.seconds, 0).toFixed(2));
+
+const validateGoalShots = (goalShotsPerTarget: Record<string, number>): RuleResult => {
+  for (const [deviceId, shots] of Object.entries(goalShotsPerTarget)) {
+    if (
+      !Number.isInteger(shots) ||
+      shots < GAME_CONSTRAINTS.MIN_SHOTS_PER_TARGET ||
+      shots > GAME_CONSTRAINTS.MAX_SHOTS_PER_TARGET
+    ) {
+      return {
+        valid: false,
+        violation: `Goal shots for ${deviceId} must be between ${GAME_CONSTRAINTS.MIN_SHOTS_PER_TARGET} and ${GAME_CONSTRAINTS.MAX_SHOTS_PER_TARGET}`,
+        code: 'INVALID_SHOTS_PER_TARGET',
+      };
+    }
+  }
+  return { valid: true };
+};
+
+const requireTargetCount = (config: GameModeConfig, count: number, label: string): RuleResult => {
+  if (config.targetIds.length !== count) {
+    return {
+      valid: false,
+      violation: `${label} requires exactly ${count} target${count === 1 ? '' : 's'}`,
+      code: 'INVALID_TARGET_COUNT',
+    };
+  }
+  return { valid: true };
+};
+
+/**
+ * Progress for goal-based modes: hits counted up to each target's goal
+ */
+const goalProgress = (
+  hits: SessionHitRecordForScoring[],
+  goalShotsPerTarget: Record<string, number>
+): GameModeProgress => {
+  const goals = Object.entries(goalShotsPerTarget);
+  if (goals.length === 0) {
+    return { completed: hits.length, required: null, ratio: null };
+  }
+  const counts = countHitsByDevice(hits);
+  const required = goals.reduce((sum, [, shots]) => sum + shots, 0);
+  const completed = goals.reduce(
+    (sum, [deviceId, shots]) => sum + Math.min(counts.get(deviceId) ?? 0, shots),
+    0
+  );
+  return { completed, required, ratio: toRatio(completed, required) };
+};
+
+const areGoalsMet = (
+  hits: SessionHitRecordForScoring[],
+  goalShotsPerTarget: Record<string, number>
+): boolean => {
+  const goals = Object.entries(goalShotsPerTarget);
+  if (goals.length === 0) {
+    return false;
+  }
+  const counts = countHitsByDevice(hits);
+  return goals.every(([deviceId, shots]) => (counts.get(deviceId) ?? 0) >= shots);
+};
+
+/**
+ * Time to goal: elapsed time of the last required hit (the original scoring model)
+ */
+const timeToGoalMode: GameModeDefinition = {
+  id: 'time-to-goal',
+  label: 'Time to goal',
+  description: 'Hit every target its goal number of times as fast as possible.',
+  scoreUnit: 'seconds',
+  scoreDirection: 'lower-is-better',
+  usesGoalShots: true,
+  validate: (config) => validateGoalShots(config.goalShotsPerTarget),
+  getProgress: (hits, config) => goalProgress(hits, config.goalShotsPerTarget),
+  isComplete: (hits, config) => areGoalsMet(hits, config.goalShotsPerTarget),
+  score: (hits, config, startTime) =>
+    calculateSessionScore(hits, config.goalShotsPerTarget, startTime, {
+      targetOrder: config.targetOrder,
+    }),
+};
+
+/**
+ * Most hits: count of hits landed before the time limit expires, weighted by zone
+ */
+const mostHitsMode: GameModeDefinition = {
+  id: 'most-hits',
+  label: 'Most hits',
+  description: 'Land as many hits as possible before the time limit expires. On zoned targets, C- and D-zone hits count for less.',
+  scoreUnit: 'hits',
+  scoreDirection: 'higher-is-better',
+  usesGoalShots: false,
+  validate: (config) => {
+    const limit = config.timeLimitSeconds;
+    if (typeof limit !== 'number' || !Number.isFinite(limit) || limit <= 0) {
+      return {
+        valid: false,
+        violation: 'Most hits requires a time limit',
+        code: 'MISSING_TIME_LIMIT',
+      };
+    }
+    return { valid: true };
+  },
+  getProgress: (hits, config, elapsedMs) => {
+    const limitMs = (config.timeLimitSeconds ?? 0) * 1000;
+    return {
+      completed: hits.length,
+      required: null,
+      ratio: limitMs > 0 ? Math.min(1, Math.max(0, elapsedMs) / limitMs) : null,
+    };
+  },
+  isComplete: (_hits, config, elapsedMs) => {
+    const limitMs = (config.timeLimitSeconds ?? 0) * 1000;
+    return limitMs > 0 && elapsedMs >= limitMs;
+  },
+  score: (hits, config, startTime) => {
+    const limitMs = (config.timeLimitSeconds ?? 0) * 1000;
+    const counted = hits.filter((hit) => {
+      const offset = hit.timestamp - startTime;
+      return offset >= 0 && (limitMs <= 0 || offset <= limitMs);
+    });
+    return {
+      score: weightedHitCount(counted),
+      isValid: true,
+      ...buildDiagnostics(counted, startTime),
+      lastRequiredHitTimeByTarget: {},
+    };
+  },
+};
+
+const billDrillGoals = (config: GameModeConfig): Record<string, number> => {
+  const [targetId] = config.targetIds;
+  return targetId ? { [targetId]: GAME_MODE_DEFAULTS.BILL_DRILL_SHOTS } : {};
+};
+
+/**
+ * Bill drill: six hits on a single target, scored on the time of the sixth hit
+ */
+const billDrillMode: GameModeDefinition = {
+  id: 'bill-drill',
+  label: 'Bill drill',
+  description: `${GAME_MODE_DEFAULTS.BILL_DRILL_SHOTS} hits on one target from the start signal.`,
+  scoreUnit: 'seconds',
+  scoreDirection: 'lower-is-better',
+  usesGoalShots: false,
+  validate: (config) => requireTargetCount(config, 1, 'Bill drill'),
+  getProgress: (hits, config) => goalProgress(hits, billDrillGoals(config)),
+  isComplete: (hits, config) => areGoalsMet(hits, billDrillGoals(config)),
+  score: (hits, config, startTime) => calculateSessionScore(hits, billDrillGoals(config), startTime),
+};
+
+const EL_PRESIDENTE_SHOTS_PER_TARGET =
+  GAME_MODE_DEFAULTS.EL_PRESIDENTE_SHOTS_PER_STRING * GAME_MODE_DEFAULTS.EL_PRESIDENTE_STRINGS;
+
+/**
+ * El Presidente: two hits on each of three targets, reload, then two more on each.
+ * A target may not receive hits from the next string before the current string is complete.
+ */
+const elPresidenteMode: GameModeDefinition = {
+  id: 'el-presidente',
+  label: 'El Presidente',
+  description: 'Two hits on each of three targets, reload, then two more on each.',
+  scoreUnit: 'seconds',
+  scoreDirection: 'lower-is-better',
+  usesGoalShots: false,
+  validate: (config) =>
+    requireTargetCount(config, GAME_MODE_DEFAULTS.EL_PRESIDENTE_TARGETS, 'El Presidente'),
+  getProgress: (hits, config) =>
+    goalProgress(
+      hits,
+      Object.fromEntries(config.targetIds.map((id) => [id, EL_PRESIDENTE_SHOTS_PER_TARGET]))
+    ),
+  isComplete: (hits, config) =>
+    areGoalsMet(
+      hits,
+      Object.fromEntries(config.targetIds.map((id) => [id, EL_PRESIDENTE_SHOTS_PER_TARGET]))
+    ),
+  score: (hits, config, startTime) => {
+    const targetSet = new Set(config.targetIds);
+    const sortedHits = sortHits(hits).filter((hit) => targetSet.has(hit.deviceId));
+    const counts = new Map<string, number>(config.targetIds.map((id) => [id, 0]));
+    const lastRequiredHitTimeByTarget: Record<string, number | null> = Object.fromEntries(
+      config.targetIds.map((id) => [id, null])
+    );
+    const perString = GAME_MODE_DEFAULTS.EL_PRESIDENTE_SHOTS_PER_STRING;
+    let currentString = 1;
+    let isValid = true;
+    let finishedAt: number | null = null;
+
+    for (const hit of sortedHits) {
+      const count = counts.get(hit.deviceId) ?? 0;
+      if (count >= EL_PRESIDENTE_SHOTS_PER_TARGET) {
+        // Extra hits after the drill is complete on this target are ignored
+        continue;
+      }
+      if (count >= currentString * perString) {
+        // Hit belongs to a later string while the current string is unfinished
+        isValid = false;
+        break;
+      }
+      counts.set(hit.deviceId, count + 1);
+      if (count + 1 === EL_PRESIDENTE_SHOTS_PER_TARGET) {
+        lastRequiredHitTimeByTarget[hit.deviceId] = (hit.timestamp - startTime) / 1000;
+      }
+      const stringComplete = config.targetIds.every(
+        (id) => (counts.get(id) ?? 0) >= currentString * perString
+      );
+      if (stringComplete) {
+        if (currentString === GAME_MODE_DEFAULTS.EL_PRESIDENTE_STRINGS) {
+          finishedAt = hit.timestamp;
+          break;
+        }
+        currentString += 1;
+      }
+    }
+
+    const completed = isValid && finishedAt !== null;
+    return {
+      score: completed ? Number(((finishedAt! - startTime) / 1000).toFixed(2)) : null,
+      isValid: completed,
+      ...buildDiagnostics(sortedHits, startTime),
+      lastRequiredHitTimeByTarget,
+    };
+  },
+};
+
+/**
+ * Number of callouts a callout drill issues (configured count or the default)
+ */
+export function resolveCalloutCount(config: Pick<GameModeConfig, 'calloutCount'>): number {
+  const count = config.calloutCount;
+  return typeof count === 'number' && Number.isFinite(count) && count > 0
+    ? Math.round(count)
+    : GAME_MODE_DEFAULTS.RANDOM_CALLOUT_COUNT;
+}
+
+const sortCallouts = (callouts: GameModeCallout[]): GameModeCallout[] =>
+  [...callouts].sort((a, b) => a.calledAt - b.calledAt);
+
+/**
+ * Classify each hit against the callouts issued during the session.
+ * A callout is active from the moment it is called until the next callout;
+ * the first hit on the called target answers it, hits on any other target are wrong-target hits.
+ * Results are aligned with the input `hits` array.
+ */
+export function classifyCalloutHits(
+  hits: SessionHitRecordForScoring[],
+  callouts: GameModeCallout[]
+): GameModeCalloutHitClassification[] {
+  const sortedCallouts = sortCallouts(callouts);
+  const answered = new Set<number>();
+  const order = hits
+    .map((hit, index) => ({ hit, index }))
+    .sort((a, b) => a.hit.timestamp - b.hit.timestamp);
+  const result: GameModeCalloutHitClassification[] = new Array(hits.length);
+
+  for (const { hit, index } of order) {
+    let calloutIndex = -1;
+    for (let i = sortedCallouts.length - 1; i >= 0; i -= 1) {
+      if (sortedCallouts[i].calledAt <= hit.timestamp) {
+        calloutIndex = i;
+        break;
+      }
+    }
+    if (calloutIndex < 0) {
+      result[index] = { kind: 'stray', calloutIndex: null, reactionTimeMs: null };
+      continue;
+    }
+    const callout = sortedCallouts[calloutIndex];
+    const expired = typeof callout.expiredAt === 'number' && hit.timestamp > callout.expiredAt;
+    if (hit.deviceId !== callout.deviceId) {
+      result[index] = { kind: 'wrong-target', calloutIndex, reactionTimeMs: null };
+    } else if (!answered.has(calloutIndex) && !expired) {
+      answered.add(calloutIndex);
+      result[index] = { kind: 'response', calloutIndex, reactionTimeMs: hit.timestamp - callout.calledAt };
+    } else {
+      result[index] = { kind: 'stray', calloutIndex, reactionTimeMs: null };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Per-callout outcome (reaction time and wrong-target hits), in call order
+ */
+export function evaluateCallouts(
+  hits: SessionHitRecordForScoring[],
+  callouts: GameModeCallout[]
+): GameModeCalloutResult[] {
+  const results: GameModeCalloutResult[] = sortCallouts(callouts).map((callout) => ({
+    ...callout,
+    reactionTimeMs: null,
+    respondedAt: null,
+    wrongTargetHits: 0,
+  }));
+  classifyCalloutHits(hits, callouts).forEach((classification, index) => {
+    if (classification.calloutIndex === null) {
+      return;
+    }
+    const entry = results[classification.calloutIndex];
+    if (classification.kind === 'response') {
+      entry.reactionTimeMs = classification.reactionTimeMs;
+      entry.respondedAt = hits[index].timestamp;
+    } else if (classification.kind === 'wrong-target') {
+      entry.wrongTargetHits += 1;
+    }
+  });
+  return results;
+}
+
+const isCalloutResolved = (result: GameModeCalloutResult): boolean =>
+  result.reactionTimeMs !== null || typeof result.expiredAt === 'number';
+
+/**
+ * Reaction time (seconds) for each callout: first hit on the called target
+ * after the callout and before the next one. Null when the callout went unanswered.
+ */
+export function calculateCalloutReactionTimes(
+  hits: SessionHitRecordForScoring[],
+  callouts: GameModeCallout[]
+): Array<number | null> {
+  return evaluateCallouts(hits, callouts).map((result) =>
+    result.reactionTimeMs === null ? null : result.reactionTimeMs / 1000
+  );
+}
+
+/**
+ * Random callout: targets are called one at a time; score is the total reaction time
+ * plus a fixed penalty for every hit on a target that was not called
+ */
+const randomCalloutMode: GameModeDefinition = {
+  id: 'random-callout',
+  label: 'Random callout',
+  description: 'Engage each target as it is called out; total reaction time is scored and wrong-target hits are penalized.',
+  scoreUnit: 'seconds',
+  scoreDirection: 'lower-is-better',
+  usesGoalShots: false,
+  validate: (config) => {
+    if (config.targetIds.length < GAME_MODE_DEFAULTS.RANDOM_CALLOUT_MIN_TARGETS) {
+      return {
+        valid: false,
+        violation: `Random callout requires at least ${GAME_MODE_DEFAULTS.RANDOM_CALLOUT_MIN_TARGETS} targets`,
+        code: 'INVALID_TARGET_COUNT',
+      };
+    }
+    return { valid: true };
+  },
+  getProgress: (hits, config) => {
+    const required = resolveCalloutCount(config);
+    const completed = evaluateCallouts(hits, config.callouts ?? []).filter(isCalloutResolved).length;
+    return { completed, required, ratio: toRatio(completed, required) };
+  },
+  isComplete: (hits, config) => {
+    // Done once every required callout has been issued and either answered or expired
+    const required = resolveCalloutCount(config);
+    const results = evaluateCallouts(hits, config.callouts ?? []);
+    return results.length >= required && results.every(isCalloutResolved);
+  },
+  score: (hits, config, startTime) => {
+    const required = resolveCalloutCount(config);
+    const results = evaluateCallouts(hits, config.callouts ?? []);
+    const isValid =
+      results.length >= required && results.every((result) => result.reactionTimeMs !== null);
+    const wrongTargetHits = results.reduce((sum, result) => sum + result.wrongTargetHits, 0);
+    const rawTotal = results.reduce((sum, result) => sum + (result.reactionTimeMs ?? 0), 0) / 1000;
+    const penalties: SessionPenaltyEntry[] =
+      wrongTargetHits > 0
+        ? [
+            {
+              kind: 'wrong-target',
+              deviceId: null,
+              count: wrongTargetHits,
+              seconds: wrongTargetHits * GAME_MODE_DEFAULTS.RANDOM_CALLOUT_WRONG_TARGET_PENALTY_SECONDS,
+            },
+          ]
+        : [];
+    const penaltySeconds = sumPenalties(penalties);
+    return {
+      score: isValid ? Number((rawTotal + penaltySeconds).toFixed(2)) : null,
+      isValid,
+      ...buildDiagnostics(hits, startTime),
+      lastRequiredHitTimeByTarget: {},
+      rawScore: isValid ? Number(rawTotal.toFixed(2)) : null,
+      penaltySeconds,
+      penalties,
+    };
+  },
+};
+
+/**
+ * Penalty values for a target, falling back to the defaults for anything not overridden
+ */
+export function resolvePenaltyValues(
+  config: Pick<GameModeConfig, 'penaltiesPerTarget'>,
+  deviceId: string
+): GameModePenaltyValues {
+  const override = config.penaltiesPerTarget?.[deviceId] ?? {};
+  const pick = (value: number | undefined, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+  return {
+    missSeconds: pick(override.missSeconds, GAME_MODE_DEFAULTS.PAR_TIME_MISS_PENALTY_SECONDS),
+    extraHitSeconds: pick(override.extraHitSeconds, GAME_MODE_DEFAULTS.PAR_TIME_EXTRA_HIT_PENALTY_SECONDS),
+    outOfOrderSeconds: pick(override.outOfOrderSeconds, GAME_MODE_DEFAULTS.PAR_TIME_OUT_OF_ORDER_PENALTY_SECONDS),
+  };
+}
+
+/** Required hits per target in the par-time mode (one hit when no goal is set) */
+const parTimeGoals = (config: GameModeConfig): Record<string, number> =>
+  Object.fromEntries(config.targetIds.map((id) => [id, config.goalShotsPerTarget[id] ?? 1]));
+
+/**
+ * Par time: each target's required hits must land within its par time.
+ * Final time = raw time (last counted hit) + penalties for misses, extra hits,
+ * out-of-order hits and time over par. Misses are penalized rather than a DNF.
+ */
+const parTimeMode: GameModeDefinition = {
+  id: 'par-time',
+  label: 'Par time',
+  description: 'Beat each target\'s par time; misses, extra and out-of-order hits add time penalties.',
+  scoreUnit: 'seconds',
+  scoreDirection: 'lower-is-better',
+  usesGoalShots: true,
+  validate: (config) => {
+    const goalsResult = validateGoalShots(config.goalShotsPerTarget);
+    if (!goalsResult.valid) {
+      return goalsResult;
+    }
+    for (const [deviceId, par] of Object.entries(config.parTimesPerTarget ?? {})) {
+      if (!Number.isFinite(par) || par <= 0) {
+        return {
+          valid: false,
+          violation: `Par time for ${deviceId} must be greater than 0 seconds`,
+          code: 'INVALID_PAR_TIME',
+        };
+      }
+    }
+    return { valid: true };
+  },
+  getProgress: (hits, config) => goalProgress(hits, parTimeGoals(config)),
+  isComplete: (hits, config) => areGoalsMet(hits, parTimeGoals(config)),
+  score: (hits, config, startTime) => {
+    const goals = parTimeGoals(config);
+    const order = config.targetOrder && config.targetOrder.length > 0 ? config.targetOrder : config.targetIds;
+    const targetSet = new Set(config.targetIds);
+    const sortedHits = sortHits(hits).filter((hit) => targetSet.has(hit.deviceId));
+    const counts = new Map<string, number>(config.targetIds.map((id) => [id, 0]));
+    const extraHits = new Map<string, number>();
+    const outOfOrderHits = new Map<string, number>();
+    const lastRequiredHitTimeByTarget: Record<string, number | null> = Object.fromEntries(
+      config.targetIds.map((id) => [id, null])
+    );
+    let lastCountedHit: number | null = null;
+
+    for (const hit of sortedHits) {
+      const count = counts.get(hit.deviceId) ?? 0;
+      const required = goals[hit.deviceId] ?? 0;
+      if (count >= required) {
+        extraHits.set(hit.deviceId, (extraHits.get(hit.deviceId) ?? 0) + 1);
+        continue;
+      }
+      const position = order.indexOf(hit.deviceId);
+      const earlierIncomplete = order
+        .slice(0, Math.max(0, position))
+        .some((id) => (counts.get(id) ?? 0) < (goals[id] ?? 0));
+      if (earlierIncomplete) {
+        outOfOrderHits.set(hit.deviceId, (outOfOrderHits.get(hit.deviceId) ?? 0) + 1);
+      }
+      counts.set(hit.deviceId, count + 1);
+      lastCountedHit = hit.timestamp;
+      if (count + 1 === required) {
+        lastRequiredHitTimeByTarget[hit.deviceId] = (hit.timestamp - startTime) / 1000;
+      }
+    }
+
+    const penalties: SessionPenaltyEntry[] = [];
+    for (const deviceId of config.targetIds) {
+      const values = resolvePenaltyValues(config, deviceId);
+      const misses = Math.max(0, (goals[deviceId] ?? 0) - (counts.get(deviceId) ?? 0));
+      const extras = extraHits.get(deviceId) ?? 0;
+      const outOfOrder = outOfOrderHits.get(deviceId) ?? 0;
+      if (misses > 0) {
+        penalties.push({ kind: 'miss', deviceId, count: misses, seconds: misses * values.missSeconds });
+      }
+      if (extras > 0) {
+        penalties.push({ kind: 'extra-hit', deviceId, count: extras, seconds: extras * values.extraHitSeconds });
+      }
+      if (outOfOrder > 0) {
+        penalties.push({
+          kind: 'out-of-order',
+          deviceId,
+          count: outOfOrder,
+          seconds: outOfOrder * values.outOfOrderSeconds,
+        });
+      }
+      const par = config.parTimesPerTarget?.[deviceId];
+      const completedAt = lastRequiredHitTimeByTarget[deviceId];
+      if (typeof par === 'number' && par > 0 && completedAt !== null && completedAt > par) {
+        penalties.push({ kind: 'over-par', deviceId, count: 1, seconds: Number((completedAt - par).toFixed(2)) });
+      }
+    }
+
+    // Counted shots that hit nothing are misses too, beyond those already charged as unmet goals
+    if (typeof config.shotsFired === 'number' && Number.isFinite(config.shotsFired)) {
+      const unmetGoals = config.targetIds.reduce(
+        (sum, id) => sum + Math.max(0, (goals[id] ?? 0) - (counts.get(id) ?? 0)),
+        0
+      );
+      const strayMisses = Math.max(0, Math.round(config.shotsFired) - sortedHits.length - unmetGoals);
+      if (strayMisses > 0) {
+        penalties.push({
+          kind: 'miss',
+          deviceId: null,
+          count: strayMisses,
+          seconds: strayMisses * GAME_MODE_DEFAULTS.PAR_TIME_MISS_PENALTY_SECONDS,
+        });
+      }
+    }
+
+    const rawScore = lastCountedHit === null ? null : Number(((lastCountedHit - startTime) / 1000).toFixed(2));
+    const penaltySeconds = sumPenalties(penalties);
+    return {
+      score: rawScore === null ? null : Number((rawScore + penaltySeconds).toFixed(2)),
+      isValid: rawScore !== null,
+      ...buildDiagnostics(sortedHits, startTime),
+      lastRequiredHitTimeByTarget,
+      rawScore,
+      penaltySeconds,
+      penalties,
+    };
+  },
+};
+
+/**
+ * Game mode registry
+ */
+export const GAME_MODES: Readonly<Record<GameModeId, GameModeDefinition>> = {
+  'time-to-goal': timeToGoalMode,
+  'most-hits': mostHitsMode,
+  'bill-drill': billDrillMode,
+  'el-presidente': elPresidenteMode,
+  'random-callout': randomCalloutMode,
+  'par-time': parTimeMode,
+};
+
+/**
+ * Check if a value is a known game mode identifier
+ */
+export function isGameModeId(value: unknown): value is GameModeId {
+  return typeof value === 'string' && (GAME_MODE_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve a stored/untrusted mode value to a known mode, falling back to the default
+ */
+export function resolveGameModeId(value: unknown): GameModeId {
+  return isGameModeId(value) ? value : DEFAULT_GAME_MODE_ID;
+}
+
+/**
+ * Get a game mode definition (unknown or missing ids resolve to the default mode)
+ */
+export function getGameMode(modeId: unknown): GameModeDefinition {
+  return GAME_MODES[resolveGameModeId(modeId)];
+}
+
+/**
+ * Score direction of a mode; unknown modes fall back to the default (timed) mode
+ */
+export function getScoreDirection(modeId: unknown): ScoreDirection {
+  return getGameMode(modeId).scoreDirection;
+}
+
+/**
+ * List all game modes in registry order
+ */
+export function listGameModes(): GameModeDefinition[] {
+  return GAME_MODE_IDS.map((id) => GAME_MODES[id]);
+}
@@ -0,0 +1,88 @@
+/**
+ * Games Domain Pauses
+ *
+ * Rules for cease-fire pauses during a running session: opening and closing
+ * pause intervals and taking paused time out of elapsed time, hit times and
+ * splits so a drill is scored on the time actually shot.
+ * Pure functions - no React or Supabase imports.
+ */
+
+/**
+ * One pause of a running session
+ */
+export type PauseInterval = {
+  pausedAt: number;
+  /** Null while the session is still paused */
+  resumedAt: number | null;
+};
+
+/**
+ * Whether the latest pause is still open
+ */
+export function isPauseOpen(intervals: PauseInterval[]): boolean {
+  return intervals.length > 0 && intervals[intervals.length - 1].resumedAt === null;
+}
+
+/**
+ * Open a pause at `at`; a session that is already paused stays as it is
+ */
+export function startPause(intervals: PauseInterval[], at: number): PauseInterval[] {
+  if (isPauseOpen(intervals)) {
+    return intervals;
+  }
+  return [...intervals, { pausedAt: at, resumedAt: null }];
+}
+
+/**
+ * Close the open pause at `at`; does nothing when the session is not paused
+ */
+export function endPause(intervals: PauseInterval[], at: number): PauseInterval[] {
+  if (!isPauseOpen(intervals)) {
+    return intervals;
+  }
+  const open = intervals[intervals.length - 1];
+  return [...intervals.slice(0, -1), { pausedAt: open.pausedAt, resumedAt: Math.max(open.pausedAt, at) }];
+}
+
+/**
+ * Paused milliseconds between `from` and `to`. An open pause runs until `to`.
+ */
+export function pausedDurationMs(intervals: PauseInterval[], from: number, to: number): number {
+  return intervals.reduce((total, { pausedAt, resumedAt }) => {
+    const overlapStart = Math.max(from, pausedAt);
+    const overlapEnd = Math.min(to, resumedAt ?? to);
+    return total + Math.max(0, overlapEnd - overlapStart);
+  }, 0);
+}
+
+/**
+ * Milliseconds from `start` to `end` the session was not paused
+ */
+export function activeElapsedMs(start: number, end: number, intervals: PauseInterval[]): number {
+  return Math.max(0, end - start - pausedDurationMs(intervals, start, end));
+}
+
+/**
+ * Whether `timestamp` falls inside a pause
+ */
+export function isWithinPause(timestamp: number, intervals: PauseInterval[]): boolean {
+  return intervals.some(
+    ({ pausedAt, resumedAt }) => timestamp >= pausedAt && (resumedAt === null || timestamp < resumedAt),
+  );
+}
+
+/**
+ * Move a timestamp back by the time paused before it, so gaps between
+ * timestamps on either side of a pause only count the time shot.
+ */
+export function toActiveTimestamp(timestamp: number, intervals: PauseInterval[]): number {
+  return timestamp - pausedDurationMs(intervals, Number.NEGATIVE_INFINITY, timestamp);
+}
+
+/**
+ * Take the paused time out of a split (seconds) that ended at `endTimestamp`
+ */
+export function excludePausedSeconds(seconds: number, endTimestamp: number, intervals: PauseInterval[]): number {
+  const paused = pausedDurationMs(intervals, endTimestamp - seconds * 1000, endTimestamp);
+  return paused > 0 ? Math.max(0, Number((seconds - paused / 1000).toFixed(3))) : seconds;
+}
@@ -0,0 +1,160 @@
+/**
+ * Games Domain Personal Bests
+ *
+ * Per-preset personal bests picked from the session history, and the "ghost"
+ * comparison of a running session against the best run's hit-by-hit timing.
+ * Pure functions - no React or Supabase imports.
+ */
+
+import { getGameMode, type GameModeScoreUnit } from './modes';
+import { beatsScore, isCompletedScore } from '../shared/score-direction';
+import type { GameModeId } from './validators';
+
+/**
+ * The parts of a stored session a personal best is picked from
+ */
+export type PersonalBestRun = {
+  gameId: string;
+  presetId?: string | null;
+  gameMode?: GameModeId | null;
+  score?: number | null;
+  /** False when the run missed required hits; missing on sessions recorded before it was stored */
+  isValid?: boolean | null;
+  /** Squad runs are shared between shooters and never hold a personal best */
+  squadId?: string | null;
+  startTime: number;
+  hitHistory?: Array<{ deviceId: string; timestamp: number; hitType?: string }>;
+};
+
+/**
+ * Best run of a preset under one scoring mode
+ */
+export type PersonalBest<T extends PersonalBestRun = PersonalBestRun> = {
+  presetId: string;
+  gameMode: GameModeId;
+  scoreUnit: GameModeScoreUnit;
+  score: number;
+  run: T;
+  /** Scored runs of the preset under this mode, including the best one */
+  runCount: number;
+};
+
+/**
+ * Gap between the running session and the personal best at one split
+ */
+export type GhostSplitDelta = {
+  /** 1-based hit number the split ends on */
+  splitNumber: number;
+  /** Seconds from start to this hit in the running session */
+  elapsedSeconds: number;
+  /** Seconds from start to the same hit in the personal best */
+  ghostSeconds: number;
+  /** Positive when behind the personal best, negative when ahead */
+  deltaSeconds: number;
+};
+
+const toSeconds = (ms: number) => Number((ms / 1000).toFixed(2));
+
+/**
+ * Whether `score` beats `best` in the mode's scoring direction
+ * (fewer seconds, or more hits)
+ */
+export function isBetterScore(score: number, best: number, gameModeId: GameModeId | null | undefined): boolean {
+  return beatsScore(score, best, getGameMode(gameModeId).scoreDirection);
+}
+
+/**
+ * Runs that can hold a personal best: solo runs saved from a preset, valid, and scored
+ */
+export function isPersonalBestEligible(run: PersonalBestRun): boolean {
+  return (
+    typeof run.presetId === 'string' &&
+    run.presetId.length > 0 &&
+    !run.squadId &&
+    run.isValid !== false &&
+    isCompletedScore(run.score, getGameMode(run.gameMode).scoreDirection)
+  );
+}
+
+/**
+ * Pick the best run of every preset. A preset whose mode changed over time
+ * keeps one personal best per mode, since their scores are not comparable.
+ * Ties go to the earlier run.
+ */
+export function computePersonalBests<T extends PersonalBestRun>(runs: T[]): PersonalBest<T>[] {
+  const bests = new Map<string, PersonalBest<T>>();
+  const ordered = [...runs].sort((a, b) => a.startTime - b.startTime);
+
+  for (const run of ordered) {
+    if (!isPersonalBestEligible(run)) {
+      continue;
+    }
+    const mode = getGameMode(run.gameMode);
+    const key = `${run.presetId}:${mode.id}`;
+    const current = bests.get(key);
+    if (!current) {
+      bests.set(key, {
+        presetId: run.presetId as string,
+        gameMode: mode.id,
+        scoreUnit: mode.scoreUnit,
+        score: run.score as number,
+        run,
+        runCount: 1,
+      });
+      continue;
+    }
+    current.runCount += 1;
+    if (isBetterScore(run.score as number, current.score, mode.id)) {
+      current.score = run.score as number;
+      current.run = run;
+    }
+  }
+
+  return [...bests.values()];
+}
+
+/**
+ * Personal best of a preset under the given mode, if it has one
+ */
+export function findPersonalBest<T extends PersonalBestRun>(
+  bests: PersonalBest<T>[],
+  presetId: string | null | undefined,
+  gameModeId: GameModeId | null | undefined
+): PersonalBest<T> | null {
+  if (!presetId) {
+    return null;
+  }
+  const modeId = getGameMode(gameModeId).id;
+  return bests.find((best) => best.presetId === presetId && best.gameMode === modeId) ?? null;
+}
+
+/**
+ * Seconds from start to each counted hit of a run, in hit order.
+ * Hits on a target that was not called (callout drills) are left out.
+ */
+export function getGhostSplitTimes(run: Pick<PersonalBestRun, 'startTime' | 'hitHistory'>): number[] {
+  return (run.hitHistory ?? [])
+    .filter((hit) => hit.hitType !== 'wrong_target' && hit.timestamp >= run.startTime)
+    .map((hit) => hit.timestamp)
+    .sort((a, b) => a - b)
+    .map((timestamp) => toSeconds(timestamp - run.startTime));
+}
+
+/**
+ * Compare a running session to the personal best split by split: hit N of the
+ * session against hit N of the best run. Splits past the end of the best run
+ * have nothing to compare against and are left out.
+ */
+export function compareToGhost(
+  hitHistory: Array<{ deviceId: string; timestamp: number; hitType?: string }>,
+  startTime: number,
+  ghostSplitTimes: number[]
+): GhostSplitDelta[] {
+  const splitTimes = getGhostSplitTimes({ startTime, hitHistory });
+  return splitTimes.slice(0, ghostSplitTimes.length).map((elapsedSeconds, index) => ({
+    splitNumber: index + 1,
+    elapsedSeconds,
+    ghostSeconds: ghostSplitTimes[index],
+    deltaSeconds: Number((elapsedSeconds - ghostSplitTimes[index]).toFixed(2)),
+  }));
+}
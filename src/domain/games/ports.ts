@@ -6,6 +6,7 @@
  */
 
 import type { ApiResponse } from '@/shared/lib/api-response';
+import type { TrainingProgram, TrainingProgress } from './training-programs';
 
 /**
  * Game template record
@@ -73,3 +74,48 @@ export interface GameRepository {
   persistGameStop(params: PersistGameStopParams): Promise<ApiResponse<void>>;
 }
 
+
+/**
+ * Training program fields a user edits; ids of new levels are assigned by the caller
+ */
+export type TrainingProgramInput = Pick<TrainingProgram, 'name' | 'description' | 'levels'> & {
+  /** Set when updating an existing program */
+  id?: string;
+};
+
+/**
+ * Training Program Repository Interface
+ *
+ * Defines the contract for training program and per-user progress data access.
+ */
+export interface TrainingProgramRepository {
+  /**
+   * Get the current user's training programs
+   */
+  getTrainingPrograms(): Promise<ApiResponse<TrainingProgram[]>>;
+
+  /**
+   * Create or update a training program
+   */
+  saveTrainingProgram(input: TrainingProgramInput): Promise<ApiResponse<TrainingProgram>>;
+
+  /**
+   * Delete a training program and the progress through it
+   */
+  deleteTrainingProgram(programId: string): Promise<ApiResponse<void>>;
+
+  /**
+   * Get the current user's progress through every program they enrolled in
+   */
+  getTrainingProgress(): Promise<ApiResponse<TrainingProgress[]>>;
+
+  /**
+   * Create or replace the current user's progress through a program
+   */
+  saveTrainingProgress(progress: TrainingProgress): Promise<ApiResponse<TrainingProgress>>;
+
+  /**
+   * Drop the current user's progress through a program
+   */
+  deleteTrainingProgress(programId: string): Promise<ApiResponse<void>>;
+}
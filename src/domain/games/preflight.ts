@@ -0,0 +1,219 @@
+/**
+ * Games Domain Pre-flight Checks
+ *
+ * Go/no-go rules for the targets staged for a session: RPC round trip,
+ * battery, WiFi signal, firmware version and a "tap the target" hit test.
+ * Pure functions - no React or Supabase imports.
+ */
+
+import { getBatteryLevel, getWifiQuality } from '../targets/rules';
+import type { TargetReadiness } from './rules';
+
+/**
+ * Pre-flight tuning
+ */
+export const PREFLIGHT_CONSTRAINTS = {
+  /** How long a target has to answer the ping */
+  PING_TIMEOUT_MS: 3000,
+  /** Round trips slower than this still pass, with a warning */
+  SLOW_PING_MS: 1000,
+  /** How long the operator has to tap every target */
+  HIT_TEST_TIMEOUT_MS: 20000,
+} as const;
+
+export type PreflightCheckId = 'ping' | 'battery' | 'wifi' | 'firmware' | 'hitTest';
+
+export type PreflightCheckStatus = 'pending' | 'pass' | 'warn' | 'fail';
+
+export type PreflightCheck = {
+  id: PreflightCheckId;
+  status: PreflightCheckStatus;
+  detail: string;
+};
+
+export type PreflightVerdict = 'pending' | 'go' | 'no-go';
+
+/**
+ * What the pre-flight run has learned about one target so far
+ */
+export type PreflightProbe = {
+  deviceId: string;
+  /** Round trip of the ping; null until it answers */
+  pingMs: number | null;
+  /** The ping timed out or errored */
+  pingFailed: boolean;
+  /** Battery percentage reported with the ping reply */
+  battery: number | null;
+  /** WiFi signal in dBm reported with the ping reply */
+  wifiStrength: number | null;
+  firmwareVersion: string | null;
+  hitDetected: boolean;
+  /** The hit test window closed */
+  hitTestExpired: boolean;
+  gameStatus: string | null;
+};
+
+export type PreflightResult = {
+  deviceId: string;
+  checks: PreflightCheck[];
+  verdict: PreflightVerdict;
+};
+
+/**
+ * A probe before any check has reported
+ */
+export function createPreflightProbe(deviceId: string, gameStatus: string | null = null): PreflightProbe {
+  return {
+    deviceId,
+    pingMs: null,
+    pingFailed: false,
+    battery: null,
+    wifiStrength: null,
+    firmwareVersion: null,
+    hitDetected: false,
+    hitTestExpired: false,
+    gameStatus,
+  };
+}
+
+const parseVersionParts = (version: string): number[] =>
+  version
+    .trim()
+    .replace(/^v/i, '')
+    .split(/[.-]/)
+    .map((part) => Number.parseInt(part, 10))
+    .map((part) => (Number.isFinite(part) ? part : 0));
+
+/**
+ * Compare dotted firmware versions ("1.4.2", "v1.10").
+ * Returns a negative number when a is older, positive when newer, 0 when equal.
+ */
+export function compareFirmwareVersions(a: string, b: string): number {
+  const left = parseVersionParts(a);
+  const right = parseVersionParts(b);
+  const length = Math.max(left.length, right.length);
+  for (let index = 0; index < length; index += 1) {
+    const difference = (left[index] ?? 0) - (right[index] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+const pingCheck = (probe: PreflightProbe): PreflightCheck => {
+  if (probe.pingFailed) {
+    return { id: 'ping', status: 'fail', detail: 'No answer' };
+  }
+  if (probe.pingMs === null) {
+    return { id: 'ping', status: 'pending', detail: 'Pinging' };
+  }
+  return {
+    id: 'ping',
+    status: probe.pingMs > PREFLIGHT_CONSTRAINTS.SLOW_PING_MS ? 'warn' : 'pass',
+    detail: `${Math.round(probe.pingMs)} ms`,
+  };
+};
+
+// Battery, WiFi and firmware come back with the ping reply, so they wait on it.
+const awaitingPing = (probe: PreflightProbe, id: PreflightCheckId): PreflightCheck | null => {
+  if (probe.pingFailed) {
+    return { id, status: 'fail', detail: 'Unreachable' };
+  }
+  if (probe.pingMs === null) {
+    return { id, status: 'pending', detail: 'Waiting for ping' };
+  }
+  return null;
+};
+
+const batteryCheck = (probe: PreflightProbe): PreflightCheck => {
+  const waiting = awaitingPing(probe, 'battery');
+  if (waiting) {
+    return waiting;
+  }
+  const level = getBatteryLevel(probe.battery);
+  if (level === 'unknown') {
+    return { id: 'battery', status: 'warn', detail: 'Not reported' };
+  }
+  const detail = `${Math.round(probe.battery as number)}%`;
+  if (level === 'critical') {
+    return { id: 'battery', status: 'fail', detail };
+  }
+  return { id: 'battery', status: level === 'low' ? 'warn' : 'pass', detail };
+};
+
+const wifiCheck = (probe: PreflightProbe): PreflightCheck => {
+  const waiting = awaitingPing(probe, 'wifi');
+  if (waiting) {
+    return waiting;
+  }
+  const quality = getWifiQuality(probe.wifiStrength);
+  if (quality === 'unknown') {
+    return { id: 'wifi', status: 'warn', detail: 'Not reported' };
+  }
+  const detail = `${quality} (${probe.wifiStrength} dBm)`;
+  if (quality === 'weak') {
+    return { id: 'wifi', status: 'fail', detail };
+  }
+  return { id: 'wifi', status: quality === 'poor' ? 'warn' : 'pass', detail };
+};
+
+const firmwareCheck = (probe: PreflightProbe, minFirmwareVersion: string | null): PreflightCheck => {
+  const waiting = awaitingPing(probe, 'firmware');
+  if (waiting) {
+    return waiting;
+  }
+  if (!probe.firmwareVersion) {
+    return { id: 'firmware', status: 'warn', detail: 'Not reported' };
+  }
+  if (minFirmwareVersion && compareFirmwareVersions(probe.firmwareVersion, minFirmwareVersion) < 0) {
+    return { id: 'firmware', status: 'fail', detail: `${probe.firmwareVersion} (needs ${minFirmwareVersion})` };
+  }
+  return { id: 'firmware', status: 'pass', detail: probe.firmwareVersion };
+};
+
+const hitTestCheck = (probe: PreflightProbe): PreflightCheck => {
+  if (probe.hitDetected) {
+    return { id: 'hitTest', status: 'pass', detail: 'Hit detected' };
+  }
+  if (probe.hitTestExpired) {
+    return { id: 'hitTest', status: 'fail', detail: 'No hit detected' };
+  }
+  return { id: 'hitTest', status: 'pending', detail: 'Tap the target' };
+};
+
+/**
+ * Run every check against a probe. Any failed check is a no-go; a target
+ * is a go once no check is still pending.
+ */
+export function evaluatePreflight(probe: PreflightProbe, minFirmwareVersion: string | null = null): PreflightResult {
+  const checks = [
+    pingCheck(probe),
+    batteryCheck(probe),
+    wifiCheck(probe),
+    firmwareCheck(probe, minFirmwareVersion),
+    hitTestCheck(probe),
+  ];
+
+  let verdict: PreflightVerdict = 'go';
+  if (checks.some((check) => check.status === 'fail')) {
+    verdict = 'no-go';
+  } else if (checks.some((check) => check.status === 'pending')) {
+    verdict = 'pending';
+  }
+
+  return { deviceId: probe.deviceId, checks, verdict };
+}
+
+/**
+ * Readiness of a probed target, for `canUseTargetsForGame`
+ */
+export function toPreflightReadiness(probe: PreflightProbe, result: PreflightResult): TargetReadiness {
+  return {
+    deviceId: probe.deviceId,
+    isOnline: !probe.pingFailed,
+    batteryLevel: probe.battery,
+    hasErrors: result.verdict === 'no-go',
+    gameStatus: probe.gameStatus,
+  };
+}
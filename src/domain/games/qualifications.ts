@@ -0,0 +1,269 @@
+/**
+ * Games Domain Qualifications
+ *
+ * Qualification courses with pass/fail standards, e.g. "at least 80% of 40
+ * rounds on target within 45 seconds, at least 6 hits on every target".
+ * A finished run is evaluated against its course, and the results of each
+ * course are rolled up into a per-shooter report over time.
+ * Pure functions - no React or Supabase imports.
+ */
+
+import { GAME_CONSTRAINTS } from './validators';
+import type { RuleResult } from './rules';
+import type { GameModeScoreUnit } from './modes';
+
+/**
+ * Qualification course limits
+ */
+export const QUALIFICATION_CONSTRAINTS = {
+  NAME_MAX_LENGTH: 60,
+  MIN_ROUNDS: 1,
+  MAX_ROUNDS: 500,
+  MIN_TIME_SECONDS: 1,
+  MAX_TIME_SECONDS: GAME_CONSTRAINTS.MAX_TIME_LIMIT_MS / 1000,
+} as const;
+
+/**
+ * A qualification course and the standard a run must meet to pass it.
+ * Thresholds left null are not checked; at least one must be set.
+ */
+export type QualificationStandard = {
+  id: string;
+  name: string;
+  /** Rounds fired in the course; accuracy is counted hits over this */
+  roundCount: number;
+  /** Hits later than this many seconds after the start do not count */
+  timeLimitSeconds: number | null;
+  /** Minimum counted hits across all targets */
+  minHits: number | null;
+  /** Minimum accuracy in percent */
+  minAccuracyPercent: number | null;
+  /** Minimum counted hits on every target of the session */
+  minHitsPerTarget: number | null;
+  /** Slowest passing time in seconds */
+  maxTimeSeconds: number | null;
+};
+
+/**
+ * Outcome of one run against a qualification course
+ */
+export type QualificationResult = {
+  /** The course as it stood when the run was shot */
+  standard: QualificationStandard;
+  passed: boolean;
+  /** Each standard the run fell short of; empty when it passed */
+  reasons: string[];
+  countedHits: number;
+  accuracyPercent: number;
+  hitsByTarget: Record<string, number>;
+  /** Run time checked against maxTimeSeconds; null when the run did not finish */
+  timeSeconds: number | null;
+};
+
+/**
+ * The parts of a finished run a qualification is judged on
+ */
+export type QualificationRun = {
+  startTime: number;
+  hitHistory: Array<{ deviceId: string; timestamp: number; hitType?: string }>;
+  targets: Array<{ deviceId: string; deviceName: string }>;
+  score: number | null;
+  isValid: boolean;
+  scoreUnit: GameModeScoreUnit;
+};
+
+/**
+ * One attempt at a course in a shooter's report
+ */
+export type QualificationAttempt = {
+  gameId: string;
+  startTime: number;
+  passed: boolean;
+  accuracyPercent: number;
+  timeSeconds: number | null;
+  reasons: string[];
+};
+
+/**
+ * A shooter's record on one course, attempts oldest first
+ */
+export type QualificationReport = {
+  standardId: string;
+  /** Course name as of the latest attempt */
+  name: string;
+  attempts: QualificationAttempt[];
+  passCount: number;
+  /** Share of attempts passed, in percent */
+  passRate: number;
+  /** Whether the latest attempt passed */
+  isQualified: boolean;
+};
+
+const toSeconds = (ms: number) => Number((ms / 1000).toFixed(2));
+
+const isThresholdInRange = (value: number | null, min: number, max: number) =>
+  value === null || (Number.isFinite(value) && value >= min && value <= max);
+
+/**
+ * Check a qualification course definition
+ */
+export function validateQualificationStandard(standard: QualificationStandard): RuleResult {
+  const name = standard.name?.trim() ?? '';
+  if (name.length === 0 || name.length > QUALIFICATION_CONSTRAINTS.NAME_MAX_LENGTH) {
+    return {
+      valid: false,
+      violation: `Qualification name must be 1-${QUALIFICATION_CONSTRAINTS.NAME_MAX_LENGTH} characters`,
+      code: 'INVALID_QUALIFICATION_NAME',
+    };
+  }
+
+  if (
+    !Number.isInteger(standard.roundCount) ||
+    standard.roundCount < QUALIFICATION_CONSTRAINTS.MIN_ROUNDS ||
+    standard.roundCount > QUALIFICATION_CONSTRAINTS.MAX_ROUNDS
+  ) {
+    return {
+      valid: false,
+      violation: `Qualification rounds must be a whole number between ${QUALIFICATION_CONSTRAINTS.MIN_ROUNDS} and ${QUALIFICATION_CONSTRAINTS.MAX_ROUNDS}`,
+      code: 'INVALID_QUALIFICATION_ROUNDS',
+    };
+  }
+
+  const { MIN_TIME_SECONDS, MAX_TIME_SECONDS } = QUALIFICATION_CONSTRAINTS;
+  if (
+    !isThresholdInRange(standard.timeLimitSeconds, MIN_TIME_SECONDS, MAX_TIME_SECONDS) ||
+    !isThresholdInRange(standard.maxTimeSeconds, MIN_TIME_SECONDS, MAX_TIME_SECONDS) ||
+    !isThresholdInRange(standard.minHits, 1, standard.roundCount) ||
+    !isThresholdInRange(standard.minAccuracyPercent, 1, 100) ||
+    !isThresholdInRange(standard.minHitsPerTarget, 1, standard.roundCount)
+  ) {
+    return {
+      valid: false,
+      violation: `Qualification times must be ${MIN_TIME_SECONDS}-${MAX_TIME_SECONDS} seconds, accuracy 1-100% and hit minimums within the round count`,
+      code: 'INVALID_QUALIFICATION_THRESHOLD',
+    };
+  }
+
+  if (
+    standard.minHits === null &&
+    standard.minAccuracyPercent === null &&
+    standard.minHitsPerTarget === null &&
+    standard.maxTimeSeconds === null
+  ) {
+    return {
+      valid: false,
+      violation: 'Set at least one qualification standard (hits, accuracy, per-target hits or time)',
+      code: 'MISSING_QUALIFICATION_THRESHOLD',
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Judge a finished run against a qualification course.
+ *
+ * Hits on a target that was not called and hits after the course time limit
+ * do not count. The run time is the score of time-scored modes (so it carries
+ * any penalties) and the time of the last counted hit for hit-scored modes.
+ */
+export function evaluateQualification(
+  standard: QualificationStandard,
+  run: QualificationRun
+): QualificationResult {
+  const cutoff = standard.timeLimitSeconds !== null ? run.startTime + standard.timeLimitSeconds * 1000 : Infinity;
+  const countedHits = run.hitHistory.filter(
+    (hit) => hit.hitType !== 'wrong_target' && hit.timestamp >= run.startTime && hit.timestamp <= cutoff
+  );
+
+  const hitsByTarget: Record<string, number> = {};
+  for (const target of run.targets) {
+    hitsByTarget[target.deviceId] = 0;
+  }
+  for (const hit of countedHits) {
+    hitsByTarget[hit.deviceId] = (hitsByTarget[hit.deviceId] ?? 0) + 1;
+  }
+
+  const accuracyPercent = Math.min(100, Math.round((countedHits.length / standard.roundCount) * 100));
+  const lastCountedHit = countedHits.reduce((latest, hit) => Math.max(latest, hit.timestamp), -Infinity);
+  const timeSeconds =
+    run.scoreUnit === 'seconds'
+      ? run.isValid && typeof run.score === 'number' ? run.score : null
+      : Number.isFinite(lastCountedHit) ? toSeconds(lastCountedHit - run.startTime) : null;
+
+  const reasons: string[] = [];
+  if (standard.minHits !== null && countedHits.length < standard.minHits) {
+    reasons.push(`${countedHits.length} hits, ${standard.minHits} required`);
+  }
+  if (standard.minAccuracyPercent !== null && accuracyPercent < standard.minAccuracyPercent) {
+    reasons.push(`${accuracyPercent}% accuracy, ${standard.minAccuracyPercent}% required`);
+  }
+  if (standard.minHitsPerTarget !== null) {
+    for (const target of run.targets) {
+      const hits = hitsByTarget[target.deviceId] ?? 0;
+      if (hits < standard.minHitsPerTarget) {
+        reasons.push(`${target.deviceName}: ${hits} hits, ${standard.minHitsPerTarget} required`);
+      }
+    }
+  }
+  if (standard.maxTimeSeconds !== null) {
+    if (timeSeconds === null) {
+      reasons.push('Did not finish, no time recorded');
+    } else if (timeSeconds > standard.maxTimeSeconds) {
+      reasons.push(`${timeSeconds.toFixed(2)}s, ${standard.maxTimeSeconds}s or faster required`);
+    }
+  }
+
+  return {
+    standard,
+    passed: reasons.length === 0,
+    reasons,
+    countedHits: countedHits.length,
+    accuracyPercent,
+    hitsByTarget,
+    timeSeconds,
+  };
+}
+
+/**
+ * Roll a shooter's qualification results up per course, most recently shot course first
+ */
+export function buildQualificationReport(
+  runs: Array<{ gameId: string; startTime: number; qualification?: QualificationResult | null }>
+): QualificationReport[] {
+  const reports = new Map<string, QualificationReport>();
+  const ordered = [...runs].sort((a, b) => a.startTime - b.startTime);
+
+  for (const run of ordered) {
+    const result = run.qualification;
+    if (!result?.standard?.id) {
+      continue;
+    }
+    const report = reports.get(result.standard.id) ?? {
+      standardId: result.standard.id,
+      name: result.standard.name,
+      attempts: [],
+      passCount: 0,
+      passRate: 0,
+      isQualified: false,
+    };
+    report.name = result.standard.name;
+    report.attempts.push({
+      gameId: run.gameId,
+      startTime: run.startTime,
+      passed: result.passed,
+      accuracyPercent: result.accuracyPercent,
+      timeSeconds: result.timeSeconds,
+      reasons: result.reasons,
+    });
+    if (result.passed) {
+      report.passCount += 1;
+    }
+    report.passRate = Math.round((report.passCount / report.attempts.length) * 100);
+    report.isQualified = result.passed;
+    reports.set(result.standard.id, report);
+  }
+
+  const lastAttemptAt = (report: QualificationReport) => report.attempts[report.attempts.length - 1].startTime;
+  return [...reports.values()].sort((a, b) => lastAttemptAt(b) - lastAttemptAt(a));
+}
@@ -0,0 +1,121 @@
+/**
+ * Games Domain Session Recovery
+ *
+ * Rebuilds an in-flight session that lost its live state (e.g. the operator's
+ * tab reloaded mid-run) from the journal kept while it ran and the telemetry
+ * history the targets reported to ThingsBoard.
+ * Pure functions - no React or Supabase imports.
+ */
+
+/**
+ * Session recovery limits
+ */
+export const RECOVERY_CONSTRAINTS = {
+  /** Journals not updated for longer than this are treated as abandoned */
+  MAX_JOURNAL_AGE_MS: 12 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * A hit recovered from the journal or from telemetry history
+ */
+export type RecoveredHit = {
+  deviceId: string;
+  timestamp: number;
+};
+
+/**
+ * Telemetry history of one device as returned by ThingsBoard: each key maps
+ * to a series of `{ ts, value }` points, values usually stringified.
+ */
+export type DeviceTelemetryHistory = {
+  deviceId: string;
+  telemetry: Record<string, unknown>;
+};
+
+type HistoryPoint = { ts: number; value: unknown };
+
+const readSeries = (telemetry: Record<string, unknown>, key: string): HistoryPoint[] => {
+  const series = telemetry[key];
+  if (!Array.isArray(series)) {
+    return [];
+  }
+  return series.filter(
+    (point): point is HistoryPoint =>
+      Boolean(point) && typeof point === 'object' && typeof (point as HistoryPoint).ts === 'number'
+  );
+};
+
+/**
+ * Whether a journal last written at `updatedAt` is too old to recover
+ */
+export function isJournalStale(updatedAt: number, now: number): boolean {
+  return !Number.isFinite(updatedAt) || now - updatedAt > RECOVERY_CONSTRAINTS.MAX_JOURNAL_AGE_MS;
+}
+
+/**
+ * Hits a session's targets reported between its start and end.
+ *
+ * A hit is an `event` point with the value `hit`. When the device also
+ * reported a `gameId` at the same timestamp it must match the session,
+ * so hits from a later game on the same targets are left out.
+ */
+export function extractHistoryHits(
+  devices: DeviceTelemetryHistory[],
+  gameId: string,
+  startTime: number,
+  endTime: number
+): RecoveredHit[] {
+  const hits: RecoveredHit[] = [];
+  for (const device of devices) {
+    const gameIdAt = new Map(readSeries(device.telemetry, 'gameId').map((point) => [point.ts, String(point.value)]));
+    for (const point of readSeries(device.telemetry, 'event')) {
+      if (String(point.value) !== 'hit' || point.ts < startTime || point.ts > endTime) {
+        continue;
+      }
+      const hitGameId = gameIdAt.get(point.ts);
+      if (hitGameId !== undefined && hitGameId !== gameId) {
+        continue;
+      }
+      hits.push({ deviceId: device.deviceId, timestamp: point.ts });
+    }
+  }
+  return hits.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Highest shots-fired total reported by any shot counter between start and end; null when none reported
+ */
+export function extractHistoryShotsFired(
+  devices: DeviceTelemetryHistory[],
+  startTime: number,
+  endTime: number
+): number | null {
+  let shotsFired: number | null = null;
+  for (const device of devices) {
+    for (const point of readSeries(device.telemetry, 'shots')) {
+      const shots = Number(point.value);
+      if (point.ts < startTime || point.ts > endTime || !Number.isFinite(shots) || shots < 0) {
+        continue;
+      }
+      shotsFired = Math.max(shotsFired ?? 0, Math.round(shots));
+    }
+  }
+  return shotsFired;
+}
+
+/**
+ * Merge hits from several sources, dropping those seen twice (same target and timestamp), oldest first
+ */
+export function mergeRecoveredHits<T extends RecoveredHit>(...sources: T[][]): T[] {
+  const seen = new Set<string>();
+  const merged: T[] = [];
+  for (const hit of sources.flat()) {
+    const key = `${hit.deviceId}:${hit.timestamp}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    merged.push(hit);
+  }
+  return merged.sort((a, b) => a.timestamp - b.timestamp);
+}
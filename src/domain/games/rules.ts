@@ -11,6 +11,8 @@ import {
   isActiveSessionStatus,
   isTerminalSessionStatus,
 } from './validators';
+import type { HitZone } from './hit-zones';
+import { DEFAULT_SCORE_DIRECTION, scoreRatio as toScoreRatio, type ScoreDirection } from '../shared/score-direction';
 
 /**
  * Game business rule result
@@ -48,7 +50,8 @@ export const VALID_STATE_TRANSITIONS: Record<GameSessionStatus, GameSessionStatu
   idle: ['configuring'],
   configuring: ['launching', 'idle', 'error'],
   launching: ['running', 'stopping', 'error'],
-  running: ['stopping', 'error'],
+  running: ['paused', 'stopping', 'error'],
+  paused: ['running', 'stopping', 'error'], // Cease fire: resume or end the drill
   stopping: ['finalizing', 'error'],
   finalizing: ['completed', 'error'],
   completed: ['idle'], // Can restart
@@ -199,6 +202,61 @@ export function calculateAccuracy(hits: number, totalShots: number): number {
   return Math.round((hits / totalShots) * 100);
 }
 
+/**
+ * Where a session's shot count came from
+ * - hits: nothing counted shots, every shot is assumed to have hit
+ * - shot-counter: a shot counter device reported shots fired during the session
+ * - manual: the shooter entered shots fired after the session
+ */
+export type ShotCountSource = 'hits' | 'shot-counter' | 'manual';
+
+/**
+ * Shots, misses and accuracy of a session
+ */
+export type ShotTotals = {
+  totalShots: number;
+  missCount: number;
+  accuracy: number;
+};
+
+/**
+ * Check a shots-fired count against the hits registered in the session
+ */
+export function validateShotCount(shotsFired: number, hits: number): RuleResult {
+  if (!Number.isInteger(shotsFired) || shotsFired < 0) {
+    return {
+      valid: false,
+      violation: 'Shots fired must be a whole number',
+      code: 'INVALID_SHOT_COUNT',
+    };
+  }
+
+  if (shotsFired < hits) {
+    return {
+      valid: false,
+      violation: `Shots fired cannot be fewer than the ${hits} hits registered`,
+      code: 'SHOT_COUNT_BELOW_HITS',
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Resolve shots, misses and accuracy from hits and the shots fired.
+ * Without a shot count every shot is assumed to have hit; a count below the
+ * hits (e.g. a counter that missed a shot) is raised to the hits.
+ */
+export function resolveShotTotals(hits: number, shotsFired: number | null | undefined): ShotTotals {
+  const totalShots =
+    typeof shotsFired === 'number' && Number.isFinite(shotsFired) ? Math.max(hits, Math.round(shotsFired)) : hits;
+  return {
+    totalShots,
+    missCount: totalShots - hits,
+    accuracy: calculateAccuracy(hits, totalShots),
+  };
+}
+
 /**
  * Calculate score based on hits, accuracy, and time
  * @deprecated Use calculateSessionScore() for time-based scoring
@@ -232,6 +290,24 @@ export function calculateScore(
 export type SessionHitRecordForScoring = {
   deviceId: string;
   timestamp: number;
+  /** Zone reported by zoned targets; hits without one count as A-zone hits */
+  zone?: HitZone | null;
+};
+
+/**
+ * Penalty categories recorded in a score's penalty ledger
+ */
+export type SessionPenaltyKind = 'miss' | 'extra-hit' | 'out-of-order' | 'over-par' | 'wrong-target';
+
+/**
+ * A single penalty ledger line: `count` occurrences costing `seconds` in total
+ */
+export type SessionPenaltyEntry = {
+  kind: SessionPenaltyKind;
+  /** Target the penalty applies to, null for session-wide penalties */
+  deviceId: string | null;
+  count: number;
+  seconds: number;
 };
 
 /**
@@ -248,6 +324,12 @@ export type SessionScoreResult = {
   transitionTimes: number[];
   /** Time of each target's Nth (last required) hit relative to start */
   lastRequiredHitTimeByTarget: Record<string, number | null>;
+  /** Time in seconds before penalties. Only set by modes that apply penalties. */
+  rawScore?: number | null;
+  /** Total penalty seconds included in `score` */
+  penaltySeconds?: number;
+  /** Itemised penalties included in `score` (final time = raw time + penalties) */
+  penalties?: SessionPenaltyEntry[];
 };
 
 /**
@@ -544,14 +626,15 @@ export function getRemainingTime(
 }
 
 /**
- * Get game performance rating
+ * Get game performance rating. A timed score beats the expected score by being lower.
  */
 export function getPerformanceRating(
   accuracy: number,
   score: number,
-  expectedScore: number
+  expectedScore: number,
+  direction: ScoreDirection = DEFAULT_SCORE_DIRECTION
 ): 'excellent' | 'good' | 'average' | 'needs_improvement' {
-  const scoreRatio = expectedScore > 0 ? score / expectedScore : 0;
+  const scoreRatio = toScoreRatio(score, expectedScore, direction);
   
   if (accuracy >= 90 && scoreRatio >= 0.9) {
     return 'excellent';
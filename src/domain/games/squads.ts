@@ -0,0 +1,263 @@
+/**
+ * Games Domain Squads
+ *
+ * Multi-shooter sessions run by a range officer:
+ * - relay: shooters take turns on the same setup, one session per shooter
+ * - head-to-head: two shooters race in one session on mirrored target sets
+ * Pure functions - no React or Supabase imports.
+ */
+
+import type { GameModeId, SquadFormat } from './validators';
+import type { RuleResult, SessionHitRecordForScoring, SessionScoreResult } from './rules';
+import { getGameMode, type GameModeConfig } from './modes';
+
+/**
+ * Squad size limits
+ */
+export const SQUAD_CONSTRAINTS = {
+  MIN_RELAY_SHOOTERS: 2,
+  MAX_RELAY_SHOOTERS: 8,
+  HEAD_TO_HEAD_SHOOTERS: 2,
+  SHOOTER_NAME_MAX_LENGTH: 60,
+} as const;
+
+/**
+ * A shooter in a squad: a named guest, or a linked user profile
+ */
+export type SquadShooter = {
+  id: string;
+  name: string;
+  /** User ID of the linked profile; null for guests */
+  profileId: string | null;
+};
+
+/**
+ * Result of one shooter's run, as recorded in the squad
+ */
+export type SquadRun = {
+  shooterId: string;
+  gameId: string;
+  score: number | null;
+  isValid: boolean;
+  totalHits: number;
+};
+
+/**
+ * A relay or head-to-head squad
+ */
+export type Squad = {
+  id: string;
+  format: SquadFormat;
+  shooters: SquadShooter[];
+  /** Head-to-head only: deviceIds assigned to each shooter, in mirrored order */
+  targetAssignments: Record<string, string[]>;
+  /** Completed runs in the order they were shot */
+  runs: SquadRun[];
+};
+
+/**
+ * Squad details attached to a session when it is run for a squad
+ */
+export type SquadRunContext = {
+  squadId: string;
+  format: SquadFormat;
+  /** Relay: shooter taking this run. Head-to-head: null (both shooters run together). */
+  shooter: SquadShooter | null;
+  shooters: SquadShooter[];
+  targetAssignments: Record<string, string[]>;
+};
+
+/**
+ * One shooter's lane in a head-to-head session
+ */
+export type SquadLaneResult = {
+  shooter: SquadShooter;
+  targetDeviceIds: string[];
+  score: number | null;
+  isValid: boolean;
+  totalHits: number;
+};
+
+/**
+ * A row of the combined squad results table
+ */
+export type SquadStanding = {
+  /** 1-based rank; shared on ties, null until the shooter has a valid run */
+  rank: number | null;
+  shooter: SquadShooter;
+  run: SquadRun | null;
+};
+
+/**
+ * Split the selected targets into mirrored lanes: the first half goes to the
+ * first shooter, the second half to the second, keeping selection order.
+ */
+export function mirrorTargetAssignments(
+  targetIds: string[],
+  shooters: SquadShooter[]
+): Record<string, string[]> {
+  if (shooters.length !== SQUAD_CONSTRAINTS.HEAD_TO_HEAD_SHOOTERS) {
+    return {};
+  }
+  const laneSize = Math.floor(targetIds.length / 2);
+  return {
+    [shooters[0].id]: targetIds.slice(0, laneSize),
+    [shooters[1].id]: targetIds.slice(laneSize, laneSize * 2),
+  };
+}
+
+/**
+ * Check a squad before its first run
+ */
+export function validateSquad(squad: Pick<Squad, 'format' | 'shooters' | 'targetAssignments'>): RuleResult {
+  const { format, shooters } = squad;
+
+  if (format === 'relay') {
+    if (shooters.length < SQUAD_CONSTRAINTS.MIN_RELAY_SHOOTERS || shooters.length > SQUAD_CONSTRAINTS.MAX_RELAY_SHOOTERS) {
+      return {
+        valid: false,
+        violation: `A relay needs ${SQUAD_CONSTRAINTS.MIN_RELAY_SHOOTERS}-${SQUAD_CONSTRAINTS.MAX_RELAY_SHOOTERS} shooters`,
+        code: 'INVALID_SQUAD_SIZE',
+      };
+    }
+  } else if (shooters.length !== SQUAD_CONSTRAINTS.HEAD_TO_HEAD_SHOOTERS) {
+    return {
+      valid: false,
+      violation: `Head-to-head needs exactly ${SQUAD_CONSTRAINTS.HEAD_TO_HEAD_SHOOTERS} shooters`,
+      code: 'INVALID_SQUAD_SIZE',
+    };
+  }
+
+  const names = new Set<string>();
+  for (const shooter of shooters) {
+    const name = shooter.name.trim();
+    if (name.length === 0 || name.length > SQUAD_CONSTRAINTS.SHOOTER_NAME_MAX_LENGTH) {
+      return {
+        valid: false,
+        violation: `Shooter names must be 1-${SQUAD_CONSTRAINTS.SHOOTER_NAME_MAX_LENGTH} characters`,
+        code: 'INVALID_SHOOTER_NAME',
+      };
+    }
+    const key = name.toLowerCase();
+    if (names.has(key)) {
+      return {
+        valid: false,
+        violation: `Shooter "${name}" is listed twice`,
+        code: 'DUPLICATE_SHOOTER',
+      };
+    }
+    names.add(key);
+  }
+
+  if (format === 'head-to-head') {
+    const lanes = shooters.map((shooter) => squad.targetAssignments[shooter.id] ?? []);
+    const assigned = lanes.flat();
+    if (lanes.some((lane) => lane.length === 0) || new Set(lanes.map((lane) => lane.length)).size > 1) {
+      return {
+        valid: false,
+        violation: 'Head-to-head needs an even number of targets so both shooters get the same set',
+        code: 'UNEVEN_TARGET_LANES',
+      };
+    }
+    if (new Set(assigned).size !== assigned.length) {
+      return {
+        valid: false,
+        violation: 'A target cannot be assigned to both shooters',
+        code: 'OVERLAPPING_TARGET_LANES',
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Shooter up next, or null once every shooter has run.
+ * A head-to-head squad finishes after its single shared run.
+ */
+export function getNextShooter(squad: Squad): SquadShooter | null {
+  if (squad.format === 'head-to-head') {
+    return squad.runs.length > 0 ? null : squad.shooters[0] ?? null;
+  }
+  const shotIds = new Set(squad.runs.map((run) => run.shooterId));
+  return squad.shooters.find((shooter) => !shotIds.has(shooter.id)) ?? null;
+}
+
+/**
+ * Whether every shooter in the squad has a recorded run
+ */
+export function isSquadComplete(squad: Squad): boolean {
+  const shotIds = new Set(squad.runs.map((run) => run.shooterId));
+  return squad.shooters.every((shooter) => shotIds.has(shooter.id));
+}
+
+/**
+ * Score each head-to-head shooter on their own lane with the session's game mode.
+ * Hits on targets outside a shooter's lane are ignored for that shooter.
+ */
+export function scoreHeadToHead(
+  hits: SessionHitRecordForScoring[],
+  config: GameModeConfig,
+  startTime: number,
+  gameModeId: GameModeId | null,
+  targetAssignments: Record<string, string[]>
+): Record<string, SessionScoreResult> {
+  const mode = getGameMode(gameModeId);
+  const results: Record<string, SessionScoreResult> = {};
+  for (const [shooterId, lane] of Object.entries(targetAssignments)) {
+    const laneSet = new Set(lane);
+    const pickLane = <T>(entries: Record<string, T> | undefined): Record<string, T> | undefined =>
+      entries ? Object.fromEntries(Object.entries(entries).filter(([id]) => laneSet.has(id))) : undefined;
+    results[shooterId] = mode.score(
+      hits.filter((hit) => laneSet.has(hit.deviceId)),
+      {
+        ...config,
+        targetIds: lane,
+        goalShotsPerTarget: pickLane(config.goalShotsPerTarget) ?? {},
+        targetOrder: config.targetOrder?.filter((id) => laneSet.has(id)),
+        parTimesPerTarget: pickLane(config.parTimesPerTarget),
+        penaltiesPerTarget: pickLane(config.penaltiesPerTarget),
+      },
+      startTime
+    );
+  }
+  return results;
+}
+
+/**
+ * Combined results table: valid runs ranked by score in the mode's direction
+ * (fewest seconds or most hits first), then DNFs, then shooters yet to run.
+ */
+export function buildSquadStandings(squad: Squad, gameModeId: GameModeId | null): SquadStanding[] {
+  const higherIsBetter = getGameMode(gameModeId).scoreDirection === 'higher-is-better';
+  const runByShooter = new Map(squad.runs.map((run) => [run.shooterId, run]));
+  const isRanked = (run: SquadRun | null): run is SquadRun =>
+    run !== null && run.isValid && typeof run.score === 'number';
+
+  const rows = squad.shooters.map((shooter) => ({ shooter, run: runByShooter.get(shooter.id) ?? null }));
+  const group = (row: { run: SquadRun | null }) => (isRanked(row.run) ? 0 : row.run ? 1 : 2);
+  const sorted = rows
+    .map((row, index) => ({ ...row, index }))
+    .sort((a, b) => {
+      const byGroup = group(a) - group(b);
+      if (byGroup !== 0) {
+        return byGroup;
+      }
+      if (isRanked(a.run) && isRanked(b.run) && a.run.score !== b.run.score) {
+        return higherIsBetter ? b.run.score - a.run.score : a.run.score - b.run.score;
+      }
+      return a.index - b.index;
+    });
+
+  let previousScore: number | null = null;
+  let previousRank = 0;
+  return sorted.map(({ shooter, run }, position) => {
+    if (!isRanked(run)) {
+      return { rank: null, shooter, run };
+    }
+    const rank = run.score === previousScore ? previousRank : position + 1;
+    previousScore = run.score;
+    previousRank = rank;
+    return { rank, shooter, run };
+  });
+}
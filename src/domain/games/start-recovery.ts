@@ -0,0 +1,127 @@
+/**
+ * Games Domain Start Recovery
+ *
+ * Rules for recovering a session some targets failed to start on: retry
+ * backoff, picking a substitute target, swapping it into the session
+ * configuration, and keeping order-enforced sessions from running short.
+ * Pure functions - no React or Supabase imports.
+ */
+
+import type { RuleResult } from './rules';
+
+/**
+ * Start recovery tuning
+ */
+export const START_RECOVERY_CONSTRAINTS = {
+  /** Automatic start retries before the operator has to step in */
+  MAX_AUTO_RETRIES: 3,
+  RETRY_BASE_DELAY_MS: 1000,
+  RETRY_MAX_DELAY_MS: 8000,
+} as const;
+
+/**
+ * A target that could stand in for one that failed
+ */
+export type SubstituteCandidate = {
+  deviceId: string;
+  roomId: string | null;
+  /** Target groups the target belongs to */
+  groupIds: string[];
+  isOnline: boolean;
+  gameStatus: string | null;
+};
+
+/**
+ * The per-target parts of a session configuration a substitution rewrites
+ */
+export type SessionTargetAssignment = {
+  targetIds: string[];
+  goalShotsPerTarget: Record<string, number>;
+  /** Required engagement order; empty when order is not enforced */
+  targetOrder: string[];
+};
+
+/**
+ * Delay before the given automatic retry (1-based), doubling each time
+ */
+export function startRetryDelayMs(attempt: number): number {
+  const exponent = Math.max(0, Math.floor(attempt) - 1);
+  return Math.min(
+    START_RECOVERY_CONSTRAINTS.RETRY_MAX_DELAY_MS,
+    START_RECOVERY_CONSTRAINTS.RETRY_BASE_DELAY_MS * 2 ** exponent,
+  );
+}
+
+/**
+ * Idle, online targets outside the session that share the failed target's
+ * room or one of its groups. Same-room targets come first.
+ */
+export function findSubstituteTargets(
+  failed: SubstituteCandidate,
+  candidates: SubstituteCandidate[],
+  sessionTargetIds: string[],
+): string[] {
+  const excluded = new Set([failed.deviceId, ...sessionTargetIds]);
+  const failedGroups = new Set(failed.groupIds);
+  const sameRoom = (candidate: SubstituteCandidate) => failed.roomId !== null && candidate.roomId === failed.roomId;
+
+  return candidates
+    .filter(
+      (candidate) =>
+        !excluded.has(candidate.deviceId) &&
+        candidate.isOnline &&
+        (candidate.gameStatus === null || candidate.gameStatus === 'idle' || candidate.gameStatus === 'stopped') &&
+        (sameRoom(candidate) || candidate.groupIds.some((groupId) => failedGroups.has(groupId))),
+    )
+    .sort((a, b) => Number(sameRoom(b)) - Number(sameRoom(a)))
+    .map((candidate) => candidate.deviceId);
+}
+
+/**
+ * Move a per-target setting from one device to another
+ */
+export function renameTargetKey<T>(record: Record<string, T>, fromId: string, toId: string): Record<string, T> {
+  if (!(fromId in record)) {
+    return record;
+  }
+  const { [fromId]: value, ...rest } = record;
+  return { ...rest, [toId]: value };
+}
+
+/**
+ * Swap a substitute into the failed target's place: it takes over the
+ * failed target's goal and its slot in the engagement order.
+ */
+export function substituteSessionTarget(
+  assignment: SessionTargetAssignment,
+  failedId: string,
+  substituteId: string,
+): SessionTargetAssignment {
+  const swap = (deviceId: string) => (deviceId === failedId ? substituteId : deviceId);
+  const targetIds = assignment.targetIds.includes(failedId)
+    ? assignment.targetIds.map(swap)
+    : [...assignment.targetIds, substituteId];
+
+  return {
+    targetIds: Array.from(new Set(targetIds)),
+    goalShotsPerTarget: renameTargetKey(assignment.goalShotsPerTarget, failedId, substituteId),
+    targetOrder: assignment.targetOrder.map(swap),
+  };
+}
+
+/**
+ * An order-enforced session needs every target in its order; it cannot run
+ * short the way a free-order session can.
+ */
+export function checkOrderedTargetsPresent(targetOrder: string[], deviceIds: string[]): RuleResult {
+  const present = new Set(deviceIds);
+  const missing = targetOrder.filter((deviceId) => !present.has(deviceId));
+  if (missing.length > 0) {
+    return {
+      valid: false,
+      violation: `${missing.length} target(s) in the enforced order are missing`,
+      code: 'ORDERED_TARGETS_MISSING',
+    };
+  }
+  return { valid: true };
+}
@@ -0,0 +1,160 @@
+/**
+ * Games Domain Start Signal
+ *
+ * Shot-timer style starts: a "standby" phase followed by the start beep after a
+ * random delay, scheduled starts at a set time or after a countdown, and the
+ * draw time from the beep to the first hit.
+ * Pure functions - no React or Supabase imports.
+ */
+
+import type { RuleResult, SessionHitRecordForScoring } from './rules';
+
+/**
+ * Random start delay limits (seconds)
+ */
+export const START_DELAY_CONSTRAINTS = {
+  MIN_SECONDS: 0.5,
+  MAX_SECONDS: 10,
+  /** Range real shot timers use by default */
+  DEFAULT_MIN_SECONDS: 1,
+  DEFAULT_MAX_SECONDS: 4,
+} as const;
+
+/**
+ * Range the start beep delay is drawn from after standby
+ */
+export type StartDelay = {
+  minSeconds: number;
+  maxSeconds: number;
+};
+
+export const DEFAULT_START_DELAY: StartDelay = {
+  minSeconds: START_DELAY_CONSTRAINTS.DEFAULT_MIN_SECONDS,
+  maxSeconds: START_DELAY_CONSTRAINTS.DEFAULT_MAX_SECONDS,
+};
+
+/**
+ * Check a random start delay range
+ */
+export function validateStartDelay(delay: StartDelay): RuleResult {
+  const { minSeconds, maxSeconds } = delay;
+  if (
+    !Number.isFinite(minSeconds) ||
+    !Number.isFinite(maxSeconds) ||
+    minSeconds < START_DELAY_CONSTRAINTS.MIN_SECONDS ||
+    maxSeconds > START_DELAY_CONSTRAINTS.MAX_SECONDS
+  ) {
+    return {
+      valid: false,
+      violation: `Start delay must be between ${START_DELAY_CONSTRAINTS.MIN_SECONDS} and ${START_DELAY_CONSTRAINTS.MAX_SECONDS} seconds`,
+      code: 'INVALID_START_DELAY',
+    };
+  }
+  if (minSeconds > maxSeconds) {
+    return {
+      valid: false,
+      violation: 'Start delay minimum cannot exceed its maximum',
+      code: 'INVALID_START_DELAY_RANGE',
+    };
+  }
+  return { valid: true };
+}
+
+/**
+ * Draw the delay (ms) between standby and the start beep.
+ * `random` returns a value in [0, 1) and is injectable for tests.
+ */
+export function pickStartDelayMs(delay: StartDelay, random: () => number = Math.random): number {
+  const span = Math.max(0, delay.maxSeconds - delay.minSeconds);
+  return Math.round((delay.minSeconds + random() * span) * 1000);
+}
+
+/**
+ * Scheduled start limits (seconds of lead time from launch)
+ */
+export const SCHEDULED_START_CONSTRAINTS = {
+  /** Long enough for the start command to reach every target */
+  MIN_LEAD_SECONDS: 5,
+  MAX_LEAD_SECONDS: 3600,
+  /** Countdowns offered in the start dialog */
+  COUNTDOWN_PRESETS_SECONDS: [10, 30, 60, 120],
+} as const;
+
+/**
+ * When a queued session starts: after a countdown from launch, or at a local
+ * wall-clock time ("HH:MM", the next time that comes round)
+ */
+export type StartSchedule =
+  | { kind: 'countdown'; seconds: number }
+  | { kind: 'at'; time: string };
+
+/**
+ * Timestamp (ms) a scheduled start fires at, or null when the time of day
+ * cannot be read
+ */
+export function resolveScheduledStartAt(schedule: StartSchedule, now: number): number | null {
+  if (schedule.kind === 'countdown') {
+    return Number.isFinite(schedule.seconds) ? now + Math.round(schedule.seconds * 1000) : null;
+  }
+  const match = /^(\d{1,2}):(\d{2})$/.exec(schedule.time.trim());
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  const startAt = new Date(now);
+  startAt.setHours(hours, minutes, 0, 0);
+  if (startAt.getTime() <= now) {
+    startAt.setDate(startAt.getDate() + 1);
+  }
+  return startAt.getTime();
+}
+
+/**
+ * Check a resolved scheduled start against the allowed lead time
+ */
+export function validateScheduledStart(startAt: number | null, now: number): RuleResult {
+  if (startAt === null || !Number.isFinite(startAt)) {
+    return { valid: false, violation: 'Enter the start time as HH:MM', code: 'INVALID_SCHEDULED_START' };
+  }
+  const leadSeconds = (startAt - now) / 1000;
+  if (leadSeconds < SCHEDULED_START_CONSTRAINTS.MIN_LEAD_SECONDS) {
+    return {
+      valid: false,
+      violation: `Scheduled starts need at least ${SCHEDULED_START_CONSTRAINTS.MIN_LEAD_SECONDS} seconds of lead time`,
+      code: 'SCHEDULED_START_TOO_SOON',
+    };
+  }
+  if (leadSeconds > SCHEDULED_START_CONSTRAINTS.MAX_LEAD_SECONDS) {
+    return {
+      valid: false,
+      violation: `Scheduled starts must be within ${SCHEDULED_START_CONSTRAINTS.MAX_LEAD_SECONDS / 60} minutes`,
+      code: 'SCHEDULED_START_TOO_FAR',
+    };
+  }
+  return { valid: true };
+}
+
+/**
+ * Whole seconds left before a scheduled start, counting down to 0
+ */
+export function countdownSecondsRemaining(startAt: number, now: number): number {
+  return Math.max(0, Math.ceil((startAt - now) / 1000));
+}
+
+/**
+ * Draw time: seconds from the start beep to the first hit at or after it.
+ * Hits before the beep are early and do not count. Null when nothing was hit.
+ */
+export function calculateDrawTime(hits: SessionHitRecordForScoring[], beepAt: number): number | null {
+  let firstHit: number | null = null;
+  for (const hit of hits) {
+    if (hit.timestamp >= beepAt && (firstHit === null || hit.timestamp < firstHit)) {
+      firstHit = hit.timestamp;
+    }
+  }
+  return firstHit === null ? null : Number(((firstHit - beepAt) / 1000).toFixed(2));
+}
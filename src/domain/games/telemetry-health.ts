@@ -0,0 +1,142 @@
+/**
+ * Games Domain Telemetry Health
+ *
+ * Per-target delivery metrics for live telemetry: how long a hit takes from
+ * the target's clock to the dashboard, and how many hits never arrived
+ * (the target's running hit counter skipped ahead).
+ * Pure functions - no React or Supabase imports.
+ */
+
+/**
+ * Telemetry health tuning
+ */
+export const TELEMETRY_HEALTH_CONSTRAINTS = {
+  /** Weight of the newest sample in the smoothed latency */
+  LATENCY_SMOOTHING: 0.3,
+} as const;
+
+/**
+ * Delivery metrics of one target
+ */
+export type DeviceTelemetryHealth = {
+  deviceId: string;
+  messageCount: number;
+  lastLatencyMs: number | null;
+  /** Smoothed latency; null until a timed message arrives */
+  averageLatencyMs: number | null;
+  maxLatencyMs: number | null;
+  lastMessageAt: number | null;
+  /** Last value of the target's running hit counter */
+  lastHitCount: number | null;
+  /** Hits the counter advanced past without a message for them */
+  droppedHits: number;
+  /** Times the counter skipped ahead */
+  gapCount: number;
+};
+
+/**
+ * One telemetry message as seen by the dashboard
+ */
+export type TelemetrySample = {
+  deviceId: string;
+  receivedAt: number;
+  /** When the target recorded it, on the local clock; null when the message carries no time */
+  deviceTimestamp: number | null;
+  /** Running hit counter reported with the message, if any */
+  hitCount: number | null;
+};
+
+export type TelemetryHealthStatus = 'unknown' | 'healthy' | 'degraded';
+
+export type TelemetryHealthSummary = {
+  status: TelemetryHealthStatus;
+  averageLatencyMs: number | null;
+  worstLatencyMs: number | null;
+  /** Targets whose smoothed latency is over the SLA */
+  overSlaDeviceIds: string[];
+  droppedHits: number;
+  gapCount: number;
+};
+
+const emptyHealth = (deviceId: string): DeviceTelemetryHealth => ({
+  deviceId,
+  messageCount: 0,
+  lastLatencyMs: null,
+  averageLatencyMs: null,
+  maxLatencyMs: null,
+  lastMessageAt: null,
+  lastHitCount: null,
+  droppedHits: 0,
+  gapCount: 0,
+});
+
+/**
+ * Fold one message into a target's metrics.
+ *
+ * A counter that goes backwards means the target started a new game, so it
+ * only resets the baseline.
+ */
+export function recordTelemetrySample(
+  previous: DeviceTelemetryHealth | undefined,
+  sample: TelemetrySample,
+): DeviceTelemetryHealth {
+  const health = previous ?? emptyHealth(sample.deviceId);
+  const next: DeviceTelemetryHealth = {
+    ...health,
+    messageCount: health.messageCount + 1,
+    lastMessageAt: sample.receivedAt,
+  };
+
+  if (sample.deviceTimestamp !== null && Number.isFinite(sample.deviceTimestamp)) {
+    const latency = Math.max(0, sample.receivedAt - sample.deviceTimestamp);
+    next.lastLatencyMs = latency;
+    next.averageLatencyMs =
+      health.averageLatencyMs === null
+        ? latency
+        : Math.round(
+          health.averageLatencyMs + TELEMETRY_HEALTH_CONSTRAINTS.LATENCY_SMOOTHING * (latency - health.averageLatencyMs),
+        );
+    next.maxLatencyMs = Math.max(health.maxLatencyMs ?? 0, latency);
+  }
+
+  if (sample.hitCount !== null && Number.isFinite(sample.hitCount)) {
+    const skipped = health.lastHitCount === null ? 0 : sample.hitCount - health.lastHitCount - 1;
+    if (skipped > 0) {
+      next.droppedHits = health.droppedHits + skipped;
+      next.gapCount = health.gapCount + 1;
+    }
+    next.lastHitCount = sample.hitCount;
+  }
+
+  return next;
+}
+
+/**
+ * Roll per-target metrics up into the session's telemetry health
+ */
+export function summarizeTelemetryHealth(devices: DeviceTelemetryHealth[], slaMs: number): TelemetryHealthSummary {
+  const latencies = devices
+    .map((device) => device.averageLatencyMs)
+    .filter((latency): latency is number => latency !== null);
+  const overSlaDeviceIds = devices
+    .filter((device) => device.averageLatencyMs !== null && device.averageLatencyMs > slaMs)
+    .map((device) => device.deviceId);
+  const droppedHits = devices.reduce((sum, device) => sum + device.droppedHits, 0);
+
+  let status: TelemetryHealthStatus = 'unknown';
+  if (latencies.length > 0) {
+    status = overSlaDeviceIds.length > 0 || droppedHits > 0 ? 'degraded' : 'healthy';
+  } else if (droppedHits > 0) {
+    status = 'degraded';
+  }
+
+  return {
+    status,
+    averageLatencyMs:
+      latencies.length > 0 ? Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length) : null,
+    worstLatencyMs: latencies.length > 0 ? Math.max(...latencies) : null,
+    overSlaDeviceIds,
+    droppedHits,
+    gapCount: devices.reduce((sum, device) => sum + device.gapCount, 0),
+  };
+}
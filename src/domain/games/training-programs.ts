@@ -0,0 +1,306 @@
+/**
+ * Games Domain Training Programs
+ *
+ * A training program is an ordered list of levels, each shot as one of the
+ * user's presets, e.g. "clear level 2 by passing its qualification twice".
+ * Levels unlock one at a time: runs of the current level's preset since the
+ * previous level was cleared count towards its requirement, and the run that
+ * meets it clears the level and unlocks the next.
+ * Pure functions - no React or Supabase imports.
+ */
+
+import type { RuleResult } from './rules';
+import {
+  beatsScore,
+  isCompletedScore,
+  type ScoreDirection,
+} from '../shared/score-direction';
+
+/**
+ * Training program limits
+ */
+export const TRAINING_PROGRAM_CONSTRAINTS = {
+  NAME_MAX_LENGTH: 60,
+  DESCRIPTION_MAX_LENGTH: 500,
+  MIN_LEVELS: 1,
+  MAX_LEVELS: 20,
+  MIN_REQUIRED_RUNS: 1,
+  MAX_REQUIRED_RUNS: 50,
+} as const;
+
+/**
+ * What a run must do to count towards clearing a level:
+ * - completion: finish with every required hit
+ * - qualification: pass the preset's qualification course
+ * - score: finish at or better than a target score
+ */
+export type TrainingUnlockCriterion = 'completion' | 'qualification' | 'score';
+
+export const TRAINING_UNLOCK_CRITERIA: Array<{ id: TrainingUnlockCriterion; label: string }> = [
+  { id: 'completion', label: 'Complete the drill' },
+  { id: 'qualification', label: 'Pass the qualification' },
+  { id: 'score', label: 'Reach a score' },
+];
+
+export type TrainingLevelRequirement = {
+  criterion: TrainingUnlockCriterion;
+  /** Counting runs needed to clear the level */
+  requiredRuns: number;
+  /** Score a run must match or beat; only used by the 'score' criterion */
+  targetScore: number | null;
+};
+
+/**
+ * One level of a program: the preset it is shot as and how to clear it
+ */
+export type TrainingLevel = {
+  id: string;
+  name: string;
+  presetId: string;
+  requirement: TrainingLevelRequirement;
+};
+
+export type TrainingProgram = {
+  id: string;
+  name: string;
+  description: string | null;
+  /** Levels in the order they unlock */
+  levels: TrainingLevel[];
+};
+
+/**
+ * A user's progress through one program
+ */
+export type TrainingProgress = {
+  programId: string;
+  /** When the user enrolled (ms); earlier runs do not count */
+  startedAt: number;
+  /** Cleared levels in program order, with when the clearing run started (ms) */
+  clearedLevels: Array<{ levelId: string; clearedAt: number }>;
+};
+
+/**
+ * The parts of a finished session a level is judged on
+ */
+export type TrainingRun = {
+  gameId: string;
+  presetId: string | null;
+  startTime: number;
+  score: number | null;
+  isValid: boolean;
+  scoreDirection: ScoreDirection;
+  /** Pass/fail against the preset's qualification course; null when shot without one */
+  qualificationPassed: boolean | null;
+};
+
+export type TrainingLevelStatus = 'cleared' | 'current' | 'locked';
+
+export type TrainingLevelSummary = {
+  level: TrainingLevel;
+  status: TrainingLevelStatus;
+  clearedAt: number | null;
+  /** Runs of the level's preset while it was the current level */
+  attempts: number;
+  /** Of those, runs that met the requirement */
+  countingRuns: number;
+};
+
+export type TrainingHistoryEntry = {
+  gameId: string;
+  startTime: number;
+  levelId: string;
+  levelName: string;
+  score: number | null;
+  /** Whether the run counted towards clearing its level */
+  counted: boolean;
+};
+
+export type TrainingProgramSummary = {
+  /** Index of the level being worked on; equals the level count once all are cleared */
+  currentLevelIndex: number;
+  /** The next drill to shoot, null once the program is complete */
+  currentLevel: TrainingLevel | null;
+  isComplete: boolean;
+  /** Share of levels cleared, in percent */
+  percentComplete: number;
+  levels: TrainingLevelSummary[];
+  /** Program runs, newest first */
+  history: TrainingHistoryEntry[];
+};
+
+/**
+ * Check a training program definition
+ */
+export function validateTrainingProgram(program: Pick<TrainingProgram, 'name' | 'description' | 'levels'>): RuleResult {
+  const name = program.name?.trim() ?? '';
+  if (name.length === 0 || name.length > TRAINING_PROGRAM_CONSTRAINTS.NAME_MAX_LENGTH) {
+    return {
+      valid: false,
+      violation: `Program name must be 1-${TRAINING_PROGRAM_CONSTRAINTS.NAME_MAX_LENGTH} characters`,
+      code: 'INVALID_PROGRAM_NAME',
+    };
+  }
+
+  if ((program.description ?? '').length > TRAINING_PROGRAM_CONSTRAINTS.DESCRIPTION_MAX_LENGTH) {
+    return {
+      valid: false,
+      violation: `Program description must be at most ${TRAINING_PROGRAM_CONSTRAINTS.DESCRIPTION_MAX_LENGTH} characters`,
+      code: 'INVALID_PROGRAM_DESCRIPTION',
+    };
+  }
+
+  const { MIN_LEVELS, MAX_LEVELS, MIN_REQUIRED_RUNS, MAX_REQUIRED_RUNS } = TRAINING_PROGRAM_CONSTRAINTS;
+  if (program.levels.length < MIN_LEVELS || program.levels.length > MAX_LEVELS) {
+    return {
+      valid: false,
+      violation: `A program needs ${MIN_LEVELS}-${MAX_LEVELS} levels`,
+      code: 'INVALID_PROGRAM_LEVEL_COUNT',
+    };
+  }
+
+  for (const [index, level] of program.levels.entries()) {
+    const label = `Level ${index + 1}`;
+    if (!level.presetId) {
+      return { valid: false, violation: `${label} needs a preset`, code: 'MISSING_LEVEL_PRESET' };
+    }
+
+    const { requiredRuns, criterion, targetScore } = level.requirement;
+    if (!Number.isInteger(requiredRuns) || requiredRuns < MIN_REQUIRED_RUNS || requiredRuns > MAX_REQUIRED_RUNS) {
+      return {
+        valid: false,
+        violation: `${label} must require ${MIN_REQUIRED_RUNS}-${MAX_REQUIRED_RUNS} runs`,
+        code: 'INVALID_LEVEL_REQUIRED_RUNS',
+      };
+    }
+
+    if (criterion === 'score' && (targetScore === null || !Number.isFinite(targetScore) || targetScore <= 0)) {
+      return {
+        valid: false,
+        violation: `${label} needs a target score above 0`,
+        code: 'INVALID_LEVEL_TARGET_SCORE',
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Whether a run counts towards clearing a level with `requirement`
+ */
+export function runMeetsRequirement(run: TrainingRun, requirement: TrainingLevelRequirement): boolean {
+  switch (requirement.criterion) {
+    case 'qualification':
+      return run.qualificationPassed === true;
+    case 'score':
+      return (
+        run.isValid &&
+        isCompletedScore(run.score, run.scoreDirection) &&
+        requirement.targetScore !== null &&
+        (run.score === requirement.targetScore || beatsScore(run.score, requirement.targetScore, run.scoreDirection))
+      );
+    case 'completion':
+    default:
+      return run.isValid && isCompletedScore(run.score, run.scoreDirection);
+  }
+}
+
+// Runs of a level's preset from when it unlocked until it was cleared (open-ended
+// while current), oldest first. A clearing run belongs to the level it cleared,
+// so the next level only counts runs after it.
+function runsForLevel(
+  level: TrainingLevel,
+  unlockedAt: number,
+  inclusiveStart: boolean,
+  clearedAt: number | null,
+  runs: TrainingRun[]
+): TrainingRun[] {
+  return runs
+    .filter(
+      (run) =>
+        run.presetId === level.presetId &&
+        (inclusiveStart ? run.startTime >= unlockedAt : run.startTime > unlockedAt) &&
+        (clearedAt === null || run.startTime <= clearedAt)
+    )
+    .sort((a, b) => a.startTime - b.startTime);
+}
+
+/**
+ * Clear every level whose requirement the runs now meet, in order. Returns
+ * `progress` itself when nothing new was cleared.
+ */
+export function advanceTrainingProgress(
+  program: TrainingProgram,
+  progress: TrainingProgress,
+  runs: TrainingRun[]
+): TrainingProgress {
+  const clearedLevels = [...progress.clearedLevels];
+
+  while (clearedLevels.length < program.levels.length) {
+    const level = program.levels[clearedLevels.length];
+    const previous = clearedLevels[clearedLevels.length - 1];
+    const counting = runsForLevel(level, previous?.clearedAt ?? progress.startedAt, !previous, null, runs)
+      .filter((run) => runMeetsRequirement(run, level.requirement));
+
+    if (counting.length < level.requirement.requiredRuns) {
+      break;
+    }
+    clearedLevels.push({ levelId: level.id, clearedAt: counting[level.requirement.requiredRuns - 1].startTime });
+  }
+
+  return clearedLevels.length === progress.clearedLevels.length ? progress : { ...progress, clearedLevels };
+}
+
+/**
+ * Current level, next drill, per-level attempts and run history for a program
+ */
+export function summarizeTrainingProgram(
+  program: TrainingProgram,
+  progress: TrainingProgress,
+  runs: TrainingRun[]
+): TrainingProgramSummary {
+  const currentLevelIndex = Math.min(progress.clearedLevels.length, program.levels.length);
+  const history: TrainingHistoryEntry[] = [];
+
+  const levels = program.levels.map((level, index): TrainingLevelSummary => {
+    if (index > currentLevelIndex) {
+      return { level, status: 'locked', clearedAt: null, attempts: 0, countingRuns: 0 };
+    }
+
+    const previous = index > 0 ? progress.clearedLevels[index - 1] : undefined;
+    const clearedAt = index < currentLevelIndex ? progress.clearedLevels[index].clearedAt : null;
+    const levelRuns = runsForLevel(level, previous?.clearedAt ?? progress.startedAt, !previous, clearedAt, runs);
+
+    let countingRuns = 0;
+    levelRuns.forEach((run) => {
+      const counted = runMeetsRequirement(run, level.requirement);
+      if (counted) countingRuns += 1;
+      history.push({
+        gameId: run.gameId,
+        startTime: run.startTime,
+        levelId: level.id,
+        levelName: level.name,
+        score: run.score,
+        counted,
+      });
+    });
+
+    return {
+      level,
+      status: clearedAt !== null ? 'cleared' : 'current',
+      clearedAt,
+      attempts: levelRuns.length,
+      countingRuns,
+    };
+  });
+
+  const isComplete = program.levels.length > 0 && currentLevelIndex >= program.levels.length;
+  return {
+    currentLevelIndex,
+    currentLevel: program.levels[currentLevelIndex] ?? null,
+    isComplete,
+    percentComplete: program.levels.length > 0 ? Math.round((currentLevelIndex / program.levels.length) * 100) : 0,
+    levels,
+    history: history.sort((a, b) => b.startTime - a.startTime),
+  };
+}
@@ -35,6 +35,7 @@ export const GAME_SESSION_STATUS = [
   'configuring',
   'launching',
   'running',
+  'paused',
   'stopping',
   'finalizing',
   'completed',
@@ -42,6 +43,31 @@ export const GAME_SESSION_STATUS = [
 ] as const;
 export type GameSessionStatus = typeof GAME_SESSION_STATUS[number];
 
+/**
+ * Game mode identifiers (see modes.ts for the registry)
+ */
+export const GAME_MODE_IDS = [
+  'time-to-goal',
+  'most-hits',
+  'bill-drill',
+  'el-presidente',
+  'random-callout',
+  'par-time',
+] as const;
+export type GameModeId = typeof GAME_MODE_IDS[number];
+
+/**
+ * Multi-shooter session formats (see squads.ts)
+ */
+export const SQUAD_FORMATS = ['relay', 'head-to-head'] as const;
+export type SquadFormat = typeof SQUAD_FORMATS[number];
+
+/**
+ * What a drill stage does when its time limit runs out (see drills.ts)
+ */
+export const DRILL_STAGE_TIMEOUT_ACTIONS = ['advance', 'end'] as const;
+export type DrillStageTimeoutAction = typeof DRILL_STAGE_TIMEOUT_ACTIONS[number];
+
 /**
  * Game difficulty enum
  */
@@ -57,6 +83,21 @@ export type GameCategory = typeof GAME_CONSTRAINTS.VALID_CATEGORIES[number];
  */
 export const gameSessionStatusSchema = z.enum(GAME_SESSION_STATUS);
 
+/**
+ * Game mode schema
+ */
+export const gameModeIdSchema = z.enum(GAME_MODE_IDS);
+
+/**
+ * Squad format schema
+ */
+export const squadFormatSchema = z.enum(SQUAD_FORMATS);
+
+/**
+ * Drill stage timeout action schema
+ */
+export const drillStageTimeoutActionSchema = z.enum(DRILL_STAGE_TIMEOUT_ACTIONS);
+
 /**
  * Game difficulty schema
  */
@@ -178,6 +219,27 @@ export function validateGameSessionStatus(status: unknown): ValidationResult<Gam
   return validateWithSchema(gameSessionStatusSchema, status);
 }
 
+/**
+ * Validate game mode identifier
+ */
+export function validateGameModeId(modeId: unknown): ValidationResult<GameModeId> {
+  return validateWithSchema(gameModeIdSchema, modeId);
+}
+
+/**
+ * Validate squad format
+ */
+export function validateSquadFormat(format: unknown): ValidationResult<SquadFormat> {
+  return validateWithSchema(squadFormatSchema, format);
+}
+
+/**
+ * Validate drill stage timeout action
+ */
+export function validateDrillStageTimeoutAction(action: unknown): ValidationResult<DrillStageTimeoutAction> {
+  return validateWithSchema(drillStageTimeoutActionSchema, action);
+}
+
 /**
  * Validate game ID
  */
@@ -210,7 +272,7 @@ export function validateSessionId(sessionId: unknown): ValidationResult<string>
  * Check if game session is in active state
  */
 export function isActiveSessionStatus(status: GameSessionStatus): boolean {
-  return ['configuring', 'launching', 'running', 'stopping', 'finalizing'].includes(status);
+  return ['configuring', 'launching', 'running', 'paused', 'stopping', 'finalizing'].includes(status);
 }
 
 /**
@@ -231,7 +293,7 @@ export function canStartSession(status: GameSessionStatus): boolean {
  * Check if game session can be stopped
  */
 export function canStopSession(status: GameSessionStatus): boolean {
-  return ['running', 'launching'].includes(status);
+  return ['running', 'paused', 'launching'].includes(status);
 }
 
 /**
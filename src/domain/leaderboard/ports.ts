@@ -6,6 +6,7 @@
  */
 
 import type { ApiResponse } from '@/shared/lib/api-response';
+import type { GameModeId } from '../games/validators';
 
 /**
  * Leaderboard entry record (data layer)
@@ -31,6 +32,8 @@ export type LeaderboardEntry = LeaderboardRecord & {
 export type LeaderboardQuery = {
   timeframe: 'day' | 'week' | 'month' | 'all';
   sortBy: 'score' | 'hits' | 'accuracy';
+  /** Game mode the board is scoped to; its score direction decides how scores rank */
+  gameMode: GameModeId;
   limit?: number;
 };
 
@@ -0,0 +1,49 @@
+/**
+ * Leaderboard Domain Rules
+ *
+ * Ordering and ranking of leaderboard entries.
+ * Pure functions - no React or Supabase imports.
+ */
+
+import type { LeaderboardEntry, LeaderboardQuery, LeaderboardRecord } from './ports';
+import {
+  DEFAULT_SCORE_DIRECTION,
+  compareScores,
+  isCompletedScore,
+  type ScoreDirection,
+} from '../shared/score-direction';
+
+/**
+ * Whether the metric ranks its lowest value first
+ */
+export function ranksAscending(
+  sortBy: LeaderboardQuery['sortBy'],
+  direction: ScoreDirection = DEFAULT_SCORE_DIRECTION
+): boolean {
+  return sortBy === 'score' && direction === 'lower-is-better';
+}
+
+/**
+ * Order records best first on the query's metric and number them. Hits and
+ * accuracy always rank highest first; scores follow the score direction, with
+ * unfinished (DNF) scores after every finished one.
+ */
+export function rankLeaderboardRecords(
+  records: LeaderboardRecord[],
+  sortBy: LeaderboardQuery['sortBy'],
+  direction: ScoreDirection = DEFAULT_SCORE_DIRECTION
+): LeaderboardEntry[] {
+  const compare = (a: LeaderboardRecord, b: LeaderboardRecord): number => {
+    if (sortBy !== 'score') {
+      return b[sortBy] - a[sortBy];
+    }
+    const aDone = isCompletedScore(a.score, direction);
+    const bDone = isCompletedScore(b.score, direction);
+    if (aDone !== bDone) {
+      return aDone ? -1 : 1;
+    }
+    return compareScores(a.score, b.score, direction);
+  };
+
+  return [...records].sort(compare).map((record, index) => ({ ...record, rank: index + 1 }));
+}
@@ -33,6 +33,7 @@ export type SessionDbRow = {
   id: string;
   scenario_name: string | null;
   scenario_type: string | null;
+  game_mode: string | null;
   room_name: string | null;
   room_id: string | null;
   score: number | null;
@@ -77,6 +78,7 @@ export type RecentSessionDomain = {
   id: string;
   scenarioName: string | null;
   scenarioType: string | null;
+  gameMode: string | null;
   roomName: string | null;
   roomId: string | null;
   score: number;
@@ -171,6 +173,7 @@ export function mapSessionRowToRecentSession(row: SessionDbRow): RecentSessionDo
     id: row.id,
     scenarioName: row.scenario_name ?? null,
     scenarioType: row.scenario_type ?? null,
+    gameMode: row.game_mode ?? null,
     roomName: row.room_name ?? null,
     roomId: row.room_id ?? null,
     score: toNumber(row.score),
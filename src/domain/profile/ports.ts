@@ -40,6 +40,7 @@ export type RecentSessionRecord = {
   id: string;
   scenarioName: string | null;
   scenarioType: string | null;
+  gameMode: string | null;
   roomName: string | null;
   roomId: string | null;
   score: number;
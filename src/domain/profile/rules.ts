@@ -6,6 +6,9 @@
  */
 
 import { PROFILE_CONSTRAINTS } from './validators';
+import { getScoreDirection, resolveGameModeId } from '../games/modes';
+import type { GameModeId } from '../games/validators';
+import { DEFAULT_SCORE_DIRECTION, pickBestScore } from '../shared/score-direction';
 
 /**
  * Profile business rule result
@@ -24,6 +27,8 @@ export type SessionSummary = {
   durationMs: number;
   accuracyPercentage: number | null;
   startedAt: string;
+  /** Game mode the session was scored under; the default (timed) mode when omitted */
+  gameMode?: string | null;
 };
 
 /**
@@ -35,6 +40,8 @@ export type ProfileStats = {
   totalPracticeTimeMs: number;
   averageAccuracy: number | null;
   bestScore: number | null;
+  /** Best score of each mode with a completed session, in that mode's unit */
+  bestScoresByMode: Partial<Record<GameModeId, number>>;
   currentStreak: number;
 };
 
@@ -119,20 +126,37 @@ export function calculateAverageAccuracy(sessions: SessionSummary[]): number | n
 }
 
 /**
- * Calculate best score from sessions.
- * For time-based scoring, "best" means the lowest/fastest time.
- * DNF sessions (score=0) are excluded — only completed runs count.
+ * Best score of each game mode, picked in the mode's own direction: the
+ * fastest time for timed modes, the most hits for hit-count modes.
+ * Timed DNF sessions (score=0) are excluded.
  */
-export function calculateBestScore(sessions: SessionSummary[]): number | null {
-  // Only include completed sessions (score > 0). Score=0 means DNF.
-  const validScores = sessions.map((s) => s.score).filter((s) => s > 0);
+export function calculateBestScoresByMode(sessions: SessionSummary[]): Partial<Record<GameModeId, number>> {
+  const scoresByMode = new Map<GameModeId, number[]>();
+  sessions.forEach((s) => {
+    const gameMode = resolveGameModeId(s.gameMode);
+    scoresByMode.set(gameMode, [...(scoresByMode.get(gameMode) ?? []), s.score]);
+  });
 
-  if (validScores.length === 0) {
-    return null;
-  }
+  const bests: Partial<Record<GameModeId, number>> = {};
+  scoresByMode.forEach((scores, gameMode) => {
+    const best = pickBestScore(scores, getScoreDirection(gameMode));
+    if (best !== null) {
+      bests[gameMode] = best;
+    }
+  });
+  return bests;
+}
 
-  // For time-based scoring, lower is better
-  return Math.min(...validScores);
+/**
+ * Calculate best score from sessions: the fastest completed time across the
+ * timed modes. Hit counts cannot be compared with seconds, so hit-count modes
+ * only have a best in `calculateBestScoresByMode`.
+ */
+export function calculateBestScore(sessions: SessionSummary[]): number | null {
+  const timedBests = Object.entries(calculateBestScoresByMode(sessions))
+    .filter(([gameMode]) => getScoreDirection(gameMode) === DEFAULT_SCORE_DIRECTION)
+    .map(([, best]) => best);
+  return pickBestScore(timedBests, DEFAULT_SCORE_DIRECTION);
 }
 
 /**
@@ -195,6 +219,7 @@ export function buildProfileStats(sessions: SessionSummary[]): ProfileStats {
     totalPracticeTimeMs: calculateTotalPracticeTime(sessions),
     averageAccuracy: calculateAverageAccuracy(sessions),
     bestScore: calculateBestScore(sessions),
+    bestScoresByMode: calculateBestScoresByMode(sessions),
     currentStreak: calculateCurrentStreak(sessions),
   };
 }
@@ -0,0 +1,193 @@
+/**
+ * Rooms Domain Heat Map
+ *
+ * Per-target statistics for colouring a room layout by how its targets
+ * perform: hit rate, average split and miss rate over a period, plus the
+ * session history behind a single target.
+ * Pure functions - no React or Supabase imports.
+ */
+
+/**
+ * What one target did in one session
+ */
+export type HeatMapTargetResult = {
+  deviceId: string;
+  hits: number;
+  /** Missed shots on this target, or null when the session did not record them */
+  misses: number | null;
+  /** Split times (seconds) between hits on this target */
+  splitTimes: number[];
+};
+
+/**
+ * A stored session as far as the heat map is concerned
+ */
+export type HeatMapSession = {
+  id: string;
+  name: string;
+  startedAt: string;
+  roomId: string | null;
+  durationSeconds: number;
+  targets: HeatMapTargetResult[];
+};
+
+export type HeatMapMetric = 'hitRate' | 'avgSplit' | 'missRate';
+
+export type TargetHeatStats = {
+  deviceId: string;
+  sessionCount: number;
+  hits: number;
+  misses: number;
+  /** Hits per minute of session time */
+  hitRate: number | null;
+  /** Mean split in seconds */
+  avgSplit: number | null;
+  /** Share of recorded shots that missed, 0-1 */
+  missRate: number | null;
+};
+
+export type TargetSessionHistoryEntry = {
+  sessionId: string;
+  name: string;
+  startedAt: string;
+  hits: number;
+  misses: number | null;
+  avgSplit: number | null;
+};
+
+export const HEAT_MAP_METRICS: Array<{ id: HeatMapMetric; label: string }> = [
+  { id: 'hitRate', label: 'Hit rate' },
+  { id: 'avgSplit', label: 'Average split' },
+  { id: 'missRate', label: 'Miss rate' },
+];
+
+// Colour scale ends: brand secondary (cool) to brand primary (hot)
+const HEAT_COOL: [number, number, number] = [129, 110, 148];
+const HEAT_HOT: [number, number, number] = [206, 62, 10];
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function validSplits(splitTimes: number[]): number[] {
+  return splitTimes.filter((time) => Number.isFinite(time) && time > 0);
+}
+
+/**
+ * Sessions played in `roomId` since `since` (all time when null)
+ */
+export function filterHeatMapSessions(
+  sessions: HeatMapSession[],
+  roomId: string,
+  since: Date | null
+): HeatMapSession[] {
+  const sinceMs = since ? since.getTime() : null;
+  return sessions.filter(
+    (session) => session.roomId === roomId && (sinceMs === null || Date.parse(session.startedAt) >= sinceMs)
+  );
+}
+
+/**
+ * Hit rate, average split and miss rate for each target that took part
+ * in the sessions, keyed by device id
+ */
+export function calculateTargetHeatStats(sessions: HeatMapSession[]): Record<string, TargetHeatStats> {
+  const totals = new Map<string, { sessionCount: number; hits: number; misses: number; shots: number; seconds: number; splits: number[] }>();
+
+  sessions.forEach((session) => {
+    session.targets.forEach((target) => {
+      const entry = totals.get(target.deviceId) ?? { sessionCount: 0, hits: 0, misses: 0, shots: 0, seconds: 0, splits: [] };
+      entry.sessionCount += 1;
+      entry.hits += target.hits;
+      entry.seconds += Math.max(0, session.durationSeconds);
+      entry.splits.push(...validSplits(target.splitTimes));
+      // Only sessions that recorded misses count towards the miss rate
+      if (target.misses !== null) {
+        entry.misses += target.misses;
+        entry.shots += target.hits + target.misses;
+      }
+      totals.set(target.deviceId, entry);
+    });
+  });
+
+  const stats: Record<string, TargetHeatStats> = {};
+  totals.forEach((entry, deviceId) => {
+    const avgSplit = mean(entry.splits);
+    stats[deviceId] = {
+      deviceId,
+      sessionCount: entry.sessionCount,
+      hits: entry.hits,
+      misses: entry.misses,
+      hitRate: entry.seconds > 0 ? round(entry.hits / (entry.seconds / 60)) : null,
+      avgSplit: avgSplit === null ? null : round(avgSplit, 3),
+      missRate: entry.shots > 0 ? round(entry.misses / entry.shots, 3) : null,
+    };
+  });
+  return stats;
+}
+
+/**
+ * Where each target's value for `metric` sits between the lowest (0) and
+ * highest (1) value across targets; null for targets without a value
+ */
+export function calculateHeatIntensities(
+  stats: Record<string, TargetHeatStats>,
+  metric: HeatMapMetric
+): Record<string, number | null> {
+  const values = Object.values(stats)
+    .map((entry) => entry[metric])
+    .filter((value): value is number => value !== null);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+
+  const intensities: Record<string, number | null> = {};
+  Object.values(stats).forEach((entry) => {
+    const value = entry[metric];
+    if (value === null) {
+      intensities[entry.deviceId] = null;
+    } else {
+      // A single value (or all equal) sits in the middle of the scale
+      intensities[entry.deviceId] = max > min ? (value - min) / (max - min) : 0.5;
+    }
+  });
+  return intensities;
+}
+
+/**
+ * Hex colour for an intensity between 0 (cool) and 1 (hot)
+ */
+export function heatColor(intensity: number): string {
+  const t = Math.min(1, Math.max(0, intensity));
+  return `#${HEAT_COOL.map((cool, index) =>
+    Math.round(cool + (HEAT_HOT[index] - cool) * t).toString(16).padStart(2, '0')
+  ).join('')}`;
+}
+
+/**
+ * One target's result in each session it took part in, newest first
+ */
+export function getTargetSessionHistory(
+  sessions: HeatMapSession[],
+  deviceId: string
+): TargetSessionHistoryEntry[] {
+  return sessions
+    .flatMap((session) => {
+      const target = session.targets.find((entry) => entry.deviceId === deviceId);
+      if (!target) return [];
+      const avgSplit = mean(validSplits(target.splitTimes));
+      return [{
+        sessionId: session.id,
+        name: session.name,
+        startedAt: session.startedAt,
+        hits: target.hits,
+        misses: target.misses,
+        avgSplit: avgSplit === null ? null : round(avgSplit, 3),
+      }];
+    })
+    .sort((a, b) => Date.parse(b.startedAt) - Date.parse(a.startedAt));
+}
@@ -8,3 +8,4 @@ export * from './validators';
 export * from './ports';
 export * from './permissions';
 export * from './rules';
+export * from './heat-map';
@@ -7,6 +7,7 @@
 
 export * from './validation-helpers';
 export * from './type-guards';
+export * from './score-direction';
 
 
 
@@ -0,0 +1,61 @@
+/**
+ * Shared Score Direction
+ *
+ * Whether a lower or a higher score wins. Time-based scores (seconds) are
+ * lower-is-better; count-based scores (hits) are higher-is-better.
+ * Pure functions with no external dependencies.
+ */
+
+export type ScoreDirection = 'lower-is-better' | 'higher-is-better';
+
+/**
+ * Direction of scores whose mode is unknown; sessions are timed by default
+ */
+export const DEFAULT_SCORE_DIRECTION: ScoreDirection = 'lower-is-better';
+
+/**
+ * Whether a score counts as a finished run. A timed score of 0 is a DNF;
+ * a count of 0 is a valid (if poor) result.
+ */
+export function isCompletedScore(score: number | null | undefined, direction: ScoreDirection): score is number {
+  if (typeof score !== 'number' || !Number.isFinite(score)) {
+    return false;
+  }
+  return direction === 'lower-is-better' ? score > 0 : score >= 0;
+}
+
+/**
+ * Whether `score` beats `other`
+ */
+export function beatsScore(score: number, other: number, direction: ScoreDirection): boolean {
+  return direction === 'lower-is-better' ? score < other : score > other;
+}
+
+/**
+ * Sort comparator putting the better score first
+ */
+export function compareScores(a: number, b: number, direction: ScoreDirection): number {
+  return direction === 'lower-is-better' ? a - b : b - a;
+}
+
+/**
+ * Best completed score, or null when there is none
+ */
+export function pickBestScore(scores: Array<number | null | undefined>, direction: ScoreDirection): number | null {
+  const completed = scores.filter((score): score is number => isCompletedScore(score, direction));
+  if (completed.length === 0) {
+    return null;
+  }
+  return direction === 'lower-is-better' ? Math.min(...completed) : Math.max(...completed);
+}
+
+/**
+ * How `score` measures up to `expected` as a ratio where 1 means on target
+ * and higher is always better, whichever way the score runs.
+ */
+export function scoreRatio(score: number, expected: number, direction: ScoreDirection): number {
+  if (expected <= 0 || score <= 0) {
+    return 0;
+  }
+  return direction === 'lower-is-better' ? expected / score : score / expected;
+}
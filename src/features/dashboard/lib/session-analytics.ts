@@ -0,0 +1,33 @@
+import type { GameHistory } from '@/features/games/lib/device-game-flow';
+import type { AnalyticsSession } from '@/domain/dashboard/analytics';
+
+// Converts a stored game history entry into the shape the analytics domain reads.
+// Preset names come from the user's presets; deleted presets fall back to the session name.
+export function mapHistoryToAnalyticsSession(
+  history: GameHistory,
+  presetNames: Map<string, string>,
+): AnalyticsSession {
+  const presetId = history.presetId ?? null;
+
+  return {
+    id: history.gameId,
+    startedAt: new Date(history.startTime).toISOString(),
+    score: typeof history.score === 'number' && Number.isFinite(history.score) ? history.score : 0,
+    hitCount: history.totalHits ?? 0,
+    durationMs: Math.round((history.actualDuration ?? 0) * 1000),
+    accuracyPercentage: typeof history.accuracy === 'number' ? history.accuracy : null,
+    gameMode: history.gameMode ?? null,
+    roomId: history.roomId ?? null,
+    roomName: history.roomName ?? null,
+    presetId,
+    presetName: (presetId ? presetNames.get(presetId) : undefined) ?? history.scenarioName ?? history.gameName,
+    splitTimes: (history.splits ?? []).map((split) => split.time),
+    transitions: (history.transitions ?? []).map((transition) => ({
+      fromTarget: transition.fromDevice,
+      toTarget: transition.toDevice,
+      time: transition.time,
+    })),
+    // The first round's time is 0 (nothing to time against); analytics ignores it
+    roundTimes: (history.roundSplits ?? []).map((round) => round.roundTime),
+  };
+}
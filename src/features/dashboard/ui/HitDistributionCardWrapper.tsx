@@ -1,11 +1,13 @@
 import React from 'react';
 import { HitDistributionCard, HitDistributionSkeleton } from '@/features/games/ui/components';
+import type { HitZoneDistribution } from '@/domain/games/hit-zones';
 
 type HitDistributionCardWrapperProps = {
   isLoading: boolean;
   totalHits: number;
   deviceHitSummary: Array<{ deviceId: string; deviceName: string; hits: number }>;
   pieChartData: Array<{ name: string; value: number }>;
+  zoneCounts?: HitZoneDistribution | null;
 };
 
 const HitDistributionCardWrapper: React.FC<HitDistributionCardWrapperProps> = ({
@@ -13,6 +15,7 @@ const HitDistributionCardWrapper: React.FC<HitDistributionCardWrapperProps> = ({
   totalHits,
   deviceHitSummary,
   pieChartData,
+  zoneCounts = null,
 }) => (
   <div className="h-full">
     {isLoading ? (
@@ -22,6 +25,7 @@ const HitDistributionCardWrapper: React.FC<HitDistributionCardWrapperProps> = ({
         totalHits={totalHits}
         deviceHitSummary={deviceHitSummary}
         pieChartData={pieChartData}
+        zoneCounts={zoneCounts}
       />
     )}
   </div>
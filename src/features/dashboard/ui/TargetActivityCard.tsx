@@ -6,6 +6,7 @@ import { cn } from '@/lib/utils';
 import { formatScoreValue } from '@/utils/dashboard';
 import type { DashboardSession as Session } from '@/features/dashboard';
 import type { GameHistory } from '@/features/games/lib/device-game-flow';
+import { summarizeHitZones, type HitZoneDistribution, type ZonedHit } from '@/domain/games/hit-zones';
 
 const DAY_MS = 24 * 60 * 60 * 1000;
 const HOUR_MS = 60 * 60 * 1000;
@@ -28,10 +29,14 @@ export type RangeSummary = {
   averageScore: number | null;
   bestScore: number | null;
   avgSplit: number | null;
+  /** Seconds from the start beep to the first hit, averaged over sessions that recorded it */
+  avgDrawTime: number | null;
   totalShots: number;
   sessionCount: number;
   targetBuckets: TargetBucket[];
   targetTotals: TargetStat[];
+  /** Hits per scoring zone, from the hit history saved with each session */
+  zoneCounts: HitZoneDistribution;
 };
 
 export const RANGE_ORDER: TimeRange[] = ['day', 'week', 'month', 'all'];
@@ -75,6 +80,14 @@ const extractTargetStats = (session: Session): TargetStat[] => {
   return stats;
 };
 
+const extractZonedHits = (session: Session): ZonedHit[] => {
+  const tb = (session.thingsboardData ?? null) as Record<string, unknown> | null;
+  if (!tb || !Array.isArray(tb.hitHistory)) {
+    return [];
+  }
+  return (tb.hitHistory as unknown[]).filter((hit): hit is ZonedHit => typeof hit === 'object' && hit !== null);
+};
+
 export const buildRangeSummaries = (sessions: Session[], gameHistories?: GameHistory[]): Record<TimeRange, RangeSummary> => {
   const now = Date.now();
   const summaries: Record<TimeRange, RangeSummary> = {} as Record<TimeRange, RangeSummary>;
@@ -256,6 +269,23 @@ export const buildRangeSummaries = (sessions: Session[], gameHistories?: GameHis
         : null;
     })();
 
+    // Average draw time — game history first, then sessions' thingsboardData JSONB
+    const avgDrawTime = (() => {
+      const isDrawTime = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v) && v >= 0;
+      const historyDrawTimes = (gameHistories ?? [])
+        .filter((gh) => gh.startTime >= rangeStart && gh.startTime < bucketRangeEnd)
+        .map((gh) => gh.drawTimeSeconds)
+        .filter(isDrawTime);
+      const drawTimes = historyDrawTimes.length > 0
+        ? historyDrawTimes
+        : filteredSessions
+          .map((session) => (session.thingsboardData as Record<string, unknown> | null)?.drawTimeSeconds)
+          .filter(isDrawTime);
+      return drawTimes.length > 0
+        ? Number((drawTimes.reduce((sum, v) => sum + v, 0) / drawTimes.length).toFixed(2))
+        : null;
+    })();
+
     const targetBuckets: TargetBucket[] = bucketDeviceMaps.map((bucketMap, index) => ({
       label: buckets[index].label,
       devices: Array.from(bucketMap.values()).sort((a, b) => b.hits - a.hits),
@@ -268,10 +298,12 @@ export const buildRangeSummaries = (sessions: Session[], gameHistories?: GameHis
       averageScore,
       bestScore,
       avgSplit,
+      avgDrawTime,
       totalShots,
       sessionCount: filteredSessions.length,
       targetBuckets,
       targetTotals,
+      zoneCounts: summarizeHitZones(filteredSessions.flatMap(extractZonedHits)),
     };
   });
 
@@ -376,6 +408,7 @@ const ActivityChart: React.FC<ActivityChartProps> = ({
   const maxHits = Math.max(...activityBuckets.map((d) => d.metric), 1);
   const nextTier = STREAK_TIERS.find((tier) => currentStreakLength < tier.threshold) ?? STREAK_TIERS[STREAK_TIERS.length - 1];
   const avgSplitDisplay = summary?.avgSplit != null ? `${(summary.avgSplit / 1000).toFixed(2)}s` : '—';
+  const avgDrawDisplay = summary?.avgDrawTime != null ? `${summary.avgDrawTime.toFixed(2)}s` : '—';
   const bestScoreDisplay = formatScoreValue(summary?.bestScore ?? null);
   const totalShotsDisplay = summary ? summary.totalShots.toLocaleString() : '—';
 
@@ -394,9 +427,10 @@ const ActivityChart: React.FC<ActivityChartProps> = ({
         </span>
       </div>
 
-      <div className="grid grid-cols-3 gap-3">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
         {[
           { label: 'Avg Split', value: avgSplitDisplay },
+          { label: 'Avg Draw', value: avgDrawDisplay },
           { label: 'Best Score', value: bestScoreDisplay },
           { label: 'Shots Fired', value: totalShotsDisplay },
         ].map((metric) => (
@@ -565,8 +599,8 @@ const TargetActivityCard: React.FC<TargetActivityCardProps> = ({
             <div className="h-4 w-28 bg-gray-200 rounded" />
             <div className="h-6 w-20 bg-gray-200 rounded" />
           </div>
-          <div className="grid grid-cols-3 gap-3">
-            {Array.from({ length: 3 }).map((_, i) => (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {Array.from({ length: 4 }).map((_, i) => (
               <div key={i} className="rounded-[var(--radius)] bg-white shadow-subtle px-3 py-2 space-y-2">
                 <div className="h-3 w-12 bg-gray-200 rounded" />
                 <div className="h-5 w-16 bg-gray-200 rounded" />
@@ -0,0 +1,335 @@
+import React, { useMemo, useState } from 'react';
+import dayjs from 'dayjs';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, BarChart, Clock, Flame, Repeat, Target } from 'lucide-react';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  BarChart as RechartsBarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as RechartsTooltip,
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import StatCard from '@/components/shared/StatCard';
+import { useRooms, RoomHeatMapDialog } from '@/features/rooms';
+import { useGameHistory, useGamePresets } from '@/features/games';
+import { CHART_COLORS } from '@/shared/constants/chart-colors';
+import { FeatureErrorBoundary } from '@/shared/ui/FeatureErrorBoundary';
+import { buildSessionAnalytics, type ConsistencyStats, type PresetTrend } from '@/domain/dashboard/analytics';
+import { mapHistoryToAnalyticsSession } from '@/features/dashboard/lib/session-analytics';
+
+const ALL = 'all';
+
+type RangeOption = 'all' | '7' | '30' | '90' | 'custom';
+
+const RANGE_OPTIONS: Array<{ value: RangeOption; label: string }> = [
+  { value: 'all', label: 'All Time' },
+  { value: '7', label: 'Last 7 Days' },
+  { value: '30', label: 'Last 30 Days' },
+  { value: '90', label: 'Last 90 Days' },
+  { value: 'custom', label: 'Custom Range' },
+];
+
+const formatSeconds = (value: number | null | undefined): string =>
+  typeof value === 'number' && Number.isFinite(value) ? `${value.toFixed(2)}s` : '—';
+
+const EmptyChart: React.FC<{ message: string }> = ({ message }) => (
+  <div className="flex h-full items-center justify-center text-sm text-brand-dark/60 text-center font-body">
+    {message}
+  </div>
+);
+
+const consistencySubtitle = (stats: ConsistencyStats | null): string =>
+  stats ? `σ ${formatSeconds(stats.standardDeviation)} over ${stats.count}, mean ${formatSeconds(stats.mean)}` : 'No timing data';
+
+// One small trend line per preset; timed presets read lower-is-better, hit-count presets higher.
+const PresetTrendCard: React.FC<{ trend: PresetTrend; color: string }> = ({ trend, color }) => (
+  <div className="rounded-[var(--radius)] bg-white p-3.5 md:p-4 space-y-2 shadow-card">
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-sm font-medium text-brand-dark font-body truncate">{trend.label}</span>
+      <span className="text-[10px] text-brand-dark/60 font-body shrink-0">
+        {trend.sessionCount} sessions · {trend.direction === 'lower-is-better' ? 'lower is better' : 'higher is better'}
+      </span>
+    </div>
+    <div className="h-32">
+      {trend.points.length === 0 ? (
+        <EmptyChart message="No completed sessions" />
+      ) : (
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={trend.points} margin={{ top: 8, right: 8, left: -16, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#E2E8F0" />
+            <XAxis dataKey="date" stroke="#64748B" fontSize={10} tickFormatter={(date: string) => dayjs(date).format('MMM D')} />
+            <YAxis stroke="#64748B" fontSize={10} reversed={trend.direction === 'lower-is-better'} />
+            <RechartsTooltip formatter={(value) => [value, 'Avg score']} />
+            <Line type="monotone" dataKey="value" stroke={color} strokeWidth={2} dot={{ r: 2 }} />
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+    {trend.splitConsistency && (
+      <p className="text-xs text-brand-dark/70 font-body">
+        Split consistency {trend.splitConsistency.consistencyScore}/100 · σ {formatSeconds(trend.splitConsistency.standardDeviation)}
+      </p>
+    )}
+  </div>
+);
+
+const AnalyticsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [roomId, setRoomId] = useState<string>(ALL);
+  const [presetId, setPresetId] = useState<string>(ALL);
+  const [range, setRange] = useState<RangeOption>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [heatMapOpen, setHeatMapOpen] = useState(false);
+
+  const { data: roomsData } = useRooms(false);
+  const { data: presets = [] } = useGamePresets();
+  const { data: gameHistories = [], isLoading } = useGameHistory();
+
+  const rooms = roomsData?.rooms ?? [];
+  const selectedRoom = rooms.find((room) => room.id === roomId) ?? null;
+
+  const analyticsSessions = useMemo(() => {
+    const presetNames = new Map(presets.map((preset) => [preset.id, preset.name]));
+    return gameHistories.map((history) => mapHistoryToAnalyticsSession(history, presetNames));
+  }, [gameHistories, presets]);
+
+  const analytics = useMemo(
+    () =>
+      buildSessionAnalytics(analyticsSessions, {
+        roomId: roomId === ALL ? null : roomId,
+        presetId: presetId === ALL ? null : presetId,
+        from: fromDate ? dayjs(fromDate).startOf('day').toDate() : null,
+        to: toDate ? dayjs(toDate).endOf('day').toDate() : null,
+      }),
+    [analyticsSessions, roomId, presetId, fromDate, toDate],
+  );
+
+  const handleRangeChange = (value: string) => {
+    const option = value as RangeOption;
+    setRange(option);
+    if (option === 'custom') {
+      return;
+    }
+    setFromDate(option === 'all' ? '' : dayjs().subtract(Number(option), 'day').format('YYYY-MM-DD'));
+    setToDate('');
+  };
+
+  const transitionData = analytics.transitionPairs.slice(0, 10).map((pair) => ({
+    label: `${pair.fromTarget} → ${pair.toTarget}`,
+    average: pair.average,
+    best: pair.best,
+    count: pair.count,
+  }));
+
+  return (
+    <FeatureErrorBoundary feature="Analytics">
+      <div className="container mx-auto p-4 md:p-6 lg:p-8 space-y-4 md:space-y-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/dashboard')} aria-label="Back to dashboard">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <h2 className="text-h1 font-heading text-brand-dark">Advanced Analytics</h2>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={roomId} onValueChange={setRoomId}>
+              <SelectTrigger className="w-40 bg-white border-gray-200 text-brand-dark">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-white border-gray-200">
+                <SelectItem value={ALL}>All Rooms</SelectItem>
+                {rooms.map((room) => (
+                  <SelectItem key={room.id} value={room.id}>{room.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={presetId} onValueChange={setPresetId}>
+              <SelectTrigger className="w-40 bg-white border-gray-200 text-brand-dark">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-white border-gray-200">
+                <SelectItem value={ALL}>All Presets</SelectItem>
+                {presets.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={range} onValueChange={handleRangeChange}>
+              <SelectTrigger className="w-40 bg-white border-gray-200 text-brand-dark">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-white border-gray-200">
+                {RANGE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-10"
+              disabled={!selectedRoom}
+              onClick={() => setHeatMapOpen(true)}
+              title={selectedRoom ? undefined : 'Select a room to see its heat map'}
+            >
+              <Flame className="h-4 w-4 mr-1.5" />
+              Heat Map
+            </Button>
+            {range === 'custom' && (
+              <>
+                <Input
+                  type="date"
+                  value={fromDate}
+                  max={toDate || undefined}
+                  onChange={(event) => setFromDate(event.target.value)}
+                  className="w-40 bg-white"
+                  aria-label="From date"
+                />
+                <Input
+                  type="date"
+                  value={toDate}
+                  min={fromDate || undefined}
+                  onChange={(event) => setToDate(event.target.value)}
+                  className="w-40 bg-white"
+                  aria-label="To date"
+                />
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-2 md:gap-4">
+          <StatCard
+            title="Sessions"
+            value={analytics.sessionCount}
+            subtitle={`${analytics.sessionsPerDay} per day`}
+            icon={<BarChart className="w-4 h-4" />}
+            isLoading={isLoading}
+          />
+          <StatCard
+            title="Split Consistency"
+            value={analytics.splitConsistency ? `${analytics.splitConsistency.consistencyScore}/100` : '—'}
+            subtitle={consistencySubtitle(analytics.splitConsistency)}
+            icon={<Target className="w-4 h-4" />}
+            isLoading={isLoading}
+            infoTitle="Consistency score"
+            infoContent="100 means every split took the same time. The score drops as the standard deviation grows relative to the average split."
+          />
+          <StatCard
+            title="Round Consistency"
+            value={analytics.roundConsistency ? `${analytics.roundConsistency.consistencyScore}/100` : '—'}
+            subtitle={consistencySubtitle(analytics.roundConsistency)}
+            icon={<Repeat className="w-4 h-4" />}
+            isLoading={isLoading}
+          />
+          <StatCard
+            title="Avg Split"
+            value={formatSeconds(analytics.splitConsistency?.mean)}
+            subtitle={analytics.splitHistogram.length > 0 ? `${analytics.splitConsistency?.count ?? 0} splits` : 'No splits recorded'}
+            icon={<Clock className="w-4 h-4" />}
+            isLoading={isLoading}
+          />
+        </div>
+
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle className="text-lg font-heading text-brand-dark">Score Trend by Preset</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {analytics.presetTrends.length === 0 ? (
+              <p className="text-sm text-brand-dark/60 font-body">No sessions match the selected filters.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+                {analytics.presetTrends.map((trend, index) => (
+                  <PresetTrendCard key={trend.key} trend={trend} color={CHART_COLORS[index % CHART_COLORS.length]} />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-2 md:gap-4">
+          <Card className="shadow-card">
+            <CardHeader>
+              <CardTitle className="text-lg font-heading text-brand-dark">Split Time Distribution</CardTitle>
+            </CardHeader>
+            <CardContent className="h-64">
+              {analytics.splitHistogram.length === 0 ? (
+                <EmptyChart message="Split times appear once sessions record repeat hits on a target." />
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <RechartsBarChart data={analytics.splitHistogram} margin={{ top: 8, right: 8, left: -16, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#E2E8F0" />
+                    <XAxis dataKey="label" stroke="#64748B" fontSize={10} />
+                    <YAxis stroke="#64748B" fontSize={10} allowDecimals={false} />
+                    <RechartsTooltip formatter={(value) => [value, 'Splits']} />
+                    <Bar dataKey="count" fill={CHART_COLORS[0]} radius={[4, 4, 0, 0]} />
+                  </RechartsBarChart>
+                </ResponsiveContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-card">
+            <CardHeader>
+              <CardTitle className="text-lg font-heading text-brand-dark">Transitions by Target Pair</CardTitle>
+            </CardHeader>
+            <CardContent className="h-64">
+              {transitionData.length === 0 ? (
+                <EmptyChart message="Transitions appear once sessions move between targets." />
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <RechartsBarChart data={transitionData} layout="vertical" margin={{ top: 8, right: 16, left: 0, bottom: 8 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#E2E8F0" />
+                    <XAxis type="number" stroke="#64748B" fontSize={10} unit="s" />
+                    <YAxis dataKey="label" type="category" stroke="#64748B" fontSize={10} width={150} />
+                    <RechartsTooltip formatter={(value, name) => [`${value} s`, name === 'best' ? 'Best' : 'Average']} />
+                    <Bar dataKey="average" fill={CHART_COLORS[1]} radius={[4, 4, 4, 4]} />
+                    <Bar dataKey="best" fill={CHART_COLORS[2]} radius={[4, 4, 4, 4]} />
+                  </RechartsBarChart>
+                </ResponsiveContainer>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle className="text-lg font-heading text-brand-dark">Performance by Time of Day</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+              {analytics.timeOfDay.map((slot) => (
+                <div key={slot.block} className="rounded-[var(--radius)] bg-brand-secondary/5 p-3 space-y-1">
+                  <p className="text-label text-brand-secondary font-body uppercase tracking-wide">{slot.label}</p>
+                  <p className="text-stat-sm font-bold text-brand-dark font-body tabular-nums">
+                    {slot.avgScore !== null ? formatSeconds(slot.avgScore) : '—'}
+                  </p>
+                  <p className="text-xs text-brand-dark/70 font-body">
+                    {slot.sessionCount} sessions
+                    {slot.avgAccuracy !== null ? ` · ${slot.avgAccuracy}% accuracy` : ''}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+      <RoomHeatMapDialog
+        room={heatMapOpen && selectedRoom ? { id: selectedRoom.id, name: selectedRoom.name } : null}
+        onOpenChange={setHeatMapOpen}
+      />
+    </FeatureErrorBoundary>
+  );
+};
+
+export default AnalyticsPage;
@@ -1,6 +1,7 @@
 import React, { useEffect, useState, useMemo } from 'react';
 import { TARGET_STATUS_DISPLAY } from '@/shared/constants/target-status';
 import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
 import { Target as TargetIcon, Users, Activity, Play, X, BarChart, Award, CheckCircle, Gamepad2, Trophy } from 'lucide-react';
 import { useRooms } from '@/features/rooms';
 import { useDashboardMetrics, useDashboardSessions } from '@/features/dashboard';
@@ -92,9 +93,7 @@ const ComingSoonCard: React.FC<{
 }> = ({ type, title, description, onDismiss }) => {
   const getIcon = () => {
     switch (type) {
-      case 'training': return <Gamepad2 className="h-5 w-5" />;
       case 'multiplayer': return <Users className="h-5 w-5" />;
-      case 'analytics': return <BarChart className="h-5 w-5" />;
       case 'tournaments': return <Award className="h-5 w-5" />;
       default: return <Play className="h-5 w-5" />;
     }
@@ -149,9 +148,71 @@ const ComingSoonCard: React.FC<{
   );
 };
 
+// Advanced analytics is live; it opens its own page instead of a Coming Soon card.
+const AdvancedAnalyticsCard: React.FC<{ onOpen: () => void }> = ({ onOpen }) => (
+  <Card className="shadow-card relative overflow-hidden min-w-[300px] md:min-w-[350px]">
+    <CardHeader className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-brand-primary"><BarChart className="h-5 w-5" /></div>
+        <span className="text-label text-brand-secondary font-body uppercase tracking-wide">
+          analytics
+        </span>
+      </div>
+      <CardTitle className="text-lg font-heading text-brand-dark">
+        Advanced Analytics
+      </CardTitle>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      <p className="text-sm text-brand-dark/70 font-body">
+        Score trends per preset, split-time distributions, consistency scores, target-to-target transitions, time-of-day performance and room heat maps.
+      </p>
+      <Button
+        className="w-full bg-brand-primary text-white rounded-full font-body"
+        onClick={onOpen}
+      >
+        Open Analytics
+      </Button>
+    </CardContent>
+  </Card>
+);
+
+// Training programs are live; the card opens the program view.
+const TrainingProgramsCard: React.FC<{ onOpen: () => void }> = ({ onOpen }) => (
+  <Card className="shadow-card relative overflow-hidden min-w-[300px] md:min-w-[350px]">
+    <CardHeader className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-brand-primary"><Gamepad2 className="h-5 w-5" /></div>
+        <span className="text-label text-brand-secondary font-body uppercase tracking-wide">
+          training
+        </span>
+      </div>
+      <CardTitle className="text-lg font-heading text-brand-dark">
+        Precision Shooting Course
+      </CardTitle>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      <p className="text-sm text-brand-dark/70 font-body">
+        Structured training programs with progressive levels. Turn your presets into drills that unlock one another as you pass them.
+      </p>
+      <Button
+        className="w-full bg-brand-primary text-white rounded-full font-body"
+        onClick={onOpen}
+      >
+        Open Training
+      </Button>
+    </CardContent>
+  </Card>
+);
+
+const UPCOMING_FEATURES = [
+  { type: 'multiplayer', title: 'Play with Friends', description: 'Challenge friends to shooting competitions and team training sessions. Create private rooms and compete in real-time leaderboards.' },
+  { type: 'tournaments', title: 'Global Tournaments', description: 'Compete in worldwide tournaments, climb leaderboards, and earn rewards. Join seasonal events and special challenges.' },
+];
+
 const SESSION_HISTORY_LIMIT = 100; // Fetch all sessions (API max) for accurate counts
 
 const Dashboard: React.FC = () => {
+  const navigate = useNavigate();
 
   const [dismissedCards, setDismissedCards] = useState<string[]>([]);
 
@@ -493,6 +554,7 @@ const Dashboard: React.FC = () => {
                     totalHits={distributionTotalHits}
                     deviceHitSummary={distributionSummary}
                     pieChartData={distributionPieData}
+                    zoneCounts={distributionSourceSummary?.zoneCounts ?? null}
                   />
                 </React.Suspense>
               </div>
@@ -502,12 +564,9 @@ const Dashboard: React.FC = () => {
             <div className="space-y-4">
               <h3 className="text-lg font-heading text-brand-dark">Upcoming Features</h3>
               <div className="flex gap-4 overflow-x-auto pb-4 scrollbar-thin scrollbar-thumb-brand-secondary scrollbar-track-gray-100">
-                {[
-                  { type: 'training', title: 'Precision Shooting Course', description: 'Structured training programs with progressive difficulty levels. Master precision shooting with guided lessons and skill assessments.' },
-                  { type: 'multiplayer', title: 'Play with Friends', description: 'Challenge friends to shooting competitions and team training sessions. Create private rooms and compete in real-time leaderboards.' },
-                  { type: 'analytics', title: 'Advanced Analytics', description: 'Deep dive into your performance with detailed analytics, heat maps, and improvement suggestions powered by AI.' },
-                  { type: 'tournaments', title: 'Global Tournaments', description: 'Compete in worldwide tournaments, climb leaderboards, and earn rewards. Join seasonal events and special challenges.' }
-                ].filter(card => !dismissedCards.includes(card.type)).map((card) => (
+                <AdvancedAnalyticsCard onOpen={() => navigate('/dashboard/analytics')} />
+                <TrainingProgramsCard onOpen={() => navigate('/dashboard/training')} />
+                {UPCOMING_FEATURES.filter(card => !dismissedCards.includes(card.type)).map((card) => (
                   <ComingSoonCard
                     key={card.type}
                     type={card.type}
@@ -516,7 +575,7 @@ const Dashboard: React.FC = () => {
                     onDismiss={() => setDismissedCards(prev => [...prev, card.type])}
                   />
                 ))}
-                {dismissedCards.length === 4 && (
+                {dismissedCards.length === UPCOMING_FEATURES.length && (
                   <div className="min-w-[300px] md:min-w-[350px] flex items-center justify-center">
                     <div className="text-center p-8">
                       <p className="text-brand-dark/70 font-body mb-4">All upcoming features dismissed</p>
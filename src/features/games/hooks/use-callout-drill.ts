@@ -0,0 +1,157 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from '@/components/ui/sonner';
+import type { SessionHitRecord } from '@/features/games/lib/device-game-flow';
+import { sendScenarioBeep } from '@/lib/edge';
+import {
+  GAME_MODE_DEFAULTS,
+  evaluateCallouts,
+  resolveCalloutCount,
+  type GameModeCallout,
+} from '@/domain/games/modes';
+import type { GameModeId } from '@/domain/games/validators';
+import { activeElapsedMs, type PauseInterval } from '@/domain/games/pauses';
+import type { SessionCallbacks } from './use-session-registry';
+import { logger } from '@/shared/lib/logger';
+
+export interface UseCalloutDrillOptions {
+  isRunningLifecycle: boolean;
+  gameModeId: GameModeId;
+  directSessionGameId: string | null;
+  activeDeviceIds: string[];
+  hitHistory: SessionHitRecord[];
+  calloutCount?: number | null;
+  /** While paused no callout is issued and the response window stands still */
+  isSessionPaused?: boolean;
+  /** Pauses of the running session; time spent in them does not count toward a delay or window */
+  pauseIntervals?: PauseInterval[];
+  register: <K extends keyof SessionCallbacks>(key: K, fn: SessionCallbacks[K]) => void;
+}
+
+export interface UseCalloutDrillReturn {
+  /** Callouts issued in the current (or last) session, in call order */
+  callouts: GameModeCallout[];
+  /** Callout currently waiting for a hit, if any */
+  activeCallout: GameModeCallout | null;
+}
+
+const NO_PAUSES: PauseInterval[] = [];
+
+const randomDelayMs = () =>
+  GAME_MODE_DEFAULTS.RANDOM_CALLOUT_MIN_DELAY_MS +
+  Math.random() * (GAME_MODE_DEFAULTS.RANDOM_CALLOUT_MAX_DELAY_MS - GAME_MODE_DEFAULTS.RANDOM_CALLOUT_MIN_DELAY_MS);
+
+// Drives the 'random-callout' mode: picks a random target, triggers it through scenario-control's
+// beep RPC, and waits for a hit (or the response window) before scheduling the next callout.
+export function useCalloutDrill(options: UseCalloutDrillOptions): UseCalloutDrillReturn {
+  const {
+    isRunningLifecycle,
+    gameModeId,
+    directSessionGameId,
+    activeDeviceIds,
+    hitHistory,
+    calloutCount,
+    isSessionPaused = false,
+    pauseIntervals = NO_PAUSES,
+    register,
+  } = options;
+
+  const [callouts, setCallouts] = useState<GameModeCallout[]>([]);
+
+  const isDrillActive =
+    isRunningLifecycle && gameModeId === 'random-callout' && Boolean(directSessionGameId) && activeDeviceIds.length > 1;
+  const requiredCallouts = resolveCalloutCount({ calloutCount });
+
+  // Callouts are kept after the session stops so the stop flow can snapshot them;
+  // they are cleared when the next session starts running.
+  const [wasRunning, setWasRunning] = useState(isRunningLifecycle);
+  if (wasRunning !== isRunningLifecycle) {
+    setWasRunning(isRunningLifecycle);
+    if (isRunningLifecycle) {
+      setCallouts([]);
+    }
+  }
+
+  const lastResult = useMemo(() => {
+    const results = evaluateCallouts(hitHistory, callouts);
+    return results.length > 0 ? results[results.length - 1] : null;
+  }, [hitHistory, callouts]);
+  const awaitingResponse =
+    lastResult !== null && lastResult.reactionTimeMs === null && typeof lastResult.expiredAt !== 'number';
+  const lastCalledAt = lastResult?.calledAt ?? null;
+
+  // Delay drawn for the next callout and when it started counting, so a pause resumes it with the time left
+  const pendingDelayRef = useRef<{ sequence: number; startedAt: number; delayMs: number } | null>(null);
+  const pauseIntervalsRef = useRef(pauseIntervals);
+  useEffect(() => {
+    pauseIntervalsRef.current = pauseIntervals;
+  }, [pauseIntervals]);
+
+  // Schedule the next callout once the previous one has been answered or expired
+  useEffect(() => {
+    if (!isDrillActive || isSessionPaused || awaitingResponse || callouts.length >= requiredCallouts) {
+      return;
+    }
+
+    const sessionId = directSessionGameId;
+    if (!sessionId) {
+      return;
+    }
+
+    const now = Date.now();
+    if (pendingDelayRef.current?.sequence !== callouts.length) {
+      pendingDelayRef.current = { sequence: callouts.length, startedAt: now, delayMs: randomDelayMs() };
+    }
+    const { startedAt, delayMs } = pendingDelayRef.current;
+    const remainingMs = delayMs - activeElapsedMs(startedAt, now, pauseIntervalsRef.current);
+
+    const timer = window.setTimeout(() => {
+      const previousDeviceId = callouts[callouts.length - 1]?.deviceId ?? null;
+      const candidates = activeDeviceIds.filter((id) => id !== previousDeviceId);
+      const deviceId = candidates[Math.floor(Math.random() * candidates.length)];
+      const calledAt = Date.now();
+      const beepSequence = callouts.length + 1;
+
+      setCallouts((prev) => [...prev, { deviceId, calledAt }]);
+      logger.info('[Games] Callout issued', { deviceId, beepSequence, sessionId });
+
+      sendScenarioBeep({
+        sessionId,
+        targetDeviceId: deviceId,
+        beepSequence,
+        timestamp: calledAt,
+        expectedResponseWindow: GAME_MODE_DEFAULTS.RANDOM_CALLOUT_RESPONSE_WINDOW_MS,
+      }).catch((error) => {
+        logger.warn('[Games] Failed to send callout beep', { deviceId, error });
+        toast.error('Failed to trigger callout target.');
+      });
+    }, Math.max(0, remainingMs));
+
+    return () => window.clearTimeout(timer);
+  }, [isDrillActive, isSessionPaused, awaitingResponse, callouts, requiredCallouts, activeDeviceIds, directSessionGameId]);
+
+  // Expire the active callout when its response window closes without a hit. The window only
+  // runs while the session does: a pause holds it and the resume picks it up with the time left.
+  useEffect(() => {
+    if (!isDrillActive || isSessionPaused || !awaitingResponse || lastCalledAt === null) {
+      return;
+    }
+    const now = Date.now();
+    const remainingMs =
+      GAME_MODE_DEFAULTS.RANDOM_CALLOUT_RESPONSE_WINDOW_MS - activeElapsedMs(lastCalledAt, now, pauseIntervalsRef.current);
+    const expiresAt = now + Math.max(0, remainingMs);
+    const timer = window.setTimeout(() => {
+      setCallouts((prev) =>
+        prev.map((callout) => (callout.calledAt === lastCalledAt ? { ...callout, expiredAt: expiresAt } : callout)),
+      );
+    }, Math.max(0, remainingMs));
+
+    return () => window.clearTimeout(timer);
+  }, [isDrillActive, isSessionPaused, awaitingResponse, lastCalledAt]);
+
+  register('getCallouts', () => callouts);
+
+  return {
+    callouts,
+    activeCallout: awaitingResponse && lastResult ? { deviceId: lastResult.deviceId, calledAt: lastResult.calledAt } : null,
+  };
+}
@@ -0,0 +1,72 @@
+import { useCallback, useState } from 'react';
+import { toast } from '@/components/ui/sonner';
+import type { ClockCalibration } from '@/domain/games/clock-sync';
+import {
+  calibrateDeviceClock,
+  readClockCalibrations,
+  writeClockCalibrations,
+} from '@/features/games/lib/clock-calibration';
+
+export interface UseClockCalibrationOptions {
+  refreshDirectAuthToken: () => Promise<string>;
+}
+
+export interface UseClockCalibrationReturn {
+  /** Fresh per-device calibrations, keyed by device id */
+  clockCalibrations: Record<string, ClockCalibration>;
+  isCalibratingClocks: boolean;
+  /** Pings each target and stores its clock offset; targets that do not answer keep no calibration */
+  calibrateClocks: (deviceIds: string[]) => Promise<void>;
+}
+
+export function useClockCalibration({ refreshDirectAuthToken }: UseClockCalibrationOptions): UseClockCalibrationReturn {
+  // Calibrations survive reloads; targets keep their clocks between sessions.
+  const [clockCalibrations, setClockCalibrations] = useState<Record<string, ClockCalibration>>(() =>
+    readClockCalibrations(),
+  );
+  const [isCalibratingClocks, setIsCalibratingClocks] = useState(false);
+
+  const calibrateClocks = useCallback(
+    async (deviceIds: string[]) => {
+      const uniqueIds = Array.from(new Set(deviceIds));
+      if (uniqueIds.length === 0) {
+        toast.info('Select targets to calibrate.');
+        return;
+      }
+
+      setIsCalibratingClocks(true);
+      try {
+        await refreshDirectAuthToken();
+        // Pinged one target at a time so concurrent RPCs do not inflate each other's round trips.
+        const results: Array<[string, ClockCalibration | null]> = [];
+        for (const deviceId of uniqueIds) {
+          results.push([deviceId, await calibrateDeviceClock(deviceId)]);
+        }
+
+        const calibrated = results.filter((entry): entry is [string, ClockCalibration] => entry[1] !== null);
+        const failedCount = results.length - calibrated.length;
+        setClockCalibrations((prev) => {
+          const next = { ...readClockCalibrations(), ...prev, ...Object.fromEntries(calibrated) };
+          writeClockCalibrations(next);
+          return next;
+        });
+
+        if (calibrated.length === 0) {
+          toast.error('No targets answered the clock check. Check they are online and try again.');
+        } else if (failedCount > 0) {
+          toast.warning(`${failedCount} target${failedCount === 1 ? '' : 's'} did not answer the clock check.`);
+        } else {
+          toast.success(`Calibrated ${calibrated.length} target clock${calibrated.length === 1 ? '' : 's'}.`);
+        }
+      } catch (error) {
+        console.error('[Games] Clock calibration failed', error);
+        toast.error('Clock calibration failed. Check your connection and try again.');
+      } finally {
+        setIsCalibratingClocks(false);
+      }
+    },
+    [refreshDirectAuthToken],
+  );
+
+  return { clockCalibrations, isCalibratingClocks, calibrateClocks };
+}
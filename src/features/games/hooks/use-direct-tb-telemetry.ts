@@ -6,10 +6,21 @@
  */
 
 import { useCallback, useEffect, useMemo, useRef, useState, type MutableRefObject } from 'react';
-import { tbSubscribeTelemetry } from '@/features/games/lib/thingsboard-client';
+import { tbSubscribeTelemetry, type TelemetryTransportMode } from '@/features/games/lib/thingsboard-client';
 import type { RoundSplit } from '@/features/games/lib/telemetry-types';
+import { sendScenarioBeep } from '@/lib/edge';
+import { evaluateDrillProgress, type DrillProgress, type DrillStage } from '@/domain/games/drills';
+import { isCalibrationFresh, toLocalTime, type ClockCalibration } from '@/domain/games/clock-sync';
+import { recordTelemetrySample, type DeviceTelemetryHealth } from '@/domain/games/telemetry-health';
+import { parseHitIntensity, parseHitZone, type HitZone } from '@/domain/games/hit-zones';
 import { logger } from '@/shared/lib/logger';
 
+/** Zone and impact intensity zoned targets report with a hit (`zone` and `intensity` telemetry keys) */
+interface HitReading {
+  zone?: HitZone | null;
+  intensity?: number | null;
+}
+
 interface DeviceDescriptor {
   deviceId: string;
   deviceName: string;
@@ -23,8 +34,34 @@ interface UseDirectTbTelemetryOptions {
   /** Ref to the set of device IDs that have been stopped (goal reached).
    *  Hits from stopped targets are ignored to prevent post-goal hit inflation. */
   stoppedTargetsRef?: MutableRefObject<Set<string>>;
+  /** Ref that is true while the session is paused (cease fire). Targets are told to
+   *  ignore hits then; any that still come through are dropped here. */
+  pausedRef?: MutableRefObject<boolean>;
+  /** Stages of a staged drill. When set, stage progress is tracked from the session start
+   *  event and each stage with a start beep triggers its first target as it begins. */
+  drillStages?: DrillStage[];
+  /** Hits received before the page reloaded mid-session. Those belonging to the subscribed
+   *  game are replayed once the subscription opens so counts and splits pick up where they left off. */
+  recoveredHits?: Array<{ deviceId: string; timestamp: number; gameId: string } & HitReading>;
+  /** Per-device clock offsets. Event timestamps from calibrated targets are moved onto the
+   *  local clock so splits and transitions between targets are not skewed by clock drift. */
+  clockCalibrations?: Record<string, ClockCalibration>;
+}
+
+export interface LiveTelemetryHealth {
+  /** Game the metrics belong to; they stay up after it ends so the next setup can see them */
+  gameId: string | null;
+  transport: TelemetryTransportMode | null;
+  /** Times the stream reopened or fell back to polling */
+  reconnectCount: number;
+  devices: Record<string, DeviceTelemetryHealth>;
 }
 
+const EMPTY_TELEMETRY_HEALTH: LiveTelemetryHealth = { gameId: null, transport: null, reconnectCount: 0, devices: {} };
+
+// Hit counters and epoch-millisecond hit times below this are not wall-clock times
+const MIN_EPOCH_MS = 1_000_000_000_000;
+
 export interface DirectTelemetryState {
   hitCounts: Record<string, number>;
   hitHistory: Array<{
@@ -32,7 +69,7 @@ export interface DirectTelemetryState {
     deviceName: string;
     timestamp: number;
     gameId: string;
-  }>;
+  } & HitReading>;
   splits: Array<{
     deviceId: string;
     deviceName: string;
@@ -53,6 +90,12 @@ export interface DirectTelemetryState {
   hitTimesByDevice: Record<string, number[]>;
   sessionEventTimestamp: number | null;
   readyDevices: Record<string, number>;
+  /** Shots fired reported by targets fitted with a shot counter (the `shots` telemetry key), keyed by device */
+  shotCounts: Record<string, number>;
+  /** Stage progress of a staged drill; null when no drill is configured or it has not started */
+  drillProgress: DrillProgress | null;
+  /** Delivery metrics of the current or most recent session's telemetry */
+  telemetryHealth: LiveTelemetryHealth;
 }
 
 const resolveValue = (input: unknown): unknown => {
@@ -97,6 +140,10 @@ export const useDirectTbTelemetry = ({
   gameId,
   devices,
   stoppedTargetsRef,
+  pausedRef,
+  drillStages,
+  recoveredHits,
+  clockCalibrations,
 }: UseDirectTbTelemetryOptions): DirectTelemetryState => {
   const [hitCounts, setHitCounts] = useState<Record<string, number>>({});
   const [hitHistory, setHitHistory] = useState<DirectTelemetryState['hitHistory']>([]);
@@ -106,6 +153,10 @@ export const useDirectTbTelemetry = ({
   const [hitTimesByDevice, setHitTimesByDevice] = useState<Record<string, number[]>>({});
   const [sessionEventTimestamp, setSessionEventTimestamp] = useState<number | null>(null);
   const [readyDevices, setReadyDevices] = useState<Record<string, number>>({});
+  const [shotCounts, setShotCounts] = useState<Record<string, number>>({});
+  // Latest time a drill stage deadline was reached; lets stages time out without a new hit
+  const [drillClock, setDrillClock] = useState(0);
+  const [telemetryHealth, setTelemetryHealth] = useState<LiveTelemetryHealth>(EMPTY_TELEMETRY_HEALTH);
   // Mirror of hitCounts for logging outside state updaters (avoids StrictMode double-log)
   const hitCountsRef = useRef<Record<string, number>>({});
   const lastHitTimestampRef = useRef<Record<string, number | null>>({});
@@ -121,6 +172,14 @@ export const useDirectTbTelemetry = ({
   // Track the completion timestamp of the previous round for round-to-round timing
   const lastRoundCompletionRef = useRef<number | null>(null);
   const unsubscribeRef = useRef<(() => void) | null>(null);
+  // Drill stage whose start beep has been handled
+  const beepedDrillStageRef = useRef<number | null>(null);
+  // Game whose recovered hits have been replayed, so a resubscribe does not count them twice
+  const replayedGameIdRef = useRef<string | null>(null);
+  // Read by the subscription callback so a recalibration does not reopen the socket
+  const clockCalibrationsRef = useRef<Record<string, ClockCalibration>>(clockCalibrations ?? {});
+  // WebSocket opens per game, so a second open counts as a reconnect
+  const websocketOpensRef = useRef<{ gameId: string | null; opens: number }>({ gameId: null, opens: 0 });
   const trackedDevices = useMemo(() => devices.map((device) => device.deviceId), [devices]);
   const trackedDeviceSet = useMemo(() => new Set(trackedDevices), [trackedDevices]);
   const deviceNameMap = useMemo(() => {
@@ -140,14 +199,22 @@ export const useDirectTbTelemetry = ({
     setHitTimesByDevice({});
     setSessionEventTimestamp(null);
     setReadyDevices({});
+    setShotCounts({});
+    setDrillClock(0);
     hitCountsRef.current = {};
     lastHitTimestampRef.current = {};
     lastHitDeviceRef.current = null;
     hitTimesByDeviceRef.current = {};
     lastCompletedRoundRef.current = 0;
     lastRoundCompletionRef.current = null;
+    beepedDrillStageRef.current = null;
+    replayedGameIdRef.current = null;
   }, []);
 
+  useEffect(() => {
+    clockCalibrationsRef.current = clockCalibrations ?? {};
+  }, [clockCalibrations]);
+
   useEffect(() => {
     if (!enabled) {
       resetState();
@@ -171,6 +238,11 @@ export const useDirectTbTelemetry = ({
     // telemetry that ThingsBoard sends as an initial snapshot when the
     // WebSocket opens.  Only events newer than this threshold are real.
     const subscriptionStartedAt = Date.now();
+    // Newest telemetry time sampled per device; polling repeats the latest values and must not count twice
+    const lastHealthSampleTs = new Map<string, number>();
+    const updateHealth = (update: (health: LiveTelemetryHealth) => LiveTelemetryHealth) => {
+      setTelemetryHealth((prev) => update(prev.gameId === gameId ? prev : { ...EMPTY_TELEMETRY_HEALTH, gameId }));
+    };
     const isMultiTargetSession = trackedDevices.length > 1;
     const deviceNamesForLog = trackedDevices.map((id) => deviceNameMap.get(id) ?? id);
     console.log(
@@ -179,6 +251,197 @@ export const useDirectTbTelemetry = ({
       'color: inherit; font-size: 13px',
     );
 
+    const recordHit = (deviceId: string, deviceName: string, eventTimestamp: number, reading: HitReading = {}) => {
+      // Skip hits from targets that have already been stopped (goal reached).
+      // The physical device may continue firing between the stop RPC and
+      // when the firmware actually processes it — these late hits should
+      // not inflate hitCounts or pollute hitHistory/splits/transitions.
+      if (stoppedTargetsRef?.current.has(deviceId)) {
+        logger.warn('[DirectTelemetry] Ignoring post-goal hit from stopped target', {
+          deviceId,
+          deviceName,
+          eventTimestamp,
+        });
+        return;
+      }
+      if (pausedRef?.current) {
+        logger.warn('[DirectTelemetry] Ignoring hit while the session is paused', {
+          deviceId,
+          deviceName,
+          eventTimestamp,
+        });
+        return;
+      }
+
+      // Log BEFORE the state updater so StrictMode double-invoke doesn't duplicate it
+      {
+        const prevCount = hitCountsRef.current[deviceId] ?? 0;
+        const newCount = prevCount + 1;
+        hitCountsRef.current = { ...hitCountsRef.current, [deviceId]: newCount };
+        const perDevice: Record<string, number> = {};
+        for (const [id, count] of Object.entries(hitCountsRef.current)) {
+          perDevice[deviceNameMap.get(id) ?? id] = count;
+        }
+        console.log(
+          `%c[HIT] #${newCount} — ${deviceName}%c | ts: ${eventTimestamp} | All counts: ${JSON.stringify(perDevice)}`,
+          'color: #CE3E0A; font-weight: bold',
+          'color: inherit',
+        );
+      }
+
+      setHitCounts((prev) => ({
+        ...prev,
+        [deviceId]: (prev[deviceId] ?? 0) + 1,
+      }));
+
+      setHitHistory((prev) => [
+        ...prev,
+        {
+          deviceId,
+          deviceName,
+          timestamp: eventTimestamp,
+          gameId,
+          ...reading,
+        },
+      ]);
+
+      // Update hitTimesByDevice (both React state and synchronous ref)
+      {
+        const refTimes = hitTimesByDeviceRef.current;
+        const existing = refTimes[deviceId] ? [...refTimes[deviceId]] : [];
+        existing.push(eventTimestamp);
+        refTimes[deviceId] = existing;
+        hitTimesByDeviceRef.current = { ...refTimes };
+      }
+      setHitTimesByDevice((prev) => {
+        const next = { ...prev };
+        const existing = next[deviceId] ? [...next[deviceId]] : [];
+        existing.push(eventTimestamp);
+        next[deviceId] = existing;
+        return next;
+      });
+
+      // Same-device splits (unchanged — correct for all session types)
+      const previousTimestamp = lastHitTimestampRef.current[deviceId];
+      if (typeof previousTimestamp === 'number') {
+        const splitTime = (eventTimestamp - previousTimestamp) / 1000;
+        if (splitTime > 0) {
+          setSplits((prevSplits) => ([
+            ...prevSplits,
+            {
+              deviceId,
+              deviceName,
+              time: splitTime,
+              timestamp: eventTimestamp,
+              splitNumber: prevSplits.length + 1,
+            },
+          ]));
+        }
+      }
+      lastHitTimestampRef.current[deviceId] = eventTimestamp;
+
+      const isMultiTarget = trackedDevices.length > 1;
+
+      if (isMultiTarget) {
+        // Multi-target: compute round-based transitions and roundSplits.
+        // A "round" completes when ALL tracked devices have at least N hits.
+        const refTimes = hitTimesByDeviceRef.current;
+        const perDeviceHitCounts: Record<string, number> = {};
+        for (const id of trackedDevices) {
+          perDeviceHitCounts[deviceNameMap.get(id) ?? id] = refTimes[id]?.length ?? 0;
+        }
+        const minHits = Math.min(
+          ...trackedDevices.map((id) => (refTimes[id]?.length ?? 0)),
+        );
+
+        console.log(
+          `%c[ROUND-CHECK] After hit on ${deviceName}%c | Per-device counts: ${JSON.stringify(perDeviceHitCounts)} | minHits: ${minHits} | lastCompletedRound: ${lastCompletedRoundRef.current}`,
+          'color: #A884FF; font-weight: bold',
+          'color: inherit',
+        );
+
+        if (minHits > lastCompletedRoundRef.current) {
+          // New round completed
+          const roundNumber = minHits;
+          const deviceTimestamps: Record<string, number> = {};
+          for (const id of trackedDevices) {
+            deviceTimestamps[id] = refTimes[id][roundNumber - 1];
+          }
+          const timestamps = Object.values(deviceTimestamps);
+          const completedAt = Math.max(...timestamps);
+          const pairGap = (Math.max(...timestamps) - Math.min(...timestamps)) / 1000;
+          const previousCompletion = lastRoundCompletionRef.current;
+          const roundTime = previousCompletion !== null
+            ? (completedAt - previousCompletion) / 1000
+            : 0;
+
+          const namedTimestamps: Record<string, number> = {};
+          for (const [id, ts] of Object.entries(deviceTimestamps)) {
+            namedTimestamps[deviceNameMap.get(id) ?? id] = ts;
+          }
+          console.log(
+            `%c[ROUND-COMPLETE] Round #${roundNumber}%c | roundTime: ${roundTime.toFixed(3)}s | pairGap: ${pairGap.toFixed(3)}s | completedAt: ${completedAt} | deviceTimestamps: ${JSON.stringify(namedTimestamps)}`,
+            'color: #FF7A00; font-weight: bold; font-size: 13px',
+            'color: inherit; font-size: 13px',
+          );
+
+          lastCompletedRoundRef.current = roundNumber;
+          lastRoundCompletionRef.current = completedAt;
+
+          setRoundSplits((prev) => [
+            ...prev,
+            { roundNumber, completedAt, roundTime, pairGap, deviceTimestamps },
+          ]);
+
+          // Record a round-to-round transition (meaningful for multi-target)
+          if (roundNumber > 1 && roundTime > 0) {
+            console.log(
+              `%c[ROUND-TRANSITION] Round ${roundNumber - 1} → ${roundNumber}%c | time: ${roundTime.toFixed(3)}s`,
+              'color: #6B4A38; font-weight: bold',
+              'color: inherit',
+            );
+            setTransitions((prevTransitions) => ([
+              ...prevTransitions,
+              {
+                fromDevice: trackedDevices[0],
+                toDevice: trackedDevices[trackedDevices.length - 1],
+                fromDeviceName: deviceNameMap.get(trackedDevices[0]) ?? trackedDevices[0],
+                toDeviceName: deviceNameMap.get(trackedDevices[trackedDevices.length - 1]) ?? trackedDevices[trackedDevices.length - 1],
+                time: roundTime,
+                timestamp: completedAt,
+                transitionNumber: prevTransitions.length + 1,
+              },
+            ]));
+          }
+        }
+      } else {
+        // Single-target: original sequential transition logic
+        const previousHit = lastHitDeviceRef.current;
+        if (previousHit && previousHit.deviceId !== deviceId) {
+          const transitionTime = (eventTimestamp - previousHit.timestamp) / 1000;
+          if (transitionTime > 0) {
+            setTransitions((prevTransitions) => ([
+              ...prevTransitions,
+              {
+                fromDevice: previousHit.deviceId,
+                toDevice: deviceId,
+                fromDeviceName: previousHit.deviceName,
+                toDeviceName: deviceName,
+                time: transitionTime,
+                timestamp: eventTimestamp,
+                transitionNumber: prevTransitions.length + 1,
+              },
+            ]));
+          }
+        }
+      }
+      lastHitDeviceRef.current = {
+        deviceId,
+        deviceName,
+        timestamp: eventTimestamp,
+      };
+    };
+
     const unsubscribe = tbSubscribeTelemetry(
       trackedDevices,
       token,
@@ -190,7 +453,7 @@ export const useDirectTbTelemetry = ({
         const eventValue = resolveValue(telemetry.event);
         const gameIdValue = resolveValue(telemetry.gameId);
         const deviceIdValue = resolveValue(telemetry.deviceId) as string | undefined;
-        const eventTimestamp = resolveTimestamp(telemetry.event, Date.now());
+        const reportedTimestamp = resolveTimestamp(telemetry.event, Number.NaN);
 
         const fallbackEntityId = typeof payload.entityId === 'string' ? payload.entityId : '';
         let deviceId =
@@ -224,6 +487,22 @@ export const useDirectTbTelemetry = ({
           return;
         }
         const deviceName = deviceNameMap.get(deviceId) ?? deviceId;
+        // Target clock times are corrected by the target's offset; untimed events are stamped on arrival.
+        const receivedAt = Date.now();
+        const storedCalibration = clockCalibrationsRef.current[deviceId];
+        const calibration = isCalibrationFresh(storedCalibration, receivedAt) ? storedCalibration : null;
+        const eventTimestamp = Number.isNaN(reportedTimestamp) ? receivedAt : toLocalTime(reportedTimestamp, calibration);
+
+        // Targets fitted with a shot counter report the running total of shots fired in the game under `shots`.
+        // Keep the highest total seen per device; the same payload may also carry a hit.
+        if (telemetry.shots !== undefined) {
+          const shotsValue = Number(resolveValue(telemetry.shots));
+          const shotsTimestamp = resolveTimestamp(telemetry.shots, Date.now());
+          if (Number.isFinite(shotsValue) && shotsValue >= 0 && shotsTimestamp >= subscriptionStartedAt) {
+            const shots = Math.round(shotsValue);
+            setShotCounts((prev) => ((prev[deviceId] ?? 0) >= shots ? prev : { ...prev, [deviceId]: shots }));
+          }
+        }
 
         // Drop stale cached telemetry from before this subscription opened.
         // ThingsBoard sends the latest cached values as an initial snapshot
@@ -232,6 +511,23 @@ export const useDirectTbTelemetry = ({
           return;
         }
 
+        // Latency runs from the target's own hit time when it reports one, else from the event time.
+        if (!Number.isNaN(reportedTimestamp) && reportedTimestamp > (lastHealthSampleTs.get(deviceId) ?? 0)) {
+          lastHealthSampleTs.set(deviceId, reportedTimestamp);
+          const hitTs = Number(resolveValue(telemetry.hit_ts));
+          const hitCount = telemetry.hits !== undefined ? Number(resolveValue(telemetry.hits)) : Number.NaN;
+          const sample = {
+            deviceId,
+            receivedAt,
+            deviceTimestamp: Number.isFinite(hitTs) && hitTs >= MIN_EPOCH_MS ? toLocalTime(hitTs, calibration) : eventTimestamp,
+            hitCount: Number.isFinite(hitCount) ? hitCount : null,
+          };
+          updateHealth((health) => ({
+            ...health,
+            devices: { ...health.devices, [deviceId]: recordTelemetrySample(health.devices[deviceId], sample) },
+          }));
+        }
+
         if (eventValue === 'start' || eventValue === 'busy') {
           setSessionEventTimestamp((prev) => (prev === null ? eventTimestamp : Math.min(prev, eventTimestamp)));
           setReadyDevices((prev) => {
@@ -250,185 +546,15 @@ export const useDirectTbTelemetry = ({
           return;
         }
 
-        // Skip hits from targets that have already been stopped (goal reached).
-        // The physical device may continue firing between the stop RPC and
-        // when the firmware actually processes it — these late hits should
-        // not inflate hitCounts or pollute hitHistory/splits/transitions.
-        if (stoppedTargetsRef?.current.has(deviceId)) {
-          logger.warn('[DirectTelemetry] Ignoring post-goal hit from stopped target', {
-            deviceId,
-            deviceName,
-            eventTimestamp,
-          });
-          return;
-        }
-
-        // Log BEFORE the state updater so StrictMode double-invoke doesn't duplicate it
-        {
-          const prevCount = hitCountsRef.current[deviceId] ?? 0;
-          const newCount = prevCount + 1;
-          hitCountsRef.current = { ...hitCountsRef.current, [deviceId]: newCount };
-          const perDevice: Record<string, number> = {};
-          for (const [id, count] of Object.entries(hitCountsRef.current)) {
-            perDevice[deviceNameMap.get(id) ?? id] = count;
-          }
-          console.log(
-            `%c[HIT] #${newCount} — ${deviceName}%c | ts: ${eventTimestamp} | All counts: ${JSON.stringify(perDevice)}`,
-            'color: #CE3E0A; font-weight: bold',
-            'color: inherit',
-          );
-        }
-
-        setHitCounts((prev) => ({
-          ...prev,
-          [deviceId]: (prev[deviceId] ?? 0) + 1,
-        }));
-
-        setHitHistory((prev) => [
-          ...prev,
-          {
-            deviceId,
-            deviceName,
-            timestamp: eventTimestamp,
-            gameId,
-          },
-        ]);
-
-        // Update hitTimesByDevice (both React state and synchronous ref)
-        {
-          const refTimes = hitTimesByDeviceRef.current;
-          const existing = refTimes[deviceId] ? [...refTimes[deviceId]] : [];
-          existing.push(eventTimestamp);
-          refTimes[deviceId] = existing;
-          hitTimesByDeviceRef.current = { ...refTimes };
-        }
-        setHitTimesByDevice((prev) => {
-          const next = { ...prev };
-          const existing = next[deviceId] ? [...next[deviceId]] : [];
-          existing.push(eventTimestamp);
-          next[deviceId] = existing;
-          return next;
-        });
-
-        // Same-device splits (unchanged — correct for all session types)
-        const previousTimestamp = lastHitTimestampRef.current[deviceId];
-        if (typeof previousTimestamp === 'number') {
-          const splitTime = (eventTimestamp - previousTimestamp) / 1000;
-          if (splitTime > 0) {
-            setSplits((prevSplits) => ([
-              ...prevSplits,
-              {
-                deviceId,
-                deviceName,
-                time: splitTime,
-                timestamp: eventTimestamp,
-                splitNumber: prevSplits.length + 1,
-              },
-            ]));
-          }
-        }
-        lastHitTimestampRef.current[deviceId] = eventTimestamp;
-
-        const isMultiTarget = trackedDevices.length > 1;
-
-        if (isMultiTarget) {
-          // Multi-target: compute round-based transitions and roundSplits.
-          // A "round" completes when ALL tracked devices have at least N hits.
-          const refTimes = hitTimesByDeviceRef.current;
-          const perDeviceHitCounts: Record<string, number> = {};
-          for (const id of trackedDevices) {
-            perDeviceHitCounts[deviceNameMap.get(id) ?? id] = refTimes[id]?.length ?? 0;
-          }
-          const minHits = Math.min(
-            ...trackedDevices.map((id) => (refTimes[id]?.length ?? 0)),
-          );
-
-          console.log(
-            `%c[ROUND-CHECK] After hit on ${deviceName}%c | Per-device counts: ${JSON.stringify(perDeviceHitCounts)} | minHits: ${minHits} | lastCompletedRound: ${lastCompletedRoundRef.current}`,
-            'color: #A884FF; font-weight: bold',
-            'color: inherit',
-          );
-
-          if (minHits > lastCompletedRoundRef.current) {
-            // New round completed
-            const roundNumber = minHits;
-            const deviceTimestamps: Record<string, number> = {};
-            for (const id of trackedDevices) {
-              deviceTimestamps[id] = refTimes[id][roundNumber - 1];
-            }
-            const timestamps = Object.values(deviceTimestamps);
-            const completedAt = Math.max(...timestamps);
-            const pairGap = (Math.max(...timestamps) - Math.min(...timestamps)) / 1000;
-            const previousCompletion = lastRoundCompletionRef.current;
-            const roundTime = previousCompletion !== null
-              ? (completedAt - previousCompletion) / 1000
-              : 0;
-
-            const namedTimestamps: Record<string, number> = {};
-            for (const [id, ts] of Object.entries(deviceTimestamps)) {
-              namedTimestamps[deviceNameMap.get(id) ?? id] = ts;
-            }
-            console.log(
-              `%c[ROUND-COMPLETE] Round #${roundNumber}%c | roundTime: ${roundTime.toFixed(3)}s | pairGap: ${pairGap.toFixed(3)}s | completedAt: ${completedAt} | deviceTimestamps: ${JSON.stringify(namedTimestamps)}`,
-              'color: #FF7A00; font-weight: bold; font-size: 13px',
-              'color: inherit; font-size: 13px',
-            );
-
-            lastCompletedRoundRef.current = roundNumber;
-            lastRoundCompletionRef.current = completedAt;
-
-            setRoundSplits((prev) => [
-              ...prev,
-              { roundNumber, completedAt, roundTime, pairGap, deviceTimestamps },
-            ]);
-
-            // Record a round-to-round transition (meaningful for multi-target)
-            if (roundNumber > 1 && roundTime > 0) {
-              console.log(
-                `%c[ROUND-TRANSITION] Round ${roundNumber - 1} → ${roundNumber}%c | time: ${roundTime.toFixed(3)}s`,
-                'color: #6B4A38; font-weight: bold',
-                'color: inherit',
-              );
-              setTransitions((prevTransitions) => ([
-                ...prevTransitions,
-                {
-                  fromDevice: trackedDevices[0],
-                  toDevice: trackedDevices[trackedDevices.length - 1],
-                  fromDeviceName: deviceNameMap.get(trackedDevices[0]) ?? trackedDevices[0],
-                  toDeviceName: deviceNameMap.get(trackedDevices[trackedDevices.length - 1]) ?? trackedDevices[trackedDevices.length - 1],
-                  time: roundTime,
-                  timestamp: completedAt,
-                  transitionNumber: prevTransitions.length + 1,
-                },
-              ]));
-            }
-          }
-        } else {
-          // Single-target: original sequential transition logic
-          const previousHit = lastHitDeviceRef.current;
-          if (previousHit && previousHit.deviceId !== deviceId) {
-            const transitionTime = (eventTimestamp - previousHit.timestamp) / 1000;
-            if (transitionTime > 0) {
-              setTransitions((prevTransitions) => ([
-                ...prevTransitions,
-                {
-                  fromDevice: previousHit.deviceId,
-                  toDevice: deviceId,
-                  fromDeviceName: previousHit.deviceName,
-                  toDeviceName: deviceName,
-                  time: transitionTime,
-                  timestamp: eventTimestamp,
-                  transitionNumber: prevTransitions.length + 1,
-                },
-              ]));
-            }
-          }
-        }
-        lastHitDeviceRef.current = {
+        // Zoned targets report where the hit landed and how hard alongside the hit event.
+        const zone = parseHitZone(resolveValue(telemetry.zone));
+        const intensity = parseHitIntensity(resolveValue(telemetry.intensity));
+        recordHit(
           deviceId,
           deviceName,
-          timestamp: eventTimestamp,
-        };
+          eventTimestamp,
+          zone === null && intensity === null ? {} : { zone, intensity },
+        );
       },
       {
         realtime: true,
@@ -436,6 +562,18 @@ export const useDirectTbTelemetry = ({
         onError: (error) => {
           logger.info('[useDirectTbTelemetry] Falling back to polling telemetry', error);
         },
+        onTransportChange: (mode) => {
+          const opens = websocketOpensRef.current.gameId === gameId ? websocketOpensRef.current.opens : 0;
+          if (mode === 'websocket') {
+            websocketOpensRef.current = { gameId, opens: opens + 1 };
+          }
+          const reconnected = mode === 'polling' || opens > 0;
+          updateHealth((health) => ({
+            ...health,
+            transport: mode,
+            reconnectCount: health.reconnectCount + (reconnected ? 1 : 0),
+          }));
+        },
       },
     );
 
@@ -444,13 +582,84 @@ export const useDirectTbTelemetry = ({
       unsubscribeRef.current = null;
     };
 
+    // Replay hits recovered after a reload once per game, ahead of the live hits still to come.
+    const hitsToReplay =
+      replayedGameIdRef.current === gameId
+        ? []
+        : (recoveredHits ?? []).filter((hit) => hit.gameId === gameId && trackedDeviceSet.has(hit.deviceId));
+    const replayTimer = hitsToReplay.length > 0
+      ? window.setTimeout(() => {
+        replayedGameIdRef.current = gameId;
+        logger.info('[DirectTelemetry] Replaying recovered hits', { gameId, count: hitsToReplay.length });
+        [...hitsToReplay]
+          .sort((a, b) => a.timestamp - b.timestamp)
+          .forEach((hit) =>
+            recordHit(hit.deviceId, deviceNameMap.get(hit.deviceId) ?? hit.deviceId, hit.timestamp, {
+              zone: hit.zone,
+              intensity: hit.intensity,
+            }),
+          );
+      }, 0)
+      : null;
+
     return () => {
+      if (replayTimer !== null) {
+        window.clearTimeout(replayTimer);
+      }
       if (unsubscribeRef.current) {
         unsubscribeRef.current();
         unsubscribeRef.current = null;
       }
     };
-  }, [enabled, token, gameId, trackedDevices, trackedDeviceSet, deviceNameMap, resetState]);
+  }, [enabled, token, gameId, trackedDevices, trackedDeviceSet, deviceNameMap, resetState, recoveredHits]);
+
+  // Staged drills: stages run from the session start event (or the first hit when the
+  // firmware sends no start event) and are re-evaluated on every hit and stage deadline.
+  const drillStartTime = sessionEventTimestamp ?? hitHistory[0]?.timestamp ?? null;
+  const drillProgress = useMemo(() => {
+    if (!drillStages || drillStages.length === 0 || drillStartTime === null) {
+      return null;
+    }
+    const lastHitAt = hitHistory.reduce((latest, hit) => Math.max(latest, hit.timestamp), drillStartTime);
+    return evaluateDrillProgress(hitHistory, drillStages, drillStartTime, Math.max(drillClock, lastHitAt));
+  }, [drillStages, drillStartTime, hitHistory, drillClock]);
+
+  const drillStageIndex = drillProgress?.currentStageIndex ?? null;
+  const drillStageDeadline = drillProgress?.currentStageDeadline ?? null;
+
+  // Advance the drill when the active stage runs out of time with no further hits.
+  useEffect(() => {
+    if (!enabled || drillStageDeadline === null) {
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      setDrillClock((prev) => Math.max(prev, drillStageDeadline));
+    }, Math.max(0, drillStageDeadline - Date.now()));
+    return () => window.clearTimeout(timer);
+  }, [enabled, drillStageDeadline]);
+
+  // Beep the first target of each stage that asks for a start beep.
+  useEffect(() => {
+    if (!enabled || !gameId || drillStageIndex === null || beepedDrillStageRef.current === drillStageIndex) {
+      return;
+    }
+    beepedDrillStageRef.current = drillStageIndex;
+    const stage = drillStages?.[drillStageIndex];
+    const targetDeviceId = stage?.steps[0]?.deviceId;
+    if (!stage?.startBeep || !targetDeviceId) {
+      return;
+    }
+    sendScenarioBeep({
+      sessionId: gameId,
+      targetDeviceId,
+      beepType: 'stage-start',
+      beepSequence: drillStageIndex + 1,
+      timestamp: Date.now(),
+      expectedResponseWindow: (stage.timeLimitSeconds ?? 0) * 1000,
+    }).catch((error) => {
+      logger.warn('[DirectTelemetry] Failed to send drill stage beep', { stageIndex: drillStageIndex, error });
+    });
+  }, [enabled, gameId, drillStageIndex, drillStages]);
 
   return useMemo(
     () => ({
@@ -462,8 +671,11 @@ export const useDirectTbTelemetry = ({
       hitTimesByDevice,
       sessionEventTimestamp,
       readyDevices,
+      shotCounts,
+      drillProgress,
+      telemetryHealth,
     }),
-    [hitCounts, hitHistory, splits, transitions, roundSplits, hitTimesByDevice, sessionEventTimestamp, readyDevices],
+    [hitCounts, hitHistory, splits, transitions, roundSplits, hitTimesByDevice, sessionEventTimestamp, readyDevices, shotCounts, drillProgress, telemetryHealth],
   );
 };
 
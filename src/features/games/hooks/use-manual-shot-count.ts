@@ -0,0 +1,68 @@
+import { useCallback, useState } from 'react';
+import { toast } from '@/components/ui/sonner';
+import type { LiveSessionSummary } from '@/features/games/ui/components/types';
+import type { GameHistory } from '@/features/games/lib/device-game-flow';
+import { applyManualShotCount } from '@/features/games/lib/session-summary-builder';
+import { saveGameHistory } from '@/features/games/lib/game-history';
+import { validateShotCount } from '@/domain/games/rules';
+import { logger } from '@/shared/lib/logger';
+
+export interface UseManualShotCountOptions {
+  recentSessionSummary: LiveSessionSummary | null;
+  setRecentSessionSummary: React.Dispatch<React.SetStateAction<LiveSessionSummary | null>>;
+  setGameHistory: React.Dispatch<React.SetStateAction<GameHistory[]>>;
+}
+
+export interface UseManualShotCountReturn {
+  isSavingShots: boolean;
+  /** Re-scores the last session with the shots fired entered after it and saves it again */
+  saveShotsFired: (shotsFired: number) => Promise<boolean>;
+}
+
+export function useManualShotCount({
+  recentSessionSummary,
+  setRecentSessionSummary,
+  setGameHistory,
+}: UseManualShotCountOptions): UseManualShotCountReturn {
+  const [isSavingShots, setIsSavingShots] = useState(false);
+
+  const saveShotsFired = useCallback(
+    async (shotsFired: number) => {
+      if (!recentSessionSummary) {
+        return false;
+      }
+      const shotCheck = validateShotCount(shotsFired, recentSessionSummary.totalHits);
+      if (shotCheck.valid === false) {
+        toast.error(shotCheck.violation);
+        return false;
+      }
+
+      const updated = applyManualShotCount(recentSessionSummary.historyEntry, shotsFired);
+      setRecentSessionSummary(updated);
+      setGameHistory((prev) =>
+        prev.map((entry) => (entry.gameId === updated.gameId ? updated.historyEntry : entry)),
+      );
+
+      setIsSavingShots(true);
+      try {
+        await saveGameHistory(updated.historyEntry);
+        logger.info('[Games] Manual shot count saved', {
+          gameId: updated.gameId,
+          totalShots: updated.totalShots,
+          accuracy: updated.accuracy,
+        });
+        toast.success(`${updated.totalShots} shots recorded · ${updated.accuracy}% accuracy`);
+        return true;
+      } catch (error) {
+        console.warn('[Games] Failed to persist manual shot count', error);
+        toast.error('Failed to save shots fired. Please check your connection.');
+        return false;
+      } finally {
+        setIsSavingShots(false);
+      }
+    },
+    [recentSessionSummary, setRecentSessionSummary, setGameHistory],
+  );
+
+  return { isSavingShots, saveShotsFired };
+}
@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from '@/components/ui/sonner';
+import type { NormalizedGameDevice } from '@/features/games/hooks/use-game-devices';
+import { tbSubscribeTelemetry } from '@/features/games/lib/thingsboard-client';
+import { MIN_TARGET_FIRMWARE_VERSION, isHitSince, pingPreflightTarget } from '@/features/games/lib/preflight';
+import {
+  PREFLIGHT_CONSTRAINTS,
+  createPreflightProbe,
+  evaluatePreflight,
+  toPreflightReadiness,
+  type PreflightProbe,
+  type PreflightResult,
+} from '@/domain/games/preflight';
+import type { TargetReadiness } from '@/domain/games/rules';
+
+export interface UsePreflightCheckOptions {
+  refreshDirectAuthToken: () => Promise<string>;
+  /** Staged session; results of a check run for another session are not returned */
+  gameId: string | null;
+  minFirmwareVersion?: string | null;
+}
+
+export interface UsePreflightCheckReturn {
+  /** Per-target checks and verdict of the latest run, keyed by device id */
+  preflightResults: Record<string, PreflightResult>;
+  /** Readiness of every probed target, for `canUseTargetsForGame` */
+  preflightReadiness: Record<string, TargetReadiness>;
+  /** Pings every target in parallel and opens the hit test window */
+  runPreflight: (targets: NormalizedGameDevice[]) => Promise<void>;
+  /** Drops the latest run and closes its hit test */
+  resetPreflight: () => void;
+}
+
+export function usePreflightCheck({
+  refreshDirectAuthToken,
+  gameId,
+  minFirmwareVersion = MIN_TARGET_FIRMWARE_VERSION,
+}: UsePreflightCheckOptions): UsePreflightCheckReturn {
+  const [probes, setProbes] = useState<Record<string, PreflightProbe>>({});
+  const [checkedGameId, setCheckedGameId] = useState<string | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+  const hitTestTimerRef = useRef<number | null>(null);
+  // Bumped per run so late RPC replies from an earlier run are dropped.
+  const runIdRef = useRef(0);
+
+  const stopHitTest = useCallback(() => {
+    if (hitTestTimerRef.current !== null) {
+      window.clearTimeout(hitTestTimerRef.current);
+      hitTestTimerRef.current = null;
+    }
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
+  }, []);
+
+  useEffect(() => stopHitTest, [stopHitTest]);
+
+  const updateProbe = useCallback((runId: number, deviceId: string, patch: Partial<PreflightProbe>) => {
+    if (runIdRef.current !== runId) {
+      return;
+    }
+    setProbes((prev) => (prev[deviceId] ? { ...prev, [deviceId]: { ...prev[deviceId], ...patch } } : prev));
+  }, []);
+
+  const resetPreflight = useCallback(() => {
+    runIdRef.current += 1;
+    stopHitTest();
+    setProbes({});
+  }, [stopHitTest]);
+
+  const runPreflight = useCallback(
+    async (targets: NormalizedGameDevice[]) => {
+      if (targets.length === 0) {
+        toast.info('Select targets to check.');
+        return;
+      }
+
+      stopHitTest();
+      runIdRef.current += 1;
+      const runId = runIdRef.current;
+      setCheckedGameId(gameId);
+      setProbes(
+        Object.fromEntries(
+          targets.map((target) => [
+            target.deviceId,
+            createPreflightProbe(target.deviceId, target.gameStatus === 'offline' ? null : target.gameStatus),
+          ]),
+        ),
+      );
+
+      let token: string;
+      try {
+        token = await refreshDirectAuthToken();
+      } catch (error) {
+        console.error('[Games] Pre-flight authentication failed', error);
+        toast.error('Pre-flight check failed. Check your connection and try again.');
+        if (runIdRef.current === runId) {
+          setProbes({});
+        }
+        return;
+      }
+      if (runIdRef.current !== runId) {
+        return;
+      }
+
+      const deviceIds = targets.map((target) => target.deviceId);
+      const pendingHits = new Set(deviceIds);
+      const hitTestStartedAt = Date.now();
+
+      unsubscribeRef.current = tbSubscribeTelemetry(
+        deviceIds,
+        token,
+        (payload) => {
+          const deviceId = payload.entityId;
+          if (!deviceId || !pendingHits.has(deviceId) || !isHitSince(payload.data, hitTestStartedAt)) {
+            return;
+          }
+          pendingHits.delete(deviceId);
+          updateProbe(runId, deviceId, { hitDetected: true });
+          if (pendingHits.size === 0 && runIdRef.current === runId) {
+            stopHitTest();
+          }
+        },
+        {
+          realtime: true,
+          onError: (reason) => {
+            console.warn('[Games] Pre-flight hit test telemetry degraded', reason);
+          },
+        },
+      );
+      hitTestTimerRef.current = window.setTimeout(() => {
+        hitTestTimerRef.current = null;
+        unsubscribeRef.current?.();
+        unsubscribeRef.current = null;
+        pendingHits.forEach((deviceId) => updateProbe(runId, deviceId, { hitTestExpired: true }));
+      }, PREFLIGHT_CONSTRAINTS.HIT_TEST_TIMEOUT_MS);
+
+      await Promise.all(
+        deviceIds.map(async (deviceId) => {
+          try {
+            const result = await pingPreflightTarget(deviceId);
+            updateProbe(runId, deviceId, result);
+          } catch (error) {
+            console.warn('[Games] Pre-flight ping failed', { deviceId, error });
+            updateProbe(runId, deviceId, { pingFailed: true });
+          }
+        }),
+      );
+    },
+    [gameId, refreshDirectAuthToken, stopHitTest, updateProbe],
+  );
+
+  const currentProbes = useMemo(
+    () => (gameId !== null && checkedGameId === gameId ? Object.values(probes) : []),
+    [checkedGameId, gameId, probes],
+  );
+
+  const preflightResults = useMemo(
+    () =>
+      Object.fromEntries(
+        currentProbes.map((probe) => [probe.deviceId, evaluatePreflight(probe, minFirmwareVersion)]),
+      ),
+    [currentProbes, minFirmwareVersion],
+  );
+
+  const preflightReadiness = useMemo(
+    () =>
+      Object.fromEntries(
+        currentProbes.map((probe) => [probe.deviceId, toPreflightReadiness(probe, preflightResults[probe.deviceId])]),
+      ),
+    [currentProbes, preflightResults],
+  );
+
+  return { preflightResults, preflightReadiness, runPreflight, resetPreflight };
+}
@@ -1,9 +1,14 @@
 import { useState, useRef, useCallback, useMemo, useEffect } from 'react';
 import { toast } from '@/components/ui/sonner';
-import { resolvePresetDurationSeconds } from '@/features/games/lib/telemetry-utils';
+import { pickDrillStages, pickQualificationStandard, pickStartDelay, pickTargetEntries, resolvePresetDurationSeconds } from '@/features/games/lib/telemetry-utils';
 import type { NormalizedGameDevice } from '@/features/games/hooks/use-game-devices';
 import type { GamePreset } from '@/features/games';
 import type { SessionRegistry } from './use-session-registry';
+import { DEFAULT_GAME_MODE_ID, resolveGameModeId, type GameModePenaltyValues } from '@/domain/games/modes';
+import type { GameModeId } from '@/domain/games/validators';
+import type { DrillStage } from '@/domain/games/drills';
+import type { StartDelay } from '@/domain/games/start-signal';
+import type { QualificationStandard } from '@/domain/games/qualifications';
 
 export interface UsePresetManagementOptions {
   // React Query preset state
@@ -31,6 +36,14 @@ export interface UsePresetManagementOptions {
   sessionDurationSeconds: number | null;
   sessionRoomId: string | null;
   goalShotsPerTarget: Record<string, number>;
+  gameModeId: GameModeId;
+  parTimesPerTarget: Record<string, number>;
+  penaltiesPerTarget: Record<string, Partial<GameModePenaltyValues>>;
+  drillStages: DrillStage[];
+  startDelay: StartDelay | null;
+  qualificationStandard: QualificationStandard | null;
+  /** Enforced engagement order; empty when any order goes */
+  targetOrder: string[];
   rooms: Array<{ id: string; name?: string | null }>;
 
   // For stagedPresetTargets memo
@@ -44,6 +57,13 @@ export interface UsePresetManagementOptions {
   setSessionRoomId: React.Dispatch<React.SetStateAction<string | null>>;
   setSessionDurationSeconds: React.Dispatch<React.SetStateAction<number | null>>;
   setGoalShotsPerTarget: React.Dispatch<React.SetStateAction<Record<string, number>>>;
+  setGameModeId: React.Dispatch<React.SetStateAction<GameModeId>>;
+  setParTimesPerTarget: React.Dispatch<React.SetStateAction<Record<string, number>>>;
+  setPenaltiesPerTarget: React.Dispatch<React.SetStateAction<Record<string, Partial<GameModePenaltyValues>>>>;
+  setDrillStages: React.Dispatch<React.SetStateAction<DrillStage[]>>;
+  setStartDelay: React.Dispatch<React.SetStateAction<StartDelay | null>>;
+  setQualificationStandard: React.Dispatch<React.SetStateAction<QualificationStandard | null>>;
+  setTargetOrder: React.Dispatch<React.SetStateAction<string[]>>;
   setIsDurationUnlimited: React.Dispatch<React.SetStateAction<boolean>>;
 
   // Callback registry (replaces bridge refs)
@@ -83,6 +103,18 @@ export interface UsePresetManagementReturn {
   handleUpdateActivePreset: () => Promise<void>;
 }
 
+// Saved presets list their targets in engagement order when order is enforced.
+const sortByTargetOrder = (targetIds: string[], targetOrder: string[]): string[] => {
+  if (targetOrder.length === 0) {
+    return targetIds;
+  }
+  const rank = (deviceId: string) => {
+    const index = targetOrder.indexOf(deviceId);
+    return index === -1 ? targetOrder.length : index;
+  };
+  return [...targetIds].sort((a, b) => rank(a) - rank(b));
+};
+
 export function usePresetManagement(options: UsePresetManagementOptions): UsePresetManagementReturn {
   const {
     gamePresets,
@@ -96,6 +128,13 @@ export function usePresetManagement(options: UsePresetManagementOptions): UsePre
     sessionDurationSeconds,
     sessionRoomId,
     goalShotsPerTarget,
+    gameModeId,
+    parTimesPerTarget,
+    penaltiesPerTarget,
+    drillStages,
+    startDelay,
+    qualificationStandard,
+    targetOrder,
     rooms,
     pendingSessionTargets,
     currentSessionTargets,
@@ -105,6 +144,13 @@ export function usePresetManagement(options: UsePresetManagementOptions): UsePre
     setSessionRoomId,
     setSessionDurationSeconds,
     setGoalShotsPerTarget,
+    setGameModeId,
+    setParTimesPerTarget,
+    setPenaltiesPerTarget,
+    setDrillStages,
+    setStartDelay,
+    setQualificationStandard,
+    setTargetOrder,
     setIsDurationUnlimited,
     registry,
   } = options;
@@ -253,7 +299,7 @@ export function usePresetManagement(options: UsePresetManagementOptions): UsePre
       durationSeconds = Math.round(parsed);
     }
 
-    const targetIds = Array.from(new Set(stagedPresetTargets.map((device) => device.deviceId)));
+    const targetIds = sortByTargetOrder(Array.from(new Set(stagedPresetTargets.map((device) => device.deviceId))), targetOrder);
 
     const resolvedRoomId = savePresetIncludeRoom && sessionRoomId ? sessionRoomId : null;
     const resolvedRoomName = resolvedRoomId ? rooms.find((room) => room.id === resolvedRoomId)?.name ?? null : null;
@@ -272,6 +318,27 @@ export function usePresetManagement(options: UsePresetManagementOptions): UsePre
     if (Object.keys(goalShotsPerTarget).length > 0) {
       settings.goalShotsPerTarget = goalShotsPerTarget;
     }
+    if (gameModeId !== DEFAULT_GAME_MODE_ID) {
+      settings.gameMode = gameModeId;
+    }
+    if (Object.keys(parTimesPerTarget).length > 0) {
+      settings.parTimesPerTarget = parTimesPerTarget;
+    }
+    if (Object.keys(penaltiesPerTarget).length > 0) {
+      settings.penaltiesPerTarget = penaltiesPerTarget;
+    }
+    if (drillStages.length > 0) {
+      settings.drillStages = drillStages;
+    }
+    if (startDelay) {
+      settings.startDelay = startDelay;
+    }
+    if (qualificationStandard) {
+      settings.qualification = qualificationStandard;
+    }
+    if (targetOrder.length > 0) {
+      settings.orderEnforced = true;
+    }
 
     try {
       await savePresetMutation.mutateAsync({
@@ -289,7 +356,11 @@ export function usePresetManagement(options: UsePresetManagementOptions): UsePre
       console.error('[Games] Failed to save preset', error);
     }
   }, [
+    drillStages,
+    gameModeId,
     goalShotsPerTarget,
+    parTimesPerTarget,
+    penaltiesPerTarget,
     resetSavePresetForm,
     rooms,
     savePresetMutation,
@@ -298,7 +369,10 @@ export function usePresetManagement(options: UsePresetManagementOptions): UsePre
     savePresetIncludeRoom,
     savePresetName,
     sessionRoomId,
+    qualificationStandard,
     stagedPresetTargets,
+    startDelay,
+    targetOrder,
   ]);
 
   const handleApplyPreset = useCallback(
@@ -357,6 +431,31 @@ export function usePresetManagement(options: UsePresetManagementOptions): UsePre
           setGoalShotsPerTarget({});
         }
 
+        // Populate wizard Step 3: scoring mode, par times and penalty overrides
+        setGameModeId(resolveGameModeId(preset.settings?.gameMode));
+        setParTimesPerTarget(pickTargetEntries(preset.settings?.parTimesPerTarget, matchedIds));
+        setPenaltiesPerTarget(pickTargetEntries(preset.settings?.penaltiesPerTarget, matchedIds));
+
+        // Populate wizard Step 3: drill stages (dropped if any stage target is unavailable)
+        const presetDrillStages = preset.settings?.drillStages;
+        const restoredDrillStages = pickDrillStages(presetDrillStages, matchedIds);
+        setDrillStages(restoredDrillStages);
+        if (Array.isArray(presetDrillStages) && presetDrillStages.length > 0 && restoredDrillStages.length === 0) {
+          toast.warning('Preset drill stages were not loaded because some of their targets are unavailable.');
+        }
+
+        // Populate wizard Step 3: random start delay
+        setStartDelay(pickStartDelay(preset.settings?.startDelay));
+
+        // Populate wizard Step 3: qualification course
+        setQualificationStandard(pickQualificationStandard(preset.settings?.qualification));
+
+        // Order-enforced presets keep their full order, so a missing target blocks the start until it is substituted
+        setTargetOrder(preset.settings?.orderEnforced === true && presetTargetIds.length > 1 ? presetTargetIds : []);
+        if (preset.settings?.orderEnforced === true && matchedIds.length < presetTargetIds.length) {
+          toast.error('This preset enforces target order. Substitute its unavailable targets before starting.');
+        }
+
         setStagedPresetId(preset.id);
         setActivePresetId(preset.id);
 
@@ -373,7 +472,7 @@ export function usePresetManagement(options: UsePresetManagementOptions): UsePre
         setApplyingPresetId(null);
       }
     },
-    [availableDevices, isSessionLocked, rooms, setGoalShotsPerTarget, setIsDurationUnlimited, setSelectedDeviceIds, setSessionDurationSeconds, setSessionRoomId],
+    [availableDevices, isSessionLocked, rooms, setDrillStages, setGameModeId, setGoalShotsPerTarget, setIsDurationUnlimited, setParTimesPerTarget, setPenaltiesPerTarget, setSelectedDeviceIds, setSessionDurationSeconds, setQualificationStandard, setSessionRoomId, setStartDelay, setTargetOrder],
   );
 
   const handleUpdateActivePreset = useCallback(async () => {
@@ -391,7 +490,7 @@ export function usePresetManagement(options: UsePresetManagementOptions): UsePre
       return;
     }
 
-    const targetIds = Array.from(new Set(stagedPresetTargets.map((d) => d.deviceId)));
+    const targetIds = sortByTargetOrder(Array.from(new Set(stagedPresetTargets.map((d) => d.deviceId))), targetOrder);
     const durationSeconds = typeof sessionDurationSeconds === 'number' && sessionDurationSeconds > 0
       ? Math.round(sessionDurationSeconds)
       : null;
@@ -410,6 +509,27 @@ export function usePresetManagement(options: UsePresetManagementOptions): UsePre
     if (Object.keys(goalShotsPerTarget).length > 0) {
       settings.goalShotsPerTarget = goalShotsPerTarget;
     }
+    if (gameModeId !== DEFAULT_GAME_MODE_ID) {
+      settings.gameMode = gameModeId;
+    }
+    if (Object.keys(parTimesPerTarget).length > 0) {
+      settings.parTimesPerTarget = parTimesPerTarget;
+    }
+    if (Object.keys(penaltiesPerTarget).length > 0) {
+      settings.penaltiesPerTarget = penaltiesPerTarget;
+    }
+    if (drillStages.length > 0) {
+      settings.drillStages = drillStages;
+    }
+    if (startDelay) {
+      settings.startDelay = startDelay;
+    }
+    if (qualificationStandard) {
+      settings.qualification = qualificationStandard;
+    }
+    if (targetOrder.length > 0) {
+      settings.orderEnforced = true;
+    }
 
     try {
       await savePresetMutation.mutateAsync({
@@ -428,13 +548,20 @@ export function usePresetManagement(options: UsePresetManagementOptions): UsePre
     }
   }, [
     activePresetId,
+    drillStages,
+    gameModeId,
     gamePresets,
     goalShotsPerTarget,
+    parTimesPerTarget,
+    penaltiesPerTarget,
     rooms,
     savePresetMutation,
     sessionDurationSeconds,
     sessionRoomId,
+    qualificationStandard,
     stagedPresetTargets,
+    startDelay,
+    targetOrder,
   ]);
 
   // --- Effects ---
@@ -13,6 +13,10 @@ import {
 } from '@/features/games/lib/game-history';
 import type { SessionCallbacks } from './use-session-registry';
 import { logger } from '@/shared/lib/logger';
+import { DEFAULT_GAME_MODE_ID, getGameMode, type GameModeCallout } from '@/domain/games/modes';
+import type { GameModeId } from '@/domain/games/validators';
+import type { DrillProgress } from '@/domain/games/drills';
+import { evaluateQualification } from '@/domain/games/qualifications';
 
 export type { FinalizeSessionArgs };
 
@@ -36,11 +40,21 @@ export interface UseSessionFinalizerOptions {
   activeDeviceIds: string[];
   goalShotsPerTarget: Record<string, number>;
   sessionDurationSeconds: number | null;
+  gameModeId: GameModeId;
+  callouts: GameModeCallout[];
+  /** Callouts a 'random-callout' session requires; null uses the mode default */
+  calloutCount: number | null;
 
   // Telemetry data (from useSessionTelemetrySync)
   hitHistory: SessionHitRecord[];
   stoppedTargets: Set<string>;
-  telemetryState: { splits: SplitRecord[]; transitions: TransitionRecord[]; roundSplits: RoundSplit[] };
+  telemetryState: {
+    splits: SplitRecord[];
+    transitions: TransitionRecord[];
+    roundSplits: RoundSplit[];
+    drillProgress: DrillProgress | null;
+    shotCounts: Record<string, number>;
+  };
 
   // State setters for persisting finalized session
   setRecentSessionSummary: React.Dispatch<React.SetStateAction<LiveSessionSummary | null>>;
@@ -76,6 +90,9 @@ export function useSessionFinalizer(options: UseSessionFinalizerOptions): UseSes
     activeDeviceIds,
     goalShotsPerTarget,
     sessionDurationSeconds,
+    gameModeId,
+    callouts,
+    calloutCount,
     hitHistory,
     stoppedTargets,
     telemetryState,
@@ -90,6 +107,8 @@ export function useSessionFinalizer(options: UseSessionFinalizerOptions): UseSes
   // --- Owned refs ---
   const autoStopTriggeredRef = useRef(false);
   const goalTerminationTriggeredRef = useRef(false);
+  const modeTerminationTriggeredRef = useRef(false);
+  const drillTerminationTriggeredRef = useRef(false);
 
   // --- Computed telemetry slices ---
   const splitRecords =
@@ -125,13 +144,26 @@ export function useSessionFinalizer(options: UseSessionFinalizerOptions): UseSes
       desiredDurationSeconds,
       presetId,
       goalShotsPerTarget: goalShots,
+      targetOrder,
+      gameMode,
+      callouts: calloutsSnapshot,
+      calloutCount: calloutCountSnapshot,
+      parTimesPerTarget,
+      penaltiesPerTarget,
+      drillStages,
+      startDelay,
+      qualificationStandard,
+      shotsFired,
+      personalBestScore,
+      squad,
+      pauseIntervals,
     }: FinalizeSessionArgs) => {
-      const sessionSummary = buildLiveSessionSummary({
+      const summarize = (hits: SessionHitRecord[]) => buildLiveSessionSummary({
         gameId: resolvedGameId,
         gameName: sessionLabel,
         startTime: startTimestamp,
         stopTime: stopTimestamp,
-        hitHistory: hitHistorySnapshot,
+        hitHistory: hits,
         splitRecords: splitRecordsSnapshot,
         transitionRecords: transitionRecordsSnapshot,
         roundSplits: roundSplitsSnapshot,
@@ -141,40 +173,125 @@ export function useSessionFinalizer(options: UseSessionFinalizerOptions): UseSes
         desiredDurationSeconds,
         presetId,
         goalShotsPerTarget: goalShots ?? {},
+        targetOrder,
+        gameMode,
+        callouts: calloutsSnapshot,
+        calloutCount: calloutCountSnapshot,
+        parTimesPerTarget,
+        penaltiesPerTarget,
+        drillStages,
+        startDelay,
+        shotsFired,
+        personalBestScore,
+        squad,
+        pauseIntervals,
       });
+      // Qualification courses are judged on the finished run and saved with it.
+      const judge = (summary: LiveSessionSummary) => {
+        if (!qualificationStandard) {
+          return null;
+        }
+        const qualification = evaluateQualification(qualificationStandard, {
+          startTime: summary.startedAt,
+          hitHistory: summary.hitHistory,
+          targets: summary.targets,
+          score: summary.score,
+          isValid: summary.isValid,
+          scoreUnit: getGameMode(summary.gameMode).scoreUnit,
+        });
+        summary.historyEntry.qualification = qualification;
+        return qualification;
+      };
+      const liveSummary = summarize(hitHistorySnapshot);
+      const qualification = judge(liveSummary);
+      let sessionSummary = liveSummary;
 
       logger.warn('[Games][DIAG] buildLiveSessionSummary result', {
-        gameId: sessionSummary.gameId,
-        score: sessionSummary.score,
-        isValid: sessionSummary.isValid,
-        totalHits: sessionSummary.totalHits,
-        deviceStatsHits: sessionSummary.deviceStats.map((d) => ({
+        gameId: liveSummary.gameId,
+        score: liveSummary.score,
+        isValid: liveSummary.isValid,
+        totalHits: liveSummary.totalHits,
+        totalShots: liveSummary.totalShots,
+        shotCountSource: liveSummary.shotCountSource,
+        deviceStatsHits: liveSummary.deviceStats.map((d) => ({
           id: d.deviceId,
           hits: d.hitCount,
           hitTimesCount: d.hitTimes.length,
         })),
-        hitHistoryLength: sessionSummary.hitHistory.length,
-        hitHistoryDeviceIds: [...new Set(sessionSummary.hitHistory.map((h) => h.deviceId))],
+        hitHistoryLength: liveSummary.hitHistory.length,
+        hitHistoryDeviceIds: [...new Set(liveSummary.hitHistory.map((h) => h.deviceId))],
         goalShotsPerTarget: goalShots,
       });
 
       // Final per-target hit count summary — compare with actual sounds heard
-      const perTargetFinal = sessionSummary.deviceStats.map((d) => {
+      const perTargetFinal = liveSummary.deviceStats.map((d) => {
         const goal = goalShots?.[d.deviceId];
         return `${d.deviceName ?? d.deviceId}: ${d.hitCount} hits${goal ? ` (goal: ${goal})` : ''}`;
       });
       console.log(
-        `%c[SESSION FINAL] ${sessionSummary.gameId}%c — Score: ${sessionSummary.score ?? 'N/A'} | Total: ${sessionSummary.totalHits} hits | ${perTargetFinal.join(' | ')}`,
+        `%c[SESSION FINAL] ${liveSummary.gameId}%c — Score: ${liveSummary.score ?? 'N/A'} | Total: ${liveSummary.totalHits} hits | ${perTargetFinal.join(' | ')}`,
         'color: #CE3E0A; font-weight: bold; font-size: 13px',
         'color: inherit; font-size: 13px',
       );
 
-      setRecentSessionSummary(sessionSummary);
-      setGameHistory((prev) => [sessionSummary.historyEntry, ...prev]);
+      if (qualificationStandard && qualification) {
+        logger.info('[Games] Qualification evaluated', {
+          gameId: liveSummary.gameId,
+          standard: qualificationStandard.name,
+          passed: qualification.passed,
+          reasons: qualification.reasons,
+        });
+        if (qualification.passed) {
+          toast.success(`Qualified: ${qualificationStandard.name}`);
+        } else {
+          toast.warning(`Did not qualify: ${qualification.reasons[0]}`);
+        }
+      }
+
+      setRecentSessionSummary(liveSummary);
+      setGameHistory((prev) => [liveSummary.historyEntry, ...prev]);
+      if (liveSummary.historyEntry.isPersonalBest && liveSummary.historyEntry.previousBestScore != null) {
+        toast.success('New personal best!');
+      }
 
       let persistenceError: unknown = null;
       try {
-        const { status, sessionPersisted, sessionPersistError } = await saveGameHistory(sessionSummary.historyEntry);
+        let saved = await saveGameHistory(sessionSummary.historyEntry);
+        if (saved.reconciliation && saved.reconciliation.recoveredHits > 0 && saved.record) {
+          // The server merged in hits the live stream missed; score the run again on the full
+          // set and save the re-scored copy. Recovered hits are tagged, so they are not added twice.
+          const previousScore = sessionSummary.score;
+          sessionSummary = summarize(saved.record.hitHistory ?? hitHistorySnapshot);
+          judge(sessionSummary);
+          saved = await saveGameHistory(sessionSummary.historyEntry);
+          logger.info('[Games] Session re-scored with recovered hits', {
+            gameId: sessionSummary.gameId,
+            previousScore,
+            score: sessionSummary.score,
+            isValid: sessionSummary.isValid,
+          });
+        }
+        const { status, sessionPersisted, sessionPersistError, reconciliation } = saved;
+        if (reconciliation) {
+          // The server checked the hits against ThingsBoard history; the saved copy is authoritative.
+          const corrected = { ...sessionSummary, historyEntry: { ...sessionSummary.historyEntry, reconciliation } };
+          sessionSummary = corrected;
+          setGameHistory((prev) =>
+            prev.map((entry) => (entry.gameId === corrected.gameId ? corrected.historyEntry : entry)),
+          );
+          setRecentSessionSummary((prev) => (prev && prev.gameId === corrected.gameId ? corrected : prev));
+          if (reconciliation.recoveredHits > 0 || reconciliation.unmatchedClientHits > 0) {
+            logger.warn('[Games] Saved hits differ from the live stream', {
+              gameId: sessionSummary.gameId,
+              ...reconciliation,
+            });
+          }
+          if (reconciliation.recoveredHits > 0) {
+            toast.warning(
+              `Recovered ${reconciliation.recoveredHits} hit${reconciliation.recoveredHits === 1 ? '' : 's'} the live stream missed. The session was re-scored with them.`,
+            );
+          }
+        }
         if (status === 'created') {
           logger.info('[Games] Game history entry created', sessionSummary.historyEntry.gameId);
         } else if (status === 'updated') {
@@ -205,6 +322,8 @@ export function useSessionFinalizer(options: UseSessionFinalizerOptions): UseSes
     if (!isRunningLifecycle) {
       autoStopTriggeredRef.current = false;
       goalTerminationTriggeredRef.current = false;
+      modeTerminationTriggeredRef.current = false;
+      drillTerminationTriggeredRef.current = false;
     }
   }, [isRunningLifecycle]);
 
@@ -268,6 +387,82 @@ export function useSessionFinalizer(options: UseSessionFinalizerOptions): UseSes
     }
   }, [isRunningLifecycle, activeDeviceIds, goalShotsPerTarget, stoppedTargets, handleStopGame]);
 
+  // Stop when a non-default game mode reaches its own end condition.
+  // The default mode ends through per-target goal termination above.
+  useEffect(() => {
+    if (!isRunningLifecycle || gameModeId === DEFAULT_GAME_MODE_ID || activeDeviceIds.length === 0) {
+      return;
+    }
+    if (modeTerminationTriggeredRef.current) {
+      return;
+    }
+    const gameMode = getGameMode(gameModeId);
+    const complete = gameMode.isComplete(
+      hitHistory,
+      {
+        targetIds: activeDeviceIds,
+        goalShotsPerTarget,
+        timeLimitSeconds: sessionDurationSeconds,
+        callouts,
+        calloutCount,
+      },
+      sessionTimerSeconds * 1000,
+    );
+    if (!complete) {
+      return;
+    }
+    modeTerminationTriggeredRef.current = true;
+    logger.info('[Games] Game mode end condition reached. Terminating game.', {
+      gameMode: gameMode.id,
+      hitCount: hitHistory.length,
+      elapsedSeconds: sessionTimerSeconds,
+    });
+    toast.success(`${gameMode.label} complete. Game ending...`);
+    setTimeout(() => {
+      // Timed modes finish together with the duration auto-stop; don't stop twice.
+      if (autoStopTriggeredRef.current || goalTerminationTriggeredRef.current) {
+        return;
+      }
+      void handleStopGame();
+    }, 500);
+  }, [
+    activeDeviceIds,
+    calloutCount,
+    callouts,
+    gameModeId,
+    goalShotsPerTarget,
+    handleStopGame,
+    hitHistory,
+    isRunningLifecycle,
+    sessionDurationSeconds,
+    sessionTimerSeconds,
+  ]);
+
+  // Stop once a staged drill has cleared its last stage, or a stage timeout ended it early.
+  const drillProgress = telemetryState.drillProgress;
+  useEffect(() => {
+    if (!isRunningLifecycle || !drillProgress?.isComplete || drillTerminationTriggeredRef.current) {
+      return;
+    }
+    drillTerminationTriggeredRef.current = true;
+    logger.info('[Games] Drill stages finished. Terminating game.', {
+      endedEarly: drillProgress.endedEarly,
+      stageStatuses: drillProgress.stages.map((stage) => stage.status),
+      totalTimeSeconds: drillProgress.totalTimeSeconds,
+    });
+    if (drillProgress.endedEarly) {
+      toast.info('Stage time limit reached. Drill ending...');
+    } else {
+      toast.success('All drill stages complete. Game ending...');
+    }
+    setTimeout(() => {
+      if (autoStopTriggeredRef.current || goalTerminationTriggeredRef.current || modeTerminationTriggeredRef.current) {
+        return;
+      }
+      void handleStopGame();
+    }, 500);
+  }, [drillProgress, handleStopGame, isRunningLifecycle]);
+
   // Auto-stop when desired duration elapses
   useEffect(() => {
     if (!isRunningLifecycle) {
@@ -297,6 +492,11 @@ export function useSessionFinalizer(options: UseSessionFinalizerOptions): UseSes
   register('getSplitRecords', () => splitRecords);
   register('getTransitionRecords', () => transitionRecords);
   register('getRoundSplits', () => roundSplitRecords);
+  // Every shot counter on the range hears the same shots, so the highest count wins.
+  register('getShotsFired', () => {
+    const counts = Object.values(telemetryState.shotCounts);
+    return counts.length > 0 ? Math.max(...counts) : null;
+  });
 
   return {
     splitRecords,
@@ -0,0 +1,437 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from '@/components/ui/sonner';
+import type { SessionLifecycle } from '@/features/games/lib/session-state';
+import type { NormalizedGameDevice } from '@/features/games/hooks/use-game-devices';
+import type { SessionHitRecord } from '@/features/games/lib/device-game-flow';
+import {
+  clearSessionJournal,
+  readSessionJournal,
+  writeSessionJournal,
+  type SessionJournal,
+} from '@/features/games/lib/session-journal';
+import { fetchTelemetryHistory, invokeGameControl } from '@/lib/edge';
+import type { SessionRegistry } from './use-session-registry';
+import { logger } from '@/shared/lib/logger';
+import type { GameModePenaltyValues } from '@/domain/games/modes';
+import type { GameModeId } from '@/domain/games/validators';
+import type { DrillStage } from '@/domain/games/drills';
+import type { StartDelay } from '@/domain/games/start-signal';
+import type { QualificationStandard } from '@/domain/games/qualifications';
+import { extractHistoryHits, extractHistoryShotsFired, mergeRecoveredHits } from '@/domain/games/recovery';
+import { toLocalTime } from '@/domain/games/clock-sync';
+import { readClockCalibrations } from '@/features/games/lib/clock-calibration';
+
+/** Telemetry keys read back from ThingsBoard to rebuild a session */
+const RECOVERY_TELEMETRY_KEYS = ['event', 'gameId', 'shots'];
+
+export interface UseSessionJournalOptions {
+  // Lifecycle
+  sessionLifecycle: SessionLifecycle;
+  isRunningLifecycle: boolean;
+  isSessionLocked: boolean;
+  setSessionLifecycle: React.Dispatch<React.SetStateAction<SessionLifecycle>>;
+  setIsSessionDialogDismissed: (value: boolean) => void;
+
+  // Session being journaled
+  directSessionGameId: string | null;
+  gameStartTime: number | null;
+  currentSessionTargets: NormalizedGameDevice[];
+  hitHistory: SessionHitRecord[];
+  sessionRoomId: string | null;
+  sessionRoomName: string | null;
+  activePresetId: string | null;
+  gameModeId: GameModeId;
+  sessionDurationSeconds: number | null;
+  goalShotsPerTarget: Record<string, number>;
+  parTimesPerTarget: Record<string, number>;
+  penaltiesPerTarget: Record<string, Partial<GameModePenaltyValues>>;
+  drillStages: DrillStage[];
+  startDelay: StartDelay | null;
+  qualificationStandard: QualificationStandard | null;
+
+  // Resume: session state restored from the journal
+  availableDeviceMap: Map<string, NormalizedGameDevice>;
+  refreshDirectAuthToken: () => Promise<string>;
+  setDirectSessionGameId: React.Dispatch<React.SetStateAction<string | null>>;
+  setDirectSessionTargets: React.Dispatch<React.SetStateAction<Array<{ deviceId: string; name: string }>>>;
+  setDirectFlowActive: React.Dispatch<React.SetStateAction<boolean>>;
+  setDirectTelemetryEnabled: React.Dispatch<React.SetStateAction<boolean>>;
+  updateDirectStartStates: (value: Record<string, 'idle' | 'pending' | 'success' | 'error'>) => void;
+  setRecoveredHits: React.Dispatch<React.SetStateAction<SessionHitRecord[]>>;
+  selectionManuallyModifiedRef: React.MutableRefObject<boolean>;
+  currentGameDevicesRef: React.MutableRefObject<string[]>;
+  setSelectedDeviceIds: React.Dispatch<React.SetStateAction<string[]>>;
+  setActiveDeviceIds: React.Dispatch<React.SetStateAction<string[]>>;
+  setPendingSessionTargets: React.Dispatch<React.SetStateAction<NormalizedGameDevice[]>>;
+  setCurrentSessionTargets: React.Dispatch<React.SetStateAction<NormalizedGameDevice[]>>;
+  setGameStartTime: React.Dispatch<React.SetStateAction<number | null>>;
+  setGameStopTime: React.Dispatch<React.SetStateAction<number | null>>;
+  setSessionRoomId: React.Dispatch<React.SetStateAction<string | null>>;
+  setSessionDurationSeconds: React.Dispatch<React.SetStateAction<number | null>>;
+  setActivePresetId: React.Dispatch<React.SetStateAction<string | null>>;
+  setGoalShotsPerTarget: React.Dispatch<React.SetStateAction<Record<string, number>>>;
+  setGameModeId: React.Dispatch<React.SetStateAction<GameModeId>>;
+  setParTimesPerTarget: React.Dispatch<React.SetStateAction<Record<string, number>>>;
+  setPenaltiesPerTarget: React.Dispatch<React.SetStateAction<Record<string, Partial<GameModePenaltyValues>>>>;
+  setDrillStages: React.Dispatch<React.SetStateAction<DrillStage[]>>;
+  setStartDelay: React.Dispatch<React.SetStateAction<StartDelay | null>>;
+  setQualificationStandard: React.Dispatch<React.SetStateAction<QualificationStandard | null>>;
+  startSessionTimer: (anchor: number) => void;
+  markSessionTriggered: (timestamp: number) => void;
+  markTelemetryConfirmed: (timestamp: number) => void;
+
+  // Finalize: persisted through the registered finalizer
+  registry: SessionRegistry;
+  loadGameHistory: () => Promise<void>;
+}
+
+export interface UseSessionJournalReturn {
+  /** Session a previous page load left running; null when there is nothing to recover */
+  orphanedSession: SessionJournal | null;
+  isRecoveringSession: boolean;
+  /** Picks the orphaned session back up: restores its setup and streams telemetry again */
+  resumeOrphanedSession: () => Promise<void>;
+  /** Stops the orphaned session's targets and saves it from the hits ThingsBoard recorded */
+  finalizeOrphanedSession: () => Promise<void>;
+  dismissOrphanedSession: () => void;
+}
+
+export function useSessionJournal(options: UseSessionJournalOptions): UseSessionJournalReturn {
+  const {
+    sessionLifecycle,
+    isRunningLifecycle,
+    isSessionLocked,
+    setSessionLifecycle,
+    setIsSessionDialogDismissed,
+    directSessionGameId,
+    gameStartTime,
+    currentSessionTargets,
+    hitHistory,
+    sessionRoomId,
+    sessionRoomName,
+    activePresetId,
+    gameModeId,
+    sessionDurationSeconds,
+    goalShotsPerTarget,
+    parTimesPerTarget,
+    penaltiesPerTarget,
+    drillStages,
+    startDelay,
+    qualificationStandard,
+    availableDeviceMap,
+    refreshDirectAuthToken,
+    setDirectSessionGameId,
+    setDirectSessionTargets,
+    setDirectFlowActive,
+    setDirectTelemetryEnabled,
+    updateDirectStartStates,
+    setRecoveredHits,
+    selectionManuallyModifiedRef,
+    currentGameDevicesRef,
+    setSelectedDeviceIds,
+    setActiveDeviceIds,
+    setPendingSessionTargets,
+    setCurrentSessionTargets,
+    setGameStartTime,
+    setGameStopTime,
+    setSessionRoomId,
+    setSessionDurationSeconds,
+    setActivePresetId,
+    setGoalShotsPerTarget,
+    setGameModeId,
+    setParTimesPerTarget,
+    setPenaltiesPerTarget,
+    setDrillStages,
+    setStartDelay,
+    setQualificationStandard,
+    startSessionTimer,
+    markSessionTriggered,
+    markTelemetryConfirmed,
+    registry,
+    loadGameHistory,
+  } = options;
+
+  // Read once on mount, before this page load starts journaling a session of its own
+  const [orphanedSession, setOrphanedSession] = useState<SessionJournal | null>(() => readSessionJournal());
+  const [isRecoveringSession, setIsRecoveringSession] = useState(false);
+  // Game currently written to the journal, cleared once that session is back to idle
+  const journaledGameIdRef = useRef<string | null>(null);
+
+  // Rewrite the journal while a session runs; every new hit lands in it.
+  useEffect(() => {
+    if (!isRunningLifecycle || !directSessionGameId || gameStartTime === null || currentSessionTargets.length === 0) {
+      return;
+    }
+    journaledGameIdRef.current = directSessionGameId;
+    writeSessionJournal({
+      gameId: directSessionGameId,
+      startTime: gameStartTime,
+      targets: currentSessionTargets,
+      roomId: sessionRoomId,
+      roomName: sessionRoomName,
+      presetId: activePresetId,
+      gameMode: gameModeId,
+      desiredDurationSeconds: sessionDurationSeconds,
+      goalShotsPerTarget,
+      parTimesPerTarget,
+      penaltiesPerTarget,
+      drillStages,
+      startDelay,
+      qualificationStandard,
+      hits: hitHistory,
+      updatedAt: Date.now(),
+    });
+  }, [
+    isRunningLifecycle,
+    directSessionGameId,
+    gameStartTime,
+    currentSessionTargets,
+    hitHistory,
+    sessionRoomId,
+    sessionRoomName,
+    activePresetId,
+    gameModeId,
+    sessionDurationSeconds,
+    goalShotsPerTarget,
+    parTimesPerTarget,
+    penaltiesPerTarget,
+    drillStages,
+    startDelay,
+    qualificationStandard,
+  ]);
+
+  // A session that made it back to idle was stopped and finalized; nothing left to recover.
+  useEffect(() => {
+    if (sessionLifecycle === 'idle' && journaledGameIdRef.current) {
+      journaledGameIdRef.current = null;
+      clearSessionJournal();
+    }
+  }, [sessionLifecycle]);
+
+  const dismissOrphanedSession = useCallback(() => {
+    clearSessionJournal();
+    setOrphanedSession(null);
+  }, []);
+
+  const fetchHistory = useCallback(async (journal: SessionJournal, endTime: number) => {
+    const deviceIds = journal.targets.map((target) => target.deviceId);
+    const nameById = new Map(journal.targets.map((target) => [target.deviceId, target.name ?? target.deviceId]));
+    try {
+      const { devices } = await fetchTelemetryHistory(
+        deviceIds,
+        journal.startTime,
+        endTime,
+        undefined,
+        RECOVERY_TELEMETRY_KEYS,
+      );
+      // Journaled hits were already moved onto the local clock; history carries target clock times.
+      const calibrations = readClockCalibrations();
+      const historyHits = extractHistoryHits(devices, journal.gameId, journal.startTime, endTime).map((hit) => ({
+        ...hit,
+        timestamp: toLocalTime(hit.timestamp, calibrations[hit.deviceId]),
+        deviceName: nameById.get(hit.deviceId) ?? hit.deviceId,
+        gameId: journal.gameId,
+      }));
+      return {
+        hits: mergeRecoveredHits<SessionHitRecord>(journal.hits, historyHits),
+        shotsFired: extractHistoryShotsFired(devices, journal.startTime, endTime),
+      };
+    } catch (error) {
+      logger.warn('[Games] Failed to load telemetry history for session recovery', {
+        gameId: journal.gameId,
+        error,
+      });
+      toast.warning('Target history is unavailable. Using the hits recorded before the reload.');
+      return { hits: journal.hits, shotsFired: null };
+    }
+  }, []);
+
+  const resumeOrphanedSession = useCallback(async () => {
+    const journal = orphanedSession;
+    if (!journal || isRecoveringSession) {
+      return;
+    }
+    if (isSessionLocked) {
+      toast.info('Finish or stop the active session before resuming another.');
+      return;
+    }
+
+    setIsRecoveringSession(true);
+    try {
+      await refreshDirectAuthToken();
+    } catch (error) {
+      console.error('[Games] ThingsBoard authentication failed while resuming session', error);
+      toast.error('Failed to authenticate with ThingsBoard. Try resuming again.');
+      setIsRecoveringSession(false);
+      return;
+    }
+
+    const { hits } = await fetchHistory(journal, Date.now());
+    const targets = journal.targets.map((target) => availableDeviceMap.get(target.deviceId) ?? target);
+    const deviceIds = targets.map((target) => target.deviceId);
+
+    logger.info('[Games] Resuming session after reload', {
+      gameId: journal.gameId,
+      deviceIds,
+      recoveredHits: hits.length,
+    });
+
+    setRecoveredHits(hits);
+    setDirectSessionGameId(journal.gameId);
+    setDirectSessionTargets(targets.map((target) => ({ deviceId: target.deviceId, name: target.name ?? target.deviceId })));
+    updateDirectStartStates(Object.fromEntries(deviceIds.map((deviceId) => [deviceId, 'success' as const])));
+    selectionManuallyModifiedRef.current = true;
+    currentGameDevicesRef.current = deviceIds;
+    setSelectedDeviceIds(deviceIds);
+    setActiveDeviceIds(deviceIds);
+    setPendingSessionTargets(targets);
+    setCurrentSessionTargets(targets);
+    setSessionRoomId(journal.roomId);
+    setSessionDurationSeconds(journal.desiredDurationSeconds);
+    setActivePresetId(journal.presetId);
+    setGoalShotsPerTarget(journal.goalShotsPerTarget ?? {});
+    setGameModeId(journal.gameMode);
+    setParTimesPerTarget(journal.parTimesPerTarget ?? {});
+    setPenaltiesPerTarget(journal.penaltiesPerTarget ?? {});
+    setDrillStages(journal.drillStages ?? []);
+    setStartDelay(journal.startDelay ?? null);
+    setQualificationStandard(journal.qualificationStandard ?? null);
+    setGameStartTime(journal.startTime);
+    setGameStopTime(null);
+    markSessionTriggered(journal.startTime);
+    markTelemetryConfirmed(journal.startTime);
+    startSessionTimer(journal.startTime);
+    setIsSessionDialogDismissed(false);
+    setSessionLifecycle('running');
+    setDirectFlowActive(true);
+    setDirectTelemetryEnabled(true);
+
+    setOrphanedSession(null);
+    setIsRecoveringSession(false);
+    toast.success(`Session resumed with ${hits.length} hit${hits.length === 1 ? '' : 's'} recovered.`);
+  }, [
+    orphanedSession,
+    isRecoveringSession,
+    isSessionLocked,
+    refreshDirectAuthToken,
+    fetchHistory,
+    availableDeviceMap,
+    setRecoveredHits,
+    setDirectSessionGameId,
+    setDirectSessionTargets,
+    updateDirectStartStates,
+    setSelectedDeviceIds,
+    setActiveDeviceIds,
+    setPendingSessionTargets,
+    setCurrentSessionTargets,
+    setSessionRoomId,
+    setSessionDurationSeconds,
+    setActivePresetId,
+    setGoalShotsPerTarget,
+    setGameModeId,
+    setParTimesPerTarget,
+    setPenaltiesPerTarget,
+    setDrillStages,
+    setStartDelay,
+    setQualificationStandard,
+    setGameStartTime,
+    setGameStopTime,
+    markSessionTriggered,
+    markTelemetryConfirmed,
+    startSessionTimer,
+    setIsSessionDialogDismissed,
+    setSessionLifecycle,
+    setDirectFlowActive,
+    setDirectTelemetryEnabled,
+    selectionManuallyModifiedRef,
+    currentGameDevicesRef,
+  ]);
+
+  const finalizeOrphanedSession = useCallback(async () => {
+    const journal = orphanedSession;
+    if (!journal || isRecoveringSession) {
+      return;
+    }
+
+    setIsRecoveringSession(true);
+    const deviceIds = journal.targets.map((target) => target.deviceId);
+    // The session ends where its time limit ran out, or now if it had none
+    const timeLimitEnd =
+      typeof journal.desiredDurationSeconds === 'number' && journal.desiredDurationSeconds > 0
+        ? journal.startTime + journal.desiredDurationSeconds * 1000
+        : null;
+    const historyEnd = timeLimitEnd !== null ? Math.min(timeLimitEnd, Date.now()) : Date.now();
+
+    try {
+      await invokeGameControl('stop', { deviceIds, gameId: journal.gameId, gameMode: journal.gameMode });
+    } catch (error) {
+      console.warn('[Games] Failed to stop targets of recovered session', error);
+    }
+
+    const { hits, shotsFired } = await fetchHistory(journal, historyEnd);
+    const lastHitAt = hits.reduce((latest, hit) => Math.max(latest, hit.timestamp), journal.startTime);
+    const stopTimestamp = timeLimitEnd ?? Math.max(journal.updatedAt, lastHitAt);
+    const deviceIdSet = new Set(deviceIds);
+    const goalShotsPerTarget = Object.fromEntries(
+      Object.entries(journal.goalShotsPerTarget ?? {}).filter(([deviceId]) => deviceIdSet.has(deviceId)),
+    );
+
+    logger.info('[Games] Finalizing session recovered after reload', {
+      gameId: journal.gameId,
+      startTime: journal.startTime,
+      stopTimestamp,
+      recoveredHits: hits.length,
+      journalHits: journal.hits.length,
+    });
+
+    try {
+      const finalizeResult = await registry.current.finalizeSession?.({
+        resolvedGameId: journal.gameId,
+        sessionLabel: `Game ${new Date(journal.startTime).toLocaleTimeString()}`,
+        startTimestamp: journal.startTime,
+        stopTimestamp,
+        targetDevices: journal.targets,
+        hitHistorySnapshot: hits,
+        splitRecordsSnapshot: [],
+        transitionRecordsSnapshot: [],
+        roundSplitsSnapshot: [],
+        roomId: journal.roomId,
+        roomName: journal.roomName,
+        desiredDurationSeconds: journal.desiredDurationSeconds,
+        presetId: journal.presetId,
+        goalShotsPerTarget,
+        gameMode: journal.gameMode,
+        parTimesPerTarget: journal.parTimesPerTarget,
+        penaltiesPerTarget: journal.penaltiesPerTarget,
+        drillStages: journal.drillStages,
+        startDelay: journal.startDelay,
+        qualificationStandard: journal.qualificationStandard,
+        shotsFired,
+      }) as { persistenceError?: unknown } | undefined;
+
+      if (finalizeResult?.persistenceError) {
+        logger.warn('[Games] Recovered session finalized locally but persistence failed', {
+          gameId: journal.gameId,
+          error: finalizeResult.persistenceError,
+        });
+      }
+      await loadGameHistory();
+      clearSessionJournal();
+      setOrphanedSession(null);
+      toast.success(`Recovered session saved with ${hits.length} hit${hits.length === 1 ? '' : 's'}.`);
+    } catch (error) {
+      console.error('[Games] Failed to finalize recovered session', error);
+      toast.error('Failed to finalize the recovered session. Please try again.');
+    } finally {
+      setIsRecoveringSession(false);
+    }
+  }, [orphanedSession, isRecoveringSession, fetchHistory, registry, loadGameHistory]);
+
+  return {
+    orphanedSession,
+    isRecoveringSession,
+    resumeOrphanedSession,
+    finalizeOrphanedSession,
+    dismissOrphanedSession,
+  };
+}
@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from '@/components/ui/sonner';
+import { invokeGameControl } from '@/lib/edge';
+import { logger } from '@/shared/lib/logger';
+import type { SessionCallbacks } from '@/features/games/hooks/use-session-registry';
+import { endPause, isPauseOpen, startPause, type PauseInterval } from '@/domain/games/pauses';
+
+export interface UseSessionPauseOptions {
+  isRunningLifecycle: boolean;
+  /** Running session; pauses recorded for another session are not returned */
+  gameId: string | null;
+  deviceIds: string[];
+  pauseSessionTimer: (timestamp: number) => void;
+  resumeSessionTimer: (timestamp: number) => void;
+  register: <K extends keyof SessionCallbacks>(key: K, fn: SessionCallbacks[K]) => void;
+}
+
+export interface UseSessionPauseReturn {
+  isSessionPaused: boolean;
+  /** Pauses of the running session, the open one last */
+  pauseIntervals: PauseInterval[];
+  /** True while paused, for telemetry to drop hits without re-subscribing */
+  pausedRef: React.MutableRefObject<boolean>;
+  isPauseCommandPending: boolean;
+  handlePauseSession: () => Promise<void>;
+  handleResumeSession: () => Promise<void>;
+}
+
+export function useSessionPause({
+  isRunningLifecycle,
+  gameId,
+  deviceIds,
+  pauseSessionTimer,
+  resumeSessionTimer,
+  register,
+}: UseSessionPauseOptions): UseSessionPauseReturn {
+  const [pauses, setPauses] = useState<{ gameId: string | null; intervals: PauseInterval[] }>({
+    gameId: null,
+    intervals: [],
+  });
+  const [isPauseCommandPending, setIsPauseCommandPending] = useState(false);
+  const pausedRef = useRef(false);
+
+  const pauseIntervals = gameId !== null && pauses.gameId === gameId ? pauses.intervals : [];
+  const isSessionPaused = isRunningLifecycle && isPauseOpen(pauseIntervals);
+
+  // Telemetry reads the pause through this ref. Stopping while paused drops it here; game-control
+  // clears the targets' paused/ignoreHits attributes on stop and on the next start.
+  useEffect(() => {
+    pausedRef.current = isSessionPaused;
+  }, [isSessionPaused]);
+
+  const sendHoldCommand = useCallback(
+    async (action: 'pause' | 'resume') => {
+      setIsPauseCommandPending(true);
+      try {
+        const response = await invokeGameControl(action, { deviceIds, gameId });
+        const failureCount = response.failureCount ?? 0;
+        if (failureCount > 0) {
+          toast.error(
+            action === 'pause'
+              ? `${failureCount} target(s) may still be scoring hits. Their hits are ignored until you resume.`
+              : `${failureCount} target(s) may not have resumed scoring hits.`,
+          );
+        }
+      } catch (error) {
+        logger.error(`[Games] Edge game-control ${action} failed`, error);
+        toast.error(
+          action === 'pause'
+            ? 'Targets did not confirm the pause. Their hits are ignored until you resume.'
+            : 'Targets did not confirm the resume. Check them before continuing.',
+        );
+      } finally {
+        setIsPauseCommandPending(false);
+      }
+    },
+    [deviceIds, gameId],
+  );
+
+  const handlePauseSession = useCallback(async () => {
+    if (!isRunningLifecycle || gameId === null || isSessionPaused) {
+      return;
+    }
+    const pausedAt = Date.now();
+    pausedRef.current = true;
+    pauseSessionTimer(pausedAt);
+    setPauses((prev) => ({
+      gameId,
+      intervals: startPause(prev.gameId === gameId ? prev.intervals : [], pausedAt),
+    }));
+    logger.info('[Games] Session paused (cease fire)', { gameId, pausedAt });
+    await sendHoldCommand('pause');
+  }, [gameId, isRunningLifecycle, isSessionPaused, pauseSessionTimer, sendHoldCommand]);
+
+  const handleResumeSession = useCallback(async () => {
+    if (!isSessionPaused || gameId === null) {
+      return;
+    }
+    await sendHoldCommand('resume');
+    // The clock restarts once the targets are scoring again, not when resume was pressed.
+    const resumedAt = Date.now();
+    pausedRef.current = false;
+    resumeSessionTimer(resumedAt);
+    setPauses((prev) => (prev.gameId === gameId ? { gameId, intervals: endPause(prev.intervals, resumedAt) } : prev));
+    logger.info('[Games] Session resumed', { gameId, resumedAt });
+  }, [gameId, isSessionPaused, resumeSessionTimer, sendHoldCommand]);
+
+  register('getPauseIntervals', () => pauseIntervals);
+
+  return {
+    isSessionPaused,
+    pauseIntervals,
+    pausedRef,
+    isPauseCommandPending,
+    handlePauseSession,
+    handleResumeSession,
+  };
+}
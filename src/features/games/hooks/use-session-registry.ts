@@ -3,6 +3,9 @@ import type { SessionHitRecord } from '@/features/games/lib/device-game-flow';
 import type { SplitRecord, TransitionRecord, RoundSplit } from '@/features/games/lib/telemetry-types';
 import type { NormalizedGameDevice } from './use-game-devices';
 import type { FinalizeSessionArgs } from '@/features/games/lib/telemetry-types';
+import type { GameModeCallout } from '@/domain/games/modes';
+import type { SquadRunContext } from '@/domain/games/squads';
+import type { PauseInterval } from '@/domain/games/pauses';
 
 // --- Callback type map: every cross-hook callback in one place ---
 
@@ -36,6 +39,16 @@ export type SessionCallbacks = {
   getSplitRecords: () => SplitRecord[];
   getTransitionRecords: () => TransitionRecord[];
   getRoundSplits: () => RoundSplit[];
+  getShotsFired: () => number | null;
+
+  // Provided by useCalloutDrill, consumed by useThingsboardControl during stop
+  getCallouts: () => GameModeCallout[];
+
+  // Provided by useSquadSession, consumed by useThingsboardControl during stop
+  getSquadContext: () => SquadRunContext | null;
+
+  // Provided by useSessionPause, consumed by useThingsboardControl during stop
+  getPauseIntervals: () => PauseInterval[];
 };
 
 // --- The registry type (a ref whose `.current` holds partial callbacks) ---
@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  getReplayFrame,
+  type ReplayFrame,
+  type ReplaySpeed,
+  type ReplayTimeline,
+} from '@/features/games/lib/session-replay';
+
+export interface UseSessionReplayReturn {
+  positionMs: number;
+  isPlaying: boolean;
+  speed: ReplaySpeed;
+  frame: ReplayFrame;
+  play: () => void;
+  pause: () => void;
+  seek: (positionMs: number) => void;
+  /** Jump to the previous (-1) or next (1) hit for frame-by-frame review */
+  stepHit: (direction: -1 | 1) => void;
+  setSpeed: (speed: ReplaySpeed) => void;
+}
+
+// Drives playback of a replay timeline in real time, scaled by the selected speed.
+export function useSessionReplay(timeline: ReplayTimeline): UseSessionReplayReturn {
+  const [positionMs, setPositionMs] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState<ReplaySpeed>(1);
+
+  // Restart from the beginning when a different session is loaded.
+  const [loadedTimeline, setLoadedTimeline] = useState(timeline);
+  if (loadedTimeline !== timeline) {
+    setLoadedTimeline(timeline);
+    setPositionMs(0);
+    setIsPlaying(false);
+  }
+
+  // Stop once playback reaches the end of the session.
+  if (isPlaying && positionMs >= timeline.durationMs) {
+    setIsPlaying(false);
+  }
+
+  useEffect(() => {
+    if (!isPlaying) {
+      return;
+    }
+    let frameId = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const delta = (now - last) * speed;
+      last = now;
+      setPositionMs((prev) => Math.min(timeline.durationMs, prev + delta));
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, speed, timeline.durationMs]);
+
+  const play = useCallback(() => {
+    setPositionMs((prev) => (prev >= timeline.durationMs ? 0 : prev));
+    setIsPlaying(true);
+  }, [timeline.durationMs]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  const seek = useCallback(
+    (next: number) => {
+      setPositionMs(Math.min(timeline.durationMs, Math.max(0, next)));
+    },
+    [timeline.durationMs],
+  );
+
+  const stepHit = useCallback(
+    (direction: -1 | 1) => {
+      setIsPlaying(false);
+      setPositionMs((prev) => {
+        const offsets = timeline.events.map((event) => event.offsetMs);
+        if (direction === 1) {
+          return offsets.find((offset) => offset > prev) ?? timeline.durationMs;
+        }
+        return [...offsets].reverse().find((offset) => offset < prev) ?? 0;
+      });
+    },
+    [timeline],
+  );
+
+  const frame = useMemo(() => getReplayFrame(timeline, positionMs), [timeline, positionMs]);
+
+  return { positionMs, isPlaying, speed, frame, play, pause, seek, stepHit, setSpeed };
+}
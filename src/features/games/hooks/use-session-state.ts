@@ -4,6 +4,11 @@ import type { LiveSessionSummary } from '@/features/games/ui/components/types';
 import type { SessionLifecycle } from '@/features/games/lib/session-state';
 import { formatSessionDuration } from '@/features/games/lib/session-state';
 import type { SessionRegistry } from './use-session-registry';
+import { DEFAULT_GAME_MODE_ID, type GameModePenaltyValues } from '@/domain/games/modes';
+import type { GameModeId } from '@/domain/games/validators';
+import type { DrillStage } from '@/domain/games/drills';
+import type { StartDelay, StartSchedule } from '@/domain/games/start-signal';
+import type { QualificationStandard } from '@/domain/games/qualifications';
 
 export type GameSetupStep = 'select-targets' | 'select-duration' | 'review';
 
@@ -43,6 +48,28 @@ export function useSessionState(deps: UseSessionStateDeps) {
   // --- Goal shots per target ---
   const [goalShotsPerTarget, setGoalShotsPerTarget] = useState<Record<string, number>>({});
 
+  // --- Scoring mode ---
+  const [gameModeId, setGameModeId] = useState<GameModeId>(DEFAULT_GAME_MODE_ID);
+
+  // --- Par times and penalty overrides (par-time mode) ---
+  const [parTimesPerTarget, setParTimesPerTarget] = useState<Record<string, number>>({});
+  const [penaltiesPerTarget, setPenaltiesPerTarget] = useState<Record<string, Partial<GameModePenaltyValues>>>({});
+
+  // --- Drill stages (custom staged drills) ---
+  const [drillStages, setDrillStages] = useState<DrillStage[]>([]);
+
+  // --- Random start delay (shot-timer start); null starts on the command ---
+  const [startDelay, setStartDelay] = useState<StartDelay | null>(null);
+
+  // --- Scheduled start (set time or countdown); null starts on the command ---
+  const [startSchedule, setStartSchedule] = useState<StartSchedule | null>(null);
+
+  // --- Qualification course the session is shot as; null for a practice run ---
+  const [qualificationStandard, setQualificationStandard] = useState<QualificationStandard | null>(null);
+
+  // --- Enforced engagement order (order-enforced presets); empty when any order goes ---
+  const [targetOrder, setTargetOrder] = useState<string[]>([]);
+
   // --- Setup step wizard ---
   const [setupStep, setSetupStep] = useState<GameSetupStep>('select-targets');
 
@@ -74,11 +101,19 @@ export function useSessionState(deps: UseSessionStateDeps) {
     setSetupStep('review');
   }, []);
 
-  /** Resets the setup step and goal shots. External callers should also reset
+  /** Resets the setup step, goal shots, game mode, par-time settings, drill stages, start delay, start schedule, qualification and target order. External callers should also reset
    *  `setStagedPresetId(null)` and `setStoppedTargets(new Set())` separately. */
   const resetSetupStep = useCallback(() => {
     setSetupStep('select-targets');
     setGoalShotsPerTarget({});
+    setGameModeId(DEFAULT_GAME_MODE_ID);
+    setParTimesPerTarget({});
+    setPenaltiesPerTarget({});
+    setDrillStages([]);
+    setStartDelay(null);
+    setStartSchedule(null);
+    setQualificationStandard(null);
+    setTargetOrder([]);
   }, []);
 
   const handleDesiredDurationChange = useCallback((value: number | null) => {
@@ -235,6 +270,22 @@ export function useSessionState(deps: UseSessionStateDeps) {
     isDurationUnlimited,
     goalShotsPerTarget,
     setGoalShotsPerTarget,
+    gameModeId,
+    setGameModeId,
+    parTimesPerTarget,
+    setParTimesPerTarget,
+    penaltiesPerTarget,
+    setPenaltiesPerTarget,
+    drillStages,
+    setDrillStages,
+    startDelay,
+    setStartDelay,
+    startSchedule,
+    setStartSchedule,
+    qualificationStandard,
+    setQualificationStandard,
+    targetOrder,
+    setTargetOrder,
 
     // Setup step
     setupStep,
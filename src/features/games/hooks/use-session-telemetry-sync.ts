@@ -9,12 +9,7 @@ import { logger } from '@/shared/lib/logger';
 /** Shape of the telemetry snapshot provided by useDirectTbTelemetry */
 interface TelemetrySnapshot {
   hitCounts: Record<string, number>;
-  hitHistory: Array<{
-    deviceId: string;
-    deviceName: string;
-    timestamp: number;
-    gameId: string;
-  }>;
+  hitHistory: Array<Pick<SessionHitRecord, 'deviceId' | 'deviceName' | 'timestamp' | 'gameId' | 'zone' | 'intensity'>>;
   hitTimesByDevice: Record<string, number[]>;
   sessionEventTimestamp: number | null;
 }
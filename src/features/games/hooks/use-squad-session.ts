@@ -0,0 +1,117 @@
+import { useCallback, useMemo, useState } from 'react';
+import { toast } from '@/components/ui/sonner';
+import type { LiveSessionSummary } from '@/features/games/ui/components/types';
+import {
+  buildSquadStandings,
+  getNextShooter,
+  isSquadComplete,
+  mirrorTargetAssignments,
+  validateSquad,
+  type Squad,
+  type SquadRun,
+  type SquadShooter,
+  type SquadStanding,
+} from '@/domain/games/squads';
+import type { GameModeId, SquadFormat } from '@/domain/games/validators';
+import type { SessionCallbacks } from './use-session-registry';
+import { logger } from '@/shared/lib/logger';
+
+export interface UseSquadSessionOptions {
+  recentSessionSummary: LiveSessionSummary | null;
+  selectedDeviceIds: string[];
+  gameModeId: GameModeId;
+  register: <K extends keyof SessionCallbacks>(key: K, fn: SessionCallbacks[K]) => void;
+}
+
+export interface UseSquadSessionReturn {
+  squad: Squad | null;
+  /** Shooter up next (relay), or the first shooter until a head-to-head has run */
+  nextShooter: SquadShooter | null;
+  isComplete: boolean;
+  standings: SquadStanding[];
+  startSquad: (format: SquadFormat, shooters: Array<Omit<SquadShooter, 'id'>>) => boolean;
+  endSquad: () => void;
+}
+
+// Runs read back from a finalized session that was shot for the squad.
+const runsFromSummary = (summary: LiveSessionSummary): SquadRun[] => {
+  const entry = summary.historyEntry;
+  if (entry.squadFormat === 'head-to-head') {
+    return (entry.squadLanes ?? []).map((lane) => ({
+      shooterId: lane.shooter.id,
+      gameId: summary.gameId,
+      score: lane.score,
+      isValid: lane.isValid,
+      totalHits: lane.totalHits,
+    }));
+  }
+  if (!entry.shooter) {
+    return [];
+  }
+  return [
+    {
+      shooterId: entry.shooter.id,
+      gameId: summary.gameId,
+      score: summary.score,
+      isValid: summary.isValid,
+      totalHits: summary.totalHits,
+    },
+  ];
+};
+
+// Relay / head-to-head squads: tracks the shooter queue, tags each session with
+// the shooter (via the registry, read by the stop flow) and collects the results table.
+export function useSquadSession(options: UseSquadSessionOptions): UseSquadSessionReturn {
+  const { recentSessionSummary, selectedDeviceIds, gameModeId, register } = options;
+
+  const [squad, setSquad] = useState<Squad | null>(null);
+
+  // Record the run when a session finalized for this squad lands as the recent summary.
+  const [lastSummary, setLastSummary] = useState(recentSessionSummary);
+  if (lastSummary !== recentSessionSummary) {
+    setLastSummary(recentSessionSummary);
+    const entry = recentSessionSummary?.historyEntry;
+    if (squad && entry?.squadId === squad.id && !squad.runs.some((run) => run.gameId === recentSessionSummary.gameId)) {
+      setSquad({ ...squad, runs: [...squad.runs, ...runsFromSummary(recentSessionSummary)] });
+    }
+  }
+
+  const nextShooter = squad ? getNextShooter(squad) : null;
+  const isComplete = squad ? isSquadComplete(squad) : false;
+  const standings = useMemo(() => (squad ? buildSquadStandings(squad, gameModeId) : []), [squad, gameModeId]);
+
+  const startSquad = useCallback(
+    (format: SquadFormat, shooters: Array<Omit<SquadShooter, 'id'>>) => {
+      const withIds = shooters.map((shooter) => ({ ...shooter, name: shooter.name.trim(), id: crypto.randomUUID() }));
+      const targetAssignments = format === 'head-to-head' ? mirrorTargetAssignments(selectedDeviceIds, withIds) : {};
+      const validation = validateSquad({ format, shooters: withIds, targetAssignments });
+      if (validation.valid === false) {
+        toast.error(validation.violation);
+        return false;
+      }
+      const next: Squad = { id: crypto.randomUUID(), format, shooters: withIds, targetAssignments, runs: [] };
+      logger.info('[Games] Squad started', { squadId: next.id, format, shooterCount: withIds.length });
+      setSquad(next);
+      return true;
+    },
+    [selectedDeviceIds],
+  );
+
+  const endSquad = useCallback(() => {
+    setSquad(null);
+  }, []);
+
+  register('getSquadContext', () =>
+    squad && nextShooter
+      ? {
+          squadId: squad.id,
+          format: squad.format,
+          shooter: squad.format === 'relay' ? nextShooter : null,
+          shooters: squad.shooters,
+          targetAssignments: squad.targetAssignments,
+        }
+      : null,
+  );
+
+  return { squad, nextShooter, isComplete, standings, startSquad, endSquad };
+}
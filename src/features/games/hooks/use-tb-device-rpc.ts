@@ -4,6 +4,9 @@ import type { NormalizedGameDevice } from '@/features/games/hooks/use-game-devic
 import { invokeGameControl } from '@/lib/edge';
 import { toast } from '@/components/ui/sonner';
 import type { SessionRegistry } from './use-session-registry';
+import type { GameModeId } from '@/domain/games/validators';
+import { pickStartDelayMs, type StartDelay } from '@/domain/games/start-signal';
+import { START_RECOVERY_CONSTRAINTS, startRetryDelayMs } from '@/domain/games/start-recovery';
 
 export interface UseTbDeviceRpcOptions {
   // From C.1
@@ -35,6 +38,8 @@ export interface UseTbDeviceRpcOptions {
   // Session config
   sessionDurationSeconds: number | null;
   sessionRoomId: string | null;
+  gameModeId: GameModeId;
+  startDelay: StartDelay | null;
 
   // Registry (for setHitCounts / setHitHistory)
   registry: SessionRegistry;
@@ -57,8 +62,14 @@ export interface UseTbDeviceRpcReturn {
     isRetry?: boolean;
     gameIdOverride?: string;
     targetsOverride?: NormalizedGameDevice[];
+    /** Scheduled start timestamp; devices hold until then */
+    startAt?: number | null;
   }) => Promise<{ successIds: string[]; errorIds: string[] }>;
   handleRetryFailedDevices: () => Promise<void>;
+  /** Stops any automatic retry of failed starts */
+  cancelStartRetries: () => void;
+  /** Scheduled start of the latest launch; null when it started on the command */
+  scheduledStartAt: number | null;
 }
 
 export function useTbDeviceRpc(options: UseTbDeviceRpcOptions): UseTbDeviceRpcReturn {
@@ -79,6 +90,8 @@ export function useTbDeviceRpc(options: UseTbDeviceRpcOptions): UseTbDeviceRpcRe
     setDirectTelemetryEnabled,
     sessionDurationSeconds,
     sessionRoomId,
+    gameModeId,
+    startDelay,
     registry,
   } = options;
 
@@ -88,6 +101,10 @@ export function useTbDeviceRpc(options: UseTbDeviceRpcOptions): UseTbDeviceRpcRe
   const [isRetryingFailedDevices, setIsRetryingFailedDevices] = useState(false);
 
   const directStartStatesRef = useRef<Record<string, 'idle' | 'pending' | 'success' | 'error'>>({});
+  // Bumped to abandon a running automatic retry loop (new loop, manual retry, stop or substitution).
+  const startRetryRunRef = useRef(0);
+  const [scheduledStartAt, setScheduledStartAt] = useState<number | null>(null);
+  const scheduledStartAtRef = useRef<number | null>(null);
 
   const updateDirectStartStates = useCallback((
     value:
@@ -103,19 +120,21 @@ export function useTbDeviceRpc(options: UseTbDeviceRpcOptions): UseTbDeviceRpcRe
     });
   }, []);
 
-  const executeDirectStart = useCallback(
+  const sendDirectStart = useCallback(
     async ({
       deviceIds,
       timestamp,
       isRetry = false,
       gameIdOverride,
       targetsOverride,
+      startAt = null,
     }: {
       deviceIds: string[];
       timestamp: number;
       isRetry?: boolean;
       gameIdOverride?: string;
       targetsOverride?: NormalizedGameDevice[];
+      startAt?: number | null;
     }) => {
       const activeGameId = gameIdOverride ?? directSessionGameId;
       const uniqueIds = Array.from(new Set(deviceIds));
@@ -161,6 +180,13 @@ export function useTbDeviceRpc(options: UseTbDeviceRpcOptions): UseTbDeviceRpcRe
         return next;
       });
 
+      // Retried devices join a session that is already running, so they start on the command.
+      const startDelayMs = startDelay && !isRetry ? pickStartDelayMs(startDelay) : 0;
+      // Before a scheduled start they hold for it like the rest of the session.
+      const pendingScheduledStart =
+        scheduledStartAtRef.current !== null && scheduledStartAtRef.current > Date.now() ? scheduledStartAtRef.current : null;
+      const requestedStartAt = isRetry ? pendingScheduledStart : startAt;
+
       let edgeResponse: Awaited<ReturnType<typeof invokeGameControl>> | null = null;
       try {
         edgeResponse = await invokeGameControl('start', {
@@ -168,6 +194,9 @@ export function useTbDeviceRpc(options: UseTbDeviceRpcOptions): UseTbDeviceRpcRe
           gameId: activeGameId,
           desiredDurationSeconds: sessionDurationSeconds,
           roomId: sessionRoomId,
+          gameMode: gameModeId,
+          startDelayMs,
+          startAt: requestedStartAt,
         });
       } catch (error) {
         console.error('[Games] Edge game-control start failed', error);
@@ -192,6 +221,12 @@ export function useTbDeviceRpc(options: UseTbDeviceRpcOptions): UseTbDeviceRpcRe
       const successIds = uniqueIds.filter((deviceId) => deviceResultMap.get(deviceId) === true);
       const errorIds = uniqueIds.filter((deviceId) => !deviceResultMap.get(deviceId));
 
+      // A failed retry leaves the running session as it was.
+      if (successIds.length === 0 && isRetry) {
+        setDirectControlError('Some devices still failed to start. Retry them or substitute another target.');
+        return { successIds: [], errorIds };
+      }
+
       if (successIds.length === 0) {
         setDirectFlowActive(false);
         setDirectTelemetryEnabled(false);
@@ -209,18 +244,41 @@ export function useTbDeviceRpc(options: UseTbDeviceRpcOptions): UseTbDeviceRpcRe
         return { successIds: [], errorIds };
       }
 
+      // A retry only brings stragglers into the session that is already running; its
+      // lifecycle and clock (including any pause) stay as they are.
+      if (isRetry) {
+        setDirectControlError(errorIds.length > 0 ? 'Some devices failed to start. Retry failed devices.' : null);
+        return { successIds, errorIds };
+      }
+
       const rpcCompleteTimestamp = Date.now();
+      const holdUntil = edgeResponse?.startAt ?? null;
+      scheduledStartAtRef.current = holdUntil;
+      setScheduledStartAt(holdUntil);
+      // After a scheduled start or a random delay the session clock starts at the beep,
+      // not when the command landed. beepAt is stamped on the server clock while hits are
+      // compared on ours, so only the server's beep delay is taken and re-anchored on the
+      // client-side start (the scheduled time we asked for, or when the command landed).
+      const beepDelayMs =
+        edgeResponse?.beepAt !== undefined && edgeResponse.startedAt !== undefined
+          ? edgeResponse.beepAt - (holdUntil ?? edgeResponse.startedAt)
+          : startDelayMs;
+      const sessionAnchor = (holdUntil ?? rpcCompleteTimestamp) + beepDelayMs;
       setDirectFlowActive(true);
       setDirectTelemetryEnabled(true);
       setSessionLifecycle('running');
-      startSessionTimer(rpcCompleteTimestamp);
-      setGameStartTime((prev) => prev ?? rpcCompleteTimestamp);
+      startSessionTimer(sessionAnchor);
+      setGameStartTime((prev) => prev ?? sessionAnchor);
       markTelemetryConfirmed(rpcCompleteTimestamp);
       setDirectControlError(errorIds.length > 0 ? 'Some devices failed to start. Retry failed devices.' : null);
 
       if (errorIds.length > 0) {
-        toast.warning(`${errorIds.length} device${errorIds.length === 1 ? '' : 's'} failed to start. Use retry to try again.`);
-      } else if (!isRetry) {
+        toast.warning(`${errorIds.length} device${errorIds.length === 1 ? '' : 's'} failed to start. Retrying automatically.`);
+      } else if (holdUntil !== null) {
+        toast.success(
+          `Session scheduled for ${new Date(holdUntil).toLocaleTimeString()} on ${successIds.length} device${successIds.length === 1 ? '' : 's'}.`,
+        );
+      } else {
         toast.success(`Start commands dispatched to ${successIds.length} device${successIds.length === 1 ? '' : 's'}.`);
       }
 
@@ -239,9 +297,84 @@ export function useTbDeviceRpc(options: UseTbDeviceRpcOptions): UseTbDeviceRpcRe
       startSessionTimer,
       sessionDurationSeconds,
       sessionRoomId,
+      gameModeId,
+      startDelay,
     ],
   );
 
+  const cancelStartRetries = useCallback(() => {
+    startRetryRunRef.current += 1;
+    setIsRetryingFailedDevices(false);
+  }, []);
+
+  // Resends start to failed devices with exponential backoff until they all start or the attempts run out.
+  const runStartRetries = useCallback(
+    async (failedIds: string[], gameId: string) => {
+      startRetryRunRef.current += 1;
+      const runId = startRetryRunRef.current;
+      // Targets substituted out of the session drop out of the start states and are not retried.
+      const stillFailed = (ids: string[]) =>
+        ids.filter((deviceId) => deviceId in directStartStatesRef.current && directStartStatesRef.current[deviceId] !== 'success');
+      let remaining = failedIds;
+
+      setIsRetryingFailedDevices(true);
+      for (let attempt = 1; attempt <= START_RECOVERY_CONSTRAINTS.MAX_AUTO_RETRIES && remaining.length > 0; attempt += 1) {
+        await new Promise((resolve) => window.setTimeout(resolve, startRetryDelayMs(attempt)));
+        if (startRetryRunRef.current !== runId) {
+          return;
+        }
+        remaining = stillFailed(remaining);
+        if (remaining.length === 0) {
+          break;
+        }
+        try {
+          const { errorIds } = await sendDirectStart({
+            deviceIds: remaining,
+            timestamp: Date.now(),
+            isRetry: true,
+            gameIdOverride: gameId,
+          });
+          remaining = errorIds;
+        } catch (error) {
+          console.warn('[Games] Automatic start retry failed', { attempt, error });
+        }
+        if (startRetryRunRef.current !== runId) {
+          return;
+        }
+      }
+      setIsRetryingFailedDevices(false);
+
+      remaining = stillFailed(remaining);
+      if (remaining.length === 0) {
+        toast.success('All targets started after retrying.');
+      } else {
+        toast.warning(
+          `${remaining.length} device${remaining.length === 1 ? '' : 's'} still failed to start. Retry or substitute ${remaining.length === 1 ? 'it' : 'them'}.`,
+        );
+      }
+    },
+    [sendDirectStart],
+  );
+
+  const executeDirectStart = useCallback(
+    async (args: {
+      deviceIds: string[];
+      timestamp: number;
+      isRetry?: boolean;
+      gameIdOverride?: string;
+      targetsOverride?: NormalizedGameDevice[];
+      startAt?: number | null;
+    }) => {
+      const result = await sendDirectStart(args);
+      const activeGameId = args.gameIdOverride ?? directSessionGameId;
+      if (!args.isRetry && activeGameId && result.successIds.length > 0 && result.errorIds.length > 0) {
+        void runStartRetries(result.errorIds, activeGameId);
+      }
+      return result;
+    },
+    [directSessionGameId, runStartRetries, sendDirectStart],
+  );
+
   const handleRetryFailedDevices = useCallback(async () => {
     const failedIds = Object.entries(directStartStatesRef.current)
       .filter(([, state]) => state === 'error')
@@ -257,6 +390,7 @@ export function useTbDeviceRpc(options: UseTbDeviceRpcOptions): UseTbDeviceRpcRe
       return;
     }
 
+    startRetryRunRef.current += 1;
     setIsRetryingFailedDevices(true);
     try {
       setDirectControlError(null);
@@ -276,5 +410,7 @@ export function useTbDeviceRpc(options: UseTbDeviceRpcOptions): UseTbDeviceRpcRe
     updateDirectStartStates,
     executeDirectStart,
     handleRetryFailedDevices,
+    cancelStartRetries,
+    scheduledStartAt,
   };
 }
@@ -7,6 +7,19 @@ import { invokeGameControl } from '@/lib/edge';
 import { toast } from '@/components/ui/sonner';
 import type { SessionRegistry, SessionCallbacks } from './use-session-registry';
 import { logger } from '@/shared/lib/logger';
+import { resolveGameModeId, type GameModePenaltyValues } from '@/domain/games/modes';
+import type { GameModeId } from '@/domain/games/validators';
+import type { DrillStage } from '@/domain/games/drills';
+import {
+  resolveScheduledStartAt,
+  validateScheduledStart,
+  type StartDelay,
+  type StartSchedule,
+} from '@/domain/games/start-signal';
+import type { QualificationStandard } from '@/domain/games/qualifications';
+import { canUseTargetsForGame, type TargetReadiness } from '@/domain/games/rules';
+import { checkOrderedTargetsPresent, renameTargetKey, substituteSessionTarget } from '@/domain/games/start-recovery';
+import { endPause } from '@/domain/games/pauses';
 
 
 export interface UseTbSessionFlowOptions {
@@ -21,6 +34,7 @@ export interface UseTbSessionFlowOptions {
     isRetry?: boolean;
     gameIdOverride?: string;
     targetsOverride?: NormalizedGameDevice[];
+    startAt?: number | null;
   }) => Promise<{ successIds: string[]; errorIds: string[] }>;
   updateDirectStartStates: (
     value:
@@ -29,6 +43,7 @@ export interface UseTbSessionFlowOptions {
         prev: Record<string, 'idle' | 'pending' | 'success' | 'error'>,
       ) => Record<string, 'idle' | 'pending' | 'success' | 'error'>)
   ) => void;
+  cancelStartRetries: () => void;
 
   // Lifecycle (from useSessionLifecycle)
   isLaunchingLifecycle: boolean;
@@ -81,6 +96,31 @@ export interface UseTbSessionFlowOptions {
   setActivePresetId: React.Dispatch<React.SetStateAction<string | null>>;
   setStagedPresetId: React.Dispatch<React.SetStateAction<string | null>>;
   setGoalShotsPerTarget: React.Dispatch<React.SetStateAction<Record<string, number>>>;
+  gameModeId: GameModeId;
+  setGameModeId: React.Dispatch<React.SetStateAction<GameModeId>>;
+  parTimesPerTarget: Record<string, number>;
+  /** Callouts a 'random-callout' session requires, from the active preset; null uses the mode default */
+  calloutCount: number | null;
+  setParTimesPerTarget: React.Dispatch<React.SetStateAction<Record<string, number>>>;
+  penaltiesPerTarget: Record<string, Partial<GameModePenaltyValues>>;
+  setPenaltiesPerTarget: React.Dispatch<React.SetStateAction<Record<string, Partial<GameModePenaltyValues>>>>;
+  drillStages: DrillStage[];
+  setDrillStages: React.Dispatch<React.SetStateAction<DrillStage[]>>;
+  startDelay: StartDelay | null;
+  setStartDelay: React.Dispatch<React.SetStateAction<StartDelay | null>>;
+  /** Scheduled start of the staged session; null starts on the command */
+  startSchedule: StartSchedule | null;
+  /** Scheduled start of the launched session, from the start response */
+  scheduledStartAt: number | null;
+  qualificationStandard: QualificationStandard | null;
+  setQualificationStandard: React.Dispatch<React.SetStateAction<QualificationStandard | null>>;
+  /** Enforced engagement order; empty when any order goes */
+  targetOrder: string[];
+  setTargetOrder: React.Dispatch<React.SetStateAction<string[]>>;
+  /** Active preset's personal best under the selected mode, for flagging a new best on stop */
+  personalBestScore: number | null;
+  /** Pre-flight readiness of staged targets; targets that were not checked are not gated */
+  preflightReadiness: Record<string, TargetReadiness>;
 
   // Refs
   availableDevicesRef: React.MutableRefObject<NormalizedGameDevice[]>;
@@ -134,6 +174,12 @@ export interface UseTbSessionFlowReturn {
   handleOpenStartDialog: () => Promise<void>;
   handleConfirmStartDialog: () => void;
   handleStopFromDialog: () => void;
+  /** Removes targets from the staged session, keeping at least one */
+  handleDropStagedTargets: (deviceIds: string[]) => void;
+  /** Swaps a failed or missing target for another one, which takes over its goal and order slot */
+  handleSubstituteTarget: (failedId: string, substituteId: string) => void;
+  /** Calls off a scheduled start that has not fired yet and returns to the staged session */
+  handleCancelScheduledStart: () => Promise<void>;
 }
 
 export function useTbSessionFlow(options: UseTbSessionFlowOptions): UseTbSessionFlowReturn {
@@ -142,6 +188,7 @@ export function useTbSessionFlow(options: UseTbSessionFlowOptions): UseTbSession
     setDirectControlError,
     executeDirectStart,
     updateDirectStartStates,
+    cancelStartRetries,
     isLaunchingLifecycle,
     isRunningLifecycle,
     isStoppingLifecycle,
@@ -182,6 +229,25 @@ export function useTbSessionFlow(options: UseTbSessionFlowOptions): UseTbSession
     setActivePresetId,
     setStagedPresetId,
     setGoalShotsPerTarget,
+    gameModeId,
+    setGameModeId,
+    parTimesPerTarget,
+    calloutCount,
+    setParTimesPerTarget,
+    penaltiesPerTarget,
+    setPenaltiesPerTarget,
+    drillStages,
+    setDrillStages,
+    startDelay,
+    setStartDelay,
+    startSchedule,
+    scheduledStartAt,
+    qualificationStandard,
+    setQualificationStandard,
+    targetOrder,
+    setTargetOrder,
+    personalBestScore,
+    preflightReadiness,
     availableDevicesRef,
     currentGameDevicesRef,
     availableDeviceMap,
@@ -399,6 +465,41 @@ export function useTbSessionFlow(options: UseTbSessionFlowOptions): UseTbSession
         setDirectSessionTargets((prev) => prev.filter((target) => launchIdSet.has(target.deviceId)));
       }
 
+      const orderCheck = checkOrderedTargetsPresent(
+        targetOrder,
+        launchTargets.map((device) => device.deviceId),
+      );
+      if (orderCheck.valid === false) {
+        const message = 'This session enforces target order and one of its targets is missing. Substitute it before starting.';
+        setDirectControlError(message);
+        toast.error(message);
+        return;
+      }
+
+      const checkedTargets = launchTargets
+        .map((device) => preflightReadiness[device.deviceId])
+        .filter((readiness): readiness is TargetReadiness => Boolean(readiness));
+      if (checkedTargets.length > 0) {
+        const readiness = canUseTargetsForGame(checkedTargets);
+        if (readiness.valid === false) {
+          const message = `Pre-flight check failed: ${readiness.violation}. Drop failing targets or re-run the check.`;
+          setDirectControlError(message);
+          toast.error(message);
+          return;
+        }
+      }
+
+      let startAt: number | null = null;
+      if (startSchedule) {
+        startAt = resolveScheduledStartAt(startSchedule, timestamp);
+        const scheduleCheck = validateScheduledStart(startAt, timestamp);
+        if (scheduleCheck.valid === false) {
+          setDirectControlError(scheduleCheck.violation);
+          toast.error(scheduleCheck.violation);
+          return;
+        }
+      }
+
       const launchDeviceIds = launchTargets.map((device) => device.deviceId);
 
       setPendingSessionTargets(launchTargets);
@@ -435,6 +536,7 @@ export function useTbSessionFlow(options: UseTbSessionFlowOptions): UseTbSession
         timestamp,
         gameIdOverride: activeGameId,
         targetsOverride: launchTargets,
+        startAt,
       });
     },
     [
@@ -444,9 +546,11 @@ export function useTbSessionFlow(options: UseTbSessionFlowOptions): UseTbSession
       executeDirectStart,
       markSessionTriggered,
       pendingSessionTargets,
+      preflightReadiness,
       setActiveDeviceIds,
       setActivePresetId,
       setCurrentSessionTargets,
+      setDirectControlError,
       setErrorMessage,
       setGameStartTime,
       setGameStopTime,
@@ -457,6 +561,8 @@ export function useTbSessionFlow(options: UseTbSessionFlowOptions): UseTbSession
       sessionDurationSeconds,
       sessionRoomId,
       stagedPresetId,
+      startSchedule,
+      targetOrder,
       updateDirectStartStates,
     ],
   );
@@ -467,6 +573,7 @@ export function useTbSessionFlow(options: UseTbSessionFlowOptions): UseTbSession
     if (!directSessionGameId) {
       return;
     }
+    cancelStartRetries();
 
     const activeDeviceIdsSnapshot = [...activeDeviceIds];
     if (activeDeviceIdsSnapshot.length === 0) {
@@ -505,6 +612,11 @@ export function useTbSessionFlow(options: UseTbSessionFlowOptions): UseTbSession
     const splitRecordsSnapshot = [...(registry.current.getSplitRecords?.() ?? [])];
     const transitionRecordsSnapshot = [...(registry.current.getTransitionRecords?.() ?? [])];
     const roundSplitsSnapshot = [...(registry.current.getRoundSplits?.() ?? [])];
+    const calloutsSnapshot = [...(registry.current.getCallouts?.() ?? [])];
+    const squadSnapshot = registry.current.getSquadContext?.() ?? null;
+    const shotsFiredSnapshot = registry.current.getShotsFired?.() ?? null;
+    // Stopping during a cease fire closes the pause at the stop.
+    const pauseIntervalsSnapshot = endPause(registry.current.getPauseIntervals?.() ?? [], stopTimestamp);
 
     setDirectTelemetryEnabled(false);
 
@@ -522,6 +634,7 @@ export function useTbSessionFlow(options: UseTbSessionFlowOptions): UseTbSession
       stopResponse = await invokeGameControl('stop', {
         deviceIds: stopDeviceIds,
         gameId: directSessionGameId,
+        gameMode: gameModeId,
       });
       logger.info('[Games] Edge game-control stop response', stopResponse);
     } catch (error) {
@@ -617,6 +730,19 @@ export function useTbSessionFlow(options: UseTbSessionFlowOptions): UseTbSession
         desiredDurationSeconds: sessionDurationSeconds,
         presetId: activePresetId,
         goalShotsPerTarget: filteredGoalShotsPerTarget,
+        targetOrder: targetOrder.length > 0 ? targetOrder : undefined,
+        gameMode: gameModeId,
+        callouts: calloutsSnapshot,
+        calloutCount,
+        parTimesPerTarget,
+        penaltiesPerTarget,
+        drillStages,
+        startDelay,
+        qualificationStandard,
+        shotsFired: shotsFiredSnapshot,
+        personalBestScore,
+        squad: squadSnapshot,
+        pauseIntervals: pauseIntervalsSnapshot.length > 0 ? pauseIntervalsSnapshot : undefined,
       }) as { persistenceError?: unknown } | undefined;
 
       if (finalizeResult?.persistenceError) {
@@ -662,6 +788,7 @@ export function useTbSessionFlow(options: UseTbSessionFlowOptions): UseTbSession
     resetSetupFlow();
     void loadLiveDevices({ silent: true, showToast: true, reason: 'postStop' });
   }, [
+    cancelStartRetries,
     directSessionGameId,
     directSessionTargets,
     activeDeviceIds,
@@ -673,6 +800,15 @@ export function useTbSessionFlow(options: UseTbSessionFlowOptions): UseTbSession
     sessionRoomName,
     sessionDurationSeconds,
     goalShotsPerTarget,
+    gameModeId,
+    parTimesPerTarget,
+    calloutCount,
+    penaltiesPerTarget,
+    drillStages,
+    startDelay,
+    qualificationStandard,
+    personalBestScore,
+    targetOrder,
     resetSessionActivation,
     resetSessionTimer,
     setActiveDeviceIds,
@@ -762,6 +898,12 @@ export function useTbSessionFlow(options: UseTbSessionFlowOptions): UseTbSession
     } else {
       setGoalShotsPerTarget({});
     }
+    setGameModeId(resolveGameModeId(recentSessionSummary.gameMode));
+    setParTimesPerTarget(recentSessionSummary.historyEntry?.parTimesPerTarget ?? {});
+    setPenaltiesPerTarget(recentSessionSummary.historyEntry?.penaltiesPerTarget ?? {});
+    setDrillStages(recentSessionSummary.historyEntry?.drillStages ?? []);
+    setStartDelay(recentSessionSummary.historyEntry?.startDelay ?? null);
+    setQualificationStandard(recentSessionSummary.historyEntry?.qualification?.standard ?? null);
 
     setStagedPresetId(recentSessionSummary.presetId ?? null);
     advanceToReviewStep();
@@ -775,6 +917,12 @@ export function useTbSessionFlow(options: UseTbSessionFlowOptions): UseTbSession
     setSessionRoomId,
     setStagedPresetId,
     setActivePresetId,
+    setGameModeId,
+    setParTimesPerTarget,
+    setPenaltiesPerTarget,
+    setDrillStages,
+    setStartDelay,
+    setQualificationStandard,
   ]);
 
   const handleCreateNewSetup = useCallback(() => {
@@ -839,6 +987,178 @@ export function useTbSessionFlow(options: UseTbSessionFlowOptions): UseTbSession
     void handleStopGame();
   }, [handleStopGame]);
 
+  const handleDropStagedTargets = useCallback(
+    (deviceIds: string[]) => {
+      if (sessionLifecycle !== 'selecting' || deviceIds.length === 0) {
+        return;
+      }
+      const dropIds = new Set(deviceIds);
+      const remainingTargets = pendingSessionTargets.filter((device) => !dropIds.has(device.deviceId));
+      if (remainingTargets.length === 0) {
+        toast.error('Every staged target failed pre-flight. Fix the targets or choose others.');
+        return;
+      }
+
+      const droppedCount = pendingSessionTargets.length - remainingTargets.length;
+      selectionManuallyModifiedRef.current = true;
+      setPendingSessionTargets(remainingTargets);
+      setSelectedDeviceIds(remainingTargets.map((device) => device.deviceId));
+      setDirectSessionTargets((prev) => prev.filter((target) => !dropIds.has(target.deviceId)));
+      updateDirectStartStates((prev) =>
+        Object.fromEntries(Object.entries(prev).filter(([deviceId]) => !dropIds.has(deviceId))),
+      );
+      toast.info(`Dropped ${droppedCount} target${droppedCount === 1 ? '' : 's'} from this session.`);
+    },
+    [
+      pendingSessionTargets,
+      selectionManuallyModifiedRef,
+      sessionLifecycle,
+      setDirectSessionTargets,
+      setPendingSessionTargets,
+      setSelectedDeviceIds,
+      updateDirectStartStates,
+    ],
+  );
+
+  const handleSubstituteTarget = useCallback(
+    (failedId: string, substituteId: string) => {
+      const substitute = availableDeviceMap.get(substituteId);
+      if (!substitute || !deriveIsOnline(substitute)) {
+        toast.error('The substitute target is no longer available. Refresh devices and pick another.');
+        return;
+      }
+
+      const isRunningSession = sessionLifecycle === 'running';
+      const sessionTargets = isRunningSession ? currentSessionTargets : pendingSessionTargets;
+      const next = substituteSessionTarget(
+        {
+          targetIds: sessionTargets.map((device) => device.deviceId),
+          goalShotsPerTarget,
+          targetOrder,
+        },
+        failedId,
+        substituteId,
+      );
+      const nextTargets = next.targetIds
+        .map((deviceId) =>
+          deviceId === substituteId
+            ? substitute
+            : sessionTargets.find((device) => device.deviceId === deviceId) ?? null,
+        )
+        .filter((device): device is NormalizedGameDevice => device !== null);
+
+      setGoalShotsPerTarget(next.goalShotsPerTarget);
+      setTargetOrder(next.targetOrder);
+      setParTimesPerTarget((prev) => renameTargetKey(prev, failedId, substituteId));
+      setPenaltiesPerTarget((prev) => renameTargetKey(prev, failedId, substituteId));
+      selectionManuallyModifiedRef.current = true;
+      setSelectedDeviceIds(next.targetIds);
+      setPendingSessionTargets(nextTargets);
+      setDirectSessionTargets((prev) => [
+        ...prev.filter((target) => target.deviceId !== failedId && target.deviceId !== substituteId),
+        { deviceId: substituteId, name: substitute.name ?? substituteId },
+      ]);
+      updateDirectStartStates((prev) => {
+        const { [failedId]: _removed, ...rest } = prev;
+        return { ...rest, [substituteId]: 'idle' };
+      });
+
+      if (!isRunningSession || !directSessionGameId) {
+        toast.info(`${substitute.name ?? substituteId} takes the missing target's place.`);
+        return;
+      }
+
+      // The substitute joins the running session and starts on the command.
+      currentGameDevicesRef.current = next.targetIds;
+      setCurrentSessionTargets(nextTargets);
+      setActiveDeviceIds(next.targetIds);
+      registry.current.setHitCounts?.((prev) => ({ ...prev, [substituteId]: 0 }));
+      void executeDirectStart({
+        deviceIds: [substituteId],
+        timestamp: Date.now(),
+        isRetry: true,
+        gameIdOverride: directSessionGameId,
+        targetsOverride: [substitute],
+      });
+    },
+    [
+      availableDeviceMap,
+      currentGameDevicesRef,
+      currentSessionTargets,
+      directSessionGameId,
+      executeDirectStart,
+      goalShotsPerTarget,
+      pendingSessionTargets,
+      registry,
+      selectionManuallyModifiedRef,
+      sessionLifecycle,
+      setActiveDeviceIds,
+      setCurrentSessionTargets,
+      setDirectSessionTargets,
+      setGoalShotsPerTarget,
+      setParTimesPerTarget,
+      setPenaltiesPerTarget,
+      setPendingSessionTargets,
+      setSelectedDeviceIds,
+      setTargetOrder,
+      targetOrder,
+      updateDirectStartStates,
+    ],
+  );
+
+  const handleCancelScheduledStart = useCallback(async () => {
+    if (!directSessionGameId || !isRunningLifecycle || scheduledStartAt === null || scheduledStartAt <= Date.now()) {
+      return;
+    }
+    cancelStartRetries();
+    const deviceIds = directSessionTargets.map(({ deviceId }) => deviceId);
+    logger.info('[Games] Cancelling scheduled start', { gameId: directSessionGameId, scheduledStartAt, deviceIds });
+
+    // Nothing was shot yet, so the session goes back to the dialog unsaved.
+    setDirectTelemetryEnabled(false);
+    setDirectFlowActive(false);
+    setSessionLifecycle('selecting');
+    setGameStartTime(null);
+    setGameStopTime(null);
+    resetSessionTimer(null);
+    resetSessionActivation();
+    registry.current.setHitCounts?.({});
+    registry.current.setHitHistory?.([]);
+    updateDirectStartStates({});
+
+    try {
+      const response = await invokeGameControl('stop', {
+        deviceIds,
+        gameId: directSessionGameId,
+        gameMode: gameModeId,
+      });
+      if ((response.failureCount ?? 0) > 0) {
+        toast.error(`${response.failureCount} target(s) may still start at the scheduled time. Check them before leaving.`);
+      } else {
+        toast.info('Scheduled start cancelled.');
+      }
+    } catch (error) {
+      console.error('[Games] Edge game-control cancel failed', error);
+      toast.error('Targets did not confirm the cancel. They may still start at the scheduled time.');
+    }
+  }, [
+    cancelStartRetries,
+    directSessionGameId,
+    directSessionTargets,
+    gameModeId,
+    isRunningLifecycle,
+    registry,
+    resetSessionActivation,
+    resetSessionTimer,
+    scheduledStartAt,
+    setDirectFlowActive,
+    setDirectTelemetryEnabled,
+    setGameStartTime,
+    setGameStopTime,
+    setSessionLifecycle,
+    updateDirectStartStates,
+  ]);
+
   // ── Register callbacks in the session registry ─────────────────────────
   register('openStartDialogForTargets', openStartDialogForTargets);
   register('beginSessionLaunch', beginSessionLaunch);
@@ -861,5 +1181,8 @@ export function useTbSessionFlow(options: UseTbSessionFlowOptions): UseTbSession
     handleOpenStartDialog,
     handleConfirmStartDialog,
     handleStopFromDialog,
+    handleDropStagedTargets,
+    handleSubstituteTarget,
+    handleCancelScheduledStart,
   };
 }
@@ -0,0 +1,87 @@
+import { sendTwoWayRpc } from '@/features/games/lib/thingsboard-client';
+import {
+  CLOCK_SYNC_CONSTRAINTS,
+  estimateClockOffset,
+  isCalibrationFresh,
+  type ClockCalibration,
+  type ClockSample,
+} from '@/domain/games/clock-sync';
+
+const CLOCK_CALIBRATION_STORAGE_KEY = 'glow-dashboard:clock-calibrations';
+const CLOCK_RPC_METHOD = 'time';
+
+/**
+ * Reads the device clock out of a `time` RPC reply. Firmware answers with the
+ * bare epoch millis or an object carrying it.
+ */
+const parseDeviceTime = (response: unknown): number => {
+  if (typeof response === 'number' || typeof response === 'string') {
+    return Number(response);
+  }
+  if (response && typeof response === 'object') {
+    const payload = response as Record<string, unknown>;
+    return Number(payload.ts ?? payload.time ?? payload.deviceTime);
+  }
+  return Number.NaN;
+};
+
+/**
+ * Pings one target over two-way RPC and estimates its clock offset.
+ * Returns null when the target never answers usefully.
+ */
+export const calibrateDeviceClock = async (
+  deviceId: string,
+  sampleCount: number = CLOCK_SYNC_CONSTRAINTS.SAMPLE_COUNT,
+): Promise<ClockCalibration | null> => {
+  const samples: ClockSample[] = [];
+  for (let attempt = 0; attempt < sampleCount; attempt += 1) {
+    const sentAt = Date.now();
+    try {
+      const response = await sendTwoWayRpc<unknown>(
+        deviceId,
+        CLOCK_RPC_METHOD,
+        { ts: sentAt },
+        CLOCK_SYNC_CONSTRAINTS.MAX_ROUND_TRIP_MS,
+      );
+      samples.push({ sentAt, deviceTime: parseDeviceTime(response), receivedAt: Date.now() });
+    } catch (error) {
+      console.warn('[Games] Clock ping failed', { deviceId, attempt, error });
+    }
+  }
+  return estimateClockOffset(samples, Date.now());
+};
+
+/**
+ * Stored calibrations that are still fresh, keyed by device id.
+ */
+export const readClockCalibrations = (now: number = Date.now()): Record<string, ClockCalibration> => {
+  if (typeof window === 'undefined') {
+    return {};
+  }
+  try {
+    const storedValue = window.localStorage.getItem(CLOCK_CALIBRATION_STORAGE_KEY);
+    if (!storedValue) {
+      return {};
+    }
+    const stored = JSON.parse(storedValue) as Record<string, ClockCalibration>;
+    return Object.fromEntries(
+      Object.entries(stored ?? {}).filter(
+        ([, calibration]) => Number.isFinite(calibration?.offsetMs) && isCalibrationFresh(calibration, now),
+      ),
+    );
+  } catch (storageError) {
+    console.warn('[Games] Failed to restore clock calibrations', storageError);
+    return {};
+  }
+};
+
+export const writeClockCalibrations = (calibrations: Record<string, ClockCalibration>): void => {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  try {
+    window.localStorage.setItem(CLOCK_CALIBRATION_STORAGE_KEY, JSON.stringify(calibrations));
+  } catch (storageError) {
+    console.warn('[Games] Failed to persist clock calibrations', storageError);
+  }
+};
@@ -1,6 +1,15 @@
 import { fetchGameControlDevices, fetchGameControlInfo, invokeGameControl, type GameControlDevice } from '@/lib/edge';
 import { subscribeToGameTelemetry, type TelemetryEnvelope } from '@/features/games/lib/game-telemetry';
 import { logger } from '@/shared/lib/logger';
+import type { GameModeId, SquadFormat } from '@/domain/games/validators';
+import type { GameModeCalloutResult, GameModePenaltyValues } from '@/domain/games/modes';
+import type { SessionPenaltyEntry, ShotCountSource } from '@/domain/games/rules';
+import type { SquadLaneResult, SquadShooter } from '@/domain/games/squads';
+import type { DrillStage, DrillStageResult } from '@/domain/games/drills';
+import type { StartDelay } from '@/domain/games/start-signal';
+import type { QualificationResult } from '@/domain/games/qualifications';
+import type { HitZone } from '@/domain/games/hit-zones';
+import type { PauseInterval } from '@/domain/games/pauses';
 
 // Device Game Flow Types based on DeviceManagement.md
 export interface DeviceGameEvent {
@@ -58,6 +67,30 @@ export interface SessionHitRecord {
   deviceName: string;
   timestamp: number;
   gameId: string;
+  /** Time (ms) from the callout this hit answered (callout drills only) */
+  reactionTimeMs?: number | null;
+  /** 'wrong_target' for callout-drill hits on a target that was not called */
+  hitType?: 'hit' | 'wrong_target';
+  /** 'reconciled' for hits the live stream missed, recovered from ThingsBoard history when the session was saved */
+  source?: 'reconciled';
+  /** Scoring zone reported by zoned targets */
+  zone?: HitZone | null;
+  /** Impact intensity reported by zoned targets, in the target's own units */
+  intensity?: number | null;
+}
+
+/** Outcome of checking a saved session's hits against the hits ThingsBoard recorded */
+export interface HitReconciliation {
+  /** False when the history of some targets could not be read */
+  reconciled: boolean;
+  reconciledAt: number;
+  clientHits: number;
+  serverHits: number;
+  /** Hits the live stream missed that were added to the session */
+  recoveredHits: number;
+  /** Live hits ThingsBoard has no record of */
+  unmatchedClientHits: number;
+  failedDeviceIds: string[];
 }
 
 export interface GameHistory {
@@ -67,13 +100,62 @@ export interface GameHistory {
   startTime: number;
   endTime: number;
   score?: number | null;
+  /** Whether every required hit landed. Missing on sessions recorded before it was stored. */
+  isValid?: boolean | null;
+  /** The run beat the preset's previous personal best (or set the first one) */
+  isPersonalBest?: boolean;
+  /** Personal best score the run was compared against, null when it set the first one */
+  previousBestScore?: number | null;
+  /** Hits over shots fired, in percent */
   accuracy?: number | null;
+  /** Shots fired; equals totalHits when nothing counted shots */
+  totalShots?: number | null;
+  missCount?: number | null;
+  /** Where the shot count came from; missing on sessions recorded before shots were counted */
+  shotCountSource?: ShotCountSource | null;
   scenarioName?: string | null;
   scenarioType?: string | null;
   roomName?: string | null;
   roomId?: string | null;
   desiredDurationSeconds?: number | null;
   presetId?: string | null;
+  /** Scoring mode the session ran under. Missing on sessions recorded before modes existed. */
+  gameMode?: GameModeId | null;
+  /** Per-callout outcomes for callout drills */
+  calloutResults?: GameModeCalloutResult[];
+  /** Callouts the drill required; null when it ran with the mode default */
+  calloutCount?: number | null;
+  /** Par-time configuration the session was scored against */
+  parTimesPerTarget?: Record<string, number>;
+  penaltiesPerTarget?: Record<string, Partial<GameModePenaltyValues>>;
+  /** Time before penalties (seconds); `score` is rawScore + penaltySeconds */
+  rawScore?: number | null;
+  penaltySeconds?: number | null;
+  /** Itemised penalty ledger included in `score` */
+  penalties?: SessionPenaltyEntry[];
+  /** Squad the run was shot for, if any */
+  squadId?: string | null;
+  squadFormat?: SquadFormat | null;
+  /** Shooter the run belongs to (relay runs) */
+  shooter?: SquadShooter | null;
+  /** Per-shooter results for head-to-head runs */
+  squadLanes?: SquadLaneResult[];
+  /** Drill stages the session ran through, if it was a staged drill */
+  drillStages?: DrillStage[];
+  /** Per-stage outcome and time, in stage order */
+  stageResults?: DrillStageResult[];
+  /** Random start delay range the session was started with, if any */
+  startDelay?: StartDelay | null;
+  /** Seconds from the start beep to the first hit */
+  drawTimeSeconds?: number | null;
+  /** Pass/fail against the session's qualification course, with the reasons for a fail */
+  qualification?: QualificationResult | null;
+  /** Set once the saved hits were checked against ThingsBoard history */
+  reconciliation?: HitReconciliation | null;
+  /** Target clock minus local clock (ms) per calibrated target; hit times were moved onto the local clock by these */
+  clockOffsetsMs?: Record<string, number>;
+  /** Cease-fire pauses; hits inside them do not count */
+  pauseIntervals?: PauseInterval[];
   targetDeviceIds?: string[];
   targetDeviceNames?: string[];
   deviceResults: Array<{
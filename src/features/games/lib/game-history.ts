@@ -1,10 +1,20 @@
 import { supabase } from '@/data/supabase-client';
 import type {
   GameHistory,
+  HitReconciliation,
   SessionHitRecord,
   SessionSplit,
   SessionTransition,
 } from '@/features/games/lib/device-game-flow';
+import type { GameModeId } from '@/domain/games/validators';
+import type { GameModeCalloutResult, GameModePenaltyValues } from '@/domain/games/modes';
+import type { SessionPenaltyEntry, ShotCountSource } from '@/domain/games/rules';
+import type { SquadLaneResult, SquadShooter } from '@/domain/games/squads';
+import type { DrillStage, DrillStageResult } from '@/domain/games/drills';
+import type { StartDelay } from '@/domain/games/start-signal';
+import type { QualificationResult } from '@/domain/games/qualifications';
+import type { PauseInterval } from '@/domain/games/pauses';
+import { readClockCalibrations } from '@/features/games/lib/clock-calibration';
 
 export interface GameHistorySummaryPayload {
   gameId: string;
@@ -16,13 +26,39 @@ export interface GameHistorySummaryPayload {
   actualDuration: number;
   averageHitInterval?: number | null;
   score?: number | null;
+  isValid?: boolean | null;
+  isPersonalBest?: boolean;
+  previousBestScore?: number | null;
   accuracy?: number | null;
+  totalShots?: number | null;
+  missCount?: number | null;
+  shotCountSource?: ShotCountSource | null;
   scenarioName?: string | null;
   scenarioType?: string | null;
   roomName?: string | null;
   roomId?: string | null;
   desiredDurationSeconds?: number | null;
   presetId?: string | null;
+  gameMode?: GameModeId | null;
+  calloutResults?: GameModeCalloutResult[];
+  calloutCount?: number | null;
+  parTimesPerTarget?: Record<string, number>;
+  penaltiesPerTarget?: Record<string, Partial<GameModePenaltyValues>>;
+  rawScore?: number | null;
+  penaltySeconds?: number | null;
+  penalties?: SessionPenaltyEntry[];
+  squadId?: string | null;
+  squadFormat?: GameHistory['squadFormat'];
+  shooter?: SquadShooter | null;
+  squadLanes?: SquadLaneResult[];
+  drillStages?: DrillStage[];
+  stageResults?: DrillStageResult[];
+  startDelay?: StartDelay | null;
+  drawTimeSeconds?: number | null;
+  qualification?: QualificationResult | null;
+  reconciliation?: HitReconciliation | null;
+  clockOffsetsMs?: Record<string, number>;
+  pauseIntervals?: PauseInterval[];
   targetDeviceIds?: string[];
   targetDeviceNames?: string[];
   deviceResults: GameHistory['deviceResults'];
@@ -32,6 +68,7 @@ export interface GameHistorySummaryPayload {
   transitions?: SessionTransition[];
   hitHistory?: SessionHitRecord[];
   goalShotsPerTarget?: Record<string, number>;
+  roundSplits?: GameHistory['roundSplits'];
 }
 
 interface GameHistoryResponse {
@@ -51,12 +88,17 @@ interface GameHistoryResponse {
   status?: 'created' | 'updated';
   sessionPersisted?: boolean;
   sessionPersistError?: string | null;
+  reconciliation?: HitReconciliation | null;
 }
 
 export interface SaveGameHistoryResult {
   status: 'created' | 'updated' | null;
   sessionPersisted: boolean;
   sessionPersistError: string | null;
+  /** What the server found when it checked the hits against ThingsBoard history */
+  reconciliation: HitReconciliation | null;
+  /** The entry as saved, with any hits the server recovered merged in */
+  record: GameHistory | null;
 }
 
 const HISTORY_LIMIT = 20;
@@ -70,13 +112,39 @@ export function mapSummaryToGameHistory(summary: GameHistorySummaryPayload): Gam
     startTime: summary.startTime,
     endTime: summary.endTime,
     score: summary.score ?? null,
+    isValid: summary.isValid ?? null,
+    isPersonalBest: summary.isPersonalBest ?? false,
+    previousBestScore: summary.previousBestScore ?? null,
     accuracy: summary.accuracy ?? null,
+    totalShots: summary.totalShots ?? null,
+    missCount: summary.missCount ?? null,
+    shotCountSource: summary.shotCountSource ?? null,
     scenarioName: summary.scenarioName ?? null,
     scenarioType: summary.scenarioType ?? null,
     roomName: summary.roomName ?? null,
     roomId: summary.roomId ?? null,
     desiredDurationSeconds: summary.desiredDurationSeconds ?? null,
     presetId: summary.presetId ?? null,
+    gameMode: summary.gameMode ?? null,
+    calloutResults: summary.calloutResults,
+    calloutCount: summary.calloutCount ?? null,
+    parTimesPerTarget: summary.parTimesPerTarget,
+    penaltiesPerTarget: summary.penaltiesPerTarget,
+    rawScore: summary.rawScore ?? null,
+    penaltySeconds: summary.penaltySeconds ?? null,
+    penalties: summary.penalties,
+    squadId: summary.squadId ?? null,
+    squadFormat: summary.squadFormat ?? null,
+    shooter: summary.shooter ?? null,
+    squadLanes: summary.squadLanes,
+    drillStages: summary.drillStages,
+    stageResults: summary.stageResults,
+    startDelay: summary.startDelay ?? null,
+    drawTimeSeconds: summary.drawTimeSeconds ?? null,
+    qualification: summary.qualification ?? null,
+    reconciliation: summary.reconciliation ?? null,
+    clockOffsetsMs: summary.clockOffsetsMs,
+    pauseIntervals: summary.pauseIntervals,
     targetDeviceIds: summary.targetDeviceIds ?? [],
     targetDeviceNames: summary.targetDeviceNames ?? [],
     deviceResults: summary.deviceResults ?? [],
@@ -89,9 +157,27 @@ export function mapSummaryToGameHistory(summary: GameHistorySummaryPayload): Gam
     transitions: summary.transitions ?? [],
     hitHistory: summary.hitHistory ?? [],
     goalShotsPerTarget: summary.goalShotsPerTarget,
+    roundSplits: summary.roundSplits ?? [],
   };
 }
 
+// Offsets of the session's calibrated targets; the server needs them to compare its hit times with ours.
+const resolveClockOffsets = (summary: GameHistory): Record<string, number> => {
+  if (summary.clockOffsetsMs) {
+    return summary.clockOffsetsMs;
+  }
+  const calibrations = readClockCalibrations();
+  const deviceIds = new Set([
+    ...(summary.targetDeviceIds ?? []),
+    ...(summary.deviceResults ?? []).map((device) => device.deviceId),
+  ]);
+  return Object.fromEntries(
+    [...deviceIds]
+      .filter((deviceId) => calibrations[deviceId])
+      .map((deviceId) => [deviceId, calibrations[deviceId].offsetMs]),
+  );
+};
+
 // Persists a completed game summary through the game-control edge function so history remains centralised.
 export async function saveGameHistory(summary: GameHistory): Promise<SaveGameHistoryResult> {
   const payload: GameHistorySummaryPayload = {
@@ -104,13 +190,38 @@ export async function saveGameHistory(summary: GameHistory): Promise<SaveGameHis
     actualDuration: summary.actualDuration,
     averageHitInterval: summary.averageHitInterval,
     score: summary.score ?? null,
+    isValid: summary.isValid ?? null,
+    isPersonalBest: summary.isPersonalBest ?? false,
+    previousBestScore: summary.previousBestScore ?? null,
     accuracy: summary.accuracy ?? null,
+    totalShots: summary.totalShots ?? null,
+    missCount: summary.missCount ?? null,
+    shotCountSource: summary.shotCountSource ?? null,
     scenarioName: summary.scenarioName ?? null,
     scenarioType: summary.scenarioType ?? null,
     roomName: summary.roomName ?? null,
     roomId: summary.roomId ?? null,
     desiredDurationSeconds: summary.desiredDurationSeconds ?? null,
     presetId: summary.presetId ?? null,
+    gameMode: summary.gameMode ?? null,
+    calloutResults: summary.calloutResults,
+    calloutCount: summary.calloutCount ?? null,
+    parTimesPerTarget: summary.parTimesPerTarget,
+    penaltiesPerTarget: summary.penaltiesPerTarget,
+    rawScore: summary.rawScore ?? null,
+    penaltySeconds: summary.penaltySeconds ?? null,
+    penalties: summary.penalties,
+    squadId: summary.squadId ?? null,
+    squadFormat: summary.squadFormat ?? null,
+    shooter: summary.shooter ?? null,
+    squadLanes: summary.squadLanes,
+    drillStages: summary.drillStages,
+    stageResults: summary.stageResults,
+    startDelay: summary.startDelay ?? null,
+    drawTimeSeconds: summary.drawTimeSeconds ?? null,
+    qualification: summary.qualification ?? null,
+    clockOffsetsMs: resolveClockOffsets(summary),
+    pauseIntervals: summary.pauseIntervals,
     targetDeviceIds: summary.targetDeviceIds ?? [],
     targetDeviceNames: summary.targetDeviceNames ?? [],
     deviceResults: summary.deviceResults,
@@ -120,6 +231,7 @@ export async function saveGameHistory(summary: GameHistory): Promise<SaveGameHis
     transitions: summary.transitions ?? [],
     hitHistory: summary.hitHistory ?? [],
     goalShotsPerTarget: summary.goalShotsPerTarget,
+    roundSplits: summary.roundSplits ?? [],
   };
 
   const { data, error } = await supabase.functions.invoke<GameHistoryResponse>('game-control', {
@@ -153,6 +265,8 @@ export async function saveGameHistory(summary: GameHistory): Promise<SaveGameHis
     status,
     sessionPersisted,
     sessionPersistError,
+    reconciliation: data?.reconciliation ?? null,
+    record: data?.record?.summary ? mapSummaryToGameHistory(data.record.summary) : null,
   };
 }
 
@@ -1,24 +1,31 @@
-import { ensureThingsboardSession, fetchTargetDetails } from '@/lib/edge';
-import {
-  GAME_TELEMETRY_REALTIME,
-  TELEMETRY_KEYS,
-  TELEMETRY_POLLING_DEFAULTS,
-  resolveIntervalWithBackoff,
-} from '@/config/telemetry';
+import { ensureThingsboardSession } from '@/lib/edge';
+import { GAME_TELEMETRY_REALTIME, TELEMETRY_KEYS } from '@/config/telemetry';
 import { getRateLimiter } from '@/shared/lib/rate-limit-config';
 import { RateLimitMonitor } from '@/shared/lib/rate-limit-monitor';
-
-export interface TelemetryEnvelope {
-  subscriptionId?: number;
-  entityId?: string;
-  data?: Record<string, unknown>;
-}
-
-export type TelemetryCallback = (message: TelemetryEnvelope) => void;
+import {
+  createPollingTransport,
+  createSseTransport,
+  createTransportHealthTracker,
+  selectTelemetryTransport,
+  type TelemetryCallback,
+  type TelemetryTransport,
+  type TelemetryTransportHandlers,
+  type TelemetryTransportKind,
+} from './telemetry-transport';
+
+export type {
+  TelemetryCallback,
+  TelemetryEnvelope,
+  TelemetryTransport,
+  TelemetryTransportHealth,
+  TelemetryTransportKind,
+} from './telemetry-transport';
 
 export interface TelemetryStreamOptions {
   realtime?: boolean;
   pollIntervalMs?: number;
+  /** Transports to choose from, in order of preference; defaults to WebSocket, then SSE, then polling */
+  transports?: TelemetryTransportKind[];
 }
 
 const DEFAULT_KEYS = [...TELEMETRY_KEYS];
@@ -39,317 +46,373 @@ const createThingsboardWsUrl = (token: string): string => {
   return url.toString();
 };
 
-// Subscribes to ThingsBoard telemetry for the given devices, falling back to polling when realtime transport is unavailable.
-export const subscribeToGameTelemetry = (
-  deviceIds: string[],
-  onMessage: TelemetryCallback,
-  options: TelemetryStreamOptions & {
-    token?: string;
-    onError?: (reason: unknown) => void;
-    onAuthError?: () => void;
-  } = {},
-): (() => void) => {
-  if (deviceIds.length === 0) {
-    return () => undefined;
-  }
-
-  const {
-    realtime = true,
-    pollIntervalMs,
-    token: providedToken,
-    onError,
-    onAuthError,
-  } = options;
-  const pollInterval = pollIntervalMs ?? GAME_TELEMETRY_REALTIME.sampleIntervalMs;
 
-  let pollingTimer: number | null = null;
+// Streams ThingsBoard's telemetry WebSocket directly. Reports itself down when the
+// socket cannot be opened in time, is rate limited, or closes underneath us.
+const createWebSocketTransport = (options: { token?: string }): TelemetryTransport => {
+  const tracker = createTransportHealthTracker('websocket');
   let websocket: WebSocket | null = null;
-  let closed = false;
-  let consecutivePollErrors = 0;
+  let closed = true;
   const subscriptionMap = new Map<number, string>();
 
-  const stopPolling = () => {
-    if (pollingTimer !== null) {
-      clearTimeout(pollingTimer);
-      pollingTimer = null;
-    }
-  };
-
-  const startPolling = () => {
-    stopPolling();
-
-    const executePoll = async () => {
-      if (closed) {
-        return;
-      }
-
-      const cycleStart = performance.now();
-
+  const unsubscribe = () => {
+    closed = true;
+    if (websocket && websocket.readyState === WebSocket.OPEN && subscriptionMap.size > 0) {
       try {
-        const { details } = await fetchTargetDetails(deviceIds, {
-          includeHistory: false,
-          telemetryKeys: DEFAULT_KEYS,
-        });
-
-        details.forEach((detail) => {
-          onMessage({
-            entityId: detail.deviceId,
-            data: detail.telemetry,
-          });
-        });
-
-        consecutivePollErrors = 0;
+        const tsUnsubCmds = Array.from(subscriptionMap.keys()).map((subscriptionId) => ({ subscriptionId }));
+        websocket.send(JSON.stringify({ tsUnsubCmds }));
       } catch (error) {
-        consecutivePollErrors = Math.min(
-          TELEMETRY_POLLING_DEFAULTS.maxRetry,
-          consecutivePollErrors + 1,
-        );
-        console.warn('[GameTelemetry] Polling failed, applying backoff', error);
-        onError?.(error);
-      }
-
-      const duration = performance.now() - cycleStart;
-      if (duration > TELEMETRY_POLLING_DEFAULTS.slowResponseWarningMs) {
-        console.warn('[GameTelemetry] Polling cycle exceeded SLA', {
-          durationMs: Math.round(duration),
-          slowdownThresholdMs: TELEMETRY_POLLING_DEFAULTS.slowResponseWarningMs,
-        });
-      }
-
-      if (!closed) {
-        const nextInterval = resolveIntervalWithBackoff(pollInterval, consecutivePollErrors);
-        pollingTimer = setTimeout(executePoll, nextInterval) as unknown as number;
+        console.warn('[GameTelemetry] Failed to unsubscribe ThingsBoard telemetry', error);
       }
-    };
-
-    pollingTimer = setTimeout(executePoll, 0) as unknown as number;
+    }
+    subscriptionMap.clear();
+    websocket?.close();
+    websocket = null;
+    tracker.markConnected(false);
   };
 
-  const handleRealtimePayload = (payload: unknown) => {
-    if (!payload || typeof payload !== 'object') {
-      return;
-    }
+  const subscribe = (deviceIds: string[], handlers: TelemetryTransportHandlers) => {
+    const { onMessage, onError, onAuthError, onDown } = handlers;
+    unsubscribe();
+    closed = false;
+    tracker.reset();
 
-    const records = payload as Array<{ deviceId?: string; telemetry?: Record<string, unknown> }>;
-    if (!Array.isArray(records)) {
-      return;
-    }
+    const deliver = (deviceId: string, data: Record<string, unknown>) => {
+      const envelope = { entityId: deviceId, data };
+      tracker.recordMessage(envelope);
+      onMessage(envelope);
+    };
 
-    records.forEach((record) => {
-      if (!record || typeof record !== 'object') {
+    const handleRealtimePayload = (payload: unknown) => {
+      if (!payload || typeof payload !== 'object') {
         return;
       }
-      const deviceId = record.deviceId;
-      if (!deviceId) {
+
+      const records = payload as Array<{ deviceId?: string; telemetry?: Record<string, unknown> }>;
+      if (!Array.isArray(records)) {
         return;
       }
-      onMessage({
-        entityId: deviceId,
-        data: record.telemetry ?? {},
+
+      records.forEach((record) => {
+        if (!record || typeof record !== 'object') {
+          return;
+        }
+        const deviceId = record.deviceId;
+        if (!deviceId) {
+          return;
+        }
+        deliver(deviceId, record.telemetry ?? {});
       });
-    });
-  };
+    };
 
-  const startRealtime = async () => {
-    if (!realtime) {
-      startPolling();
-      return;
-    }
+    const connect = async () => {
+      // Add a small random delay (0-500ms) to stagger subscription attempts and prevent simultaneous token acquisition
+      const staggerDelay = Math.random() * 500;
+      await new Promise(resolve => setTimeout(resolve, staggerDelay));
 
-    // Add a small random delay (0-500ms) to stagger subscription attempts and prevent simultaneous token acquisition
-    const staggerDelay = Math.random() * 500;
-    await new Promise(resolve => setTimeout(resolve, staggerDelay));
+      if (closed) {
+        return;
+      }
 
-    if (closed) {
-      return;
-    }
+      try {
+        let tbToken: string | undefined = options.token;
+        if (!tbToken) {
+          try {
+            const session = await ensureThingsboardSession();
+            tbToken = session.token;
+          } catch (tokenError) {
+            console.warn('[GameTelemetry] Unable to obtain ThingsBoard session token', tokenError);
+            onAuthError?.();
+            onError?.(tokenError);
+          }
+        }
 
-    try {
-      let tbToken: string | undefined = providedToken;
-      if (!tbToken) {
-        try {
-          const session = await ensureThingsboardSession();
-          tbToken = session.token;
-        } catch (tokenError) {
-          console.warn('[GameTelemetry] Unable to obtain ThingsBoard session token', tokenError);
-          onAuthError?.();
-          onError?.(tokenError);
+        if (!tbToken) {
+          const err = new Error('No ThingsBoard token available for realtime telemetry');
+          onError?.(err);
+          throw err;
         }
-      }
 
-      if (!tbToken) {
-        const err = new Error('No ThingsBoard token available for realtime telemetry');
-        onError?.(err);
-        throw err;
-      }
+        const limiter = getRateLimiter('THINGSBOARD_TELEMETRY');
+        if (limiter) {
+          const status = limiter.getStatus();
+          if (status.isLimited) {
+            RateLimitMonitor.recordHit('THINGSBOARD_TELEMETRY', status.availableTokens, status.queuedRequests);
+          }
 
-      const limiter = getRateLimiter('THINGSBOARD_TELEMETRY');
-      if (limiter) {
-        const status = limiter.getStatus();
-        if (status.isLimited) {
-          RateLimitMonitor.recordHit('THINGSBOARD_TELEMETRY', status.availableTokens, status.queuedRequests);
+          try {
+            await limiter.acquire();
+          } catch (error) {
+            console.warn('[GameTelemetry] WebSocket rate limit hit; switching transport', error);
+            onError?.(error);
+            // Add a small delay before switching to avoid immediate retry storm
+            setTimeout(() => {
+              if (!closed) {
+                onDown?.(error);
+              }
+            }, 1000);
+            return;
+          }
         }
 
-        try {
-          await limiter.acquire();
-        } catch (error) {
-          console.warn('[GameTelemetry] WebSocket rate limit hit; falling back to polling', error);
-          onError?.(error);
-          // Add a small delay before starting polling to avoid immediate retry storm
-          setTimeout(() => {
-            if (!closed) {
-              startPolling();
-            }
-          }, 1000);
+        if (closed) {
           return;
         }
-      }
 
-      if (closed) {
-        return;
-      }
+        const wsUrl = createThingsboardWsUrl(tbToken);
+        const socket = new WebSocket(wsUrl);
+        websocket = socket;
+
+        let upgraded = false;
+        const fallbackTimer = window.setTimeout(() => {
+          if (!upgraded && !closed) {
+            console.warn('[GameTelemetry] WebSocket upgrade timed out; switching transport');
+            closed = true;
+            socket.close();
+            onDown?.(new Error('WebSocket upgrade timed out'));
+          }
+        }, GAME_TELEMETRY_REALTIME.fallbackGraceMs);
+
+        socket.onopen = () => {
+          upgraded = true;
+          window.clearTimeout(fallbackTimer);
+          tracker.markConnected(true);
+
+          subscriptionMap.clear();
+          const tsSubCmds = deviceIds.map((deviceId, index) => {
+            const subscriptionId = index + 1;
+            subscriptionMap.set(subscriptionId, deviceId);
+            return {
+              entityType: 'DEVICE',
+              entityId: deviceId,
+              scope: 'LATEST_TELEMETRY',
+              cmdId: subscriptionId,
+            };
+          });
 
-      const wsUrl = createThingsboardWsUrl(tbToken);
-      websocket = new WebSocket(wsUrl);
+          if (tsSubCmds.length > 0) {
+            try {
+              socket.send(
+                JSON.stringify({
+                  tsSubCmds,
+                  historyCmds: [],
+                  attrSubCmds: [],
+                }),
+              );
+            } catch (sendError) {
+              console.error('[GameTelemetry] Failed to initiate ThingsBoard subscription', sendError);
+              onError?.(sendError);
+            }
+          }
+        };
 
-      let upgraded = false;
-      const fallbackTimer = window.setTimeout(() => {
-        if (!upgraded && !closed) {
-          console.warn('[GameTelemetry] WebSocket upgrade timed out; falling back to polling');
-          websocket?.close();
-          startPolling();
-        }
-      }, GAME_TELEMETRY_REALTIME.fallbackGraceMs);
-
-      websocket.onopen = () => {
-        upgraded = true;
-        window.clearTimeout(fallbackTimer);
-        stopPolling();
-
-        subscriptionMap.clear();
-        const tsSubCmds = deviceIds.map((deviceId, index) => {
-          const subscriptionId = index + 1;
-          subscriptionMap.set(subscriptionId, deviceId);
-          return {
-            entityType: 'DEVICE',
-            entityId: deviceId,
-            scope: 'LATEST_TELEMETRY',
-            cmdId: subscriptionId,
-          };
-        });
-
-        if (tsSubCmds.length > 0) {
+        socket.onmessage = (event: MessageEvent) => {
           try {
-            websocket?.send(
-              JSON.stringify({
-                tsSubCmds,
-                historyCmds: [],
-                attrSubCmds: [],
-              }),
-            );
-          } catch (sendError) {
-            console.error('[GameTelemetry] Failed to initiate ThingsBoard subscription', sendError);
-            onError?.(sendError);
-          }
-        }
-      };
-
-      websocket.onmessage = (event: MessageEvent) => {
-        try {
-          const envelope = JSON.parse(event.data as string) as
-            | {
-                subscriptionId?: number;
-                data?: Record<string, unknown>;
-                error?: string;
-                errorMsg?: string;
-                errorCode?: number;
+            const envelope = JSON.parse(event.data as string) as
+              | {
+                  subscriptionId?: number;
+                  data?: Record<string, unknown>;
+                  error?: string;
+                  errorMsg?: string;
+                  errorCode?: number;
+                }
+              | {
+                  type: string;
+                  payload?: unknown;
+                  message?: string;
+                };
+
+            if ('subscriptionId' in envelope && typeof envelope.subscriptionId === 'number') {
+              const deviceId = subscriptionMap.get(envelope.subscriptionId);
+              if (!deviceId || !envelope.data) {
+                return;
               }
-            | {
-                type: string;
-                payload?: unknown;
-                message?: string;
-              };
-
-          if ('subscriptionId' in envelope && typeof envelope.subscriptionId === 'number') {
-            const deviceId = subscriptionMap.get(envelope.subscriptionId);
-            if (!deviceId || !envelope.data) {
+              deliver(deviceId, envelope.data);
               return;
             }
-            onMessage({
-              entityId: deviceId,
-              data: envelope.data,
-            });
-            return;
-          }
 
-          if ('type' in envelope) {
-            switch (envelope.type) {
-              case 'telemetry':
-                handleRealtimePayload(envelope.payload);
-                break;
-              case 'error':
-                console.warn('[GameTelemetry] Telemetry transport error', envelope.message);
-                onError?.(envelope.message);
-                break;
-              default:
-                break;
-            }
-          } else if ('error' in envelope || 'errorMsg' in envelope) {
-            console.warn('[GameTelemetry] ThingsBoard telemetry error', envelope);
-            const errorMessage = envelope.errorMsg ?? envelope.error ?? 'ThingsBoard telemetry error';
-            if (
-              typeof envelope.errorCode === 'number' && envelope.errorCode === 401
-            ) {
-              onAuthError?.();
-            } else if (typeof errorMessage === 'string' && /401|unauthor/i.test(errorMessage)) {
-              onAuthError?.();
+            if ('type' in envelope) {
+              switch (envelope.type) {
+                case 'telemetry':
+                  handleRealtimePayload(envelope.payload);
+                  break;
+                case 'error':
+                  console.warn('[GameTelemetry] Telemetry transport error', envelope.message);
+                  tracker.recordError();
+                  onError?.(envelope.message);
+                  break;
+                default:
+                  break;
+              }
+            } else if ('error' in envelope || 'errorMsg' in envelope) {
+              console.warn('[GameTelemetry] ThingsBoard telemetry error', envelope);
+              tracker.recordError();
+              const errorMessage = envelope.errorMsg ?? envelope.error ?? 'ThingsBoard telemetry error';
+              if (
+                typeof envelope.errorCode === 'number' && envelope.errorCode === 401
+              ) {
+                onAuthError?.();
+              } else if (typeof errorMessage === 'string' && /401|unauthor/i.test(errorMessage)) {
+                onAuthError?.();
+              }
+              onError?.(errorMessage);
             }
-            onError?.(errorMessage);
+          } catch (error) {
+            console.error('[GameTelemetry] Failed to parse realtime payload', error);
+            onError?.(error);
           }
-        } catch (error) {
-          console.error('[GameTelemetry] Failed to parse realtime payload', error);
-          onError?.(error);
-        }
-      };
-
-      websocket.onerror = (event) => {
-        console.error('[GameTelemetry] WebSocket error', event);
-        onError?.(event);
-      };
-
-      websocket.onclose = (event) => {
-        window.clearTimeout(fallbackTimer);
-        websocket = null;
-        subscriptionMap.clear();
-        if (event?.code === 4401 || event?.code === 4403) {
-          onAuthError?.();
-        }
+        };
+
+        socket.onerror = (event) => {
+          console.error('[GameTelemetry] WebSocket error', event);
+          tracker.recordError();
+          onError?.(event);
+        };
+
+        socket.onclose = (event) => {
+          window.clearTimeout(fallbackTimer);
+          if (websocket === socket) {
+            websocket = null;
+          }
+          subscriptionMap.clear();
+          tracker.markConnected(false);
+          if (event?.code === 4401 || event?.code === 4403) {
+            onAuthError?.();
+          }
+          if (!closed) {
+            closed = true;
+            onDown?.(event);
+          }
+        };
+      } catch (error) {
+        console.warn('[GameTelemetry] Realtime channel unavailable; switching transport', error);
+        onError?.(error);
         if (!closed) {
-          startPolling();
+          onDown?.(error);
         }
-      };
-    } catch (error) {
-      console.warn('[GameTelemetry] Realtime channel unavailable; falling back to polling', error);
-      onError?.(error);
-      startPolling();
+      }
+    };
+
+    void connect();
+  };
+
+  return { kind: 'websocket', subscribe, unsubscribe, health: tracker.snapshot };
+};
+
+// Subscribes to live telemetry for the given devices. Starts on the most preferred transport,
+// moves on when it goes down, and re-evaluates the choice while it runs slower than the live-game SLA.
+export const subscribeToGameTelemetry = (
+  deviceIds: string[],
+  onMessage: TelemetryCallback,
+  options: TelemetryStreamOptions & {
+    token?: string;
+    onError?: (reason: unknown) => void;
+    onAuthError?: () => void;
+    /** Called whenever a transport takes over, with how many times the stream has switched so far */
+    onTransportChange?: (kind: TelemetryTransportKind, reconnectCount: number) => void;
+  } = {},
+): (() => void) => {
+  if (deviceIds.length === 0) {
+    return () => undefined;
+  }
+
+  const {
+    realtime = true,
+    pollIntervalMs,
+    transports,
+    token: providedToken,
+    onError,
+    onAuthError,
+    onTransportChange,
+  } = options;
+  const pollInterval = pollIntervalMs ?? GAME_TELEMETRY_REALTIME.sampleIntervalMs;
+  const candidates: TelemetryTransportKind[] =
+    transports && transports.length > 0 ? transports : realtime ? ['websocket', 'sse', 'polling'] : ['polling'];
+
+  const createTransport = (kind: TelemetryTransportKind): TelemetryTransport => {
+    switch (kind) {
+      case 'websocket':
+        return createWebSocketTransport({ token: providedToken });
+      case 'sse':
+        return createSseTransport({ keys: DEFAULT_KEYS });
+      default:
+        return createPollingTransport({ pollIntervalMs: pollInterval, keys: DEFAULT_KEYS });
     }
   };
 
-  void startRealtime();
+  const measuredLatencyMs: Partial<Record<TelemetryTransportKind, number>> = {};
+  const unavailable = new Set<TelemetryTransportKind>();
+  let active: TelemetryTransport | null = null;
+  let closed = false;
+  let slaTimer: number | null = null;
+  let activationCount = 0;
 
-  return () => {
-    closed = true;
-    stopPolling();
-    if (websocket && websocket.readyState === WebSocket.OPEN && subscriptionMap.size > 0) {
-      try {
-        const tsUnsubCmds = Array.from(subscriptionMap.keys()).map((subscriptionId) => ({ subscriptionId }));
-        websocket.send(JSON.stringify({ tsUnsubCmds }));
-      } catch (error) {
-        console.warn('[GameTelemetry] Failed to unsubscribe ThingsBoard telemetry', error);
-        onError?.(error);
+  const stopSlaChecks = () => {
+    if (slaTimer !== null) {
+      window.clearInterval(slaTimer);
+      slaTimer = null;
+    }
+  };
+
+  const activate = (kind: TelemetryTransportKind | null) => {
+    active?.unsubscribe();
+    active = null;
+    if (closed || kind === null) {
+      if (!closed) {
+        console.error('[GameTelemetry] No telemetry transport available');
+        onError?.(new Error('No telemetry transport available'));
       }
+      return;
     }
-    subscriptionMap.clear();
-    websocket?.close();
+
+    const transport = createTransport(kind);
+    active = transport;
+    activationCount += 1;
+    console.info('[GameTelemetry] Using telemetry transport', { kind, measuredLatencyMs });
+    onTransportChange?.(kind, activationCount - 1);
+    transport.subscribe(deviceIds, {
+      onMessage,
+      onError,
+      onAuthError,
+      onDown: (reason) => {
+        if (closed || active !== transport) {
+          return;
+        }
+        console.warn('[GameTelemetry] Telemetry transport down', { kind, reason });
+        unavailable.add(kind);
+        activate(selectTelemetryTransport(candidates, measuredLatencyMs, unavailable));
+      },
+    });
+  };
+
+  if (candidates.length > 1) {
+    slaTimer = window.setInterval(() => {
+      if (!active) {
+        return;
+      }
+      const { kind, latencyMs } = active.health();
+      if (latencyMs === null) {
+        return;
+      }
+      measuredLatencyMs[kind] = latencyMs;
+      const next = selectTelemetryTransport(candidates, measuredLatencyMs, unavailable);
+      // Once every remaining transport has been measured, settle on the fastest instead of cycling.
+      if (candidates.every((candidate) => unavailable.has(candidate) || measuredLatencyMs[candidate] !== undefined)) {
+        stopSlaChecks();
+      }
+      if (next !== null && next !== kind) {
+        console.warn('[GameTelemetry] Telemetry transport over live-game SLA; switching', { kind, latencyMs, next });
+        activate(next);
+      }
+    }, GAME_TELEMETRY_REALTIME.heartbeatIntervalMs);
+  }
+
+  activate(selectTelemetryTransport(candidates, measuredLatencyMs, unavailable));
+
+  return () => {
+    closed = true;
+    stopSlaChecks();
+    active?.unsubscribe();
+    active = null;
   };
 };
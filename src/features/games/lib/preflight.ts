@@ -0,0 +1,75 @@
+import { sendTwoWayRpc } from '@/features/games/lib/thingsboard-client';
+import { PREFLIGHT_CONSTRAINTS } from '@/domain/games/preflight';
+
+const PREFLIGHT_RPC_METHOD = 'info';
+
+/** Oldest firmware allowed into a session; unset skips the version floor */
+export const MIN_TARGET_FIRMWARE_VERSION =
+  ((import.meta.env.VITE_MIN_TARGET_FIRMWARE as string | undefined) ?? '').trim() || null;
+
+export interface PreflightPingResult {
+  pingMs: number;
+  battery: number | null;
+  wifiStrength: number | null;
+  firmwareVersion: string | null;
+}
+
+const readNumber = (payload: Record<string, unknown>, keys: string[]): number | null => {
+  for (const key of keys) {
+    const value = Number(payload[key]);
+    if (payload[key] !== null && payload[key] !== undefined && payload[key] !== '' && Number.isFinite(value)) {
+      return value;
+    }
+  }
+  return null;
+};
+
+/**
+ * Reads battery, WiFi and firmware out of an `info` RPC reply. Signal is only
+ * taken when it looks like dBm; some firmware reports a 0-100 bar count instead.
+ */
+export const parsePreflightInfo = (response: unknown): Omit<PreflightPingResult, 'pingMs'> => {
+  const payload = response && typeof response === 'object' ? (response as Record<string, unknown>) : {};
+  const wifiStrength = readNumber(payload, ['rssi', 'wifiStrength', 'wifi']);
+  const firmware = payload.firmwareVersion ?? payload.firmware ?? payload.fw ?? payload.version;
+
+  return {
+    battery: readNumber(payload, ['battery', 'batteryLevel']),
+    wifiStrength: wifiStrength !== null && wifiStrength < 0 ? wifiStrength : null,
+    firmwareVersion: typeof firmware === 'string' || typeof firmware === 'number' ? String(firmware) : null,
+  };
+};
+
+/**
+ * Pings one target with the `info` RPC and times the round trip.
+ * Throws when the target does not answer in time.
+ */
+export const pingPreflightTarget = async (deviceId: string): Promise<PreflightPingResult> => {
+  const sentAt = performance.now();
+  const response = await sendTwoWayRpc<unknown>(
+    deviceId,
+    PREFLIGHT_RPC_METHOD,
+    { ts: Date.now(), deviceId },
+    PREFLIGHT_CONSTRAINTS.PING_TIMEOUT_MS,
+  );
+  return { pingMs: performance.now() - sentAt, ...parsePreflightInfo(response) };
+};
+
+/**
+ * Whether a telemetry payload carries a hit recorded at or after `since`.
+ * Subscriptions replay the latest value first, so older hits are ignored.
+ */
+export const isHitSince = (data: Record<string, unknown> | undefined, since: number): boolean => {
+  const series = data?.event;
+  if (!Array.isArray(series)) {
+    return false;
+  }
+  return series.some((entry) => {
+    const [ts, value] = Array.isArray(entry)
+      ? entry
+      : entry && typeof entry === 'object'
+        ? [(entry as { ts?: unknown }).ts, (entry as { value?: unknown }).value]
+        : [undefined, undefined];
+    return value === 'hit' && typeof ts === 'number' && ts >= since;
+  });
+};
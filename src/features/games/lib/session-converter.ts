@@ -9,6 +9,7 @@ import {
   type GameHistorySummaryPayload,
 } from '@/features/games/lib/game-history';
 import type { RecentSession } from '@/features/profile';
+import { isGameModeId } from '@/domain/games/modes';
 
 function ensureNumber(value: unknown): number | null {
   if (value === null || value === undefined) {
@@ -144,6 +145,7 @@ export function convertSessionToHistory(session: RecentSession): GameHistory {
   const summaryRoomName = ensureString(getSummaryValue('roomName')) ?? session.roomName ?? null;
   const summaryDesiredDurationSeconds = ensureNumber(getSummaryValue('desiredDurationSeconds'));
   const summaryPresetId = ensureString(getSummaryValue('presetId')) ?? null;
+  const gameMode = isGameModeId(session.gameMode) ? session.gameMode : null;
   const summaryTargetDeviceIds = ensureStringArray(getSummaryValue('targetDeviceIds'));
   const summaryTargetDeviceNames = ensureStringArray(getSummaryValue('targetDeviceNames'));
 
@@ -281,6 +283,7 @@ export function convertSessionToHistory(session: RecentSession): GameHistory {
     roomId: summaryRoomId,
     desiredDurationSeconds: summaryDesiredDurationSeconds ?? null,
     presetId: summaryPresetId,
+    gameMode,
     targetDeviceIds: resolvedTargetDeviceIds,
     targetDeviceNames: resolvedTargetDeviceNames,
     deviceResults,
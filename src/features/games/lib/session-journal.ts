@@ -0,0 +1,88 @@
+import type { NormalizedGameDevice } from '@/features/games/hooks/use-game-devices';
+import type { SessionHitRecord } from '@/features/games/lib/device-game-flow';
+import type { GameModeId } from '@/domain/games/validators';
+import type { GameModePenaltyValues } from '@/domain/games/modes';
+import type { DrillStage } from '@/domain/games/drills';
+import type { StartDelay } from '@/domain/games/start-signal';
+import type { QualificationStandard } from '@/domain/games/qualifications';
+import { isJournalStale } from '@/domain/games/recovery';
+
+const SESSION_JOURNAL_STORAGE_KEY = 'glow-dashboard:session-journal';
+const SESSION_JOURNAL_VERSION = 1;
+
+/**
+ * Snapshot of a running session, rewritten on every hit so the session can be
+ * resumed or finalized if the page reloads before it is stopped.
+ */
+export interface SessionJournal {
+  version: typeof SESSION_JOURNAL_VERSION;
+  gameId: string;
+  startTime: number;
+  targets: NormalizedGameDevice[];
+  roomId: string | null;
+  roomName: string | null;
+  presetId: string | null;
+  gameMode: GameModeId;
+  desiredDurationSeconds: number | null;
+  goalShotsPerTarget: Record<string, number>;
+  parTimesPerTarget: Record<string, number>;
+  penaltiesPerTarget: Record<string, Partial<GameModePenaltyValues>>;
+  drillStages: DrillStage[];
+  startDelay: StartDelay | null;
+  qualificationStandard: QualificationStandard | null;
+  hits: SessionHitRecord[];
+  updatedAt: number;
+}
+
+export const writeSessionJournal = (journal: Omit<SessionJournal, 'version'>): void => {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  try {
+    window.localStorage.setItem(
+      SESSION_JOURNAL_STORAGE_KEY,
+      JSON.stringify({ ...journal, version: SESSION_JOURNAL_VERSION }),
+    );
+  } catch (storageError) {
+    console.warn('[Games] Failed to persist session journal', storageError);
+  }
+};
+
+export const clearSessionJournal = (): void => {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  window.localStorage.removeItem(SESSION_JOURNAL_STORAGE_KEY);
+};
+
+/**
+ * Journal of a session left running by a previous page load; null when there is none.
+ * Unreadable and stale journals are discarded.
+ */
+export const readSessionJournal = (now: number = Date.now()): SessionJournal | null => {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  try {
+    const storedValue = window.localStorage.getItem(SESSION_JOURNAL_STORAGE_KEY);
+    if (!storedValue) {
+      return null;
+    }
+    const journal = JSON.parse(storedValue) as SessionJournal;
+    if (
+      journal?.version !== SESSION_JOURNAL_VERSION ||
+      typeof journal.gameId !== 'string' ||
+      !Array.isArray(journal.targets) ||
+      journal.targets.length === 0 ||
+      isJournalStale(journal.updatedAt, now)
+    ) {
+      clearSessionJournal();
+      return null;
+    }
+    return { ...journal, hits: Array.isArray(journal.hits) ? journal.hits : [] };
+  } catch (storageError) {
+    console.warn('[Games] Failed to restore session journal', storageError);
+    clearSessionJournal();
+    return null;
+  }
+};
@@ -0,0 +1,115 @@
+import type { GameHistory } from '@/features/games/lib/device-game-flow';
+
+/** Playback speeds offered by the replay scrubber */
+export const REPLAY_SPEEDS = [0.5, 1, 2] as const;
+export type ReplaySpeed = typeof REPLAY_SPEEDS[number];
+
+/** How long a target stays lit after a hit during playback */
+export const REPLAY_HIT_FLASH_MS = 400;
+
+export interface ReplayHitEvent {
+  /** Milliseconds since session start */
+  offsetMs: number;
+  deviceId: string;
+  deviceName: string;
+  /** 1-based hit number on this target */
+  hitNumber: number;
+}
+
+export interface ReplayMarker {
+  offsetMs: number;
+  label: string;
+}
+
+export interface ReplayTimeline {
+  durationMs: number;
+  events: ReplayHitEvent[];
+  /** Split / round markers drawn on the scrubber */
+  markers: ReplayMarker[];
+  targets: Array<{ deviceId: string; deviceName: string }>;
+}
+
+export interface ReplayFrame {
+  hitCounts: Record<string, number>;
+  /** Targets hit within the flash window ending at the current position */
+  litDeviceIds: Set<string>;
+  lastEvent: ReplayHitEvent | null;
+}
+
+// Builds a playback timeline from a stored session. Round splits (multi-target) are
+// preferred for markers; single-target sessions fall back to timestamped splits.
+export function buildReplayTimeline(entry: GameHistory): ReplayTimeline {
+  const startTime = entry.startTime;
+  const names = new Map<string, string>();
+  (entry.targetDeviceIds ?? []).forEach((id, index) => {
+    names.set(id, entry.targetDeviceNames?.[index] ?? id);
+  });
+  entry.deviceResults.forEach((result) => {
+    if (!names.has(result.deviceId)) {
+      names.set(result.deviceId, result.deviceName);
+    }
+  });
+
+  const hitNumbers = new Map<string, number>();
+  const events: ReplayHitEvent[] = [...(entry.hitHistory ?? [])]
+    .filter((hit) => Number.isFinite(hit.timestamp))
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((hit) => {
+      const hitNumber = (hitNumbers.get(hit.deviceId) ?? 0) + 1;
+      hitNumbers.set(hit.deviceId, hitNumber);
+      return {
+        offsetMs: Math.max(0, hit.timestamp - startTime),
+        deviceId: hit.deviceId,
+        deviceName: names.get(hit.deviceId) ?? hit.deviceName ?? hit.deviceId,
+        hitNumber,
+      };
+    });
+
+  let markers: ReplayMarker[] = [];
+  if (entry.roundSplits && entry.roundSplits.length > 0) {
+    markers = entry.roundSplits.map((round) => ({
+      offsetMs: Math.max(0, round.completedAt - startTime),
+      label: `Round ${round.roundNumber}`,
+    }));
+  } else if (entry.splits && entry.splits.length > 0) {
+    markers = entry.splits
+      .filter((split) => typeof split.timestamp === 'number')
+      .map((split) => ({
+        offsetMs: Math.max(0, (split.timestamp as number) - startTime),
+        label: `Split ${split.splitNumber} (${split.time.toFixed(2)}s)`,
+      }));
+  }
+
+  const lastEventOffset = events.length > 0 ? events[events.length - 1].offsetMs : 0;
+  const sessionSpan = Math.max(0, entry.endTime - startTime);
+  for (const id of hitNumbers.keys()) {
+    if (!names.has(id)) {
+      names.set(id, id);
+    }
+  }
+
+  return {
+    durationMs: Math.max(sessionSpan, lastEventOffset),
+    events,
+    markers,
+    targets: [...names.entries()].map(([deviceId, deviceName]) => ({ deviceId, deviceName })),
+  };
+}
+
+// State of every target at a playback position.
+export function getReplayFrame(timeline: ReplayTimeline, positionMs: number): ReplayFrame {
+  const hitCounts: Record<string, number> = {};
+  const litDeviceIds = new Set<string>();
+  let lastEvent: ReplayHitEvent | null = null;
+  for (const event of timeline.events) {
+    if (event.offsetMs > positionMs) {
+      break;
+    }
+    hitCounts[event.deviceId] = event.hitNumber;
+    lastEvent = event;
+    if (positionMs - event.offsetMs <= REPLAY_HIT_FLASH_MS) {
+      litDeviceIds.add(event.deviceId);
+    }
+  }
+  return { hitCounts, litDeviceIds, lastEvent };
+}
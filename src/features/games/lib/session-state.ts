@@ -1,4 +1,5 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { countdownSecondsRemaining } from '@/domain/games/start-signal';
 
 export type SessionLifecycle = 'idle' | 'selecting' | 'launching' | 'running' | 'stopping' | 'finalizing';
 
@@ -15,6 +16,8 @@ export function useSessionTimer() {
   const [seconds, setSeconds] = useState(0);
   const tickerRef = useRef<NodeJS.Timeout | null>(null);
   const anchorRef = useRef<number | null>(null);
+  // Set while paused; the clock stays frozen at this instant until resumed.
+  const pausedAtRef = useRef<number | null>(null);
 
   const stopTicker = useCallback(() => {
     if (tickerRef.current) {
@@ -27,6 +30,7 @@ export function useSessionTimer() {
     (startTimestamp?: number | null) => {
       stopTicker();
       anchorRef.current = startTimestamp ?? null;
+      pausedAtRef.current = null;
       setSeconds(0);
     },
     [stopTicker],
@@ -36,6 +40,7 @@ export function useSessionTimer() {
     (startTimestamp: number) => {
       stopTicker();
       anchorRef.current = startTimestamp;
+      pausedAtRef.current = null;
       const update = () => {
         setSeconds(Math.max(0, Math.floor((Date.now() - startTimestamp) / 1000)));
       };
@@ -49,12 +54,36 @@ export function useSessionTimer() {
     (timestamp: number) => {
       stopTicker();
       if (anchorRef.current !== null) {
-        setSeconds(Math.max(0, Math.floor((timestamp - anchorRef.current) / 1000)));
+        const frozenAt = pausedAtRef.current ?? timestamp;
+        setSeconds(Math.max(0, Math.floor((frozenAt - anchorRef.current) / 1000)));
       }
     },
     [stopTicker],
   );
 
+  const pause = useCallback(
+    (timestamp: number) => {
+      if (anchorRef.current === null || pausedAtRef.current !== null) {
+        return;
+      }
+      freeze(timestamp);
+      pausedAtRef.current = timestamp;
+    },
+    [freeze],
+  );
+
+  // Moves the anchor forward by the paused time so the clock picks up where it froze.
+  const resume = useCallback(
+    (timestamp: number) => {
+      if (anchorRef.current === null || pausedAtRef.current === null) {
+        return;
+      }
+      const pausedMs = Math.max(0, timestamp - pausedAtRef.current);
+      start(anchorRef.current + pausedMs);
+    },
+    [start],
+  );
+
   useEffect(() => () => stopTicker(), [stopTicker]);
 
   return useMemo(
@@ -63,11 +92,60 @@ export function useSessionTimer() {
       reset,
       start,
       freeze,
+      pause,
+      resume,
     }),
-    [freeze, reset, seconds, start],
+    [freeze, pause, reset, resume, seconds, start],
   );
 }
 
+/**
+ * True while a shot-timer start is in standby, i.e. until `beepAt` passes.
+ * Pass null when the session starts on the command.
+ */
+export function useStartStandby(beepAt: number | null): boolean {
+  const [beepedAt, setBeepedAt] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (beepAt === null) {
+      return;
+    }
+    const timeout = setTimeout(() => setBeepedAt(beepAt), Math.max(0, beepAt - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [beepAt]);
+
+  return beepAt !== null && beepedAt !== beepAt;
+}
+
+/**
+ * Whole seconds left before a scheduled start, ticking down; null when there is
+ * no scheduled start or it has passed.
+ */
+export function useStartCountdown(startAt: number | null): number | null {
+  const [remaining, setRemaining] = useState<{ startAt: number; seconds: number } | null>(null);
+
+  useEffect(() => {
+    if (startAt === null) {
+      return;
+    }
+    const tick = () => {
+      const seconds = countdownSecondsRemaining(startAt, Date.now());
+      setRemaining({ startAt, seconds });
+      if (seconds === 0) {
+        clearInterval(interval);
+      }
+    };
+    const first = setTimeout(tick, 0);
+    const interval = setInterval(tick, 250);
+    return () => {
+      clearTimeout(first);
+      clearInterval(interval);
+    };
+  }, [startAt]);
+
+  return remaining !== null && remaining.startAt === startAt && remaining.seconds > 0 ? remaining.seconds : null;
+}
+
 export function formatSessionDuration(totalSeconds: number): string {
   if (!Number.isFinite(totalSeconds) || totalSeconds <= 0) {
     return '00:00';
@@ -2,7 +2,27 @@ import type { GameHistory, SessionHitRecord, SessionSplit, SessionTransition } f
 import type { LiveSessionSummary } from '@/features/games/ui/components/types';
 import type { NormalizedGameDevice } from '@/features/games/hooks/use-game-devices';
 import type { SplitRecord, TransitionRecord, RoundSplit } from '@/features/games/lib/telemetry-types';
-import { calculateSessionScore } from '@/domain/games/rules';
+import {
+  classifyCalloutHits,
+  evaluateCallouts,
+  getGameMode,
+  type GameModeCallout,
+  type GameModeConfig,
+  type GameModePenaltyValues,
+} from '@/domain/games/modes';
+import { scoreHeadToHead, type SquadRunContext } from '@/domain/games/squads';
+import { evaluateDrillProgress, type DrillStage } from '@/domain/games/drills';
+import { isBetterScore, isPersonalBestEligible } from '@/domain/games/personal-bests';
+import { calculateDrawTime, type StartDelay } from '@/domain/games/start-signal';
+import { resolveShotTotals, type ShotCountSource } from '@/domain/games/rules';
+import {
+  activeElapsedMs,
+  excludePausedSeconds,
+  isWithinPause,
+  toActiveTimestamp,
+  type PauseInterval,
+} from '@/domain/games/pauses';
+import type { GameModeId } from '@/domain/games/validators';
 import { logger } from '@/shared/lib/logger';
 
 export interface BuildLiveSessionSummaryArgs {
@@ -23,6 +43,39 @@ export interface BuildLiveSessionSummaryArgs {
   targetOrder?: string[];
   /** Round-based splits for multi-target sessions (from useDirectTbTelemetry) */
   roundSplits?: RoundSplit[];
+  /** Scoring mode the session ran under. Defaults to 'time-to-goal'. */
+  gameMode?: GameModeId | null;
+  /** Callouts issued during the session (callout modes only) */
+  callouts?: GameModeCallout[];
+  /** Callouts the drill required; null uses the mode default */
+  calloutCount?: number | null;
+  /** Par time per target in seconds (par-time mode) */
+  parTimesPerTarget?: Record<string, number>;
+  /** Per-target penalty overrides (par-time mode) */
+  penaltiesPerTarget?: Record<string, Partial<GameModePenaltyValues>>;
+  /** Squad the session was run for (relay or head-to-head) */
+  squad?: SquadRunContext | null;
+  /** Ordered stages of a staged drill */
+  drillStages?: DrillStage[];
+  /** Preset's personal best under the session's mode when it launched; null when it has none */
+  personalBestScore?: number | null;
+  /** Random start delay the session was started with; `startTime` is then the start beep */
+  startDelay?: StartDelay | null;
+  /** Shots fired reported by a shot counter during the session; null when nothing counted them */
+  shotsFired?: number | null;
+  /** Cease-fire pauses; paused time is left out of elapsed time, scoring and splits */
+  pauseIntervals?: PauseInterval[];
+}
+
+// Restricts per-target settings to the devices that took part in the session.
+function pickSessionEntries<T>(entries: Record<string, T>, deviceIdSet: Set<string>): Record<string, T> {
+  const picked: Record<string, T> = {};
+  for (const [id, value] of Object.entries(entries)) {
+    if (deviceIdSet.has(id)) {
+      picked[id] = value;
+    }
+  }
+  return picked;
 }
 
 export function convertHistoryEntryToLiveSummary(entry: GameHistory): LiveSessionSummary {
@@ -177,7 +230,20 @@ export function convertHistoryEntryToLiveSummary(entry: GameHistory): LiveSessio
       goalShotsPerTarget[id] = shots;
     }
   }
-  let scoreResult = calculateSessionScore(sortedHitHistory, goalShotsPerTarget, startTime);
+  const gameMode = getGameMode(entry.gameMode);
+  const shotCountSource: ShotCountSource = entry.shotCountSource ?? 'hits';
+  const shotTotals = resolveShotTotals(totalHits, shotCountSource === 'hits' ? null : entry.totalShots);
+  const modeConfig = {
+    targetIds: targets.map((t) => t.deviceId),
+    goalShotsPerTarget,
+    timeLimitSeconds: entry.desiredDurationSeconds ?? null,
+    callouts: entry.calloutResults ?? [],
+    calloutCount: entry.calloutCount ?? null,
+    parTimesPerTarget: entry.parTimesPerTarget,
+    penaltiesPerTarget: entry.penaltiesPerTarget,
+    shotsFired: shotCountSource === 'hits' ? null : shotTotals.totalShots,
+  };
+  let scoreResult = gameMode.score(sortedHitHistory, modeConfig, startTime);
 
   // Cross-check: if score says invalid but deviceResults/targetStats show all goals met,
   // the hitHistory deviceIds likely don't match goalShotsPerTarget keys.
@@ -203,9 +269,9 @@ export function convertHistoryEntryToLiveSummary(entry: GameHistory): LiveSessio
       const syntheticHitHistory = deviceStats.flatMap((stat) =>
         stat.hitTimes.map((ts) => ({ deviceId: stat.deviceId, timestamp: ts })),
       );
-      const retryResult = calculateSessionScore(
+      const retryResult = gameMode.score(
         syntheticHitHistory.sort((a, b) => a.timestamp - b.timestamp),
-        goalShotsPerTarget,
+        modeConfig,
         startTime,
       );
       if (retryResult.isValid) {
@@ -239,8 +305,16 @@ export function convertHistoryEntryToLiveSummary(entry: GameHistory): LiveSessio
       goalShotsPerTarget: entry.goalShotsPerTarget ?? undefined,
     },
     efficiencyScore, // deprecated, kept for backwards compatibility
+    gameMode: gameMode.id,
     score: scoreResult.score,
     isValid: scoreResult.isValid,
+    rawScore: scoreResult.rawScore ?? null,
+    penaltySeconds: scoreResult.penaltySeconds ?? 0,
+    penalties: scoreResult.penalties ?? [],
+    stageResults: entry.stageResults ?? [],
+    drawTimeSeconds: entry.drawTimeSeconds ?? null,
+    ...shotTotals,
+    shotCountSource,
   };
 }
 
@@ -260,19 +334,80 @@ export function buildLiveSessionSummary({
   presetId = null,
   goalShotsPerTarget = {},
   targetOrder,
-  roundSplits: inputRoundSplits = [],
+  roundSplits: rawRoundSplits = [],
+  gameMode: gameModeId = null,
+  callouts = [],
+  calloutCount = null,
+  parTimesPerTarget = {},
+  penaltiesPerTarget = {},
+  squad = null,
+  drillStages = [],
+  personalBestScore = null,
+  startDelay = null,
+  shotsFired = null,
+  pauseIntervals = [],
 }: BuildLiveSessionSummaryArgs): LiveSessionSummary {
   const safeStart = Number.isFinite(startTime) ? startTime : stopTime;
-  const durationMs = Math.max(0, stopTime - safeStart);
+  const durationMs = activeElapsedMs(safeStart, stopTime, pauseIntervals);
   const rawDurationSeconds = durationMs / 1000;
   const durationSeconds = Number(rawDurationSeconds.toFixed(2));
   const deviceMap = new Map(devices.map((device) => [device.deviceId, device]));
   const deviceIdSet = new Set(devices.map((device) => device.deviceId));
 
-  const sortedHits = [...hitHistory]
+  // After a random-delay start, hits during standby (before the beep) are early and dropped.
+  const filteredHits = [...hitHistory]
     .filter((hit) => deviceIdSet.size === 0 || deviceIdSet.has(hit.deviceId))
+    .filter((hit) => startDelay === null || hit.timestamp >= safeStart)
+    .filter((hit) => !isWithinPause(hit.timestamp, pauseIntervals))
     .sort((a, b) => a.timestamp - b.timestamp);
+  // Timing runs on the active clock: timestamps move back by the time paused before
+  // them, so a cease fire never counts against the shooter. Stored hits keep wall time.
+  const hasPauses = pauseIntervals.length > 0;
+  const toActive = (timestamp: number) => (hasPauses ? toActiveTimestamp(timestamp, pauseIntervals) : timestamp);
+  const activeStop = toActive(stopTime);
+  // Splits, transitions and rounds end at a hit; any pause inside one is taken out of its time.
+  const activeSeconds = (seconds: number, endTimestamp: unknown) =>
+    hasPauses && typeof endTimestamp === 'number' ? excludePausedSeconds(seconds, endTimestamp, pauseIntervals) : seconds;
+  const inputRoundSplits = hasPauses
+    ? rawRoundSplits.map((round) => ({
+        ...round,
+        roundTime: activeSeconds(round.roundTime, round.completedAt),
+        pairGap: activeSeconds(round.pairGap, round.completedAt),
+      }))
+    : rawRoundSplits;
+  const activeCallouts = hasPauses
+    ? callouts.map((callout) => ({
+        ...callout,
+        calledAt: toActive(callout.calledAt),
+        ...(typeof callout.expiredAt === 'number' ? { expiredAt: toActive(callout.expiredAt) } : {}),
+      }))
+    : callouts;
+  // Callout drills: tag each hit with its reaction time / wrong-target flag so
+  // per-hit rows (session_hits) carry them through persistence.
+  const calloutClassifications =
+    callouts.length > 0
+      ? classifyCalloutHits(
+          filteredHits.map((hit) => ({ ...hit, timestamp: toActive(hit.timestamp) })),
+          activeCallouts,
+        )
+      : [];
+  const sortedHits: SessionHitRecord[] =
+    calloutClassifications.length > 0
+      ? filteredHits.map((hit, index) => {
+          const { kind, reactionTimeMs } = calloutClassifications[index];
+          return {
+            ...hit,
+            reactionTimeMs,
+            hitType: kind === 'wrong-target' ? 'wrong_target' : 'hit',
+          };
+        })
+      : filteredHits;
+  const scoredHits = hasPauses
+    ? sortedHits.map((hit) => ({ ...hit, timestamp: toActive(hit.timestamp) }))
+    : sortedHits;
   const totalHits = sortedHits.length;
+  const shotTotals = resolveShotTotals(totalHits, shotsFired);
+  const shotCountSource: ShotCountSource = shotsFired === null ? 'hits' : 'shot-counter';
 
   // Filter goalShotsPerTarget to only include devices that are part of this session.
   // Presets may carry phantom goal keys for devices that were not selected.
@@ -283,12 +418,25 @@ export function buildLiveSessionSummary({
     }
   }
 
-  // Calculate time-based score using the new scoring system
-  // Score = time of last required hit (lower is better)
-  // A run is valid only if all required hits occur
-  const scoreResult = calculateSessionScore(sortedHits, filteredGoalShotsPerTarget, safeStart, {
+  const sessionParTimes = pickSessionEntries(parTimesPerTarget, deviceIdSet);
+  const sessionPenalties = pickSessionEntries(penaltiesPerTarget, deviceIdSet);
+
+  // Score through the session's game mode. The default 'time-to-goal' mode scores
+  // the time of the last required hit (lower is better); a run is valid only if all
+  // required hits occur.
+  const gameMode = getGameMode(gameModeId);
+  const modeConfig: GameModeConfig = {
+    targetIds: devices.map((device) => device.deviceId),
+    goalShotsPerTarget: filteredGoalShotsPerTarget,
     targetOrder,
-  });
+    timeLimitSeconds: desiredDurationSeconds,
+    callouts: activeCallouts,
+    calloutCount,
+    parTimesPerTarget: sessionParTimes,
+    penaltiesPerTarget: sessionPenalties,
+    shotsFired: shotsFired === null ? null : shotTotals.totalShots,
+  };
+  const scoreResult = gameMode.score(scoredHits, modeConfig, safeStart);
 
   if (!scoreResult.isValid && Object.keys(filteredGoalShotsPerTarget).length > 0) {
     const goalKeys = Object.keys(filteredGoalShotsPerTarget);
@@ -307,9 +455,9 @@ export function buildLiveSessionSummary({
   }
 
   // Keep legacy efficiencyScore for backwards compatibility (deprecated)
-  const firstHitTimestamp = sortedHits.length > 0 ? sortedHits[0].timestamp : safeStart;
-  const lastHitTimestamp = sortedHits.length > 0 ? sortedHits[sortedHits.length - 1].timestamp : firstHitTimestamp;
-  const totalSessionSpan = Math.max(1, stopTime - safeStart);
+  const firstHitTimestamp = scoredHits.length > 0 ? scoredHits[0].timestamp : safeStart;
+  const lastHitTimestamp = scoredHits.length > 0 ? scoredHits[scoredHits.length - 1].timestamp : firstHitTimestamp;
+  const totalSessionSpan = Math.max(1, activeStop - safeStart);
   const activeSpanRaw = lastHitTimestamp - firstHitTimestamp;
   const normalizedActiveSpan =
     totalHits < 2 || !Number.isFinite(activeSpanRaw) || activeSpanRaw <= 0 ? totalSessionSpan : activeSpanRaw;
@@ -317,7 +465,7 @@ export function buildLiveSessionSummary({
     totalHits > 0 ? Math.round((totalHits * (totalSessionSpan / Math.max(1, normalizedActiveSpan))) * 100) / 100 : 0;
 
   const deviceStats = devices.map((device) => {
-    const hitsForDevice = sortedHits.filter((hit) => hit.deviceId === device.deviceId);
+    const hitsForDevice = scoredHits.filter((hit) => hit.deviceId === device.deviceId);
     const hitTimes = hitsForDevice.map((hit) => hit.timestamp);
     const sortedHitTimes = [...hitTimes].sort((a, b) => a - b);
     const intervals = sortedHitTimes.slice(1).map((ts, idx) => (ts - sortedHitTimes[idx]) / 1000);
@@ -343,7 +491,7 @@ export function buildLiveSessionSummary({
   if (isMultiTarget) {
     // Prefer pre-computed roundSplits from the telemetry hook
     if (inputRoundSplits.length > 0) {
-      roundCompletionTimes = inputRoundSplits.map((r) => r.completedAt);
+      roundCompletionTimes = inputRoundSplits.map((r) => toActive(r.completedAt));
       console.log(
         `%c[SUMMARY] Multi-target: using ${inputRoundSplits.length} pre-computed roundSplits%c | roundTimes: [${inputRoundSplits.map((r) => r.roundTime.toFixed(3) + 's').join(', ')}] | pairGaps: [${inputRoundSplits.map((r) => r.pairGap.toFixed(3) + 's').join(', ')}]`,
         'color: #CE3E0A; font-weight: bold; font-size: 12px',
@@ -352,7 +500,7 @@ export function buildLiveSessionSummary({
     } else {
       // Fallback: compute from hitHistory
       const hitsByDevice = new Map<string, number[]>();
-      sortedHits.forEach((hit) => {
+      scoredHits.forEach((hit) => {
         const arr = hitsByDevice.get(hit.deviceId) ?? [];
         arr.push(hit.timestamp);
         hitsByDevice.set(hit.deviceId, arr);
@@ -387,7 +535,7 @@ export function buildLiveSessionSummary({
       'color: inherit',
     );
   } else {
-    const overallIntervals = sortedHits.slice(1).map((hit, idx) => (hit.timestamp - sortedHits[idx].timestamp) / 1000);
+    const overallIntervals = scoredHits.slice(1).map((hit, idx) => (hit.timestamp - scoredHits[idx].timestamp) / 1000);
     averageHitInterval = overallIntervals.length
       ? Number((overallIntervals.reduce((sum, value) => sum + value, 0) / overallIntervals.length).toFixed(2))
       : 0;
@@ -418,9 +566,9 @@ export function buildLiveSessionSummary({
     );
   } else {
     const switchTimes: number[] = [];
-    for (let i = 1; i < sortedHits.length; i++) {
-      if (sortedHits[i].deviceId !== sortedHits[i - 1].deviceId) {
-        const switchSpan = (sortedHits[i].timestamp - sortedHits[i - 1].timestamp) / 1000;
+    for (let i = 1; i < scoredHits.length; i++) {
+      if (scoredHits[i].deviceId !== scoredHits[i - 1].deviceId) {
+        const switchSpan = (scoredHits[i].timestamp - scoredHits[i - 1].timestamp) / 1000;
         switchTimes.push(Number(switchSpan.toFixed(2)));
       }
     }
@@ -440,11 +588,12 @@ export function buildLiveSessionSummary({
 
   const splits: SessionSplit[] = splitRecords
     .filter((split) => deviceIdSet.has(split.deviceId))
+    .filter((split) => typeof split.timestamp !== 'number' || !isWithinPause(split.timestamp, pauseIntervals))
     .map((split) => ({
       deviceId: split.deviceId,
       deviceName: split.deviceName ?? deviceMap.get(split.deviceId)?.name ?? split.deviceId,
       splitNumber: split.splitNumber,
-      time: typeof split.time === 'number' ? split.time : Number(split.time) || 0,
+      time: activeSeconds(typeof split.time === 'number' ? split.time : Number(split.time) || 0, split.timestamp),
       timestamp: typeof split.timestamp === 'number' ? split.timestamp : null,
     }))
     .sort((a, b) => a.splitNumber - b.splitNumber);
@@ -455,7 +604,10 @@ export function buildLiveSessionSummary({
       fromDevice: transition.fromDeviceName ?? transition.fromDevice,
       toDevice: transition.toDeviceName ?? transition.toDevice,
       transitionNumber: transition.transitionNumber,
-      time: typeof transition.time === 'number' ? transition.time : Number(transition.time) || 0,
+      time: activeSeconds(
+        typeof transition.time === 'number' ? transition.time : Number(transition.time) || 0,
+        transition.timestamp,
+      ),
     }))
     .sort((a, b) => a.transitionNumber - b.transitionNumber);
 
@@ -480,6 +632,8 @@ export function buildLiveSessionSummary({
       hitCount,
     })),
     totalHits,
+    ...shotTotals,
+    shotCountSource,
     actualDuration: durationSeconds,
     averageHitInterval,
     targetStats: deviceStats,
@@ -493,9 +647,63 @@ export function buildLiveSessionSummary({
       : null;
   historyEntry.desiredDurationSeconds = normalizedDesiredDuration;
   historyEntry.presetId = presetId ?? null;
+  historyEntry.gameMode = gameMode.id;
+  if (squad) {
+    historyEntry.squadId = squad.squadId;
+    historyEntry.squadFormat = squad.format;
+    historyEntry.shooter = squad.shooter;
+    if (squad.format === 'head-to-head') {
+      // Each shooter is scored on their own lane of the mirrored target sets.
+      const laneScores = scoreHeadToHead(scoredHits, modeConfig, safeStart, gameMode.id, squad.targetAssignments);
+      historyEntry.squadLanes = squad.shooters.map((shooter) => {
+        const lane = squad.targetAssignments[shooter.id] ?? [];
+        const laneSet = new Set(lane);
+        return {
+          shooter,
+          targetDeviceIds: lane,
+          score: laneScores[shooter.id]?.score ?? null,
+          isValid: laneScores[shooter.id]?.isValid ?? false,
+          totalHits: scoredHits.filter((hit) => laneSet.has(hit.deviceId)).length,
+        };
+      });
+    }
+  }
+  if (callouts.length > 0) {
+    historyEntry.calloutResults = evaluateCallouts(scoredHits, activeCallouts);
+    historyEntry.calloutCount = calloutCount;
+  }
+  if (Object.keys(sessionParTimes).length > 0) {
+    historyEntry.parTimesPerTarget = sessionParTimes;
+  }
+  if (Object.keys(sessionPenalties).length > 0) {
+    historyEntry.penaltiesPerTarget = sessionPenalties;
+  }
+  if (scoreResult.penalties) {
+    historyEntry.rawScore = scoreResult.rawScore ?? null;
+    historyEntry.penaltySeconds = scoreResult.penaltySeconds ?? 0;
+    historyEntry.penalties = scoreResult.penalties;
+  }
   if (Object.keys(filteredGoalShotsPerTarget).length > 0) {
     historyEntry.goalShotsPerTarget = filteredGoalShotsPerTarget;
   }
+  if (drillStages.length > 0) {
+    // Stages still running at stop time stay 'active' with no time.
+    historyEntry.drillStages = drillStages;
+    historyEntry.stageResults = evaluateDrillProgress(scoredHits, drillStages, safeStart, activeStop).stages;
+  }
+  historyEntry.drawTimeSeconds = calculateDrawTime(scoredHits, safeStart);
+  if (startDelay) {
+    historyEntry.startDelay = startDelay;
+  }
+  if (hasPauses) {
+    historyEntry.pauseIntervals = pauseIntervals;
+  }
+  historyEntry.isValid = scoreResult.isValid;
+  if (isPersonalBestEligible(historyEntry)) {
+    historyEntry.previousBestScore = personalBestScore;
+    historyEntry.isPersonalBest =
+      personalBestScore === null || isBetterScore(historyEntry.score as number, personalBestScore, gameMode.id);
+  }
   historyEntry.targetDeviceIds = targets.map((target) => target.deviceId);
   historyEntry.targetDeviceNames = targets.map((target) => target.deviceName);
   historyEntry.splits = splits;
@@ -526,7 +734,46 @@ export function buildLiveSessionSummary({
     presetId: historyEntry.presetId ?? null,
     historyEntry,
     efficiencyScore, // deprecated, kept for backwards compatibility
+    gameMode: gameMode.id,
     score: scoreResult.score,
     isValid: scoreResult.isValid,
+    rawScore: scoreResult.rawScore ?? null,
+    penaltySeconds: scoreResult.penaltySeconds ?? 0,
+    penalties: scoreResult.penalties ?? [],
+    stageResults: historyEntry.stageResults ?? [],
+    drawTimeSeconds: historyEntry.drawTimeSeconds ?? null,
+    ...shotTotals,
+    shotCountSource,
   };
 }
+
+// Re-scores a finished session once its shots fired are entered by hand after the session.
+export function applyManualShotCount(entry: GameHistory, shotsFired: number): LiveSessionSummary {
+  const summary = convertHistoryEntryToLiveSummary({
+    ...entry,
+    totalShots: shotsFired,
+    shotCountSource: 'manual',
+  });
+  const historyEntry: GameHistory = {
+    ...summary.historyEntry,
+    totalShots: summary.totalShots,
+    missCount: summary.missCount,
+    accuracy: summary.accuracy,
+    shotCountSource: summary.shotCountSource,
+    score: summary.score ?? summary.historyEntry.score,
+    isValid: summary.isValid,
+  };
+  if (summary.penalties.length > 0 || entry.penalties) {
+    historyEntry.rawScore = summary.rawScore;
+    historyEntry.penaltySeconds = summary.penaltySeconds;
+    historyEntry.penalties = summary.penalties;
+  }
+  // Missed-shot penalties can cost a personal best set on the hits alone.
+  if (isPersonalBestEligible(historyEntry) && entry.previousBestScore !== undefined) {
+    const previousBest = entry.previousBestScore;
+    historyEntry.isPersonalBest =
+      previousBest === null ||
+      isBetterScore(historyEntry.score as number, previousBest, historyEntry.gameMode);
+  }
+  return { ...summary, historyEntry };
+}
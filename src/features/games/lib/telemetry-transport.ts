@@ -0,0 +1,354 @@
+import { fetchTargetDetails, openTelemetryStream } from '@/lib/edge';
+import {
+  GAME_TELEMETRY_REALTIME,
+  TELEMETRY_POLLING_DEFAULTS,
+  TELEMETRY_SLA_MS,
+  resolveIntervalWithBackoff,
+} from '@/config/telemetry';
+
+export interface TelemetryEnvelope {
+  subscriptionId?: number;
+  entityId?: string;
+  data?: Record<string, unknown>;
+}
+
+export type TelemetryCallback = (message: TelemetryEnvelope) => void;
+
+export type TelemetryTransportKind = 'websocket' | 'sse' | 'polling';
+
+export interface TelemetryTransportHealth {
+  kind: TelemetryTransportKind;
+  connected: boolean;
+  /** Smoothed delay between a value's telemetry timestamp and its arrival; null until fresh telemetry arrives */
+  latencyMs: number | null;
+  lastMessageAt: number | null;
+  errorCount: number;
+}
+
+export interface TelemetryTransportHandlers {
+  onMessage: TelemetryCallback;
+  onError?: (reason: unknown) => void;
+  onAuthError?: () => void;
+  /** The transport cannot deliver telemetry; the caller moves on to another one */
+  onDown?: (reason: unknown) => void;
+}
+
+/**
+ * One way of receiving live target telemetry. `subscribeToGameTelemetry`
+ * picks between transports and switches when one fails or runs slow.
+ */
+export interface TelemetryTransport {
+  readonly kind: TelemetryTransportKind;
+  subscribe: (deviceIds: string[], handlers: TelemetryTransportHandlers) => void;
+  unsubscribe: () => void;
+  health: () => TelemetryTransportHealth;
+}
+
+// Weight of the newest sample in the smoothed latency
+const LATENCY_SMOOTHING = 0.3;
+// Consecutive failed stream connections before the SSE transport gives up
+const SSE_MAX_CONNECT_FAILURES = 3;
+
+/**
+ * Newest telemetry timestamp in a payload. Handles both the `[ts, value]`
+ * pairs of the ThingsBoard WebSocket and the `{ ts, value }` entries of REST.
+ */
+export const newestTelemetryTimestamp = (data: Record<string, unknown> | undefined): number | null => {
+  let newest: number | null = null;
+  Object.values(data ?? {}).forEach((series) => {
+    if (!Array.isArray(series)) {
+      return;
+    }
+    series.forEach((entry) => {
+      const ts = Array.isArray(entry)
+        ? entry[0]
+        : entry && typeof entry === 'object'
+          ? (entry as { ts?: unknown }).ts
+          : undefined;
+      if (typeof ts === 'number' && Number.isFinite(ts) && (newest === null || ts > newest)) {
+        newest = ts;
+      }
+    });
+  });
+  return newest;
+};
+
+/**
+ * Tracks a transport's health. Latency is sampled only from values newer than
+ * the last one seen for the device (or than the subscription), so cached
+ * snapshots and repeated polls do not count as slow deliveries.
+ */
+export const createTransportHealthTracker = (kind: TelemetryTransportKind) => {
+  let connected = false;
+  let latencyMs: number | null = null;
+  let lastMessageAt: number | null = null;
+  let errorCount = 0;
+  let subscribedAt = Date.now();
+  const lastTimestampByDevice = new Map<string, number>();
+
+  return {
+    reset: () => {
+      connected = false;
+      latencyMs = null;
+      lastMessageAt = null;
+      errorCount = 0;
+      subscribedAt = Date.now();
+      lastTimestampByDevice.clear();
+    },
+    markConnected: (value: boolean) => {
+      connected = value;
+    },
+    recordError: () => {
+      errorCount += 1;
+    },
+    recordMessage: (envelope: TelemetryEnvelope, receivedAt: number = Date.now()) => {
+      lastMessageAt = receivedAt;
+      const newest = newestTelemetryTimestamp(envelope.data);
+      const deviceKey = envelope.entityId ?? '';
+      if (newest === null || newest <= (lastTimestampByDevice.get(deviceKey) ?? subscribedAt)) {
+        return;
+      }
+      lastTimestampByDevice.set(deviceKey, newest);
+      const sample = Math.max(0, receivedAt - newest);
+      latencyMs = latencyMs === null ? sample : Math.round(latencyMs + LATENCY_SMOOTHING * (sample - latencyMs));
+    },
+    snapshot: (): TelemetryTransportHealth => ({ kind, connected, latencyMs, lastMessageAt, errorCount }),
+  };
+};
+
+/**
+ * Picks the transport to use. Candidates are tried in preference order; one
+ * measured over the SLA is passed over, and when every candidate has been
+ * measured over it the fastest of them is kept. Returns null when none is left.
+ */
+export const selectTelemetryTransport = (
+  candidates: TelemetryTransportKind[],
+  measuredLatencyMs: Partial<Record<TelemetryTransportKind, number>>,
+  unavailable: ReadonlySet<TelemetryTransportKind>,
+  slaMs: number = TELEMETRY_SLA_MS.liveGame,
+): TelemetryTransportKind | null => {
+  const available = candidates.filter((kind) => !unavailable.has(kind));
+  const withinSla = available.find((kind) => {
+    const measured = measuredLatencyMs[kind];
+    return measured === undefined || measured <= slaMs;
+  });
+  if (withinSla) {
+    return withinSla;
+  }
+  return available.reduce<TelemetryTransportKind | null>(
+    (fastest, kind) =>
+      fastest === null || (measuredLatencyMs[kind] ?? Infinity) < (measuredLatencyMs[fastest] ?? Infinity) ? kind : fastest,
+    null,
+  );
+};
+
+// Polls target-details on an interval, backing off on errors. Never reports itself down.
+export const createPollingTransport = (options: { pollIntervalMs: number; keys: string[] }): TelemetryTransport => {
+  const tracker = createTransportHealthTracker('polling');
+  let pollingTimer: number | null = null;
+  let closed = true;
+  let consecutivePollErrors = 0;
+
+  const unsubscribe = () => {
+    closed = true;
+    if (pollingTimer !== null) {
+      clearTimeout(pollingTimer);
+      pollingTimer = null;
+    }
+    tracker.markConnected(false);
+  };
+
+  const subscribe = (deviceIds: string[], { onMessage, onError }: TelemetryTransportHandlers) => {
+    unsubscribe();
+    closed = false;
+    consecutivePollErrors = 0;
+    tracker.reset();
+
+    const executePoll = async () => {
+      if (closed) {
+        return;
+      }
+
+      const cycleStart = performance.now();
+
+      try {
+        const { details } = await fetchTargetDetails(deviceIds, {
+          includeHistory: false,
+          telemetryKeys: options.keys,
+        });
+        if (closed) {
+          return;
+        }
+
+        tracker.markConnected(true);
+        details.forEach((detail) => {
+          const envelope = { entityId: detail.deviceId, data: detail.telemetry };
+          tracker.recordMessage(envelope);
+          onMessage(envelope);
+        });
+
+        consecutivePollErrors = 0;
+      } catch (error) {
+        consecutivePollErrors = Math.min(
+          TELEMETRY_POLLING_DEFAULTS.maxRetry,
+          consecutivePollErrors + 1,
+        );
+        tracker.recordError();
+        console.warn('[GameTelemetry] Polling failed, applying backoff', error);
+        onError?.(error);
+      }
+
+      const duration = performance.now() - cycleStart;
+      if (duration > TELEMETRY_POLLING_DEFAULTS.slowResponseWarningMs) {
+        console.warn('[GameTelemetry] Polling cycle exceeded SLA', {
+          durationMs: Math.round(duration),
+          slowdownThresholdMs: TELEMETRY_POLLING_DEFAULTS.slowResponseWarningMs,
+        });
+      }
+
+      if (!closed) {
+        const nextInterval = resolveIntervalWithBackoff(options.pollIntervalMs, consecutivePollErrors);
+        pollingTimer = setTimeout(executePoll, nextInterval) as unknown as number;
+      }
+    };
+
+    pollingTimer = setTimeout(executePoll, 0) as unknown as number;
+  };
+
+  return { kind: 'polling', subscribe, unsubscribe, health: tracker.snapshot };
+};
+
+// Splits a text/event-stream body into events and hands each one over as it completes.
+const readEventStream = async (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: string) => void,
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) {
+      return;
+    }
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      const dataLines: string[] = [];
+      block.split('\n').forEach((line) => {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).trimStart());
+        }
+      });
+      if (dataLines.length > 0) {
+        onEvent(event, dataLines.join('\n'));
+      }
+    }
+  }
+};
+
+/**
+ * Streams telemetry from the telemetry-stream edge function over Server-Sent
+ * Events. The function relays ThingsBoard from inside the backend, which keeps
+ * working where browsers cannot reach ThingsBoard's WebSocket. The stream is
+ * reopened whenever the function ends it.
+ */
+export const createSseTransport = (options: { keys: string[] }): TelemetryTransport => {
+  const tracker = createTransportHealthTracker('sse');
+  let controller: AbortController | null = null;
+  let reconnectTimer: number | null = null;
+  let closed = true;
+  let connectFailures = 0;
+
+  const unsubscribe = () => {
+    closed = true;
+    if (reconnectTimer !== null) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    controller?.abort();
+    controller = null;
+    tracker.markConnected(false);
+  };
+
+  const subscribe = (deviceIds: string[], { onMessage, onError, onDown }: TelemetryTransportHandlers) => {
+    unsubscribe();
+    closed = false;
+    connectFailures = 0;
+    tracker.reset();
+
+    const handleEvent = (event: string, data: string) => {
+      try {
+        if (event === 'telemetry') {
+          const records = JSON.parse(data) as Array<{ deviceId?: string; telemetry?: Record<string, unknown> }>;
+          (Array.isArray(records) ? records : []).forEach((record) => {
+            if (!record?.deviceId) {
+              return;
+            }
+            const envelope = { entityId: record.deviceId, data: record.telemetry ?? {} };
+            tracker.recordMessage(envelope);
+            onMessage(envelope);
+          });
+        } else if (event === 'error') {
+          const payload = JSON.parse(data) as { message?: string };
+          console.warn('[GameTelemetry] Telemetry stream error', payload);
+          tracker.recordError();
+          onError?.(payload.message ?? 'Telemetry stream error');
+        }
+      } catch (error) {
+        console.error('[GameTelemetry] Failed to parse telemetry stream event', error);
+        onError?.(error);
+      }
+    };
+
+    const connect = async () => {
+      reconnectTimer = null;
+      const activeController = new AbortController();
+      controller = activeController;
+      const openTimer = window.setTimeout(() => activeController.abort(), GAME_TELEMETRY_REALTIME.fallbackGraceMs);
+
+      try {
+        const response = await openTelemetryStream(deviceIds, options.keys, activeController.signal);
+        window.clearTimeout(openTimer);
+        connectFailures = 0;
+        tracker.markConnected(true);
+        await readEventStream(response.body as ReadableStream<Uint8Array>, handleEvent);
+      } catch (error) {
+        window.clearTimeout(openTimer);
+        if (closed) {
+          return;
+        }
+        connectFailures += 1;
+        tracker.recordError();
+        console.warn('[GameTelemetry] Telemetry stream connection failed', error);
+        onError?.(error);
+        if (connectFailures >= SSE_MAX_CONNECT_FAILURES) {
+          tracker.markConnected(false);
+          onDown?.(error);
+          return;
+        }
+      }
+
+      tracker.markConnected(false);
+      if (!closed) {
+        reconnectTimer = setTimeout(
+          () => void connect(),
+          connectFailures * GAME_TELEMETRY_REALTIME.sampleIntervalMs,
+        ) as unknown as number;
+      }
+    };
+
+    void connect();
+  };
+
+  return { kind: 'sse', subscribe, unsubscribe, health: tracker.snapshot };
+};
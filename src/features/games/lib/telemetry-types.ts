@@ -39,4 +39,21 @@ export interface FinalizeSessionArgs {
   desiredDurationSeconds: number | null;
   presetId: string | null;
   goalShotsPerTarget?: Record<string, number>;
+  /** Required engagement order of an order-enforced session */
+  targetOrder?: string[];
+  gameMode?: import('@/domain/games/validators').GameModeId | null;
+  callouts?: import('@/domain/games/modes').GameModeCallout[];
+  /** Callouts the drill required; null or missing uses the mode default */
+  calloutCount?: number | null;
+  parTimesPerTarget?: Record<string, number>;
+  penaltiesPerTarget?: Record<string, Partial<import('@/domain/games/modes').GameModePenaltyValues>>;
+  drillStages?: import('@/domain/games/drills').DrillStage[];
+  startDelay?: import('@/domain/games/start-signal').StartDelay | null;
+  qualificationStandard?: import('@/domain/games/qualifications').QualificationStandard | null;
+  /** Shots fired reported by shot counters, null when none reported */
+  shotsFired?: number | null;
+  personalBestScore?: number | null;
+  squad?: import('@/domain/games/squads').SquadRunContext | null;
+  /** Cease-fire pauses, all closed by the stop */
+  pauseIntervals?: import('@/domain/games/pauses').PauseInterval[];
 }
@@ -1,6 +1,9 @@
 import type { GamePreset } from '@/features/games';
 import type { Target } from '@/features/targets/schema';
 import { formatSessionDuration } from '@/features/games/lib/session-state';
+import type { DrillStage } from '@/domain/games/drills';
+import { validateStartDelay, type StartDelay } from '@/domain/games/start-signal';
+import { validateQualificationStandard, type QualificationStandard } from '@/domain/games/qualifications';
 
 type AxiosErrorLike = {
   isAxiosError?: boolean;
@@ -134,3 +137,54 @@ export const resolvePresetDurationSeconds = (preset: GamePreset): number | null
   }
   return null;
 };
+
+// Keeps only the per-target preset entries for targets that are part of the session.
+export const pickTargetEntries = <T>(value: unknown, targetIds: string[]): Record<string, T> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {};
+  }
+  const source = value as Record<string, T>;
+  const picked: Record<string, T> = {};
+  for (const id of targetIds) {
+    if (id in source) {
+      picked[id] = source[id];
+    }
+  }
+  return picked;
+};
+
+// Restores a preset's drill stages when every stage target is part of the session;
+// a drill missing any of its targets cannot be run as designed, so it is dropped.
+export const pickDrillStages = (value: unknown, targetIds: string[]): DrillStage[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const available = new Set(targetIds);
+  const stages = value as DrillStage[];
+  const isRunnable = stages.every(
+    (stage) => Array.isArray(stage?.steps) && stage.steps.every((step) => available.has(step.deviceId)),
+  );
+  return isRunnable ? stages : [];
+};
+
+// Restores a stored random start delay; anything malformed or out of range starts on the command.
+export const pickStartDelay = (value: unknown): StartDelay | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+  const { minSeconds, maxSeconds } = value as Partial<StartDelay>;
+  if (typeof minSeconds !== 'number' || typeof maxSeconds !== 'number') {
+    return null;
+  }
+  const delay = { minSeconds, maxSeconds };
+  return validateStartDelay(delay).valid ? delay : null;
+};
+
+// Restores a stored qualification course; one that no longer validates is dropped.
+export const pickQualificationStandard = (value: unknown): QualificationStandard | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+  const standard = value as QualificationStandard;
+  return typeof standard.id === 'string' && validateQualificationStandard(standard).valid ? standard : null;
+};
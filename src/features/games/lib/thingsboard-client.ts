@@ -11,7 +11,7 @@ import { logger } from '@/shared/lib/logger';
  */
 
 const DEFAULT_THINGSBOARD_URL = 'https://thingsboard.cloud';
-const DEFAULT_POLLING_TELEMETRY_KEYS = ['hits', 'hit_ts', 'beep_ts', 'gameStatus', 'event', 'gameId'];
+const DEFAULT_POLLING_TELEMETRY_KEYS = ['hits', 'hit_ts', 'beep_ts', 'gameStatus', 'event', 'gameId', 'shots'];
 type TimeoutHandle = ReturnType<typeof setTimeout>;
 
 /**
@@ -520,10 +520,14 @@ const buildWebSocketUrl = (token: string): string => {
   return url.toString();
 };
 
+export type TelemetryTransportMode = 'websocket' | 'polling';
+
 export interface SubscribeOptions {
   realtime?: boolean;
   pollIntervalMs?: number;
   onError?: (reason: unknown) => void;
+  /** Called when the WebSocket opens and when telemetry falls back to polling */
+  onTransportChange?: (mode: TelemetryTransportMode) => void;
 }
 
 export const subscribeToDeviceTelemetry = (
@@ -536,7 +540,7 @@ export const subscribeToDeviceTelemetry = (
     return () => undefined;
   }
 
-  const { realtime = true, pollIntervalMs = 5000, onError } = options;
+  const { realtime = true, pollIntervalMs = 5000, onError, onTransportChange } = options;
   let pollingFallbackActivated = false;
   const state: SubscriptionState = {
     websocket: null,
@@ -577,6 +581,7 @@ export const subscribeToDeviceTelemetry = (
   };
 
   if (!realtime) {
+    onTransportChange?.('polling');
     schedulePoll(0);
     return () => {
       state.closed = true;
@@ -593,6 +598,7 @@ export const subscribeToDeviceTelemetry = (
     }
     pollingFallbackActivated = true;
     onError?.(reason);
+    onTransportChange?.('polling');
     schedulePoll(0);
   };
 
@@ -606,6 +612,7 @@ export const subscribeToDeviceTelemetry = (
         websocket.close();
         return;
       }
+      onTransportChange?.('websocket');
       const subscription = {
         tsSubCmds: deviceIds.map((deviceId, index) => {
           const cmdId = index + 1;
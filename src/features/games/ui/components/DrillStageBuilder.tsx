@@ -0,0 +1,226 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+import { DRILL_CONSTRAINTS, getDrillStageLabel, type DrillStage } from '@/domain/games/drills';
+import type { DrillStageTimeoutAction } from '@/domain/games/validators';
+
+const TIMEOUT_ACTION_LABELS: Record<DrillStageTimeoutAction, string> = {
+  advance: 'Move to next stage',
+  end: 'End the drill',
+};
+
+export type DrillStageBuilderProps = {
+  drillStages: DrillStage[];
+  onDrillStagesChange: (stages: DrillStage[]) => void;
+  targets: Array<{ deviceId: string; name: string }>;
+  isSessionLocked: boolean;
+  drillViolation: string | null;
+};
+
+const createStage = (deviceId: string): DrillStage => ({
+  id: crypto.randomUUID(),
+  steps: [{ deviceId, hits: 1 }],
+  timeLimitSeconds: null,
+  startBeep: false,
+  onTimeout: 'advance',
+});
+
+// Ordered drill stages ("2 on T1, then 1 each on T2-T4, ..."), each with an optional
+// time limit, start beep and timeout action. Leaving it empty runs a plain session.
+export const DrillStageBuilder: React.FC<DrillStageBuilderProps> = ({
+  drillStages,
+  onDrillStagesChange,
+  targets,
+  isSessionLocked,
+  drillViolation,
+}) => {
+  const updateStage = (index: number, patch: Partial<DrillStage>) => {
+    onDrillStagesChange(drillStages.map((stage, i) => (i === index ? { ...stage, ...patch } : stage)));
+  };
+
+  const addStage = () => {
+    if (targets.length === 0 || drillStages.length >= DRILL_CONSTRAINTS.MAX_STAGES) {
+      return;
+    }
+    onDrillStagesChange([...drillStages, createStage(targets[0].deviceId)]);
+  };
+
+  const addStep = (index: number) => {
+    const stage = drillStages[index];
+    const used = new Set(stage.steps.map((step) => step.deviceId));
+    const nextTarget = targets.find((target) => !used.has(target.deviceId));
+    if (!nextTarget || stage.steps.length >= DRILL_CONSTRAINTS.MAX_STEPS_PER_STAGE) {
+      return;
+    }
+    updateStage(index, { steps: [...stage.steps, { deviceId: nextTarget.deviceId, hits: 1 }] });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-label text-brand-secondary font-body uppercase tracking-wide">
+          Drill Stages (optional)
+        </p>
+        <Button variant="ghost" size="sm" className="h-7 px-3 text-xs text-brand-primary" onClick={addStage}
+          disabled={isSessionLocked || targets.length === 0 || drillStages.length >= DRILL_CONSTRAINTS.MAX_STAGES}>
+          <Plus className="h-3.5 w-3.5" />
+          Add stage
+        </Button>
+      </div>
+      {drillStages.length > 0 && (
+        <p className="text-[11px] text-brand-dark/40 font-body">
+          Stages run in order. Per-target goal shots are replaced by the stage hits.
+        </p>
+      )}
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        {drillStages.map((stage, index) => (
+          <div key={stage.id} className="rounded-[var(--radius)] bg-brand-primary/5 px-3 py-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-medium text-brand-dark/40 font-body tabular-nums">{index + 1}.</span>
+              <Input
+                value={stage.label ?? ''}
+                onChange={(e) => updateStage(index, { label: e.target.value })}
+                maxLength={DRILL_CONSTRAINTS.STAGE_LABEL_MAX_LENGTH}
+                placeholder={getDrillStageLabel({ label: null }, index)}
+                disabled={isSessionLocked}
+                className="h-7 text-xs"
+              />
+              <button
+                type="button"
+                onClick={() => onDrillStagesChange(drillStages.filter((_, i) => i !== index))}
+                disabled={isSessionLocked}
+                className="rounded-full p-0.5 text-brand-dark/40 hover:text-brand-primary"
+                aria-label={`Remove ${getDrillStageLabel(stage, index)}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+
+            {stage.steps.map((step, stepIndex) => (
+              <div key={`${stage.id}-${step.deviceId}`} className="flex items-center gap-2">
+                <Select
+                  value={step.deviceId}
+                  onValueChange={(deviceId) =>
+                    updateStage(index, {
+                      steps: stage.steps.map((s, i) => (i === stepIndex ? { ...s, deviceId } : s)),
+                    })
+                  }
+                  disabled={isSessionLocked}
+                >
+                  <SelectTrigger className="h-7 flex-1 bg-white border border-[rgba(28,25,43,0.1)] rounded-[var(--radius)] text-brand-dark text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-white shadow-lg border-0">
+                    {targets
+                      .filter((target) => target.deviceId === step.deviceId || !stage.steps.some((s) => s.deviceId === target.deviceId))
+                      .map((target) => (
+                        <SelectItem key={target.deviceId} value={target.deviceId}>
+                          <span className="text-xs font-body">{target.name}</span>
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={step.hits}
+                  onChange={(e) => {
+                    const hits = parseInt(e.target.value, 10);
+                    if (!isNaN(hits) && hits > 0) {
+                      updateStage(index, {
+                        steps: stage.steps.map((s, i) => (i === stepIndex ? { ...s, hits } : s)),
+                      });
+                    }
+                  }}
+                  disabled={isSessionLocked}
+                  aria-label="Hits"
+                  className="h-7 w-16 text-xs"
+                />
+                <span className="text-[11px] text-brand-dark/50 font-body">hits</span>
+                <button
+                  type="button"
+                  onClick={() => updateStage(index, { steps: stage.steps.filter((_, i) => i !== stepIndex) })}
+                  disabled={isSessionLocked || stage.steps.length === 1}
+                  className="rounded-full p-0.5 text-brand-dark/40 hover:text-brand-primary disabled:opacity-30"
+                  aria-label="Remove target from stage"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-[11px] text-brand-primary" onClick={() => addStep(index)}
+              disabled={isSessionLocked || stage.steps.length >= Math.min(targets.length, DRILL_CONSTRAINTS.MAX_STEPS_PER_STAGE)}>
+              <Plus className="h-3 w-3" />
+              Add target
+            </Button>
+
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-2">
+              <div className="flex items-center gap-1.5">
+                <Label htmlFor={`stage-limit-${stage.id}`} className="text-[11px] text-brand-dark/70 font-body whitespace-nowrap">
+                  Time limit (s)
+                </Label>
+                <Input
+                  id={`stage-limit-${stage.id}`}
+                  type="number"
+                  min={DRILL_CONSTRAINTS.MIN_STAGE_TIME_LIMIT_SECONDS}
+                  max={DRILL_CONSTRAINTS.MAX_STAGE_TIME_LIMIT_SECONDS}
+                  step="0.5"
+                  value={stage.timeLimitSeconds ?? ''}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    const seconds = parseFloat(value);
+                    if (value === '') {
+                      updateStage(index, { timeLimitSeconds: null });
+                    } else if (!isNaN(seconds) && seconds > 0) {
+                      updateStage(index, { timeLimitSeconds: seconds });
+                    }
+                  }}
+                  disabled={isSessionLocked}
+                  placeholder="—"
+                  className="h-7 w-16 text-xs"
+                />
+              </div>
+              {stage.timeLimitSeconds !== null && (
+                <Select
+                  value={stage.onTimeout}
+                  onValueChange={(value) => updateStage(index, { onTimeout: value as DrillStageTimeoutAction })}
+                  disabled={isSessionLocked}
+                >
+                  <SelectTrigger className="h-7 w-auto bg-white border border-[rgba(28,25,43,0.1)] rounded-[var(--radius)] text-brand-dark text-[11px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-white shadow-lg border-0">
+                    {(Object.keys(TIMEOUT_ACTION_LABELS) as DrillStageTimeoutAction[]).map((action) => (
+                      <SelectItem key={action} value={action}>
+                        <span className="text-xs font-body">On timeout: {TIMEOUT_ACTION_LABELS[action]}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <div className="flex items-center gap-1.5">
+                <Switch
+                  id={`stage-beep-${stage.id}`}
+                  checked={stage.startBeep}
+                  onCheckedChange={(checked) => updateStage(index, { startBeep: checked })}
+                  disabled={isSessionLocked}
+                />
+                <Label htmlFor={`stage-beep-${stage.id}`} className="text-[11px] text-brand-dark/70 font-body">
+                  Start beep
+                </Label>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+      {drillViolation && (
+        <p className="text-xs text-red-600 font-body">{drillViolation}</p>
+      )}
+    </div>
+  );
+};
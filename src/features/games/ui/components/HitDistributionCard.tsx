@@ -3,6 +3,7 @@ import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { motion } from 'framer-motion';
 import { CHART_COLORS } from '@/shared/constants/chart-colors';
+import { HIT_ZONES, countZonedHits, type HitZone, type HitZoneDistribution } from '@/domain/games/hit-zones';
 
 // ─── Count-up hook ──────────────────────────────────────────────────────────
 
@@ -46,8 +47,60 @@ interface HitDistributionCardProps {
   totalHits: number;
   deviceHitSummary: Array<{ deviceId: string; deviceName: string; hits: number }>;
   pieChartData: Array<{ name: string; value: number }>;
+  /** Hits per scoring zone; the zone bar is hidden until zoned targets report hits */
+  zoneCounts?: HitZoneDistribution | null;
 }
 
+const ZONE_COLORS: Record<HitZone, string> = {
+  A: CHART_COLORS[0],
+  C: CHART_COLORS[1],
+  D: CHART_COLORS[2],
+};
+
+/**
+ * Share of zoned hits landing in each scoring zone, as one stacked bar.
+ */
+const ZoneDistributionBar: React.FC<{ zoneCounts: HitZoneDistribution }> = ({ zoneCounts }) => {
+  const zonedHits = countZonedHits(zoneCounts);
+  const share = (zone: HitZone) => (zoneCounts[zone] / zonedHits) * 100;
+
+  return (
+    <div className="w-full space-y-2 pt-3 border-t border-brand-dark/[0.06]">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-brand-dark/40 font-body uppercase tracking-wide">Zones</span>
+        {zoneCounts.unzoned > 0 && (
+          <span className="text-[10px] text-brand-dark/40 font-body">
+            {`${zoneCounts.unzoned.toLocaleString()} without zone`}
+          </span>
+        )}
+      </div>
+      <div className="flex h-2 w-full overflow-hidden rounded-full bg-brand-dark/[0.06]">
+        {HIT_ZONES.map((zone, i) => (
+          <motion.div
+            key={zone}
+            className="h-full"
+            style={{ backgroundColor: ZONE_COLORS[zone] }}
+            initial={{ width: 0 }}
+            animate={{ width: `${share(zone)}%` }}
+            transition={{ duration: 0.8, ease: 'easeOut', delay: 0.6 + i * 0.1 }}
+          />
+        ))}
+      </div>
+      <div className="flex items-center justify-between">
+        {HIT_ZONES.map((zone) => (
+          <div key={zone} className="flex items-center gap-1.5">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ZONE_COLORS[zone] }} />
+            <span className="text-xs font-body text-brand-dark/70">{zone}</span>
+            <span className="text-xs font-bold font-body tabular-nums text-brand-dark">
+              {`${Math.round(share(zone))}%`}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 /**
  * A single concentric arc — SVG circle with animated strokeDashoffset.
  * Each device gets its own ring at a different radius.
@@ -98,10 +151,11 @@ const ConcentricArc: React.FC<{
   );
 };
 
-// Visualizes hit distribution across devices via concentric ring chart.
+// Visualizes hit distribution across devices via concentric ring chart, and across scoring zones when reported.
 export const HitDistributionCard: React.FC<HitDistributionCardProps> = ({
   totalHits,
   deviceHitSummary,
+  zoneCounts = null,
 }) => {
   const hasHits = deviceHitSummary.length > 0;
   const devices = deviceHitSummary.slice(0, 4);
@@ -231,6 +285,8 @@ export const HitDistributionCard: React.FC<HitDistributionCardProps> = ({
                 </motion.div>
               ))}
             </motion.div>
+
+            {zoneCounts && countZonedHits(zoneCounts) > 0 && <ZoneDistributionBar zoneCounts={zoneCounts} />}
           </div>
         )}
       </CardContent>
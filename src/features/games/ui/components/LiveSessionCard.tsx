@@ -4,7 +4,13 @@ import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import type { NormalizedGameDevice } from '@/features/games/hooks/use-game-devices';
-import { formatSessionDuration } from '@/features/games/lib/session-state';
+import type { SessionHitRecord } from '@/features/games/lib/device-game-flow';
+import { DEFAULT_GAME_MODE_ID, getGameMode, type GameModeCallout } from '@/domain/games/modes';
+import type { GameModeId } from '@/domain/games/validators';
+import type { SessionPenaltyKind } from '@/domain/games/rules';
+import type { DrillProgress, DrillStage, DrillStageStatus } from '@/domain/games/drills';
+import type { GhostSplitDelta, PersonalBest } from '@/domain/games/personal-bests';
+import { formatSessionDuration, useStartCountdown } from '@/features/games/lib/session-state';
 import type { LiveSessionSummary } from './types';
 import { ChevronRight, PlusCircle, RotateCcw, Info, ArrowRight } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -40,6 +46,31 @@ const CollapsibleSection: React.FC<{
   );
 };
 
+// Formats a mode score using the unit the mode scores in (seconds or hit count).
+const formatModeScore = (score: number, gameModeId: GameModeId | undefined): string =>
+  getGameMode(gameModeId).scoreUnit === 'hits' ? `${score} hits` : `${score.toFixed(2)}s`;
+
+const formatGhostDelta = (deltaSeconds: number): string =>
+  `${deltaSeconds > 0 ? '+' : deltaSeconds < 0 ? '−' : '±'}${Math.abs(deltaSeconds).toFixed(2)}s`;
+
+const GHOST_SPLITS_SHOWN = 6;
+
+const PENALTY_LABELS: Record<SessionPenaltyKind, string> = {
+  miss: 'Miss',
+  'extra-hit': 'Extra hit',
+  'out-of-order': 'Out of order',
+  'over-par': 'Over par',
+  'wrong-target': 'Wrong target',
+};
+
+const STAGE_STATUS_LABELS: Record<DrillStageStatus, string> = {
+  pending: 'Not reached',
+  active: 'Unfinished',
+  completed: 'Cleared',
+  'timed-out': 'Timed out',
+  skipped: 'Skipped',
+};
+
 // --- Summary card (extracted for readability) ---
 const SummaryCard: React.FC<{
   recentSummary: LiveSessionSummary;
@@ -55,11 +86,12 @@ const SummaryCard: React.FC<{
   actionsDisabled: boolean;
   onCreateNew?: () => void;
   onUsePrevious?: () => void;
+  onRecordShots?: () => void;
   getDisplayName: (deviceId: string, defaultName: string) => string;
 }> = ({
   recentSummary, isMultiTarget, totalGoalShots, summaryGoalShots, avgTransitionTime,
   topResults, recentSplits, recentTransitions, perTargetStats, transitionStats,
-  actionsDisabled, onCreateNew, onUsePrevious, getDisplayName,
+  actionsDisabled, onCreateNew, onUsePrevious, onRecordShots, getDisplayName,
 }) => (
   <Card className="shadow-card bg-gradient-to-br from-white via-white to-brand-primary/[0.04] rounded-[var(--radius-lg)]">
     <CardContent className="p-5 md:p-6 space-y-4">
@@ -70,7 +102,28 @@ const SummaryCard: React.FC<{
           <h2 className="font-heading text-lg text-brand-dark">Summary</h2>
           <p className="text-[11px] text-brand-dark font-body">
             {new Date(recentSummary.startedAt).toLocaleTimeString()} &bull; {recentSummary.targets.length} targets
+            {recentSummary.historyEntry?.shooter && <> &bull; {recentSummary.historyEntry.shooter.name}</>}
           </p>
+          {recentSummary.historyEntry?.isPersonalBest && (
+            <span className="inline-block mt-1 rounded-full bg-green-50 px-2 py-0.5 text-[10px] font-bold text-green-700 uppercase tracking-wide font-body">
+              {recentSummary.historyEntry.previousBestScore != null
+                ? `New PB · was ${formatModeScore(recentSummary.historyEntry.previousBestScore, recentSummary.gameMode)}`
+                : 'First PB'}
+            </span>
+          )}
+          {recentSummary.historyEntry?.qualification && (
+            <div className="mt-1 space-y-0.5">
+              <span className={`inline-block rounded-full px-2 py-0.5 text-[10px] font-bold uppercase tracking-wide font-body ${
+                recentSummary.historyEntry.qualification.passed ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-600'
+              }`}>
+                {recentSummary.historyEntry.qualification.passed ? 'Qualified' : 'Not qualified'}
+                {' · '}{recentSummary.historyEntry.qualification.standard.name}
+              </span>
+              {recentSummary.historyEntry.qualification.reasons.map((reason) => (
+                <p key={reason} className="text-[11px] text-red-600 font-body">{reason}</p>
+              ))}
+            </div>
+          )}
         </div>
         <div className="rounded-full bg-brand-primary/10 px-3 py-1">
           <span className="text-xs font-bold text-brand-primary font-body tabular-nums">
@@ -80,10 +133,24 @@ const SummaryCard: React.FC<{
       </div>
 
       {/* Hero stats grid — always visible */}
-      <div className={`grid grid-cols-2 gap-2 ${isMultiTarget ? 'sm:grid-cols-4' : 'sm:grid-cols-3'}`}>
+      <div className={`grid grid-cols-2 gap-2 ${isMultiTarget ? 'sm:grid-cols-5' : 'sm:grid-cols-4'}`}>
         <div className="rounded-[var(--radius)] bg-brand-primary/5 px-3 py-2 shadow-subtle">
           <p className="text-label text-brand-secondary font-body uppercase tracking-wide block mb-0.5">Total Hits</p>
           <p className="text-stat-md font-bold text-brand-dark font-body tabular-nums">{recentSummary.totalHits}</p>
+          {(recentSummary.shotCountSource ?? 'hits') !== 'hits' ? (
+            <p className="text-[11px] text-brand-dark/60 font-body tabular-nums">
+              of {recentSummary.totalShots} shots &bull; {recentSummary.accuracy}%
+              {recentSummary.shotCountSource === 'manual' && onRecordShots && (
+                <button type="button" onClick={onRecordShots} className="ml-1 text-brand-primary hover:underline">
+                  Edit
+                </button>
+              )}
+            </p>
+          ) : onRecordShots && (
+            <button type="button" onClick={onRecordShots} className="text-[11px] text-brand-primary font-body hover:underline">
+              Enter shots fired
+            </button>
+          )}
         </div>
         <div className={`rounded-[var(--radius)] px-3 py-2 shadow-subtle ${
           recentSummary.isValid === false ? 'bg-red-50' : 'bg-brand-primary/5'
@@ -102,6 +169,11 @@ const SummaryCard: React.FC<{
                   <p className="text-xs text-brand-dark/70">
                     <span className="font-medium text-red-600">Did Not Finish (DNF):</span> Not all required hits were achieved.
                   </p>
+                ) : recentSummary.gameMode && recentSummary.gameMode !== DEFAULT_GAME_MODE_ID ? (
+                  <p className="text-xs text-brand-dark/70">
+                    <span className="font-medium">{getGameMode(recentSummary.gameMode).label}:</span>{' '}
+                    {getGameMode(recentSummary.gameMode).description}
+                  </p>
                 ) : totalGoalShots > 0 ? (
                   <p className="text-xs text-brand-dark/70">
                     Score = time (in seconds) of the last required hit. <span className="font-medium">Lower is better.</span>
@@ -120,7 +192,7 @@ const SummaryCard: React.FC<{
             {recentSummary.isValid === false
               ? 'DNF'
               : typeof recentSummary.score === 'number' && Number.isFinite(recentSummary.score)
-                ? `${recentSummary.score.toFixed(2)}s`
+                ? formatModeScore(recentSummary.score, recentSummary.gameMode)
                 : '—'}
           </p>
         </div>
@@ -168,6 +240,25 @@ const SummaryCard: React.FC<{
             </p>
           </div>
         )}
+        <div className="rounded-[var(--radius)] bg-brand-primary/5 px-3 py-2 shadow-subtle">
+          <div className="flex items-center gap-1">
+            <p className="text-label text-brand-secondary font-body uppercase tracking-wide block mb-0.5">Draw</p>
+            <Popover>
+              <PopoverTrigger asChild>
+                <button type="button" className="inline-flex items-center justify-center rounded-full hover:bg-brand-dark/10 p-0.5 -m-0.5 transition-colors" aria-label="Info about Draw">
+                  <Info className="h-3 w-3 text-brand-dark/40" />
+                </button>
+              </PopoverTrigger>
+              <PopoverContent side="bottom" align="start" className="w-72 bg-white shadow-lg p-3 border-0 z-30">
+                <p className="text-xs font-medium text-brand-dark mb-1">What is Draw?</p>
+                <p className="text-xs text-brand-dark/70">Time from the start beep to the first hit.</p>
+              </PopoverContent>
+            </Popover>
+          </div>
+          <p className="text-stat-md font-bold text-brand-dark font-body tabular-nums">
+            {typeof recentSummary.drawTimeSeconds === 'number' ? `${recentSummary.drawTimeSeconds.toFixed(2)}s` : '—'}
+          </p>
+        </div>
       </div>
 
       {/* Collapsible: Targets */}
@@ -211,6 +302,52 @@ const SummaryCard: React.FC<{
         )}
       </CollapsibleSection>
 
+      {/* Collapsible: Penalties (raw time + itemised penalty ledger) */}
+      {recentSummary.penalties?.length > 0 && (
+        <CollapsibleSection title="Penalties" badge={`+${recentSummary.penaltySeconds.toFixed(2)}s`}>
+          <div className="flex items-center justify-between text-xs bg-white rounded-[var(--radius)] px-3 py-2 shadow-subtle">
+            <span className="text-brand-dark/70 font-body">Raw time + penalties</span>
+            <span className="font-bold text-brand-dark font-body tabular-nums">
+              {typeof recentSummary.rawScore === 'number' ? `${recentSummary.rawScore.toFixed(2)}s` : '—'} + {recentSummary.penaltySeconds.toFixed(2)}s
+            </span>
+          </div>
+          {recentSummary.penalties.map((penalty) => {
+            const target = penalty.deviceId
+              ? recentSummary.targets.find((t) => t.deviceId === penalty.deviceId)
+              : null;
+            const targetName = penalty.deviceId ? getDisplayName(penalty.deviceId, target?.deviceName ?? penalty.deviceId) : null;
+            return (
+              <div key={`${penalty.kind}-${penalty.deviceId ?? 'session'}`} className="flex items-center justify-between text-xs bg-white rounded-[var(--radius)] px-3 py-2 shadow-subtle">
+                <span className="text-brand-dark font-body truncate">
+                  {PENALTY_LABELS[penalty.kind]}{targetName ? ` · ${targetName}` : ''}
+                  {penalty.count > 1 && <span className="text-brand-dark/40"> &times;{penalty.count}</span>}
+                </span>
+                <span className="font-medium text-red-600 font-body tabular-nums ml-2">+{penalty.seconds.toFixed(2)}s</span>
+              </div>
+            );
+          })}
+        </CollapsibleSection>
+      )}
+
+      {/* Collapsible: Stages (per-stage times for staged drills) */}
+      {recentSummary.stageResults?.length > 0 && (
+        <CollapsibleSection title="Stages" badge={`${recentSummary.stageResults.filter((stage) => stage.status === 'completed').length}/${recentSummary.stageResults.length} cleared`}>
+          {recentSummary.stageResults.map((stage) => (
+            <div key={stage.stageId} className="flex items-center justify-between text-xs bg-white rounded-[var(--radius)] px-3 py-2 shadow-subtle">
+              <span className="text-brand-dark font-body truncate">
+                <span className="text-brand-dark/40 tabular-nums">{stage.index + 1}.</span> {stage.label}
+                {stage.status !== 'completed' && (
+                  <span className={stage.status === 'timed-out' ? 'text-red-600' : 'text-brand-dark/40'}> · {STAGE_STATUS_LABELS[stage.status]}</span>
+                )}
+              </span>
+              <span className="font-bold text-brand-dark font-body tabular-nums ml-2">
+                {typeof stage.timeSeconds === 'number' ? `${stage.timeSeconds.toFixed(2)}s` : '—'}
+              </span>
+            </div>
+          ))}
+        </CollapsibleSection>
+      )}
+
       {/* Collapsible: Performance */}
       {(perTargetStats.some(s => s.splitCount > 0) || transitionStats.length > 0) && (
         <CollapsibleSection title="Performance">
@@ -342,6 +479,22 @@ interface LiveSessionCardProps {
   onUsePrevious?: () => void;
   onCreateNew?: () => void;
   isSessionLocked?: boolean;
+  gameModeId?: GameModeId;
+  hitHistory?: SessionHitRecord[];
+  callouts?: GameModeCallout[];
+  activeCallout?: GameModeCallout | null;
+  drillStages?: DrillStage[];
+  drillProgress?: DrillProgress | null;
+  /** Personal best of the active preset, raced as a ghost while running */
+  personalBest?: PersonalBest | null;
+  ghostDeltas?: GhostSplitDelta[];
+  /** Random-delay start still waiting for the beep */
+  isStandby?: boolean;
+  /** Scheduled start the targets are holding for; null when started on the command */
+  scheduledStartAt?: number | null;
+  onCancelScheduledStart?: () => void;
+  /** Opens manual entry of the shots fired in the summarised session */
+  onRecordShots?: () => void;
 }
 
 // Displays either the current live telemetry view or the most recent session summary snapshot.
@@ -358,8 +511,21 @@ export const LiveSessionCard: React.FC<LiveSessionCardProps> = ({
   onUsePrevious,
   onCreateNew,
   isSessionLocked = false,
+  gameModeId = DEFAULT_GAME_MODE_ID,
+  hitHistory = [],
+  callouts = [],
+  activeCallout = null,
+  drillStages = [],
+  drillProgress = null,
+  personalBest = null,
+  ghostDeltas = [],
+  isStandby = false,
+  scheduledStartAt = null,
+  onCancelScheduledStart,
+  onRecordShots,
 }) => {
   const { data: customNames = new Map() } = useTargetCustomNames();
+  const countdownSeconds = useStartCountdown(isRunning ? scheduledStartAt : null);
   const desiredDurationLabel =
     typeof desiredDurationSeconds === 'number' && desiredDurationSeconds > 0
       ? formatSessionDuration(desiredDurationSeconds)
@@ -443,6 +609,30 @@ export const LiveSessionCard: React.FC<LiveSessionCardProps> = ({
     return totalTime / recentSummary.transitions.length;
   }, [recentSummary?.transitions]);
 
+  // Non-default modes surface their own progress (e.g. strings completed, hits in window).
+  const modeProgress = useMemo(() => {
+    if (!isRunning || gameModeId === DEFAULT_GAME_MODE_ID) return null;
+    const mode = getGameMode(gameModeId);
+    const progress = mode.getProgress(
+      hitHistory,
+      {
+        targetIds: activeTargets.map((target) => target.deviceId),
+        goalShotsPerTarget,
+        timeLimitSeconds: desiredDurationSeconds,
+        callouts,
+      },
+      timerSeconds * 1000,
+    );
+    return { label: mode.label, ...progress };
+  }, [isRunning, gameModeId, hitHistory, activeTargets, goalShotsPerTarget, desiredDurationSeconds, timerSeconds, callouts]);
+
+  // Staged drills: the stage in progress and the hits counted toward it so far.
+  const activeStageIndex = drillProgress?.currentStageIndex ?? null;
+  const activeDrillStage = activeStageIndex !== null ? drillStages[activeStageIndex] ?? null : null;
+  const activeStageResult = activeStageIndex !== null ? drillProgress?.stages[activeStageIndex] ?? null : null;
+
+  const latestGhostDelta = ghostDeltas.length > 0 ? ghostDeltas[ghostDeltas.length - 1] : null;
+
   if (isRunning) {
     return (
       <Card className="bg-white shadow-elevated rounded-[var(--radius-lg)]">
@@ -451,14 +641,49 @@ export const LiveSessionCard: React.FC<LiveSessionCardProps> = ({
           <div className="flex items-center justify-between">
             <div>
               <p className="text-label text-brand-secondary uppercase tracking-wide font-body">Live Session</p>
-              <h2 className="font-heading text-lg text-brand-dark">Training</h2>
-            </div>
-            <div className="flex items-center gap-2">
-              <span className="w-2 h-2 rounded-full bg-red-500 animate-[live-pulse_2s_ease-in-out_infinite]" />
-              <span className="text-xs font-medium text-red-500 font-body uppercase tracking-wide">Live</span>
+              <h2 className="font-heading text-lg text-brand-dark">{modeProgress?.label ?? 'Training'}</h2>
             </div>
+            {countdownSeconds !== null ? (
+              <div className="flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full bg-amber-500 animate-pulse" />
+                <span className="text-xs font-medium text-amber-600 font-body uppercase tracking-wide">Scheduled</span>
+              </div>
+            ) : isStandby ? (
+              <div className="flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full bg-amber-500 animate-pulse" />
+                <span className="text-xs font-medium text-amber-600 font-body uppercase tracking-wide">Standby</span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full bg-red-500 animate-[live-pulse_2s_ease-in-out_infinite]" />
+                <span className="text-xs font-medium text-red-500 font-body uppercase tracking-wide">Live</span>
+              </div>
+            )}
           </div>
 
+          {countdownSeconds !== null ? (
+            <div className="flex flex-col items-center gap-2 rounded-[var(--radius)] bg-amber-50 px-4 py-3">
+              <p className="text-label text-amber-700 uppercase tracking-wide font-body">Starts in</p>
+              <p className="text-stat-hero font-bold text-amber-700 font-body tabular-nums">
+                {formatSessionDuration(countdownSeconds)}
+              </p>
+              <p className="text-center text-xs text-amber-700 font-body">
+                Targets beep at the start. Hits before it do not count.
+              </p>
+              {onCancelScheduledStart && (
+                <Button variant="outline" size="sm" onClick={onCancelScheduledStart}>
+                  Cancel start
+                </Button>
+              )}
+            </div>
+          ) : (
+            isStandby && (
+              <p className="text-center text-xs text-amber-700 font-body">
+                Standby &mdash; wait for the beep. Hits before it do not count.
+              </p>
+            )
+          )}
+
           {/* Hero stats — Strava recording-screen style */}
           <div className="bg-brand-light px-5 py-4 rounded-[var(--radius)]">
             <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
@@ -490,6 +715,92 @@ export const LiveSessionCard: React.FC<LiveSessionCardProps> = ({
             </div>
           </div>
 
+          {modeProgress && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between text-[11px] font-body">
+                <span className="text-brand-secondary uppercase tracking-wide">Progress</span>
+                <span className="text-brand-dark/60 tabular-nums">
+                  {modeProgress.required !== null
+                    ? `${modeProgress.completed} / ${modeProgress.required}`
+                    : modeProgress.completed}
+                </span>
+              </div>
+              {modeProgress.ratio !== null && (
+                <div className="h-1.5 rounded-full bg-brand-primary/10 overflow-hidden">
+                  <div
+                    className="h-full bg-brand-primary transition-all duration-200"
+                    style={{ width: `${Math.round(modeProgress.ratio * 100)}%` }}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {personalBest && (
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between text-[11px] font-body">
+                <span className="text-brand-secondary uppercase tracking-wide">Ghost</span>
+                <span className="text-brand-dark/60 tabular-nums">
+                  PB {formatModeScore(personalBest.score, personalBest.gameMode)}
+                </span>
+              </div>
+              {latestGhostDelta ? (
+                <p className={`text-sm font-bold font-body tabular-nums ${
+                  latestGhostDelta.deltaSeconds > 0 ? 'text-red-500' : 'text-green-600'
+                }`}>
+                  {formatGhostDelta(latestGhostDelta.deltaSeconds)} vs PB
+                  <span className="ml-1 text-[11px] font-normal text-brand-dark/40">at hit #{latestGhostDelta.splitNumber}</span>
+                </p>
+              ) : (
+                <p className="text-[11px] text-brand-dark/40 font-body">Waiting for the first hit.</p>
+              )}
+              {ghostDeltas.length > 1 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {ghostDeltas.slice(-GHOST_SPLITS_SHOWN).map((delta) => (
+                    <span
+                      key={delta.splitNumber}
+                      className={`rounded-full px-2 py-0.5 text-[10px] font-medium font-body tabular-nums ${
+                        delta.deltaSeconds > 0 ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-700'
+                      }`}
+                    >
+                      #{delta.splitNumber} {formatGhostDelta(delta.deltaSeconds)}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {drillProgress && activeDrillStage && activeStageResult && (
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between text-[11px] font-body">
+                <span className="text-brand-secondary uppercase tracking-wide">
+                  Stage {activeStageResult.index + 1} / {drillProgress.stages.length}
+                </span>
+                <span className="text-brand-dark/60 truncate ml-2">
+                  {activeStageResult.label}
+                  {activeDrillStage.timeLimitSeconds !== null && ` · ${activeDrillStage.timeLimitSeconds}s limit`}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-1.5">
+                {activeDrillStage.steps.map((step) => {
+                  const counted = activeStageResult.hitsByDevice[step.deviceId] ?? 0;
+                  const targetName = activeTargets.find((target) => target.deviceId === step.deviceId)?.name ?? step.deviceId;
+                  return (
+                    <span
+                      key={step.deviceId}
+                      className={`rounded-full px-3 py-1 text-xs font-medium font-body tabular-nums ${
+                        counted >= step.hits ? 'bg-green-50 text-green-700' : 'bg-brand-primary/10 text-brand-dark'
+                      }`}
+                    >
+                      {targetName} {counted}/{step.hits}
+                    </span>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Target rows */}
           <div className="space-y-2">
             {activeTargets.length === 0 ? (
@@ -503,11 +814,12 @@ export const LiveSessionCard: React.FC<LiveSessionCardProps> = ({
                   const goalShots = goalShotsPerTarget[target.deviceId];
                   const hasGoal = typeof goalShots === 'number' && goalShots > 0;
                   const isStopped = stoppedTargets.has(target.deviceId);
+                  const isCalled = activeCallout?.deviceId === target.deviceId;
                   return (
                     <div
                       key={target.deviceId}
                       className={`flex items-center justify-between rounded-[var(--radius)] px-3 py-2.5 shadow-subtle transition-all duration-200 ${
-                        isStopped ? 'bg-green-50 shadow-green-100/50' : 'bg-white'
+                        isStopped ? 'bg-green-50 shadow-green-100/50' : isCalled ? 'bg-brand-primary/10' : 'bg-white'
                       }`}
                     >
                       <div className="flex-1 min-w-0">
@@ -515,6 +827,7 @@ export const LiveSessionCard: React.FC<LiveSessionCardProps> = ({
                           <span className={`w-2 h-2 rounded-full flex-shrink-0 ${isStopped ? 'bg-green-500' : 'bg-brand-primary'}`} />
                           <p className="text-sm font-medium text-brand-dark leading-tight truncate font-body">{target.name ?? target.deviceId}</p>
                           {isStopped && <span className="text-[10px] font-bold text-green-600 uppercase tracking-wide">Done</span>}
+                          {isCalled && <span className="text-[10px] font-bold text-brand-primary uppercase tracking-wide">Shoot</span>}
                         </div>
                         <p className="text-[11px] text-brand-dark/40 font-body ml-4">
                           {hasGoal ? `${hits} / ${goalShots} shots` : 'Live tracking'}
@@ -579,6 +892,7 @@ export const LiveSessionCard: React.FC<LiveSessionCardProps> = ({
         actionsDisabled={actionsDisabled}
         onCreateNew={onCreateNew}
         onUsePrevious={onUsePrevious}
+        onRecordShots={onRecordShots}
         getDisplayName={getDisplayName}
       />
     );
@@ -0,0 +1,138 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { QUALIFICATION_CONSTRAINTS, type QualificationStandard } from '@/domain/games/qualifications';
+
+export type QualificationEditorProps = {
+  qualificationStandard: QualificationStandard | null;
+  onQualificationStandardChange: (standard: QualificationStandard | null) => void;
+  /** Rounds suggested for a new course, usually the session's total goal shots */
+  defaultRoundCount: number;
+  isSessionLocked: boolean;
+  qualificationViolation: string | null;
+};
+
+type ThresholdKey = 'timeLimitSeconds' | 'minHits' | 'minAccuracyPercent' | 'minHitsPerTarget' | 'maxTimeSeconds';
+
+const THRESHOLD_FIELDS: Array<{ key: ThresholdKey; label: string; step: string }> = [
+  { key: 'minAccuracyPercent', label: 'Min accuracy (%)', step: '1' },
+  { key: 'minHits', label: 'Min hits', step: '1' },
+  { key: 'minHitsPerTarget', label: 'Min hits per target', step: '1' },
+  { key: 'maxTimeSeconds', label: 'Max time (s)', step: '0.1' },
+  { key: 'timeLimitSeconds', label: 'Hits count until (s)', step: '1' },
+];
+
+const createStandard = (roundCount: number): QualificationStandard => ({
+  id: crypto.randomUUID(),
+  name: 'Qualification',
+  roundCount,
+  timeLimitSeconds: null,
+  minHits: null,
+  minAccuracyPercent: 80,
+  minHitsPerTarget: null,
+  maxTimeSeconds: null,
+});
+
+// Shoots the session as a qualification course: the finished run is judged
+// pass/fail against the thresholds that are filled in. Blank thresholds are not checked.
+export const QualificationEditor: React.FC<QualificationEditorProps> = ({
+  qualificationStandard,
+  onQualificationStandardChange,
+  defaultRoundCount,
+  isSessionLocked,
+  qualificationViolation,
+}) => {
+  const update = (patch: Partial<QualificationStandard>) => {
+    if (qualificationStandard) {
+      onQualificationStandardChange({ ...qualificationStandard, ...patch });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="qualification-toggle" className="text-label text-brand-secondary font-body uppercase tracking-wide">
+          Qualification (optional)
+        </Label>
+        <Switch
+          id="qualification-toggle"
+          checked={qualificationStandard !== null}
+          onCheckedChange={(checked) =>
+            onQualificationStandardChange(checked ? createStandard(Math.max(1, defaultRoundCount)) : null)
+          }
+          disabled={isSessionLocked}
+        />
+      </div>
+      {qualificationStandard && (
+        <div className="rounded-[var(--radius)] bg-brand-primary/5 px-3 py-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <Input
+              value={qualificationStandard.name}
+              onChange={(e) => update({ name: e.target.value })}
+              maxLength={QUALIFICATION_CONSTRAINTS.NAME_MAX_LENGTH}
+              placeholder="Course name"
+              disabled={isSessionLocked}
+              className="h-7 text-xs"
+            />
+            <Label htmlFor="qualification-rounds" className="text-[11px] text-brand-dark/70 font-body whitespace-nowrap">
+              Rounds
+            </Label>
+            <Input
+              id="qualification-rounds"
+              type="number"
+              min={QUALIFICATION_CONSTRAINTS.MIN_ROUNDS}
+              max={QUALIFICATION_CONSTRAINTS.MAX_ROUNDS}
+              step="1"
+              value={qualificationStandard.roundCount}
+              onChange={(e) => {
+                const numValue = parseInt(e.target.value, 10);
+                if (!isNaN(numValue) && numValue > 0) {
+                  update({ roundCount: numValue });
+                }
+              }}
+              disabled={isSessionLocked}
+              className="h-7 w-20 text-xs"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {THRESHOLD_FIELDS.map(({ key, label, step }) => (
+              <div key={key} className="flex items-center gap-2">
+                <Label htmlFor={`qualification-${key}`} className="text-[11px] text-brand-dark/70 font-body min-w-[100px]">
+                  {label}
+                </Label>
+                <Input
+                  id={`qualification-${key}`}
+                  type="number"
+                  min="0"
+                  step={step}
+                  value={qualificationStandard[key] ?? ''}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    if (value === '') {
+                      update({ [key]: null });
+                      return;
+                    }
+                    const numValue = parseFloat(value);
+                    if (!isNaN(numValue) && numValue > 0) {
+                      update({ [key]: numValue });
+                    }
+                  }}
+                  disabled={isSessionLocked}
+                  placeholder="—"
+                  className="h-7 text-xs"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-[11px] text-brand-dark/40 font-body">
+            Accuracy is hits over rounds. Leave a field blank to skip that standard.
+          </p>
+        </div>
+      )}
+      {qualificationViolation && (
+        <p className="text-xs text-red-600 font-body">{qualificationViolation}</p>
+      )}
+    </div>
+  );
+};
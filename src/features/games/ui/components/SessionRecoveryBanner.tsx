@@ -0,0 +1,63 @@
+import React from 'react';
+import { History, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { SessionJournal } from '@/features/games/lib/session-journal';
+
+export type SessionRecoveryBannerProps = {
+  session: SessionJournal;
+  isRecovering: boolean;
+  /** Resuming needs the setup unlocked; finalizing does not touch the live session */
+  canResume: boolean;
+  onResume: () => void;
+  onFinalize: () => void;
+  onDismiss: () => void;
+};
+
+// Offers to recover a session a reload interrupted before it was stopped.
+const _SessionRecoveryBanner: React.FC<SessionRecoveryBannerProps> = ({
+  session,
+  isRecovering,
+  canResume,
+  onResume,
+  onFinalize,
+  onDismiss,
+}) => {
+  const targetCount = session.targets.length;
+  const hitCount = session.hits.length;
+
+  return (
+    <div className="rounded-[var(--radius)] bg-amber-50 shadow-subtle px-4 py-3 flex items-start gap-3">
+      <History className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+      <div className="flex-1 space-y-2">
+        <div>
+          <p className="text-sm font-medium text-amber-900 font-body">Unfinished session found</p>
+          <p className="text-xs text-amber-800/80 font-body">
+            Started {new Date(session.startTime).toLocaleTimeString()} on {targetCount} target{targetCount === 1 ? '' : 's'}
+            {' '}&bull; {hitCount} hit{hitCount === 1 ? '' : 's'} recorded before the page reloaded.
+            Resume streaming, or finalize it from the hits the targets reported.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" onClick={onResume} disabled={isRecovering || !canResume}>
+            Resume
+          </Button>
+          <Button size="sm" variant="outline" onClick={onFinalize} disabled={isRecovering}>
+            {isRecovering && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Finalize
+          </Button>
+        </div>
+      </div>
+      <button
+        onClick={onDismiss}
+        disabled={isRecovering}
+        className="rounded-full p-1 hover:bg-amber-100 transition-colors"
+        aria-label="Discard unfinished session"
+      >
+        <X className="h-3.5 w-3.5 text-amber-600" />
+      </button>
+    </div>
+  );
+};
+
+export const SessionRecoveryBanner = React.memo(_SessionRecoveryBanner);
+SessionRecoveryBanner.displayName = 'SessionRecoveryBanner';
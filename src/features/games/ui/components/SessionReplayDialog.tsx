@@ -0,0 +1,193 @@
+import React, { useMemo } from 'react';
+import { Stage, Layer, Line, Circle, Text } from 'react-konva';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Slider } from '@/components/ui/slider';
+import { Pause, Play, SkipBack, SkipForward } from 'lucide-react';
+import type { GameHistory } from '@/features/games/lib/device-game-flow';
+import { buildReplayTimeline, REPLAY_SPEEDS } from '@/features/games/lib/session-replay';
+import { useSessionReplay } from '@/features/games/hooks/use-session-replay';
+import { useRoomLayout, fitLayoutToStage, type RoomLayout } from '@/features/rooms';
+
+const STAGE_WIDTH = 560;
+const STAGE_HEIGHT = 320;
+const STAGE_PADDING = 32;
+const TARGET_RADIUS = 16;
+
+const COLORS = {
+  background: '#F6F7EB',
+  wall: '#1C192B',
+  target: 'rgba(206,62,10,0.1)',
+  targetLit: '#CE3E0A',
+  targetStroke: '#CE3E0A',
+  label: '#1C192B',
+};
+
+export type SessionReplayDialogProps = {
+  game: GameHistory | null;
+  onOpenChange: (open: boolean) => void;
+};
+
+const formatClock = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+
+const ReplayBody: React.FC<{ game: GameHistory }> = ({ game }) => {
+  const timeline = useMemo(() => buildReplayTimeline(game), [game]);
+  const { positionMs, isPlaying, speed, frame, play, pause, seek, stepHit, setSpeed } = useSessionReplay(timeline);
+  const { data: layoutRow } = useRoomLayout(game.roomId ?? undefined);
+
+  const layout = (layoutRow?.layout_data as unknown as RoomLayout | undefined) ?? null;
+  const placedTargets = useMemo(() => {
+    const sessionIds = new Set(timeline.targets.map((t) => t.deviceId));
+    return (layout?.targets ?? []).filter((target) => sessionIds.has(target.targetDeviceId));
+  }, [layout, timeline.targets]);
+  const fit =
+    layout && placedTargets.length > 0
+      ? fitLayoutToStage(layout, placedTargets, { width: STAGE_WIDTH, height: STAGE_HEIGHT, padding: STAGE_PADDING })
+      : null;
+
+  return (
+    <div className="space-y-3">
+      {layout && fit ? (
+        <div className="rounded-[var(--radius)] overflow-hidden border border-[rgba(28,25,43,0.06)]">
+          <Stage width={STAGE_WIDTH} height={STAGE_HEIGHT} style={{ background: COLORS.background, maxWidth: '100%' }}>
+            <Layer listening={false}>
+              {(layout.walls ?? []).map((wall) => (
+                <Line
+                  key={wall.id}
+                  points={wall.points.map((value, index) =>
+                    index % 2 === 0 ? value * fit.scale + fit.offsetX : value * fit.scale + fit.offsetY,
+                  )}
+                  closed={wall.closed}
+                  stroke={COLORS.wall}
+                  strokeWidth={Math.max(2, wall.thickness * fit.scale)}
+                />
+              ))}
+              {placedTargets.map((target) => {
+                const x = target.x * fit.scale + fit.offsetX;
+                const y = target.y * fit.scale + fit.offsetY;
+                const isLit = frame.litDeviceIds.has(target.targetDeviceId);
+                return (
+                  <React.Fragment key={target.id}>
+                    <Circle
+                      x={x}
+                      y={y}
+                      radius={isLit ? TARGET_RADIUS * 1.25 : TARGET_RADIUS}
+                      fill={isLit ? COLORS.targetLit : COLORS.target}
+                      stroke={COLORS.targetStroke}
+                      strokeWidth={1.5}
+                    />
+                    <Text
+                      x={x - 40}
+                      y={y + TARGET_RADIUS + 6}
+                      width={80}
+                      align="center"
+                      fontSize={11}
+                      fill={COLORS.label}
+                      text={`${target.label} · ${frame.hitCounts[target.targetDeviceId] ?? 0}`}
+                    />
+                  </React.Fragment>
+                );
+              })}
+            </Layer>
+          </Stage>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {timeline.targets.map((target) => {
+            const isLit = frame.litDeviceIds.has(target.deviceId);
+            return (
+              <div
+                key={target.deviceId}
+                className={`rounded-[var(--radius)] px-3 py-2 shadow-subtle transition-colors duration-150 ${
+                  isLit ? 'bg-brand-primary text-white' : 'bg-brand-primary/5 text-brand-dark'
+                }`}
+              >
+                <p className="text-xs font-medium font-body truncate">{target.deviceName}</p>
+                <p className="text-stat-sm font-bold font-body tabular-nums">{frame.hitCounts[target.deviceId] ?? 0}</p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Scrubber with split markers */}
+      <div className="space-y-1">
+        <div className="relative h-2">
+          {timeline.durationMs > 0 &&
+            timeline.markers.map((marker) => (
+              <span
+                key={`${marker.label}-${marker.offsetMs}`}
+                title={marker.label}
+                className="absolute top-0 h-2 w-0.5 bg-brand-secondary/60"
+                style={{ left: `${(marker.offsetMs / timeline.durationMs) * 100}%` }}
+              />
+            ))}
+        </div>
+        <Slider
+          value={[positionMs]}
+          min={0}
+          max={Math.max(1, timeline.durationMs)}
+          step={10}
+          onValueChange={([value]) => seek(value)}
+          aria-label="Replay position"
+        />
+        <div className="flex items-center justify-between text-[11px] text-brand-dark/60 font-body tabular-nums">
+          <span>{formatClock(positionMs)}</span>
+          <span>
+            {frame.lastEvent ? `${frame.lastEvent.deviceName} #${frame.lastEvent.hitNumber}` : 'No hits yet'}
+          </span>
+          <span>{formatClock(timeline.durationMs)}</span>
+        </div>
+      </div>
+
+      {/* Transport controls */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => stepHit(-1)} aria-label="Previous hit">
+            <SkipBack className="h-4 w-4" />
+          </Button>
+          <Button size="sm" className="h-8 px-4" onClick={isPlaying ? pause : play} disabled={timeline.durationMs === 0}>
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            {isPlaying ? 'Pause' : 'Play'}
+          </Button>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => stepHit(1)} aria-label="Next hit">
+            <SkipForward className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex items-center gap-1">
+          {REPLAY_SPEEDS.map((value) => (
+            <Button
+              key={value}
+              variant={speed === value ? 'default' : 'outline'}
+              size="sm"
+              className="h-8 px-3 text-xs"
+              onClick={() => setSpeed(value)}
+            >
+              {value}x
+            </Button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Plays a stored session back on its room layout with a scrubber, split markers and speed control.
+export const SessionReplayDialog: React.FC<SessionReplayDialogProps> = ({ game, onOpenChange }) => (
+  <Dialog open={game !== null} onOpenChange={onOpenChange}>
+    <DialogContent className="max-w-[calc(100vw-30px)] sm:max-w-2xl mx-auto px-4 py-4 sm:px-6 sm:py-6 shadow-elevated rounded-[var(--radius-lg)] border-0">
+      <DialogHeader className="space-y-1 sm:space-y-1.5">
+        <DialogTitle className="text-lg sm:text-xl font-heading">Replay: {game?.gameName}</DialogTitle>
+        <DialogDescription className="text-xs sm:text-sm">
+          {game?.roomName ? `${game.roomName} · ` : ''}
+          {game?.hitHistory?.length ?? 0} hits
+        </DialogDescription>
+      </DialogHeader>
+      {game && (game.hitHistory?.length ?? 0) > 0 ? (
+        <ReplayBody game={game} />
+      ) : (
+        <p className="text-sm text-brand-dark/60 font-body">This session has no recorded hits to replay.</p>
+      )}
+    </DialogContent>
+  </Dialog>
+);
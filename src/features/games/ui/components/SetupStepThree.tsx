@@ -2,11 +2,23 @@ import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Building2, Clock3, Crosshair, Play, Loader2, BookmarkPlus, Save } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Building2, Clock3, Crosshair, Play, Loader2, BookmarkPlus, Save, Timer } from 'lucide-react';
 import type { NormalizedGameDevice } from '@/features/games/hooks/use-game-devices';
 import type { Target } from '@/features/targets/schema';
 import { deriveConnectionStatus } from '@/features/games/lib/device-status-utils';
 import { getStatusDisplay } from '@/shared/constants/target-status';
+import { getGameMode, listGameModes } from '@/domain/games/modes';
+import type { GameModeId } from '@/domain/games/validators';
+import type { DrillStage } from '@/domain/games/drills';
+import { DEFAULT_START_DELAY, START_DELAY_CONSTRAINTS, type StartDelay } from '@/domain/games/start-signal';
+import type { QualificationStandard } from '@/domain/games/qualifications';
+import type { ClockCalibration } from '@/domain/games/clock-sync';
+import { DrillStageBuilder } from './DrillStageBuilder';
+import { QualificationEditor } from './QualificationEditor';
+
+const GAME_MODE_OPTIONS = listGameModes();
 
 export type SetupStepThreeProps = {
   // Review data
@@ -26,6 +38,35 @@ export type SetupStepThreeProps = {
   setGoalShotsPerTarget: React.Dispatch<React.SetStateAction<Record<string, number>>>;
   targetById: Map<string, Target>;
 
+  // Par times (seconds from the start signal, 'par-time' mode only)
+  parTimesPerTarget: Record<string, number>;
+  setParTimesPerTarget: React.Dispatch<React.SetStateAction<Record<string, number>>>;
+
+  // Game mode
+  gameModeId: GameModeId;
+  onGameModeChange: (modeId: GameModeId) => void;
+  gameModeViolation: string | null;
+
+  // Drill stages (ordered stages replace per-target goals)
+  drillStages: DrillStage[];
+  onDrillStagesChange: (stages: DrillStage[]) => void;
+  drillViolation: string | null;
+
+  // Random start delay (standby, then the start beep); null starts on the command
+  startDelay: StartDelay | null;
+  onStartDelayChange: (delay: StartDelay | null) => void;
+  startDelayViolation: string | null;
+
+  // Qualification course (pass/fail standards judged when the session ends)
+  qualificationStandard: QualificationStandard | null;
+  onQualificationStandardChange: (standard: QualificationStandard | null) => void;
+  qualificationViolation: string | null;
+
+  // Clock calibration (per-target offsets applied to split times)
+  clockCalibrations: Record<string, ClockCalibration>;
+  isCalibratingClocks: boolean;
+  onCalibrateClocks: () => void;
+
   // Preset update
   activePresetName: string | null;
   isUpdatingPreset: boolean;
@@ -52,6 +93,23 @@ const _SetupStepThree: React.FC<SetupStepThreeProps> = ({
   goalShotsPerTarget,
   setGoalShotsPerTarget,
   targetById,
+  parTimesPerTarget,
+  setParTimesPerTarget,
+  gameModeId,
+  onGameModeChange,
+  gameModeViolation,
+  drillStages,
+  onDrillStagesChange,
+  drillViolation,
+  startDelay,
+  onStartDelayChange,
+  startDelayViolation,
+  qualificationStandard,
+  onQualificationStandardChange,
+  qualificationViolation,
+  clockCalibrations,
+  isCalibratingClocks,
+  onCalibrateClocks,
   activePresetName,
   isUpdatingPreset,
   onOpenStartDialog,
@@ -100,8 +158,39 @@ const _SetupStepThree: React.FC<SetupStepThreeProps> = ({
         </div>
       )}
 
-      {/* Goal shots */}
+      {/* Game mode */}
       {selectedDevices.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-label text-brand-secondary font-body uppercase tracking-wide">
+            Game Mode
+          </p>
+          <Select
+            value={gameModeId}
+            onValueChange={(value) => onGameModeChange(value as GameModeId)}
+            disabled={isSessionLocked}
+          >
+            <SelectTrigger className="w-full h-9 bg-white border border-[rgba(28,25,43,0.1)] rounded-[var(--radius)] text-brand-dark text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white shadow-lg border-0">
+              {GAME_MODE_OPTIONS.map((mode) => (
+                <SelectItem key={mode.id} value={mode.id}>
+                  <span className="text-sm font-body">{mode.label}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-[11px] text-brand-dark/40 font-body">
+            {GAME_MODE_OPTIONS.find((mode) => mode.id === gameModeId)?.description}
+          </p>
+          {gameModeViolation && (
+            <p className="text-xs text-red-600 font-body">{gameModeViolation}</p>
+          )}
+        </div>
+      )}
+
+      {/* Goal shots (only goal-based modes score against per-target goals; drills use stage hits) */}
+      {selectedDevices.length > 0 && getGameMode(gameModeId).usesGoalShots && drillStages.length === 0 && (
         <div className="space-y-2">
           <p className="text-label text-brand-secondary font-body uppercase tracking-wide">
             Goal Shots (optional)
@@ -156,6 +245,186 @@ const _SetupStepThree: React.FC<SetupStepThreeProps> = ({
         </div>
       )}
 
+      {/* Par times (par-time mode adds over-par penalties per target) */}
+      {selectedDevices.length > 0 && gameModeId === 'par-time' && (
+        <div className="space-y-2">
+          <p className="text-label text-brand-secondary font-body uppercase tracking-wide">
+            Par Times (seconds)
+          </p>
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {selectedDevices.slice(0, 5).map((device) => {
+              const parValue = parTimesPerTarget[device.deviceId] ?? '';
+              const targetRecord = targetById.get(device.deviceId);
+              const displayName = targetRecord?.customName || device.name || device.deviceId;
+              return (
+                <div key={`par-${device.deviceId}`} className="flex items-center gap-2">
+                  <Label htmlFor={`par-${device.deviceId}`} className="text-xs text-brand-dark/70 min-w-[80px] truncate font-body">
+                    {displayName}
+                  </Label>
+                  <Input
+                    id={`par-${device.deviceId}`}
+                    type="number"
+                    min="0.1"
+                    step="0.1"
+                    value={parValue}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      if (value === '') {
+                        setParTimesPerTarget((prev) => {
+                          const next = { ...prev };
+                          delete next[device.deviceId];
+                          return next;
+                        });
+                      } else {
+                        const numValue = parseFloat(value);
+                        if (!isNaN(numValue) && numValue > 0) {
+                          setParTimesPerTarget((prev) => ({
+                            ...prev,
+                            [device.deviceId]: numValue,
+                          }));
+                        }
+                      }
+                    }}
+                    disabled={isSessionLocked}
+                    placeholder="—"
+                    className="h-7 text-xs"
+                  />
+                </div>
+              );
+            })}
+            {selectedDevices.length > 5 && (
+              <p className="text-xs text-brand-dark/60 italic font-body">
+                +{selectedDevices.length - 5} more targets
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Start signal (shot-timer style random delay) */}
+      {selectedDevices.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="start-delay-toggle" className="text-label text-brand-secondary font-body uppercase tracking-wide">
+              Random Start Delay
+            </Label>
+            <Switch
+              id="start-delay-toggle"
+              checked={startDelay !== null}
+              onCheckedChange={(checked) => onStartDelayChange(checked ? DEFAULT_START_DELAY : null)}
+              disabled={isSessionLocked}
+            />
+          </div>
+          {startDelay ? (
+            <div className="flex items-center gap-2">
+              {(['minSeconds', 'maxSeconds'] as const).map((key) => (
+                <div key={key} className="flex items-center gap-2">
+                  <Label htmlFor={`start-delay-${key}`} className="text-xs text-brand-dark/70 font-body">
+                    {key === 'minSeconds' ? 'Min' : 'Max'}
+                  </Label>
+                  <Input
+                    id={`start-delay-${key}`}
+                    type="number"
+                    min={START_DELAY_CONSTRAINTS.MIN_SECONDS}
+                    max={START_DELAY_CONSTRAINTS.MAX_SECONDS}
+                    step="0.5"
+                    value={startDelay[key]}
+                    onChange={(e) => {
+                      const numValue = parseFloat(e.target.value);
+                      if (!isNaN(numValue)) {
+                        onStartDelayChange({ ...startDelay, [key]: numValue });
+                      }
+                    }}
+                    disabled={isSessionLocked}
+                    className="h-7 w-20 text-xs"
+                  />
+                </div>
+              ))}
+              <span className="text-xs text-brand-dark/40 font-body">seconds</span>
+            </div>
+          ) : null}
+          <p className="text-[11px] text-brand-dark/40 font-body">
+            {startDelay
+              ? 'Targets hold in standby, then beep after a random delay. Draw time is measured from the beep.'
+              : 'Targets start as soon as the start command lands.'}
+          </p>
+          {startDelayViolation && (
+            <p className="text-xs text-red-600 font-body">{startDelayViolation}</p>
+          )}
+        </div>
+      )}
+
+      {/* Drill stages */}
+      {selectedDevices.length > 0 && (
+        <DrillStageBuilder
+          drillStages={drillStages}
+          onDrillStagesChange={onDrillStagesChange}
+          targets={selectedDevices.map((device) => ({
+            deviceId: device.deviceId,
+            name: targetById.get(device.deviceId)?.customName || device.name || device.deviceId,
+          }))}
+          isSessionLocked={isSessionLocked}
+          drillViolation={drillViolation}
+        />
+      )}
+
+      {/* Qualification course */}
+      {selectedDevices.length > 0 && (
+        <QualificationEditor
+          qualificationStandard={qualificationStandard}
+          onQualificationStandardChange={onQualificationStandardChange}
+          defaultRoundCount={
+            drillStages.length > 0
+              ? drillStages.reduce((sum, stage) => sum + stage.steps.reduce((stageSum, step) => stageSum + step.hits, 0), 0)
+              : Object.values(goalShotsPerTarget).reduce((sum, goal) => sum + goal, 0)
+          }
+          isSessionLocked={isSessionLocked}
+          qualificationViolation={qualificationViolation}
+        />
+      )}
+
+      {/* Clock calibration */}
+      {selectedDevices.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-label text-brand-secondary font-body uppercase tracking-wide">
+              Target Clocks
+            </p>
+            <Button variant="ghost" size="sm" className="text-brand-primary text-xs h-7 px-3"
+              onClick={onCalibrateClocks} disabled={isSessionLocked || isCalibratingClocks}>
+              {isCalibratingClocks ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Timer className="h-3.5 w-3.5" />}
+              Calibrate
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {selectedDevices.slice(0, 5).map((device) => {
+              const calibration = clockCalibrations[device.deviceId];
+              const displayName = targetById.get(device.deviceId)?.customName || device.name || device.deviceId;
+              return (
+                <span
+                  key={`clock-${device.deviceId}`}
+                  className="inline-flex items-center gap-1 rounded-full bg-brand-primary/[0.05] px-3 py-1 text-xs text-brand-dark font-body"
+                  title={calibration ? `Round trip ${calibration.roundTripMs} ms` : undefined}
+                >
+                  {displayName}
+                  <span className="text-brand-dark/50">
+                    {calibration ? `${calibration.offsetMs > 0 ? '+' : ''}${calibration.offsetMs} ms` : 'not calibrated'}
+                  </span>
+                </span>
+              );
+            })}
+            {selectedDevices.length > 5 && (
+              <span className="text-xs text-brand-dark/40 font-body self-center">
+                +{selectedDevices.length - 5} more
+              </span>
+            )}
+          </div>
+          <p className="text-[11px] text-brand-dark/40 font-body">
+            Corrects each target&rsquo;s clock offset so splits and transitions across targets line up.
+          </p>
+        </div>
+      )}
+
       {/* Action row */}
       <div className="flex flex-wrap items-center gap-2">
         <div className="flex items-center gap-2">
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { resolveShotTotals, validateShotCount } from '@/domain/games/rules';
+import type { LiveSessionSummary } from './types';
+
+export type ShotCountDialogProps = {
+  summary: LiveSessionSummary | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isSaving: boolean;
+  onSubmit: (shotsFired: number) => Promise<boolean>;
+};
+
+// Mounted per open so the input starts from the session's current count.
+const ShotCountForm: React.FC<Omit<ShotCountDialogProps, 'open' | 'summary'> & { summary: LiveSessionSummary }> = ({
+  summary,
+  onOpenChange,
+  isSaving,
+  onSubmit,
+}) => {
+  const [value, setValue] = useState(String(summary.totalShots ?? summary.totalHits));
+  const shotsFired = Number(value);
+  const shotCheck = validateShotCount(shotsFired, summary.totalHits);
+  const preview = shotCheck.valid ? resolveShotTotals(summary.totalHits, shotsFired) : null;
+
+  const handleSubmit = async () => {
+    if (await onSubmit(shotsFired)) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="shots-fired" className="text-label text-brand-secondary uppercase tracking-wide font-body">
+          Shots fired
+        </Label>
+        <Input
+          id="shots-fired"
+          type="number"
+          inputMode="numeric"
+          min={summary.totalHits}
+          step={1}
+          value={value}
+          onChange={(event) => setValue(event.target.value)}
+          autoFocus
+          disabled={isSaving}
+          className="w-full"
+        />
+        {shotCheck.valid === false ? (
+          <p className="text-xs text-red-600 font-body">{shotCheck.violation}</p>
+        ) : (
+          preview && (
+            <p className="text-[11px] text-brand-dark/60 font-body">
+              {summary.totalHits} hits &bull; {preview.missCount} misses &bull; {preview.accuracy}% accuracy
+            </p>
+          )
+        )}
+      </div>
+      <DialogFooter className="mt-4 sm:mt-6 flex-col sm:flex-row gap-2 sm:gap-0">
+        <Button
+          variant="outline"
+          onClick={() => onOpenChange(false)}
+          disabled={isSaving}
+          className="w-full sm:w-auto"
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={() => void handleSubmit()}
+          disabled={isSaving || shotCheck.valid === false}
+          className="w-full sm:w-auto bg-brand-primary hover:bg-brand-primary/90"
+        >
+          {isSaving ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            'Save shots'
+          )}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+};
+
+// Records the shots fired in a finished session when no shot counter reported them,
+// so misses, accuracy and miss penalties reflect what was actually shot.
+export const ShotCountDialog: React.FC<ShotCountDialogProps> = ({ summary, open, onOpenChange, isSaving, onSubmit }) => (
+  <Dialog open={open && summary !== null} onOpenChange={onOpenChange}>
+    <DialogContent className="max-w-[calc(100vw-30px)] sm:max-w-md mx-auto px-4 py-4 sm:px-6 sm:py-6 shadow-elevated rounded-[var(--radius-lg)] border-0">
+      <DialogHeader className="space-y-1 sm:space-y-1.5">
+        <DialogTitle className="text-lg sm:text-xl font-heading">Enter Shots Fired</DialogTitle>
+        <DialogDescription className="text-xs sm:text-sm">
+          Shots that did not register a hit count as misses for accuracy and scoring.
+        </DialogDescription>
+      </DialogHeader>
+      {summary && open && (
+        <ShotCountForm summary={summary} onOpenChange={onOpenChange} isSaving={isSaving} onSubmit={onSubmit} />
+      )}
+    </DialogContent>
+  </Dialog>
+);
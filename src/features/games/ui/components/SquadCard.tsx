@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Play, Plus, UserRound, Users, X } from 'lucide-react';
+import { getGameMode } from '@/domain/games/modes';
+import { SQUAD_CONSTRAINTS, type Squad, type SquadShooter, type SquadStanding } from '@/domain/games/squads';
+import type { GameModeId, SquadFormat } from '@/domain/games/validators';
+
+const SQUAD_FORMAT_LABELS: Record<SquadFormat, string> = {
+  relay: 'Relay (shooters take turns)',
+  'head-to-head': 'Head-to-head (mirrored targets)',
+};
+
+export type SquadCardProps = {
+  squad: Squad | null;
+  nextShooter: SquadShooter | null;
+  isComplete: boolean;
+  standings: SquadStanding[];
+  gameModeId: GameModeId;
+  selectedDeviceIds: string[];
+  getTargetName: (deviceId: string) => string;
+  currentUser: { id: string; name: string } | null;
+  isSessionLocked: boolean;
+  onStartSquad: (format: SquadFormat, shooters: Array<Omit<SquadShooter, 'id'>>) => boolean;
+  onEndSquad: () => void;
+  /** Re-stage the last run's setup for the next shooter */
+  onStageNextRun: () => void;
+};
+
+const formatRunScore = (standing: SquadStanding, gameModeId: GameModeId): string => {
+  if (!standing.run) {
+    return '—';
+  }
+  if (!standing.run.isValid || typeof standing.run.score !== 'number') {
+    return 'DNF';
+  }
+  return getGameMode(gameModeId).scoreUnit === 'hits'
+    ? `${standing.run.score} hits`
+    : `${standing.run.score.toFixed(2)}s`;
+};
+
+// Relay / head-to-head squad setup, shooter queue and combined results table.
+export const SquadCard: React.FC<SquadCardProps> = ({
+  squad,
+  nextShooter,
+  isComplete,
+  standings,
+  gameModeId,
+  selectedDeviceIds,
+  getTargetName,
+  currentUser,
+  isSessionLocked,
+  onStartSquad,
+  onEndSquad,
+  onStageNextRun,
+}) => {
+  const [format, setFormat] = useState<SquadFormat>('relay');
+  const [draftShooters, setDraftShooters] = useState<Array<Omit<SquadShooter, 'id'>>>([]);
+  const [nameInput, setNameInput] = useState('');
+
+  const maxShooters =
+    format === 'relay' ? SQUAD_CONSTRAINTS.MAX_RELAY_SHOOTERS : SQUAD_CONSTRAINTS.HEAD_TO_HEAD_SHOOTERS;
+  const canAddShooter = draftShooters.length < maxShooters;
+  const hasCurrentUser = currentUser !== null && draftShooters.some((s) => s.profileId === currentUser.id);
+
+  const addGuest = () => {
+    const name = nameInput.trim();
+    if (!name || !canAddShooter) {
+      return;
+    }
+    setDraftShooters((prev) => [...prev, { name, profileId: null }]);
+    setNameInput('');
+  };
+
+  const handleStart = () => {
+    if (onStartSquad(format, draftShooters)) {
+      setDraftShooters([]);
+    }
+  };
+
+  if (!squad) {
+    return (
+      <Card className="bg-white shadow-card rounded-[var(--radius-lg)]">
+        <CardContent className="p-5 md:p-6 space-y-3">
+          <div className="flex items-center gap-2">
+            <Users className="h-4 w-4 text-brand-primary" />
+            <h2 className="font-heading text-base text-brand-dark">Squad Session</h2>
+          </div>
+          <Select value={format} onValueChange={(value) => setFormat(value as SquadFormat)} disabled={isSessionLocked}>
+            <SelectTrigger className="w-full h-9 bg-white border border-[rgba(28,25,43,0.1)] rounded-[var(--radius)] text-brand-dark text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white shadow-lg border-0">
+              {(Object.keys(SQUAD_FORMAT_LABELS) as SquadFormat[]).map((value) => (
+                <SelectItem key={value} value={value}>
+                  <span className="text-sm font-body">{SQUAD_FORMAT_LABELS[value]}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {format === 'head-to-head' && (
+            <p className="text-[11px] text-brand-dark/40 font-body">
+              Selected targets are split in half: the first half for the first shooter, the second half for the second.
+            </p>
+          )}
+          {draftShooters.length > 0 && (
+            <div className="space-y-1.5">
+              {draftShooters.map((shooter, index) => (
+                <div key={`${shooter.name}-${index}`} className="flex items-center justify-between rounded-[var(--radius)] bg-brand-primary/5 px-3 py-1.5">
+                  <span className="flex items-center gap-2 text-sm text-brand-dark font-body truncate">
+                    <span className="text-brand-dark/40 tabular-nums">{index + 1}.</span>
+                    {shooter.name}
+                    {shooter.profileId && <UserRound className="h-3 w-3 text-brand-primary" />}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setDraftShooters((prev) => prev.filter((_, i) => i !== index))}
+                    className="rounded-full p-0.5 text-brand-dark/40 hover:text-brand-primary"
+                    aria-label={`Remove ${shooter.name}`}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <Input
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  addGuest();
+                }
+              }}
+              maxLength={SQUAD_CONSTRAINTS.SHOOTER_NAME_MAX_LENGTH}
+              placeholder="Guest shooter name"
+              disabled={isSessionLocked || !canAddShooter}
+              className="h-8 text-sm"
+            />
+            <Button variant="ghost" size="sm" className="h-8 px-3 text-brand-primary" onClick={addGuest}
+              disabled={isSessionLocked || !canAddShooter || nameInput.trim().length === 0}>
+              <Plus className="h-3.5 w-3.5" />
+              Add
+            </Button>
+            {currentUser && !hasCurrentUser && (
+              <Button variant="ghost" size="sm" className="h-8 px-3 text-brand-primary whitespace-nowrap"
+                onClick={() => setDraftShooters((prev) => [...prev, { name: currentUser.name, profileId: currentUser.id }])}
+                disabled={isSessionLocked || !canAddShooter}>
+                <UserRound className="h-3.5 w-3.5" />
+                Add me
+              </Button>
+            )}
+          </div>
+          <Button size="sm" className="w-full h-9" onClick={handleStart}
+            disabled={isSessionLocked || draftShooters.length === 0 || (format === 'head-to-head' && selectedDeviceIds.length < 2)}>
+            <Play className="h-3.5 w-3.5" />
+            Start squad
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="bg-white shadow-card rounded-[var(--radius-lg)]">
+      <CardContent className="p-5 md:p-6 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <p className="text-label text-brand-secondary uppercase tracking-wide font-body">
+              {squad.format === 'relay' ? 'Relay' : 'Head-to-head'}
+            </p>
+            <h2 className="font-heading text-base text-brand-dark">
+              {isComplete ? 'Squad complete' : nextShooter && squad.format === 'relay' ? `Up next: ${nextShooter.name}` : 'Ready to race'}
+            </h2>
+          </div>
+          <Button variant="ghost" size="sm" className="text-brand-dark/60 text-xs h-8 px-3" onClick={onEndSquad} disabled={isSessionLocked}>
+            End squad
+          </Button>
+        </div>
+
+        {squad.format === 'head-to-head' && (
+          <div className="grid grid-cols-2 gap-2">
+            {squad.shooters.map((shooter) => (
+              <div key={shooter.id} className="rounded-[var(--radius)] bg-brand-primary/5 px-3 py-2">
+                <p className="text-sm font-medium text-brand-dark font-body truncate">{shooter.name}</p>
+                <p className="text-[11px] text-brand-dark/50 font-body truncate">
+                  {(squad.targetAssignments[shooter.id] ?? []).map(getTargetName).join(', ')}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-1.5">
+          {standings.map((standing) => (
+            <div
+              key={standing.shooter.id}
+              className={`flex items-center justify-between rounded-[var(--radius)] px-3 py-2 shadow-subtle ${
+                standing.rank === 1 ? 'bg-green-50' : 'bg-white'
+              }`}
+            >
+              <span className="flex items-center gap-2 text-sm text-brand-dark font-body truncate">
+                <span className="w-5 text-brand-dark/40 tabular-nums">{standing.rank ?? '–'}</span>
+                {standing.shooter.name}
+                {standing.shooter.profileId && <UserRound className="h-3 w-3 text-brand-primary" />}
+              </span>
+              <span className={`text-stat-sm font-bold font-body tabular-nums ml-2 ${
+                standing.run && !standing.run.isValid ? 'text-red-500' : 'text-brand-dark'
+              }`}>
+                {formatRunScore(standing, gameModeId)}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {!isComplete && squad.runs.length > 0 && (
+          <Button size="sm" className="w-full h-9" onClick={onStageNextRun} disabled={isSessionLocked}>
+            <Play className="h-3.5 w-3.5" />
+            Stage run for {nextShooter?.name}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
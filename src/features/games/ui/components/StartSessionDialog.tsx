@@ -3,8 +3,22 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Button } from '@/components/ui/button';
 
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
-import { Loader2, Play, Square, Timer, Target, BookmarkPlus } from 'lucide-react';
+import {
+  Loader2,
+  Play,
+  Pause,
+  Square,
+  Timer,
+  Target,
+  BookmarkPlus,
+  AlertTriangle,
+  CheckCircle2,
+  XCircle,
+  ClipboardCheck,
+  RefreshCw,
+} from 'lucide-react';
 import type { NormalizedGameDevice } from '@/features/games/hooks/use-game-devices';
 import type { SessionHitRecord } from '@/features/games/lib/device-game-flow';
 import type { TelemetryEnvelope } from '@/features/games/lib/thingsboard-client';
@@ -14,10 +28,13 @@ import { getStatusDisplay } from '@/shared/constants/target-status';
 import {
   formatSecondsWithMillis,
   formatSessionDuration,
+  useStartCountdown,
   type SessionLifecycle,
   type SessionHitEntry,
 } from '@/features/games/lib/session-state';
 import { useTargetCustomNames } from '@/features/targets';
+import type { PreflightCheckId, PreflightCheckStatus, PreflightResult } from '@/domain/games/preflight';
+import { SCHEDULED_START_CONSTRAINTS, type StartSchedule } from '@/domain/games/start-signal';
 
 export interface StartSessionDialogProps {
   open: boolean;
@@ -27,6 +44,11 @@ export interface StartSessionDialogProps {
   onStop: () => void;
   isStarting: boolean;
   isStopping: boolean;
+  /** Cease fire: the running session is paused and targets ignore hits */
+  isPaused?: boolean;
+  isPauseCommandPending?: boolean;
+  onPause?: () => void;
+  onResume?: () => void;
   canClose: boolean;
   sessionSeconds: number;
   targets: NormalizedGameDevice[];
@@ -46,6 +68,25 @@ export interface StartSessionDialogProps {
   onRequestSavePreset: () => void;
   isSavingPreset: boolean;
   goalShotsPerTarget?: Record<string, number>;
+  /** Shown before the session starts when recent telemetry ran slower than the live-game SLA */
+  telemetryWarning?: string | null;
+  /** Pre-flight results of the staged targets, keyed by device id */
+  preflightResults?: Record<string, PreflightResult>;
+  onRunPreflight?: () => void;
+  onDropFailingTargets?: () => void;
+  /** The session enforces target order, so it cannot run without any of its targets */
+  orderEnforced?: boolean;
+  /** Targets in the enforced order that are not staged */
+  missingTargets?: Array<{ deviceId: string; name: string }>;
+  /** Targets that could replace a missing or failed one, keyed by its device id */
+  substituteOptions?: Record<string, Array<{ deviceId: string; name: string }>>;
+  onSubstituteTarget?: (failedId: string, substituteId: string) => void;
+  /** When the staged session starts; null starts on the command */
+  startSchedule?: StartSchedule | null;
+  onStartScheduleChange?: (schedule: StartSchedule | null) => void;
+  /** Scheduled start the running session is holding for */
+  scheduledStartAt?: number | null;
+  onCancelScheduledStart?: () => void;
 }
 
 // Normalizes telemetry payload values into strings for dialog subscriptions.
@@ -150,6 +191,220 @@ const SessionTargetList: React.FC<{ targets: NormalizedGameDevice[]; tone: 'defa
   );
 };
 
+const PREFLIGHT_COLUMNS: Array<{ id: PreflightCheckId; label: string }> = [
+  { id: 'ping', label: 'Ping' },
+  { id: 'battery', label: 'Battery' },
+  { id: 'wifi', label: 'WiFi' },
+  { id: 'firmware', label: 'Firmware' },
+  { id: 'hitTest', label: 'Hit test' },
+];
+
+const PreflightStatusIcon: React.FC<{ status: PreflightCheckStatus }> = ({ status }) => {
+  if (status === 'pass') {
+    return <CheckCircle2 className="h-4 w-4 text-emerald-600" />;
+  }
+  if (status === 'warn') {
+    return <AlertTriangle className="h-4 w-4 text-amber-600" />;
+  }
+  if (status === 'fail') {
+    return <XCircle className="h-4 w-4 text-red-600" />;
+  }
+  return <Loader2 className="h-4 w-4 animate-spin text-brand-dark/40" />;
+};
+
+// Go/no-go table of the pre-flight run; hovering a cell shows the check's detail.
+const PreflightTable: React.FC<{
+  targets: NormalizedGameDevice[];
+  results: Record<string, PreflightResult>;
+  getDisplayName: (deviceId: string, defaultName: string) => string;
+}> = ({ targets, results, getDisplayName }) => (
+  <div className="overflow-x-auto rounded-[var(--radius)] bg-brand-primary/[0.04] p-2">
+    <table className="w-full text-xs text-brand-dark">
+      <thead>
+        <tr className="text-[10px] uppercase tracking-wide text-brand-dark/50">
+          <th className="px-2 py-1 text-left font-medium">Target</th>
+          {PREFLIGHT_COLUMNS.map((column) => (
+            <th key={column.id} className="px-1 py-1 text-center font-medium">
+              {column.label}
+            </th>
+          ))}
+          <th className="px-2 py-1 text-right font-medium">Verdict</th>
+        </tr>
+      </thead>
+      <tbody>
+        {targets.map((target) => {
+          const result = results[target.deviceId];
+          if (!result) {
+            return null;
+          }
+          return (
+            <tr key={target.deviceId} className="border-t border-brand-dark/[0.06]">
+              <td className="px-2 py-1.5 font-medium truncate max-w-[8rem]">
+                {getDisplayName(target.deviceId, target.name ?? target.deviceId)}
+              </td>
+              {PREFLIGHT_COLUMNS.map((column) => {
+                const check = result.checks.find((entry) => entry.id === column.id);
+                return (
+                  <td key={column.id} className="px-1 py-1.5" title={check ? `${column.label}: ${check.detail}` : undefined}>
+                    <span className="flex justify-center">{check && <PreflightStatusIcon status={check.status} />}</span>
+                  </td>
+                );
+              })}
+              <td className="px-2 py-1.5 text-right">
+                <span
+                  className={`text-[10px] font-semibold uppercase tracking-wide ${
+                    result.verdict === 'go'
+                      ? 'text-emerald-700'
+                      : result.verdict === 'no-go'
+                        ? 'text-red-700'
+                        : 'text-brand-dark/50'
+                  }`}
+                >
+                  {result.verdict === 'pending' ? 'Checking' : result.verdict}
+                </span>
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  </div>
+);
+
+// Missing or failed targets with the targets that can take their place.
+const StartRecoveryPanel: React.FC<{
+  rows: Array<{ deviceId: string; name: string }>;
+  reason: 'missing' | 'failed';
+  orderEnforced: boolean;
+  substituteOptions: Record<string, Array<{ deviceId: string; name: string }>>;
+  onSubstitute?: (failedId: string, substituteId: string) => void;
+  onRetry?: () => void;
+  isRetrying: boolean;
+}> = ({ rows, reason, orderEnforced, substituteOptions, onSubstitute, onRetry, isRetrying }) => {
+  const [choices, setChoices] = useState<Record<string, string>>({});
+
+  return (
+    <div className="space-y-2 rounded-[var(--radius)] bg-amber-50 px-3 py-3 text-xs text-amber-900">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-start gap-2">
+          <AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0 text-amber-600" />
+          <span>
+            {reason === 'missing'
+              ? 'This preset enforces target order. Substitute its missing targets before starting.'
+              : `${rows.length} target${rows.length === 1 ? '' : 's'} failed to start.${
+                orderEnforced ? ' This session enforces target order and cannot run short.' : ''
+              }`}
+          </span>
+        </div>
+        {onRetry && (
+          <Button type="button" variant="outline" size="sm" className="h-7 gap-1.5" onClick={onRetry} disabled={isRetrying}>
+            <RefreshCw className={`h-3.5 w-3.5 ${isRetrying ? 'animate-spin' : ''}`} />
+            {isRetrying ? 'Retrying...' : 'Retry'}
+          </Button>
+        )}
+      </div>
+      {rows.map((row) => {
+        const options = substituteOptions[row.deviceId] ?? [];
+        const choice = choices[row.deviceId] ?? '';
+        return (
+          <div key={row.deviceId} className="flex items-center gap-2">
+            <span className="min-w-0 flex-1 truncate font-medium">{row.name}</span>
+            {options.length > 0 && onSubstitute ? (
+              <>
+                <Select
+                  value={choice}
+                  onValueChange={(value) => setChoices((prev) => ({ ...prev, [row.deviceId]: value }))}
+                >
+                  <SelectTrigger className="h-7 w-36 bg-white text-xs">
+                    <SelectValue placeholder="Substitute" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-white shadow-lg border-0">
+                    {options.map((option) => (
+                      <SelectItem key={option.deviceId} value={option.deviceId}>
+                        <span className="text-xs font-body">{option.name}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-7"
+                  disabled={!choice}
+                  onClick={() => onSubstitute(row.deviceId, choice)}
+                >
+                  Swap
+                </Button>
+              </>
+            ) : (
+              <span className="text-[11px] text-amber-700">No idle target in its room or group</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const START_NOW = 'now';
+const START_AT = 'at';
+const COUNTDOWN_PREFIX = 'countdown-';
+
+// Start-now, countdown or set-time picker; the schedule is resolved when the session launches.
+const StartScheduleField: React.FC<{
+  value: StartSchedule | null;
+  onChange: (schedule: StartSchedule | null) => void;
+}> = ({ value, onChange }) => {
+  const selected = value === null ? START_NOW : value.kind === 'at' ? START_AT : `${COUNTDOWN_PREFIX}${value.seconds}`;
+
+  const handleSelect = (next: string) => {
+    if (next === START_NOW) {
+      onChange(null);
+    } else if (next === START_AT) {
+      onChange({ kind: 'at', time: value?.kind === 'at' ? value.time : '' });
+    } else {
+      onChange({ kind: 'countdown', seconds: Number(next.slice(COUNTDOWN_PREFIX.length)) });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="font-body text-xs sm:text-sm uppercase tracking-wide text-brand-dark/70">Start</h3>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Select value={selected} onValueChange={handleSelect}>
+          <SelectTrigger className="h-9 sm:w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={START_NOW}>Start now</SelectItem>
+            {SCHEDULED_START_CONSTRAINTS.COUNTDOWN_PRESETS_SECONDS.map((seconds) => (
+              <SelectItem key={seconds} value={`${COUNTDOWN_PREFIX}${seconds}`}>
+                {`Countdown ${formatSessionDuration(seconds)}`}
+              </SelectItem>
+            ))}
+            <SelectItem value={START_AT}>At a set time</SelectItem>
+          </SelectContent>
+        </Select>
+        {value?.kind === 'at' && (
+          <Input
+            type="time"
+            aria-label="Start time"
+            value={value.time}
+            onChange={(event) => onChange({ kind: 'at', time: event.target.value })}
+            className="h-9 sm:w-32"
+          />
+        )}
+      </div>
+      {value !== null && (
+        <p className="text-[11px] text-brand-dark/60">
+          Targets hold until the start and beep on their own, so you can walk to the line.
+        </p>
+      )}
+    </div>
+  );
+};
+
 const SessionProgressMessage: React.FC<{ tone: 'default' | 'live'; message: string; subtext?: string }> = ({
   tone,
   message,
@@ -283,6 +538,10 @@ export const StartSessionDialog: React.FC<StartSessionDialogProps> = ({
   onStop,
   isStarting,
   isStopping,
+  isPaused = false,
+  isPauseCommandPending = false,
+  onPause,
+  onResume,
   canClose,
   sessionSeconds,
   targets,
@@ -292,16 +551,28 @@ export const StartSessionDialog: React.FC<StartSessionDialogProps> = ({
   isDirectAuthLoading,
   directTargets,
   directGameId,
-  directStartStates: _directStartStates,
+  directStartStates,
   directFlowActive,
-  onRetryFailed: _onRetryFailed,
-  isRetryingFailedDevices: _isRetryingFailedDevices,
+  onRetryFailed,
+  isRetryingFailedDevices,
   selectedRoomName,
   desiredDurationSeconds,
   onDesiredDurationChange,
   onRequestSavePreset,
   isSavingPreset,
   goalShotsPerTarget = {},
+  telemetryWarning = null,
+  preflightResults = {},
+  onRunPreflight,
+  onDropFailingTargets,
+  orderEnforced = false,
+  missingTargets = [],
+  substituteOptions = {},
+  onSubstituteTarget,
+  startSchedule = null,
+  onStartScheduleChange,
+  scheduledStartAt = null,
+  onCancelScheduledStart,
 }) => {
   const [dialogHitHistory, setDialogHitHistory] = useState<SessionHitRecord[]>([]);
   const [durationInput, setDurationInput] = useState('');
@@ -516,6 +787,8 @@ export const StartSessionDialog: React.FC<StartSessionDialogProps> = ({
   const isRunningPhase = lifecycle === 'running';
   const isStoppingPhase = lifecycle === 'stopping';
   const isFinalizingPhase = lifecycle === 'finalizing';
+  const countdownSeconds = useStartCountdown(isRunningPhase ? scheduledStartAt : null);
+  const isCountingDown = countdownSeconds !== null;
   const usesLivePalette = isLaunchingPhase || isRunningPhase || isStoppingPhase || isFinalizingPhase;
   const resolvedGameId = directGameId;
   const loggedGameIdRef = useRef<string | null>(null);
@@ -567,6 +840,12 @@ export const StartSessionDialog: React.FC<StartSessionDialogProps> = ({
     if (isStoppingPhase) {
       return 'Stopping the live session and notifying all selected targets.';
     }
+    if (isRunningPhase && isCountingDown) {
+      return 'Targets are holding for the scheduled start and beep when it begins. Cancel before then to call it off.';
+    }
+    if (isRunningPhase && isPaused) {
+      return 'Cease fire—targets ignore hits and the clock is stopped until you resume.';
+    }
     if (isRunningPhase) {
       return 'Session is live—watch the stopwatch and shot feed update as hits come in.';
     }
@@ -584,6 +863,12 @@ export const StartSessionDialog: React.FC<StartSessionDialogProps> = ({
     if (isStoppingPhase) {
       return 'Stopping session...';
     }
+    if (isRunningPhase && isCountingDown) {
+      return 'Counting down to the scheduled start';
+    }
+    if (isRunningPhase && isPaused) {
+      return 'Session paused';
+    }
     if (isRunningPhase) {
       return 'Session is live';
     }
@@ -594,7 +879,19 @@ export const StartSessionDialog: React.FC<StartSessionDialogProps> = ({
   })();
 
   const showStopwatchSpinner = isLaunchingPhase || isStoppingPhase || isFinalizingPhase;
-  const canTriggerStart = isSelectingPhase && !isStarting && targets.length > 0;
+  const preflightTargetResults = targets
+    .map((target) => preflightResults[target.deviceId])
+    .filter((result): result is PreflightResult => Boolean(result));
+  const isPreflightRunning = preflightTargetResults.some((result) => result.verdict === 'pending');
+  const failingPreflightCount = preflightTargetResults.filter((result) => result.verdict === 'no-go').length;
+  const failedStartTargets = directTargets.filter((target) => directStartStates[target.deviceId] === 'error');
+  const canTriggerStart =
+    isSelectingPhase &&
+    !isStarting &&
+    targets.length > 0 &&
+    !isPreflightRunning &&
+    failingPreflightCount === 0 &&
+    !(orderEnforced && missingTargets.length > 0);
   const showCloseButton = isSelectingPhase || isLaunchingPhase;
   const showStartButton = isSelectingPhase;
   const showStopButton = isRunningPhase;
@@ -627,9 +924,22 @@ export const StartSessionDialog: React.FC<StartSessionDialogProps> = ({
         </div>
         <div className="flex flex-wrap items-center justify-center gap-2">
           <span className="inline-flex items-center rounded-full bg-brand-primary/[0.08] text-brand-primary text-xs px-2.5 py-1 sm:px-3 font-medium font-body">
-            {`${targets.length} target${targets.length === 1 ? '' : 's'} armed`}
+            {isPaused
+              ? `${targets.length} target${targets.length === 1 ? '' : 's'} holding`
+              : `${targets.length} target${targets.length === 1 ? '' : 's'} armed`}
           </span>
         </div>
+        {failedStartTargets.length > 0 && (
+          <StartRecoveryPanel
+            rows={failedStartTargets}
+            reason="failed"
+            orderEnforced={orderEnforced}
+            substituteOptions={substituteOptions}
+            onSubstitute={onSubstituteTarget}
+            onRetry={onRetryFailed}
+            isRetrying={isRetryingFailedDevices}
+          />
+        )}
         <h3 className="text-xs sm:text-sm uppercase tracking-wide text-brand-dark/60">Live shot feed</h3>
         <SessionHitFeedList hits={displayedSessionHits} variant="live" emptyLabel="Waiting for the first hit..." limit={12} getDisplayName={getDisplayName} getDeviceIdFromHit={getDeviceIdFromHit} />
       </div>
@@ -707,6 +1017,73 @@ export const StartSessionDialog: React.FC<StartSessionDialogProps> = ({
           <SessionTargetList targets={targets} tone="default" />
         </div>
 
+        {orderEnforced && missingTargets.length > 0 && (
+          <StartRecoveryPanel
+            rows={missingTargets}
+            reason="missing"
+            orderEnforced
+            substituteOptions={substituteOptions}
+            onSubstitute={onSubstituteTarget}
+            isRetrying={false}
+          />
+        )}
+
+        {onStartScheduleChange && targets.length > 0 && (
+          <StartScheduleField value={startSchedule} onChange={onStartScheduleChange} />
+        )}
+
+        {onRunPreflight && targets.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="font-body text-xs sm:text-sm uppercase tracking-wide text-brand-dark/70">Pre-flight</h3>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={onRunPreflight}
+                disabled={isPreflightRunning}
+              >
+                {isPreflightRunning ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <ClipboardCheck className="h-4 w-4" />
+                )}
+                {preflightTargetResults.length > 0 ? 'Re-run check' : 'Run check'}
+              </Button>
+            </div>
+            {preflightTargetResults.length > 0 ? (
+              <>
+                <PreflightTable targets={targets} results={preflightResults} getDisplayName={getDisplayName} />
+                {isPreflightRunning && (
+                  <p className="text-[11px] text-brand-dark/60">Tap each target once to complete the hit test.</p>
+                )}
+                {failingPreflightCount > 0 && onDropFailingTargets && (
+                  <div className="flex items-center justify-between gap-2 rounded-[var(--radius)] bg-red-50 px-3 py-2 text-xs text-red-800">
+                    <span>
+                      {`${failingPreflightCount} target${failingPreflightCount === 1 ? '' : 's'} failed pre-flight.`}
+                    </span>
+                    <Button type="button" variant="outline" size="sm" className="h-7" onClick={onDropFailingTargets}>
+                      Drop failing targets
+                    </Button>
+                  </div>
+                )}
+              </>
+            ) : (
+              <p className="text-[11px] text-brand-dark/60">
+                Pings each target and checks battery, WiFi, firmware and a hit before you start.
+              </p>
+            )}
+          </div>
+        )}
+
+        {telemetryWarning && (
+          <div className="flex items-start gap-2 rounded-[var(--radius)] bg-amber-50 px-3 py-2 text-xs text-amber-800">
+            <AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0 text-amber-600" />
+            <span>{telemetryWarning}</span>
+          </div>
+        )}
+
         {targets.length > 0 && (
           <div className="flex justify-end">
             <Button
@@ -763,7 +1140,7 @@ export const StartSessionDialog: React.FC<StartSessionDialogProps> = ({
 
         <div className="space-y-3 sm:space-y-4 md:space-y-6">
           <SessionStopwatchCard
-            seconds={sessionSeconds}
+            seconds={countdownSeconds ?? sessionSeconds}
             accent={usesLivePalette ? 'live' : 'default'}
             statusText={stopwatchStatus}
             showSpinner={showStopwatchSpinner}
@@ -790,7 +1167,36 @@ export const StartSessionDialog: React.FC<StartSessionDialogProps> = ({
             <span className="hidden sm:block" aria-hidden="true" />
           )}
           <div className="flex flex-col sm:flex-row gap-2 sm:items-center w-full sm:w-auto">
-            {showStopButton && (
+            {showStopButton && isCountingDown && onCancelScheduledStart && (
+              <Button
+                variant="outline"
+                size="xl"
+                onClick={onCancelScheduledStart}
+                className="w-full sm:min-w-[140px] border-brand-dark/15 text-brand-dark hover:bg-brand-dark/[0.04]"
+              >
+                <XCircle className="h-5 w-5 mr-2" />
+                Cancel Start
+              </Button>
+            )}
+            {showStopButton && !isCountingDown && (onPause || onResume) && (
+              <Button
+                variant="outline"
+                size="xl"
+                onClick={isPaused ? onResume : onPause}
+                disabled={isPauseCommandPending || isStopping}
+                className="w-full sm:min-w-[140px] border-brand-dark/15 text-brand-dark hover:bg-brand-dark/[0.04]"
+              >
+                {isPauseCommandPending ? (
+                  <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                ) : isPaused ? (
+                  <Play className="h-5 w-5 mr-2" />
+                ) : (
+                  <Pause className="h-5 w-5 mr-2" />
+                )}
+                {isPaused ? 'Resume' : 'Cease Fire'}
+              </Button>
+            )}
+            {showStopButton && !isCountingDown && (
               <Button
                 variant="destructive"
                 size="xl"
@@ -828,7 +1234,7 @@ export const StartSessionDialog: React.FC<StartSessionDialogProps> = ({
                 ) : (
                   <>
                     <Play className="h-5 w-5 mr-2" />
-                    Begin Session
+                    {startSchedule ? 'Schedule Start' : 'Begin Session'}
                   </>
                 )}
               </Button>
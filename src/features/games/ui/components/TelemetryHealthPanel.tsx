@@ -0,0 +1,103 @@
+import React from 'react';
+import { Activity, AlertTriangle } from 'lucide-react';
+import { summarizeTelemetryHealth, type TelemetryHealthStatus } from '@/domain/games/telemetry-health';
+import type { LiveTelemetryHealth } from '@/features/games/hooks/use-direct-tb-telemetry';
+
+export type TelemetryHealthPanelProps = {
+  health: LiveTelemetryHealth;
+  slaMs: number;
+  /** Whether the metrics are from the running session or the last one */
+  isLive: boolean;
+  getTargetName: (deviceId: string) => string;
+};
+
+const STATUS_STYLES: Record<TelemetryHealthStatus, { label: string; className: string }> = {
+  unknown: { label: 'Waiting for telemetry', className: 'bg-brand-dark/[0.05] text-brand-dark/60' },
+  healthy: { label: 'Healthy', className: 'bg-green-50 text-green-700' },
+  degraded: { label: 'Degraded', className: 'bg-amber-50 text-amber-700' },
+};
+
+const TRANSPORT_LABELS = {
+  websocket: 'Realtime (WebSocket)',
+  polling: 'Polling fallback',
+} as const;
+
+const formatLatency = (latencyMs: number | null) => (latencyMs === null ? '—' : `${latencyMs} ms`);
+
+// Shows whether hits are arriving in real time: transport, reconnects, latency against the SLA and dropped hits.
+const _TelemetryHealthPanel: React.FC<TelemetryHealthPanelProps> = ({ health, slaMs, isLive, getTargetName }) => {
+  const devices = Object.values(health.devices);
+  const summary = summarizeTelemetryHealth(devices, slaMs);
+  const status = STATUS_STYLES[summary.status];
+
+  return (
+    <div className="rounded-[var(--radius)] bg-white shadow-subtle px-4 py-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="flex items-center gap-1.5 text-label text-brand-secondary font-body uppercase tracking-wide">
+          <Activity className="h-3.5 w-3.5 text-brand-primary" />
+          Telemetry Health{isLive ? '' : ' (last session)'}
+        </p>
+        <span className={`rounded-full px-2.5 py-0.5 text-[11px] font-medium font-body ${status.className}`}>
+          {status.label}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-xs font-body">
+        <div>
+          <p className="text-brand-dark/50">Transport</p>
+          <p className={`font-medium ${health.transport === 'polling' ? 'text-amber-700' : 'text-brand-dark'}`}>
+            {health.transport ? TRANSPORT_LABELS[health.transport] : '—'}
+          </p>
+        </div>
+        <div>
+          <p className="text-brand-dark/50">Latency (avg / worst)</p>
+          <p className="font-medium text-brand-dark">
+            {formatLatency(summary.averageLatencyMs)} / {formatLatency(summary.worstLatencyMs)}
+          </p>
+        </div>
+        <div>
+          <p className="text-brand-dark/50">Reconnects</p>
+          <p className="font-medium text-brand-dark">{health.reconnectCount}</p>
+        </div>
+        <div>
+          <p className="text-brand-dark/50">Dropped hits</p>
+          <p className={`font-medium ${summary.droppedHits > 0 ? 'text-amber-700' : 'text-brand-dark'}`}>
+            {summary.droppedHits}
+            {summary.gapCount > 0 && ` in ${summary.gapCount} gap${summary.gapCount === 1 ? '' : 's'}`}
+          </p>
+        </div>
+      </div>
+
+      {devices.length > 0 && (
+        <div className="space-y-1 max-h-40 overflow-y-auto">
+          {devices.map((device) => {
+            const overSla = device.averageLatencyMs !== null && device.averageLatencyMs > slaMs;
+            return (
+              <div key={`telemetry-health-${device.deviceId}`} className="flex items-center justify-between gap-2 text-xs font-body">
+                <span className="truncate text-brand-dark/70">{getTargetName(device.deviceId)}</span>
+                <span className="flex items-center gap-3 text-brand-dark/60 tabular-nums">
+                  <span className={overSla ? 'text-amber-700 font-medium' : undefined}>
+                    {formatLatency(device.averageLatencyMs)}
+                  </span>
+                  <span>{device.messageCount} msg</span>
+                  {device.droppedHits > 0 && <span className="text-amber-700">{device.droppedHits} dropped</span>}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {summary.overSlaDeviceIds.length > 0 && (
+        <p className="flex items-start gap-1.5 text-[11px] text-amber-700 font-body">
+          <AlertTriangle className="h-3.5 w-3.5 mt-px flex-shrink-0" />
+          {summary.overSlaDeviceIds.length} target{summary.overSlaDeviceIds.length === 1 ? ' is' : 's are'} slower
+          than the {slaMs} ms live-game target. Hit times may lag the shooter.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export const TelemetryHealthPanel = React.memo(_TelemetryHealthPanel);
+TelemetryHealthPanel.displayName = 'TelemetryHealthPanel';
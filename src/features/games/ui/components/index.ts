@@ -14,3 +14,10 @@ export { RoomSelectionCard, RoomSelectionSkeleton } from './RoomSelectionCard';
 export { GroupSelectionCard, GroupSelectionSkeleton } from './GroupSelectionCard';
 export { TargetTransitionsCard, TargetTransitionsSkeleton } from './TargetTransitionsCard';
 export { StartSessionDialog } from './StartSessionDialog';
+export { SquadCard, type SquadCardProps } from './SquadCard';
+export { DrillStageBuilder, type DrillStageBuilderProps } from './DrillStageBuilder';
+export { QualificationEditor, type QualificationEditorProps } from './QualificationEditor';
+export { SessionReplayDialog, type SessionReplayDialogProps } from './SessionReplayDialog';
+export { ShotCountDialog, type ShotCountDialogProps } from './ShotCountDialog';
+export { SessionRecoveryBanner, type SessionRecoveryBannerProps } from './SessionRecoveryBanner';
+export { TelemetryHealthPanel, type TelemetryHealthPanelProps } from './TelemetryHealthPanel';
@@ -1,4 +1,7 @@
 import type { GameHistory, SessionHitRecord, SessionSplit, SessionTransition } from '@/features/games/lib/device-game-flow';
+import type { GameModeId } from '@/domain/games/validators';
+import type { SessionPenaltyEntry, ShotCountSource } from '@/domain/games/rules';
+import type { DrillStageResult } from '@/domain/games/drills';
 
 // Shared representation of the most recent live session summary consumed across dashboard cards.
 export type LiveSessionSummary = {
@@ -18,14 +21,32 @@ export type LiveSessionSummary = {
   historyEntry: GameHistory;
   /** @deprecated Use `score` instead */
   efficiencyScore: number;
+  /** Scoring mode the session ran under. Determines how `score` is interpreted. */
+  gameMode: GameModeId;
   /** 
-   * Time-based score in seconds. Lower is better.
+   * Mode-specific score (see GAME_MODES). For the default 'time-to-goal' mode this is
+   * a time-based score in seconds, lower is better:
    * - With goals set: time of the last required hit. Null if run is invalid (DNF).
    * - Without goals: time from first hit to last hit. Null if fewer than 2 hits.
    */
   score: number | null;
   /** Whether the run is valid (all required hits occurred). Always true if no goals were set. */
   isValid: boolean;
+  /** Time before penalties for modes that apply them (score = rawScore + penaltySeconds) */
+  rawScore: number | null;
+  penaltySeconds: number;
+  /** Itemised penalty ledger (empty for modes without penalties) */
+  penalties: SessionPenaltyEntry[];
+  /** Per-stage times for staged drills (empty for plain sessions) */
+  stageResults: DrillStageResult[];
+  /** Seconds from the start beep to the first hit, null when nothing was hit */
+  drawTimeSeconds: number | null;
+  /** Shots fired; equals totalHits unless a shot counter or manual entry counted them */
+  totalShots: number;
+  missCount: number;
+  /** Hits over shots fired, in percent */
+  accuracy: number;
+  shotCountSource: ShotCountSource;
   roomId: string | null;
   roomName: string | null;
   desiredDurationSeconds: number | null;
@@ -18,9 +18,11 @@ import {
   Trophy,
   TrendingUp,
   Calendar,
+  PlayCircle,
 } from 'lucide-react';
 import { useGameHistory } from '@/features/games/hooks/use-game-history';
 import type { GameHistory as GameHistoryType } from '@/features/games/lib/device-game-flow';
+import { SessionReplayDialog } from './components';
 
 interface GameHistoryProps {
   onGameSelect?: (game: GameHistoryType) => void;
@@ -32,6 +34,7 @@ const EXPANDED_ROW_HEIGHT = 320;
 export const GameHistoryComponent: React.FC<GameHistoryProps> = ({ onGameSelect }) => {
   const { data: gameHistory = [], isLoading, error } = useGameHistory();
   const [selectedGame, setSelectedGame] = useState<GameHistoryType | null>(null);
+  const [replayGame, setReplayGame] = useState<GameHistoryType | null>(null);
   const [sortBy, setSortBy] = useState<'date' | 'hits' | 'duration'>('date');
   const [filterBy, setFilterBy] = useState<'all' | 'recent' | 'high-score'>('all');
   const parentRef = useRef<HTMLDivElement>(null);
@@ -276,12 +279,15 @@ export const GameHistoryComponent: React.FC<GameHistoryProps> = ({ onGameSelect
             setSelectedGame(isSelected ? null : game);
             onGameSelect?.(game);
           }}
+          onReplay={setReplayGame}
           getTotalHits={getTotalHits}
           getBestDevice={getBestDevice}
           formatDate={formatDate}
           formatDuration={formatDuration}
         />
       )}
+
+      <SessionReplayDialog game={replayGame} onOpenChange={(open) => !open && setReplayGame(null)} />
     </div>
   );
 };
@@ -292,6 +298,7 @@ function VirtualGameList({
   selectedGame,
   parentRef,
   onSelect,
+  onReplay,
   getTotalHits,
   getBestDevice,
   formatDate,
@@ -301,6 +308,7 @@ function VirtualGameList({
   selectedGame: GameHistoryType | null;
   parentRef: React.RefObject<HTMLDivElement | null>;
   onSelect: (game: GameHistoryType) => void;
+  onReplay: (game: GameHistoryType) => void;
   getTotalHits: (game: GameHistoryType) => number;
   getBestDevice: (game: GameHistoryType) => GameHistoryType['deviceResults'][number];
   formatDate: (ts: number) => string;
@@ -395,7 +403,22 @@ function VirtualGameList({
 
                   {isSelected && (
                     <div className="mt-4 pt-4 border-t">
-                      <h4 className="font-medium mb-2">Device Results</h4>
+                      <div className="flex items-center justify-between mb-2">
+                        <h4 className="font-medium">Device Results</h4>
+                        {(game.hitHistory?.length ?? 0) > 0 && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onReplay(game);
+                            }}
+                          >
+                            <PlayCircle className="h-4 w-4 mr-1" />
+                            Replay
+                          </Button>
+                        )}
+                      </div>
                       <div className="space-y-2">
                         {game.deviceResults.map((result, index) => (
                           <div
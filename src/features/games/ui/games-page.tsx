@@ -1,4 +1,6 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { toast } from '@/components/ui/sonner';
 import { useGameDevices, type NormalizedGameDevice } from '@/features/games/hooks/use-game-devices';
 import { useTargets } from '@/features/targets';
 import type { Target } from '@/features/targets/schema';
@@ -14,7 +16,7 @@ import {
   LiveSessionCardSkeleton,
   StartSessionDialog,
 } from '@/features/games/ui/components';
-import { useSessionTimer, type SessionHitEntry } from '@/features/games/lib/session-state';
+import { useSessionTimer, useStartStandby, type SessionHitEntry } from '@/features/games/lib/session-state';
 import { useGamePresets, useSaveGamePreset, useDeleteGamePreset } from '@/features/games';
 import { useDeviceSelection } from '@/features/games/hooks/use-device-selection';
 import { useSessionLifecycle } from '@/features/games/hooks/use-session-lifecycle';
@@ -24,10 +26,27 @@ import { usePresetManagement } from '@/features/games/hooks/use-preset-managemen
 import { useSessionState } from '@/features/games/hooks/use-session-state';
 import { useSessionRegistry } from '@/features/games/hooks/use-session-registry';
 import { useTbAuth } from '@/features/games/hooks/use-tb-auth';
+import { useClockCalibration } from '@/features/games/hooks/use-clock-calibration';
+import { usePreflightCheck } from '@/features/games/hooks/use-preflight-check';
+import { useSessionPause } from '@/features/games/hooks/use-session-pause';
 import { useTbDeviceRpc } from '@/features/games/hooks/use-tb-device-rpc';
 import { useTbSessionFlow } from '@/features/games/hooks/use-tb-session-flow';
 import { useSessionFinalizer } from '@/features/games/hooks/use-session-finalizer';
+import { useCalloutDrill } from '@/features/games/hooks/use-callout-drill';
+import { useSquadSession } from '@/features/games/hooks/use-squad-session';
+import { useManualShotCount } from '@/features/games/hooks/use-manual-shot-count';
+import { useSessionJournal } from '@/features/games/hooks/use-session-journal';
+import type { SessionHitRecord } from '@/features/games/lib/device-game-flow';
 import { deriveIsOnline } from '@/features/games/lib/device-status-utils';
+import { getGameMode } from '@/domain/games/modes';
+import type { GameModeId } from '@/domain/games/validators';
+import { validateDrill, type DrillStage } from '@/domain/games/drills';
+import { validateStartDelay } from '@/domain/games/start-signal';
+import { validateQualificationStandard } from '@/domain/games/qualifications';
+import { compareToGhost, computePersonalBests, findPersonalBest, getGhostSplitTimes } from '@/domain/games/personal-bests';
+import { summarizeTelemetryHealth } from '@/domain/games/telemetry-health';
+import { findSubstituteTargets, type SubstituteCandidate } from '@/domain/games/start-recovery';
+import { TELEMETRY_SLA_MS } from '@/config/telemetry';
 import {
   SetupWizardSkeleton,
   SavePresetDialog,
@@ -36,6 +55,10 @@ import {
   SetupStepThree,
   ErrorBanner,
   PresetBanner,
+  SquadCard,
+  ShotCountDialog,
+  SessionRecoveryBanner,
+  TelemetryHealthPanel,
 } from './components';
 import { Card, CardContent } from '@/components/ui/card';
 import { Check, Pencil, RotateCcw } from 'lucide-react';
@@ -217,6 +240,8 @@ const Games: React.FC = () => {
     reset: resetSessionTimer,
     start: startSessionTimer,
     freeze: freezeSessionTimer,
+    pause: pauseSessionTimer,
+    resume: resumeSessionTimer,
   } = useSessionTimer();
   // Activation metadata helps correlate when we fired the ThingsBoard start command vs. when telemetry confirmed it.
   const {
@@ -331,6 +356,22 @@ const Games: React.FC = () => {
     isDurationUnlimited,
     goalShotsPerTarget,
     setGoalShotsPerTarget,
+    gameModeId,
+    setGameModeId,
+    parTimesPerTarget,
+    setParTimesPerTarget,
+    penaltiesPerTarget,
+    setPenaltiesPerTarget,
+    drillStages,
+    setDrillStages,
+    startDelay,
+    setStartDelay,
+    startSchedule,
+    setStartSchedule,
+    qualificationStandard,
+    setQualificationStandard,
+    targetOrder,
+    setTargetOrder,
     isStepSelectTargets,
     isStepReview,
     canAdvanceToDuration,
@@ -352,9 +393,65 @@ const Games: React.FC = () => {
     registry,
   });
 
+  // Validate the staged setup against the selected game mode (target count, time limit, ...).
+  const gameModeValidation = useMemo(
+    () =>
+      getGameMode(gameModeId).validate({
+        targetIds: selectedDeviceIds,
+        goalShotsPerTarget,
+        timeLimitSeconds: sessionDurationSeconds,
+        parTimesPerTarget,
+      }),
+    [gameModeId, goalShotsPerTarget, parTimesPerTarget, selectedDeviceIds, sessionDurationSeconds],
+  );
+  const gameModeViolation = gameModeValidation.valid === false ? gameModeValidation.violation : null;
+
+  // Per-target goals only apply to goal-based modes; drop them when switching away so
+  // goal-based target stops don't interfere with the other modes.
+  const handleGameModeChange = useCallback(
+    (modeId: GameModeId) => {
+      setGameModeId(modeId);
+      if (!getGameMode(modeId).usesGoalShots) {
+        setGoalShotsPerTarget({});
+      }
+    },
+    [setGameModeId, setGoalShotsPerTarget],
+  );
+
+  // Staged drills must stay on the selected targets and within the stage limits.
+  const drillValidation = useMemo(
+    () => (drillStages.length > 0 ? validateDrill(drillStages, selectedDeviceIds) : null),
+    [drillStages, selectedDeviceIds],
+  );
+  const drillViolation = drillValidation?.valid === false ? drillValidation.violation : null;
+
+  // A drill's stages replace per-target goals: goal-based target stops would cut a
+  // target off before later stages that use it again.
+  const handleDrillStagesChange = useCallback(
+    (stages: DrillStage[]) => {
+      setDrillStages(stages);
+      if (stages.length > 0) {
+        setGoalShotsPerTarget({});
+      }
+    },
+    [setDrillStages, setGoalShotsPerTarget],
+  );
+
+  // The random start delay range must stay within the shot-timer limits.
+  const startDelayValidation = useMemo(() => (startDelay ? validateStartDelay(startDelay) : null), [startDelay]);
+  const startDelayViolation = startDelayValidation?.valid === false ? startDelayValidation.violation : null;
+
+  // A qualification course needs a name, a round count and at least one pass standard.
+  const qualificationValidation = useMemo(
+    () => (qualificationStandard ? validateQualificationStandard(qualificationStandard) : null),
+    [qualificationStandard],
+  );
+  const qualificationViolation = qualificationValidation?.valid === false ? qualificationValidation.violation : null;
+
   // Override canLaunchGame to use the visual accordion step (currentStep) instead of
   // the internal setupStep from useSessionState, so both stay in sync after presets.
-  const canLaunchGame = currentStep === 3 && canAdvanceToReview && selectedOnlineDevices > 0 && !isSessionLocked;
+  const canLaunchGame =
+    currentStep === 3 && canAdvanceToReview && selectedOnlineDevices > 0 && !isSessionLocked && gameModeValidation.valid && drillViolation === null && startDelayViolation === null && qualificationViolation === null;
 
   // --- Preset management (state, save/delete/apply callbacks, logging effects) ---
   const {
@@ -393,6 +490,13 @@ const Games: React.FC = () => {
     sessionDurationSeconds,
     sessionRoomId,
     goalShotsPerTarget,
+    gameModeId,
+    parTimesPerTarget,
+    penaltiesPerTarget,
+    drillStages,
+    startDelay,
+    qualificationStandard,
+    targetOrder,
     rooms,
     pendingSessionTargets,
     currentSessionTargets,
@@ -402,12 +506,33 @@ const Games: React.FC = () => {
     setSessionRoomId,
     setSessionDurationSeconds,
     setGoalShotsPerTarget,
+    setGameModeId,
+    setParTimesPerTarget,
+    setPenaltiesPerTarget,
+    setDrillStages,
+    setStartDelay,
+    setQualificationStandard,
+    setTargetOrder,
     setIsDurationUnlimited,
     registry,
   });
   // Register setStagedPresetId so useDeviceSelection + useSessionState can reach it via registry.
   register('setStagedPresetId', setStagedPresetId);
 
+  // Callouts a 'random-callout' run requires; a preset can ask for more or fewer than the mode default.
+  const activeCalloutCount = useMemo(
+    () => gamePresets.find((preset) => preset.id === activePresetId)?.settings?.calloutCount ?? null,
+    [gamePresets, activePresetId],
+  );
+
+  // Personal best of the active preset under the selected mode; the live card races its ghost.
+  const personalBests = useMemo(() => computePersonalBests(gameHistory), [gameHistory]);
+  const activePersonalBest = findPersonalBest(personalBests, activePresetId, gameModeId);
+  const ghostSplitTimes = useMemo(
+    () => (activePersonalBest ? getGhostSplitTimes(activePersonalBest.run) : []),
+    [activePersonalBest],
+  );
+
   const sessionRoomName = useMemo(() => {
     if (!sessionRoomId) {
       return null;
@@ -454,6 +579,10 @@ const Games: React.FC = () => {
     setDirectControlError,
     refreshDirectAuthToken,
   } = useTbAuth();
+  const { clockCalibrations, isCalibratingClocks, calibrateClocks } = useClockCalibration({ refreshDirectAuthToken });
+  const handleCalibrateClocks = useCallback(() => {
+    void calibrateClocks(selectedDeviceIds);
+  }, [calibrateClocks, selectedDeviceIds]);
 
   // Shared direct-session state — lifted to page level so C.2 and C.3 can both access it
   // without a circular dependency (C.2 needs these values, C.3 needs executeDirectStart from C.2).
@@ -461,6 +590,12 @@ const Games: React.FC = () => {
   const [directSessionTargets, setDirectSessionTargets] = useState<Array<{ deviceId: string; name: string }>>([]);
   const [directFlowActive, setDirectFlowActive] = useState(false);
   const [directTelemetryEnabled, setDirectTelemetryEnabled] = useState(false);
+  // Hits of a session resumed after a page reload, replayed into the telemetry stream
+  const [recoveredHits, setRecoveredHits] = useState<SessionHitRecord[]>([]);
+  const { preflightResults, preflightReadiness, runPreflight, resetPreflight } = usePreflightCheck({
+    refreshDirectAuthToken,
+    gameId: directSessionGameId,
+  });
 
   // C.2: Device RPC (per-device start states, executeDirectStart, retry)
   const {
@@ -470,6 +605,8 @@ const Games: React.FC = () => {
     updateDirectStartStates,
     executeDirectStart,
     handleRetryFailedDevices,
+    cancelStartRetries,
+    scheduledStartAt,
   } = useTbDeviceRpc({
     refreshDirectAuthToken,
     setDirectControlError,
@@ -487,6 +624,8 @@ const Games: React.FC = () => {
     setDirectTelemetryEnabled,
     sessionDurationSeconds,
     sessionRoomId,
+    gameModeId,
+    startDelay,
     registry,
   });
 
@@ -503,11 +642,15 @@ const Games: React.FC = () => {
     handleOpenStartDialog,
     handleConfirmStartDialog,
     handleStopFromDialog,
+    handleDropStagedTargets,
+    handleSubstituteTarget,
+    handleCancelScheduledStart,
   } = useTbSessionFlow({
     refreshDirectAuthToken,
     setDirectControlError,
     executeDirectStart,
     updateDirectStartStates,
+    cancelStartRetries,
     isLaunchingLifecycle,
     isRunningLifecycle,
     isStoppingLifecycle,
@@ -548,6 +691,25 @@ const Games: React.FC = () => {
     setActivePresetId,
     setStagedPresetId,
     setGoalShotsPerTarget,
+    gameModeId,
+    setGameModeId,
+    parTimesPerTarget,
+    calloutCount: activeCalloutCount,
+    setParTimesPerTarget,
+    penaltiesPerTarget,
+    setPenaltiesPerTarget,
+    drillStages,
+    setDrillStages,
+    startDelay,
+    setStartDelay,
+    startSchedule,
+    scheduledStartAt,
+    qualificationStandard,
+    setQualificationStandard,
+    targetOrder,
+    setTargetOrder,
+    personalBestScore: activePersonalBest?.score ?? null,
+    preflightReadiness,
     availableDevicesRef,
     currentGameDevicesRef,
     availableDeviceMap,
@@ -567,6 +729,91 @@ const Games: React.FC = () => {
     setDirectTelemetryEnabled,
   });
 
+  const handleRunPreflight = useCallback(() => {
+    void runPreflight(pendingSessionTargets);
+  }, [pendingSessionTargets, runPreflight]);
+  const handleDropFailingTargets = useCallback(() => {
+    handleDropStagedTargets(
+      Object.values(preflightResults)
+        .filter((result) => result.verdict === 'no-go')
+        .map((result) => result.deviceId),
+    );
+  }, [handleDropStagedTargets, preflightResults]);
+  // Ordered targets a staged session is missing, and targets that failed to start, each with the targets that could replace them.
+  const missingOrderedTargets = useMemo(() => {
+    const stagedIds = new Set(pendingSessionTargets.map((device) => device.deviceId));
+    return targetOrder
+      .filter((deviceId) => !stagedIds.has(deviceId))
+      .map((deviceId) => ({ deviceId, name: targetById.get(deviceId)?.name ?? deviceId }));
+  }, [pendingSessionTargets, targetById, targetOrder]);
+  const substituteOptions = useMemo(() => {
+    const recoverableIds = [
+      ...missingOrderedTargets.map((target) => target.deviceId),
+      ...Object.entries(directStartStates)
+        .filter(([, state]) => state === 'error')
+        .map(([deviceId]) => deviceId),
+    ];
+    if (recoverableIds.length === 0) {
+      return {};
+    }
+    const toCandidate = (deviceId: string): SubstituteCandidate => {
+      const device = availableDeviceMap.get(deviceId);
+      const roomId = targetById.get(deviceId)?.roomId;
+      return {
+        deviceId,
+        roomId: roomId === null || roomId === undefined ? null : String(roomId),
+        groupIds: groups.filter((group) => group.targets?.some((member) => member.id === deviceId)).map((group) => group.id),
+        isOnline: device ? deriveIsOnline(device) : false,
+        gameStatus: device?.gameStatus ?? null,
+      };
+    };
+    const candidates = availableDevices.map((device) => toCandidate(device.deviceId));
+    const sessionTargetIds = [...pendingSessionTargets, ...currentSessionTargets].map((device) => device.deviceId);
+    return Object.fromEntries(
+      recoverableIds.map((deviceId) => [
+        deviceId,
+        findSubstituteTargets(toCandidate(deviceId), candidates, sessionTargetIds).map((substituteId) => ({
+          deviceId: substituteId,
+          name: availableDeviceMap.get(substituteId)?.name ?? substituteId,
+        })),
+      ]),
+    );
+  }, [
+    availableDeviceMap,
+    availableDevices,
+    currentSessionTargets,
+    directStartStates,
+    groups,
+    missingOrderedTargets,
+    pendingSessionTargets,
+    targetById,
+  ]);
+  const handleCloseSessionDialog = useCallback(() => {
+    resetPreflight();
+    handleCloseStartDialog();
+  }, [handleCloseStartDialog, resetPreflight]);
+
+  // Cease fire: pauses the running session, freezing the clock while targets ignore hits.
+  const directSessionDeviceIds = useMemo(
+    () => directSessionTargets.map(({ deviceId }) => deviceId),
+    [directSessionTargets],
+  );
+  const {
+    isSessionPaused,
+    pauseIntervals,
+    pausedRef,
+    isPauseCommandPending,
+    handlePauseSession,
+    handleResumeSession,
+  } = useSessionPause({
+    isRunningLifecycle,
+    gameId: directSessionGameId,
+    deviceIds: directSessionDeviceIds,
+    pauseSessionTimer,
+    resumeSessionTimer,
+    register,
+  });
+
   // Shared ref: tracks which targets have been stopped (goal reached).
   // Created here so it can be shared between useDirectTbTelemetry (to ignore
   // post-goal hits) and useSessionTelemetrySync (to prevent duplicate stop RPCs).
@@ -588,9 +835,32 @@ const Games: React.FC = () => {
     gameId: directSessionGameId,
     devices: directTelemetryDeviceDescriptors,
     stoppedTargetsRef,
+    pausedRef,
+    drillStages,
+    recoveredHits,
+    clockCalibrations,
   });
 
   const telemetryState = directTelemetryState;
+  const { telemetryHealth } = telemetryState;
+
+  // Metrics of the last session carry over into setup so slow telemetry is flagged before the next start.
+  const telemetryLatencyWarning = useMemo(() => {
+    const { worstLatencyMs, overSlaDeviceIds } = summarizeTelemetryHealth(
+      Object.values(telemetryHealth.devices),
+      TELEMETRY_SLA_MS.liveGame,
+    );
+    if (overSlaDeviceIds.length === 0) {
+      return null;
+    }
+    return `Telemetry ran up to ${worstLatencyMs} ms behind last session, over the ${TELEMETRY_SLA_MS.liveGame} ms live-game target${
+      telemetryHealth.transport === 'polling' ? ' (polling fallback)' : ''
+    }. Hit times may lag the shooter.`;
+  }, [telemetryHealth]);
+  const getTelemetryTargetName = useCallback(
+    (deviceId: string) => targetById.get(deviceId)?.customName || targetById.get(deviceId)?.name || deviceId,
+    [targetById],
+  );
 
   // Telemetry sync: owns hitCounts, hitHistory, stoppedTargets state + processing effect.
   const {
@@ -624,6 +894,38 @@ const Games: React.FC = () => {
   register('setHitHistory', setHitHistory);
   register('setStoppedTargets', setStoppedTargets);
 
+  // Random callout drill: issues target callouts while a 'random-callout' session runs.
+  const { callouts, activeCallout } = useCalloutDrill({
+    isRunningLifecycle,
+    gameModeId,
+    directSessionGameId,
+    activeDeviceIds,
+    hitHistory,
+    calloutCount: activeCalloutCount,
+    isSessionPaused,
+    pauseIntervals,
+    register,
+  });
+
+  // Relay / head-to-head squads: tags each run with its shooter and builds the results table.
+  const {
+    squad,
+    nextShooter,
+    isComplete: isSquadComplete,
+    standings: squadStandings,
+    startSquad,
+    endSquad,
+  } = useSquadSession({
+    recentSessionSummary,
+    selectedDeviceIds,
+    gameModeId,
+    register,
+  });
+  const squadUser = useMemo(
+    () => (user ? { id: user.id, name: user.email?.split('@')[0] || 'Me' } : null),
+    [user],
+  );
+
   // C.4: Session finalizer (auto-stop, goal termination, session persistence)
   const {
     splitRecords,
@@ -641,6 +943,9 @@ const Games: React.FC = () => {
     activeDeviceIds,
     goalShotsPerTarget,
     sessionDurationSeconds,
+    gameModeId,
+    callouts,
+    calloutCount: activeCalloutCount,
     hitHistory,
     stoppedTargets,
     telemetryState,
@@ -652,6 +957,67 @@ const Games: React.FC = () => {
     handleStopGame,
   });
 
+  // Crash-safe journal: keeps the running session in localStorage and recovers one a reload interrupted.
+  const {
+    orphanedSession,
+    isRecoveringSession,
+    resumeOrphanedSession,
+    finalizeOrphanedSession,
+    dismissOrphanedSession,
+  } = useSessionJournal({
+    sessionLifecycle,
+    isRunningLifecycle,
+    isSessionLocked,
+    setSessionLifecycle,
+    setIsSessionDialogDismissed,
+    directSessionGameId,
+    gameStartTime,
+    currentSessionTargets,
+    hitHistory,
+    sessionRoomId,
+    sessionRoomName,
+    activePresetId,
+    gameModeId,
+    sessionDurationSeconds,
+    goalShotsPerTarget,
+    parTimesPerTarget,
+    penaltiesPerTarget,
+    drillStages,
+    startDelay,
+    qualificationStandard,
+    availableDeviceMap,
+    refreshDirectAuthToken,
+    setDirectSessionGameId,
+    setDirectSessionTargets,
+    setDirectFlowActive,
+    setDirectTelemetryEnabled,
+    updateDirectStartStates,
+    setRecoveredHits,
+    selectionManuallyModifiedRef,
+    currentGameDevicesRef,
+    setSelectedDeviceIds,
+    setActiveDeviceIds,
+    setPendingSessionTargets,
+    setCurrentSessionTargets,
+    setGameStartTime,
+    setGameStopTime,
+    setSessionRoomId,
+    setSessionDurationSeconds,
+    setActivePresetId,
+    setGoalShotsPerTarget,
+    setGameModeId,
+    setParTimesPerTarget,
+    setPenaltiesPerTarget,
+    setDrillStages,
+    setStartDelay,
+    setQualificationStandard,
+    startSessionTimer,
+    markSessionTriggered,
+    markTelemetryConfirmed,
+    registry,
+    loadGameHistory,
+  });
+
   // Auto-switch to summary after a game ends (not on initial mount with restored data)
   const hasAutoSwitchedRef = useRef(false);
   useEffect(() => {
@@ -676,6 +1042,35 @@ const Games: React.FC = () => {
     }
   }, [isRunningLifecycle]);
 
+  // A drill started from a training program arrives as ?preset=<id>; stage it
+  // the same way applying it from the preset banner does, once presets and
+  // devices are loaded.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requestedPresetId = searchParams.get('preset');
+  const appliedLinkedPresetRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (
+      !requestedPresetId ||
+      presetsLoading ||
+      availableDevices.length === 0 ||
+      appliedLinkedPresetRef.current === requestedPresetId
+    ) {
+      return;
+    }
+    appliedLinkedPresetRef.current = requestedPresetId;
+    setSearchParams((params) => {
+      params.delete('preset');
+      return params;
+    }, { replace: true });
+    const preset = gamePresets.find((candidate) => candidate.id === requestedPresetId);
+    if (!preset) {
+      toast.error('That preset no longer exists. Pick another from your presets.');
+      return;
+    }
+    autoAdvanceAllowedRef.current = true;
+    void handleApplyPreset(preset).then((result) => setCurrentStep(result.hasTargets ? 3 : 1));
+  }, [requestedPresetId, presetsLoading, availableDevices.length, gamePresets, handleApplyPreset, setSearchParams]);
+
   // Auto-advance wizard steps — only when auto-advance is allowed (not when
   // the user has manually navigated back to an earlier step to edit).
   useEffect(() => {
@@ -759,6 +1154,28 @@ const Games: React.FC = () => {
     });
   }, [hitHistory, gameStartTime]);
 
+  const ghostDeltas = useMemo(() => {
+    if (ghostSplitTimes.length === 0 || hitHistory.length === 0) {
+      return [];
+    }
+    return compareToGhost(hitHistory, gameStartTime ?? hitHistory[0].timestamp, ghostSplitTimes);
+  }, [hitHistory, gameStartTime, ghostSplitTimes]);
+
+  // Shot-timer starts hold in standby until the beep; gameStartTime is anchored on the beep.
+  // Manual shots-fired entry for the last session when no shot counter reported them
+  const [isShotCountDialogOpen, setIsShotCountDialogOpen] = useState(false);
+  const { isSavingShots, saveShotsFired } = useManualShotCount({
+    recentSessionSummary,
+    setRecentSessionSummary,
+    setGameHistory,
+  });
+
+  // Scheduled starts count down to their start time; any random delay then runs as standby.
+  const liveScheduledStartAt = isRunningLifecycle ? scheduledStartAt : null;
+  const isStartStandby = useStartStandby(
+    (startDelay || liveScheduledStartAt !== null) && isRunningLifecycle ? gameStartTime : null,
+  );
+
   const isInitialDataLoading =
     // Don't block page rendering on loadingDevices or roomsLoading:
     // - loadingDevices is slow (3500ms) and setup sections can render progressively
@@ -783,6 +1200,16 @@ const Games: React.FC = () => {
                 onDismiss={() => setErrorMessage(null)}
               />
             )}
+            {orphanedSession && (
+              <SessionRecoveryBanner
+                session={orphanedSession}
+                isRecovering={isRecoveringSession}
+                canResume={!isSessionLocked}
+                onResume={() => void resumeOrphanedSession()}
+                onFinalize={() => void finalizeOrphanedSession()}
+                onDismiss={dismissOrphanedSession}
+              />
+            )}
             <div className="space-y-2 md:space-y-4 lg:space-y-6">
               <div className="flex items-center justify-between gap-4">
                 <div className="text-left">
@@ -954,6 +1381,23 @@ const Games: React.FC = () => {
                         loadingDevices={loadingDevices}
                         goalShotsPerTarget={goalShotsPerTarget}
                         setGoalShotsPerTarget={setGoalShotsPerTarget}
+                        parTimesPerTarget={parTimesPerTarget}
+                        setParTimesPerTarget={setParTimesPerTarget}
+                        gameModeId={gameModeId}
+                        onGameModeChange={handleGameModeChange}
+                        gameModeViolation={gameModeViolation}
+                        drillStages={drillStages}
+                        onDrillStagesChange={handleDrillStagesChange}
+                        drillViolation={drillViolation}
+                        startDelay={startDelay}
+                        onStartDelayChange={setStartDelay}
+                        startDelayViolation={startDelayViolation}
+                        qualificationStandard={qualificationStandard}
+                        onQualificationStandardChange={setQualificationStandard}
+                        qualificationViolation={qualificationViolation}
+                        clockCalibrations={clockCalibrations}
+                        isCalibratingClocks={isCalibratingClocks}
+                        onCalibrateClocks={handleCalibrateClocks}
                         targetById={targetById}
                         activePresetName={activePresetId ? gamePresets.find((p) => p.id === activePresetId)?.name ?? null : null}
                         isUpdatingPreset={presetsSaving}
@@ -966,6 +1410,23 @@ const Games: React.FC = () => {
                 </Card>
               )}
 
+              {!isPageLoading && (
+                <SquadCard
+                  squad={squad}
+                  nextShooter={nextShooter}
+                  isComplete={isSquadComplete}
+                  standings={squadStandings}
+                  gameModeId={gameModeId}
+                  selectedDeviceIds={selectedDeviceIds}
+                  getTargetName={(deviceId) => targetById.get(deviceId)?.customName || targetById.get(deviceId)?.name || deviceId}
+                  currentUser={squadUser}
+                  isSessionLocked={isSessionLocked}
+                  onStartSquad={startSquad}
+                  onEndSquad={endSquad}
+                  onStageNextRun={handleUsePreviousSettings}
+                />
+              )}
+
               {/* Live session card — only during an active session */}
               {isSessionLocked && (
                 isPageLoading ? (
@@ -980,6 +1441,17 @@ const Games: React.FC = () => {
                     recentSummary={null}
                     desiredDurationSeconds={sessionDurationSeconds}
                     goalShotsPerTarget={goalShotsPerTarget}
+                    gameModeId={gameModeId}
+                    hitHistory={hitHistory}
+                    callouts={callouts}
+                    activeCallout={activeCallout}
+                    drillStages={drillStages}
+                    drillProgress={telemetryState.drillProgress}
+                    personalBest={activePersonalBest}
+                    ghostDeltas={ghostDeltas}
+                    isStandby={isStartStandby}
+                    scheduledStartAt={liveScheduledStartAt}
+                    onCancelScheduledStart={handleCancelScheduledStart}
                     stoppedTargets={stoppedTargets}
                     onUsePrevious={handleUsePreviousSettings}
                     onCreateNew={handleCreateNewSetup}
@@ -987,6 +1459,15 @@ const Games: React.FC = () => {
                   />
                 )
               )}
+
+              {!isPageLoading && telemetryHealth.gameId !== null && (
+                <TelemetryHealthPanel
+                  health={telemetryHealth}
+                  slaMs={TELEMETRY_SLA_MS.liveGame}
+                  isLive={isSessionLocked}
+                  getTargetName={getTelemetryTargetName}
+                />
+              )}
                   </motion.div>
                 ) : (
                   <motion.div key="summary" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} transition={{ duration: 0.15 }}>
@@ -1005,6 +1486,11 @@ const Games: React.FC = () => {
                         stoppedTargets={stoppedTargets}
                         onUsePrevious={() => { handleUsePreviousSettings(); setActiveView('setup'); }}
                         onCreateNew={() => { handleCreateNewSetup(); setActiveView('setup'); }}
+                        onRecordShots={
+                          recentSessionSummary?.shotCountSource === 'shot-counter'
+                            ? undefined
+                            : () => setIsShotCountDialogOpen(true)
+                        }
                         isSessionLocked={false}
                       />
                     )}
@@ -1014,14 +1500,25 @@ const Games: React.FC = () => {
             </div>
           </div>
           </FeatureErrorBoundary>
+        <ShotCountDialog
+          summary={recentSessionSummary}
+          open={isShotCountDialogOpen}
+          onOpenChange={setIsShotCountDialogOpen}
+          isSaving={isSavingShots}
+          onSubmit={saveShotsFired}
+        />
         <StartSessionDialog
           open={isSessionDialogVisible}
           lifecycle={sessionLifecycle}
-          onClose={handleCloseStartDialog}
+          onClose={handleCloseSessionDialog}
           onConfirm={handleConfirmStartDialog}
           onStop={handleStopFromDialog}
           isStarting={isStarting}
           isStopping={isStopping}
+          isPaused={isSessionPaused}
+          isPauseCommandPending={isPauseCommandPending}
+          onPause={handlePauseSession}
+          onResume={handleResumeSession}
           canClose={canDismissSessionDialog}
           sessionSeconds={sessionTimerSeconds}
           targets={sessionDialogTargets}
@@ -1041,6 +1538,18 @@ const Games: React.FC = () => {
           onRequestSavePreset={handleRequestSavePreset}
           isSavingPreset={presetsSaving}
           goalShotsPerTarget={goalShotsPerTarget}
+          telemetryWarning={telemetryLatencyWarning}
+          preflightResults={preflightResults}
+          onRunPreflight={handleRunPreflight}
+          onDropFailingTargets={handleDropFailingTargets}
+          orderEnforced={targetOrder.length > 0}
+          missingTargets={missingOrderedTargets}
+          substituteOptions={substituteOptions}
+          onSubstituteTarget={handleSubstituteTarget}
+          startSchedule={startSchedule}
+          onStartScheduleChange={setStartSchedule}
+          scheduledStartAt={liveScheduledStartAt}
+          onCancelScheduledStart={handleCancelScheduledStart}
         />
         <SavePresetDialog
           open={isSavePresetDialogOpen}
@@ -9,7 +9,7 @@ import type { LeaderboardEntry, LeaderboardQuery } from '@/domain/leaderboard/po
 export const leaderboardKeys = {
   all: ['leaderboard'] as const,
   entries: (query: LeaderboardQuery) =>
-    [...leaderboardKeys.all, 'entries', query.timeframe, query.sortBy, query.limit] as const,
+    [...leaderboardKeys.all, 'entries', query.gameMode, query.timeframe, query.sortBy, query.limit] as const,
 };
 
 /**
@@ -1,6 +1,8 @@
 import { supabase } from '@/data/supabase-client';
 import { apiOk, apiErr, type ApiResponse } from '@/shared/lib/api-response';
 import type { LeaderboardRepository, LeaderboardQuery, LeaderboardRecord } from '@/domain/leaderboard/ports';
+import { ranksAscending } from '@/domain/leaderboard/rules';
+import { getScoreDirection } from '@/domain/games/modes';
 
 /**
  * Repository layer for Leaderboard feature
@@ -35,10 +37,18 @@ const buildLeaderboardQuery = (
   query: LeaderboardQuery,
   includeTimeframeFilter: boolean
 ) => {
-  const { timeframe, sortBy, limit } = query;
+  const { gameMode, timeframe, sortBy, limit } = query;
+  const ascending = ranksAscending(sortBy, getScoreDirection(gameMode));
+  // One mode per board, so timed and hit-count scores never rank against each other
   let request = (supabase.from('leaderboards') as any)
     .select('id, name, score, hits, accuracy')
-    .order(sortBy, { ascending: false });
+    .eq('game_mode', gameMode)
+    .order(sortBy, { ascending });
+
+  // Fastest times first would otherwise put unfinished (0) scores at the top of a limited page
+  if (ascending) {
+    request = request.gt('score', 0);
+  }
 
   if (includeTimeframeFilter && timeframe !== 'all') {
     request = request.eq('timeframe', timeframe);
@@ -7,7 +7,9 @@
  */
 
 import { apiErr, apiOk, type ApiResponse } from '@/shared/lib/api-response';
-import type { LeaderboardEntry, LeaderboardQuery, LeaderboardRecord, LeaderboardRepository } from '@/domain/leaderboard/ports';
+import type { LeaderboardEntry, LeaderboardQuery, LeaderboardRepository } from '@/domain/leaderboard/ports';
+import { rankLeaderboardRecords } from '@/domain/leaderboard/rules';
+import { getScoreDirection } from '@/domain/games/modes';
 import { leaderboardRepository } from './repo';
 
 // Repository injection for testing
@@ -20,13 +22,6 @@ export const setLeaderboardRepository = (repo: LeaderboardRepository): void => {
   leaderboardRepo = repo;
 };
 
-const applyRanking = (records: LeaderboardRecord[]): LeaderboardEntry[] => {
-  return records.map((entry, index) => ({
-    ...entry,
-    rank: index + 1,
-  }));
-};
-
 /**
  * Get leaderboard entries
  */
@@ -38,7 +33,7 @@ export async function getLeaderboardService(
     return apiErr(result.error.code, result.error.message, result.error.details);
   }
 
-  const ranked = applyRanking(result.data);
+  const ranked = rankLeaderboardRecords(result.data, query.sortBy, getScoreDirection(query.gameMode));
   return apiOk(ranked);
 }
 
@@ -5,18 +5,30 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Trophy, Target, Users } from 'lucide-react';
 import { useLeaderboardEntries } from '../hooks';
+import { DEFAULT_GAME_MODE_ID, getGameMode, listGameModes } from '@/domain/games/modes';
 import type { LeaderboardEntry, LeaderboardQuery } from '../schema';
 
+const GAME_MODE_OPTIONS = listGameModes();
+
 const Leaderboard: React.FC = () => {
+  const [gameMode, setGameMode] = useState<LeaderboardQuery['gameMode']>(DEFAULT_GAME_MODE_ID);
   const [timeframe, setTimeframe] = useState<LeaderboardQuery['timeframe']>('week');
   const [activeTab, setActiveTab] = useState<LeaderboardQuery['sortBy']>('score');
 
   const { data: leaderboardEntries = [], isLoading, error } = useLeaderboardEntries({
+    gameMode,
     timeframe,
     sortBy: activeTab,
     limit: 10,
   });
 
+  // Scores are seconds or hits depending on the mode
+  const scoreUnit = getGameMode(gameMode).scoreUnit;
+
+  const handleGameModeChange = (value: string) => {
+    setGameMode(value as LeaderboardQuery['gameMode']);
+  };
+
   const handleTimeframeChange = (value: string) => {
     setTimeframe(value as LeaderboardQuery['timeframe']);
   };
@@ -59,7 +71,7 @@ const Leaderboard: React.FC = () => {
 
     return entries.map((entry) => {
       const metricValue = metric === 'score' ? entry.score : metric === 'hits' ? entry.hits : entry.accuracy;
-      const metricLabel = metric === 'score' ? 'points' : metric === 'hits' ? 'hits' : 'accuracy';
+      const metricLabel = metric === 'score' ? scoreUnit : metric === 'hits' ? 'hits' : 'accuracy';
       const displayValue = metric === 'accuracy' ? `${Math.round(metricValue)}%` : metricValue;
       const subLabel =
         metric === 'score'
@@ -91,6 +103,18 @@ const Leaderboard: React.FC = () => {
             <div className="flex justify-between items-center mb-6">
               <h2 className="text-h1 font-heading text-brand-dark">Leaderboard</h2>
               <div className="flex items-center gap-4">
+                <Select value={gameMode} onValueChange={handleGameModeChange}>
+                  <SelectTrigger className="w-40 bg-white border-gray-200 text-brand-dark">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-white border-gray-200">
+                    {GAME_MODE_OPTIONS.map((mode) => (
+                      <SelectItem key={mode.id} value={mode.id} className="text-brand-dark hover:bg-brand-secondary/10">
+                        {mode.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Select value={timeframe} onValueChange={handleTimeframeChange}>
                   <SelectTrigger className="w-32 bg-white border-gray-200 text-brand-dark">
                     <SelectValue />
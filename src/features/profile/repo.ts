@@ -69,6 +69,7 @@ export async function getProfile(userId: string): Promise<ApiResponse<UserProfil
       .select(`
         id,
         score,
+        game_mode,
         hit_count,
         total_shots,
         accuracy_percentage,
@@ -94,6 +95,7 @@ export async function getProfile(userId: string): Promise<ApiResponse<UserProfil
       durationMs: session.duration_ms ?? 0,
       accuracyPercentage: session.accuracy_percentage ?? null,
       startedAt: session.started_at,
+      gameMode: session.game_mode,
     }));
     const stats = buildProfileStats(summaries);
     const totalShots = sessions.reduce((sum, s) => sum + (s.total_shots || 0), 0);
@@ -149,6 +151,7 @@ export async function getRecentSessions(
         id,
         scenario_name,
         scenario_type,
+        game_mode,
         room_name,
         room_id,
         score,
@@ -25,6 +25,7 @@ export const recentSessionSchema = z.object({
   id: z.string(),
   scenarioName: z.string().nullable(),
   scenarioType: z.string().nullable(),
+  gameMode: z.string().nullable(),
   roomName: z.string().nullable(),
   roomId: z.string().nullable(),
   score: z.number(),
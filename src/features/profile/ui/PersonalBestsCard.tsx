@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import { Trophy } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useGamePresets } from '@/features/games';
+import type { GameHistory } from '@/features/games/lib/device-game-flow';
+import { getGameMode } from '@/domain/games/modes';
+import { computePersonalBests } from '@/domain/games/personal-bests';
+
+interface PersonalBestsCardProps {
+  gameHistory: GameHistory[];
+}
+
+function formatBestScore(score: number, scoreUnit: 'seconds' | 'hits'): string {
+  return scoreUnit === 'hits' ? `${score} hits` : `${score.toFixed(2)}s`;
+}
+
+/** Best run of every preset the user has shot, most recent PB first */
+const PersonalBestsCard: React.FC<PersonalBestsCardProps> = ({ gameHistory }) => {
+  const { data: presets = [] } = useGamePresets();
+
+  const bests = useMemo(
+    () => computePersonalBests(gameHistory).sort((a, b) => b.run.startTime - a.run.startTime),
+    [gameHistory],
+  );
+  const presetNames = useMemo(() => new Map(presets.map((preset) => [preset.id, preset.name])), [presets]);
+
+  if (bests.length === 0) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, ease: 'easeOut', delay: 0.15 }}
+    >
+      <Card className="shadow-card bg-gradient-to-br from-white to-brand-secondary/[0.04]">
+        <CardHeader className="pb-2 md:pb-3 p-5 md:p-6">
+          <div className="flex items-center gap-2">
+            <Trophy className="h-4 w-4 text-brand-primary" />
+            <CardTitle className="text-base font-heading text-brand-dark">
+              Personal Bests
+            </CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent className="p-5 md:p-6 pt-0 space-y-2">
+          {bests.map((best) => (
+            <div
+              key={`${best.presetId}-${best.gameMode}`}
+              className="flex items-center justify-between rounded-[var(--radius)] bg-brand-primary/5 px-3 py-2.5 shadow-subtle"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-brand-dark font-body truncate">
+                  {presetNames.get(best.presetId) ?? best.run.gameName ?? 'Deleted preset'}
+                </p>
+                <p className="text-[11px] text-brand-dark/50 font-body">
+                  {getGameMode(best.gameMode).label} &bull; {new Date(best.run.startTime).toLocaleDateString()}
+                  {' '}&bull; {best.runCount} run{best.runCount !== 1 ? 's' : ''}
+                </p>
+              </div>
+              <span className="text-stat-sm font-bold text-brand-primary font-body tabular-nums ml-3">
+                {formatBestScore(best.score, best.scoreUnit)}
+              </span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default PersonalBestsCard;
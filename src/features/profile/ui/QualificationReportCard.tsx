@@ -0,0 +1,78 @@
+import React, { useMemo } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { GameHistory } from '@/features/games/lib/device-game-flow';
+import { buildQualificationReport } from '@/domain/games/qualifications';
+
+interface QualificationReportCardProps {
+  gameHistory: GameHistory[];
+}
+
+/** Attempts shown per course, most recent last */
+const ATTEMPTS_SHOWN = 10;
+
+/** Pass/fail record of every qualification course the user has shot, over time */
+const QualificationReportCard: React.FC<QualificationReportCardProps> = ({ gameHistory }) => {
+  const reports = useMemo(() => buildQualificationReport(gameHistory), [gameHistory]);
+
+  if (reports.length === 0) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, ease: 'easeOut', delay: 0.2 }}
+    >
+      <Card className="shadow-card bg-gradient-to-br from-white to-brand-secondary/[0.04]">
+        <CardHeader className="pb-2 md:pb-3 p-5 md:p-6">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="h-4 w-4 text-brand-primary" />
+            <CardTitle className="text-base font-heading text-brand-dark">
+              Qualifications
+            </CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent className="p-5 md:p-6 pt-0 space-y-2">
+          {reports.map((report) => {
+            const lastAttempt = report.attempts[report.attempts.length - 1];
+            return (
+              <div
+                key={report.standardId}
+                className="rounded-[var(--radius)] bg-brand-primary/5 px-3 py-2.5 shadow-subtle space-y-1.5"
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-brand-dark font-body truncate">{report.name}</p>
+                    <p className="text-[11px] text-brand-dark/50 font-body">
+                      {report.passCount}/{report.attempts.length} passed ({report.passRate}%)
+                      {' '}&bull; last {new Date(lastAttempt.startTime).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <span className={`rounded-full px-2 py-0.5 text-[10px] font-bold uppercase tracking-wide font-body ${
+                    report.isQualified ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-600'
+                  }`}>
+                    {report.isQualified ? 'Qualified' : 'Not qualified'}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1">
+                  {report.attempts.slice(-ATTEMPTS_SHOWN).map((attempt) => (
+                    <span
+                      key={attempt.gameId}
+                      className={`h-2 w-6 rounded-full ${attempt.passed ? 'bg-green-500' : 'bg-red-400'}`}
+                      title={`${new Date(attempt.startTime).toLocaleDateString()}: ${
+                        attempt.passed ? 'passed' : attempt.reasons.join('; ')
+                      }`}
+                    />
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default QualificationReportCard;
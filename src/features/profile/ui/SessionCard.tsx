@@ -108,6 +108,21 @@ const SessionCard: React.FC<SessionCardProps> = ({ game, accentIndex, expanded,
                 {game.scenarioType}
               </span>
             )}
+            {game.isPersonalBest && (
+              <span className="text-[10px] text-green-700 font-body font-medium px-1.5 py-0.5 bg-green-50 rounded-full inline-block mb-1 ml-1">
+                PB
+              </span>
+            )}
+            {game.qualification && (
+              <span
+                className={`text-[10px] font-body font-medium px-1.5 py-0.5 rounded-full inline-block mb-1 ml-1 ${
+                  game.qualification.passed ? 'text-green-700 bg-green-50' : 'text-red-600 bg-red-50'
+                }`}
+                title={game.qualification.reasons.join('\n') || undefined}
+              >
+                {game.qualification.passed ? 'QUAL PASS' : 'QUAL FAIL'}
+              </span>
+            )}
             <p className="text-[11px] text-brand-dark/70 font-body truncate">
               {formatDate(game.startTime)}
             </p>
@@ -172,6 +187,10 @@ const SessionCard: React.FC<SessionCardProps> = ({ game, accentIndex, expanded,
             {formatDuration(game.duration)}
             {game.averageHitInterval != null &&
               ` · ${game.averageHitInterval.toFixed(1)}s avg interval`}
+            {game.drawTimeSeconds != null &&
+              ` · ${game.drawTimeSeconds.toFixed(2)}s draw`}
+            {game.shotCountSource && game.shotCountSource !== 'hits' && game.accuracy != null &&
+              ` · ${game.accuracy}% of ${game.totalShots} shots`}
           </span>
           {game.deviceResults.length > 0 && (
             <button
@@ -20,6 +20,8 @@ import { Button } from '@/components/ui/button';
 import ProfileHeroCard from './ProfileHeroCard';
 import ProfileStatsGrid from './ProfileStatsGrid';
 import PerformanceSummaryCard from './PerformanceSummaryCard';
+import PersonalBestsCard from './PersonalBestsCard';
+import QualificationReportCard from './QualificationReportCard';
 import WifiCredentialsCard from './WifiCredentialsCard';
 import SessionHistoryList from './SessionHistoryList';
 
@@ -251,6 +253,8 @@ const Profile: React.FC = () => {
               isLoading={profileLoading}
             />
             <PerformanceSummaryCard profileData={profileData} gameHistory={gameHistoryData} />
+            <PersonalBestsCard gameHistory={gameHistoryData} />
+            <QualificationReportCard gameHistory={gameHistoryData} />
           </motion.div>
         )}
 
@@ -38,6 +38,13 @@ export type {
 
 export type { RoomsWithTargets, EdgeRoom } from './repo';
 
+// Room layout document (user_room_layouts.layout_data)
+export type { RoomLayout, PlacedTargetData } from './ui/room-editor/lib/types';
+export { fitLayoutToStage } from './ui/room-editor/lib/geometry';
+
+// Room hit heat map (also opened from the analytics page)
+export { RoomHeatMapDialog } from './ui/RoomHeatMapDialog';
+
 // Permission types
 export type { UserContext, RoomContext } from './hooks';
 
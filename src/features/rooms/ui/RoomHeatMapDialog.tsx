@@ -0,0 +1,278 @@
+import React, { useMemo, useState } from 'react';
+import dayjs from 'dayjs';
+import { Stage, Layer, Line, Circle, Text } from 'react-konva';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { useGameHistory } from '@/features/games';
+import type { GameHistory } from '@/features/games/lib/device-game-flow';
+import {
+  HEAT_MAP_METRICS,
+  calculateHeatIntensities,
+  calculateTargetHeatStats,
+  filterHeatMapSessions,
+  getTargetSessionHistory,
+  heatColor,
+  type HeatMapMetric,
+  type HeatMapSession,
+  type TargetHeatStats,
+} from '@/domain/rooms/heat-map';
+import { useRoomLayout } from '../hooks';
+import { fitLayoutToStage } from './room-editor/lib/geometry';
+import type { RoomLayout } from './room-editor/lib/types';
+
+const STAGE_WIDTH = 560;
+const STAGE_HEIGHT = 320;
+const STAGE_PADDING = 40;
+const TARGET_RADIUS = 18;
+
+const COLORS = {
+  background: '#F6F7EB',
+  wall: '#1C192B',
+  noData: 'rgba(28,25,43,0.15)',
+  selected: '#1C192B',
+  label: '#1C192B',
+};
+
+type HeatMapPeriod = '7' | '30' | '90' | 'all';
+
+const PERIOD_OPTIONS: Array<{ value: HeatMapPeriod; label: string }> = [
+  { value: '7', label: 'Last 7 Days' },
+  { value: '30', label: 'Last 30 Days' },
+  { value: '90', label: 'Last 90 Days' },
+  { value: 'all', label: 'All Time' },
+];
+
+export type RoomHeatMapDialogProps = {
+  room: { id: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+};
+
+// Per-target hits, misses and splits of a stored session. Misses come from miss
+// penalties where the mode recorded them, else from shots short of the goal.
+const mapHistoryToHeatMapSession = (game: GameHistory): HeatMapSession => {
+  const missPenalties = new Map<string, number>();
+  (game.penalties ?? []).forEach((penalty) => {
+    if (penalty.kind === 'miss' && penalty.deviceId) {
+      missPenalties.set(penalty.deviceId, (missPenalties.get(penalty.deviceId) ?? 0) + penalty.count);
+    }
+  });
+
+  return {
+    id: game.gameId,
+    name: game.gameName,
+    startedAt: new Date(game.startTime).toISOString(),
+    roomId: game.roomId ?? null,
+    durationSeconds: game.actualDuration ?? 0,
+    targets: game.deviceResults.map((result) => {
+      const goal = game.goalShotsPerTarget?.[result.deviceId];
+      const misses = missPenalties.has(result.deviceId)
+        ? missPenalties.get(result.deviceId) ?? 0
+        : typeof goal === 'number' && goal > 0
+          ? Math.max(0, goal - result.hitCount)
+          : null;
+      return {
+        deviceId: result.deviceId,
+        hits: result.hitCount,
+        misses,
+        splitTimes: (game.splits ?? []).filter((split) => split.deviceId === result.deviceId).map((split) => split.time),
+      };
+    }),
+  };
+};
+
+const formatMetric = (metric: HeatMapMetric, stats: TargetHeatStats | undefined): string => {
+  const value = stats?.[metric] ?? null;
+  if (value === null) return '—';
+  if (metric === 'hitRate') return `${value.toFixed(1)}/min`;
+  if (metric === 'avgSplit') return `${value.toFixed(2)}s`;
+  return `${Math.round(value * 100)}%`;
+};
+
+const HeatMapBody: React.FC<{ roomId: string }> = ({ roomId }) => {
+  const [metric, setMetric] = useState<HeatMapMetric>('hitRate');
+  const [period, setPeriod] = useState<HeatMapPeriod>('30');
+  const [since, setSince] = useState<Date | null>(() => dayjs().subtract(30, 'day').toDate());
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(null);
+
+  const { data: layoutRow, isLoading: layoutLoading } = useRoomLayout(roomId);
+  const { data: gameHistories = [], isLoading: historyLoading } = useGameHistory();
+
+  const layout = (layoutRow?.layout_data as unknown as RoomLayout | undefined) ?? null;
+  const placedTargets = useMemo(() => layout?.targets ?? [], [layout]);
+
+  const sessions = useMemo(
+    () => filterHeatMapSessions(gameHistories.map(mapHistoryToHeatMapSession), roomId, since),
+    [gameHistories, roomId, since],
+  );
+  const stats = useMemo(() => calculateTargetHeatStats(sessions), [sessions]);
+  const intensities = useMemo(() => calculateHeatIntensities(stats, metric), [stats, metric]);
+  const history = useMemo(
+    () => (selectedDeviceId ? getTargetSessionHistory(sessions, selectedDeviceId) : []),
+    [sessions, selectedDeviceId],
+  );
+
+  const handlePeriodChange = (value: string) => {
+    const option = value as HeatMapPeriod;
+    setPeriod(option);
+    setSince(option === 'all' ? null : dayjs().subtract(Number(option), 'day').toDate());
+  };
+
+  const fit =
+    layout && placedTargets.length > 0
+      ? fitLayoutToStage(layout, placedTargets, { width: STAGE_WIDTH, height: STAGE_HEIGHT, padding: STAGE_PADDING })
+      : null;
+  const selectedTarget = placedTargets.find((target) => target.targetDeviceId === selectedDeviceId) ?? null;
+
+  if (layoutLoading || historyLoading) {
+    return <p className="text-sm text-brand-dark/60 font-body">Loading room layout and sessions...</p>;
+  }
+
+  if (!layout || !fit) {
+    return (
+      <p className="text-sm text-brand-dark/60 font-body">
+        Place this room&apos;s targets in the room layout editor to see them on a heat map.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-1">
+          {HEAT_MAP_METRICS.map((option) => (
+            <Button
+              key={option.id}
+              variant={metric === option.id ? 'default' : 'outline'}
+              size="sm"
+              className="h-8 px-3 text-xs"
+              onClick={() => setMetric(option.id)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        <Select value={period} onValueChange={handlePeriodChange}>
+          <SelectTrigger className="w-36 h-8 bg-white border-gray-200 text-brand-dark text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-white border-gray-200">
+            {PERIOD_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-brand-dark/60 font-body">{sessions.length} sessions</span>
+      </div>
+
+      <div className="rounded-[var(--radius)] overflow-hidden border border-[rgba(28,25,43,0.06)]">
+        <Stage width={STAGE_WIDTH} height={STAGE_HEIGHT} style={{ background: COLORS.background, maxWidth: '100%' }}>
+          <Layer>
+            {(layout.walls ?? []).map((wall) => (
+              <Line
+                key={wall.id}
+                points={wall.points.map((value, index) =>
+                  index % 2 === 0 ? value * fit.scale + fit.offsetX : value * fit.scale + fit.offsetY,
+                )}
+                closed={wall.closed}
+                stroke={COLORS.wall}
+                strokeWidth={Math.max(2, wall.thickness * fit.scale)}
+                listening={false}
+              />
+            ))}
+            {placedTargets.map((target) => {
+              const x = target.x * fit.scale + fit.offsetX;
+              const y = target.y * fit.scale + fit.offsetY;
+              const intensity = intensities[target.targetDeviceId];
+              const isSelected = target.targetDeviceId === selectedDeviceId;
+              return (
+                <React.Fragment key={target.id}>
+                  <Circle
+                    x={x}
+                    y={y}
+                    radius={TARGET_RADIUS}
+                    fill={typeof intensity === 'number' ? heatColor(intensity) : COLORS.noData}
+                    stroke={isSelected ? COLORS.selected : 'white'}
+                    strokeWidth={isSelected ? 3 : 1.5}
+                    onClick={() => setSelectedDeviceId(target.targetDeviceId)}
+                    onTap={() => setSelectedDeviceId(target.targetDeviceId)}
+                  />
+                  <Text
+                    x={x - 50}
+                    y={y + TARGET_RADIUS + 6}
+                    width={100}
+                    align="center"
+                    fontSize={11}
+                    fill={COLORS.label}
+                    text={`${target.label} · ${formatMetric(metric, stats[target.targetDeviceId])}`}
+                    listening={false}
+                  />
+                </React.Fragment>
+              );
+            })}
+          </Layer>
+        </Stage>
+      </div>
+
+      {/* Legend: lowest to highest value across the room's targets */}
+      <div className="flex items-center gap-2 text-[11px] text-brand-dark/60 font-body">
+        <span>Low</span>
+        <span
+          className="h-2 flex-1 rounded-full"
+          style={{ background: `linear-gradient(to right, ${heatColor(0)}, ${heatColor(1)})` }}
+        />
+        <span>High</span>
+        <span className="ml-2 inline-flex items-center gap-1">
+          <span className="w-2 h-2 rounded-full" style={{ background: COLORS.noData }} />
+          No data
+        </span>
+      </div>
+
+      {selectedTarget ? (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-heading text-brand-dark">{selectedTarget.label}</h3>
+            <span className="text-xs text-brand-dark/60 font-body">
+              {HEAT_MAP_METRICS.map((option) => `${option.label}: ${formatMetric(option.id, stats[selectedTarget.targetDeviceId])}`).join(' · ')}
+            </span>
+          </div>
+          {history.length === 0 ? (
+            <p className="text-xs text-brand-dark/60 font-body">No sessions used this target in the selected period.</p>
+          ) : (
+            <div className="max-h-48 overflow-y-auto divide-y divide-[rgba(28,25,43,0.06)]">
+              {history.map((entry) => (
+                <div key={entry.sessionId} className="flex items-center justify-between py-1.5 text-xs font-body">
+                  <div className="min-w-0">
+                    <p className="font-medium text-brand-dark truncate">{entry.name}</p>
+                    <p className="text-brand-dark/60">{dayjs(entry.startedAt).format('MMM D, h:mm a')}</p>
+                  </div>
+                  <div className="text-right tabular-nums text-brand-dark">
+                    <p>{entry.hits} hits{entry.misses !== null ? ` · ${entry.misses} missed` : ''}</p>
+                    <p className="text-brand-dark/60">{entry.avgSplit !== null ? `avg split ${entry.avgSplit.toFixed(2)}s` : 'no splits'}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-brand-dark/60 font-body">Select a target to see its session history.</p>
+      )}
+    </div>
+  );
+};
+
+// Colours a room's layout by how each target performed over a period; click a target for its sessions.
+export const RoomHeatMapDialog: React.FC<RoomHeatMapDialogProps> = ({ room, onOpenChange }) => (
+  <Dialog open={room !== null} onOpenChange={onOpenChange}>
+    <DialogContent className="max-w-[calc(100vw-30px)] sm:max-w-2xl mx-auto px-4 py-4 sm:px-6 sm:py-6 shadow-elevated rounded-[var(--radius-lg)] border-0">
+      <DialogHeader className="space-y-1 sm:space-y-1.5">
+        <DialogTitle className="text-lg sm:text-xl font-heading">Heat Map: {room?.name}</DialogTitle>
+        <DialogDescription className="text-xs sm:text-sm">
+          Targets coloured by hit rate, average split or miss rate across the room&apos;s sessions
+        </DialogDescription>
+      </DialogHeader>
+      {room && <HeatMapBody key={room.id} roomId={room.id} />}
+    </DialogContent>
+  </Dialog>
+);
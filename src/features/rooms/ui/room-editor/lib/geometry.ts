@@ -3,7 +3,7 @@
  * Point-to-line projection, distance, angle calculations
  */
 
-import type { Point, WallData, WallSnapResult } from './types';
+import type { PlacedTargetData, Point, RoomLayout, WallData, WallSnapResult } from './types';
 
 /** Distance between two points */
 export function distance(a: Point, b: Point): number {
@@ -151,3 +151,29 @@ export function getPositionOnWall(
 export function isNear(a: Point, b: Point, threshold: number): boolean {
   return distance(a, b) <= threshold;
 }
+
+/** Scale and offset that fit placed targets (and the walls) into a fixed-size stage, centred */
+export function fitLayoutToStage(
+  layout: RoomLayout,
+  targets: PlacedTargetData[],
+  stage: { width: number; height: number; padding: number },
+  maxScale = 2,
+): { scale: number; offsetX: number; offsetY: number } {
+  const xs: number[] = targets.map((t) => t.x);
+  const ys: number[] = targets.map((t) => t.y);
+  (layout.walls ?? []).forEach((wall) => {
+    wall.points.forEach((value, index) => (index % 2 === 0 ? xs : ys).push(value));
+  });
+  const innerWidth = stage.width - stage.padding * 2;
+  const innerHeight = stage.height - stage.padding * 2;
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const width = Math.max(1, Math.max(...xs) - minX);
+  const height = Math.max(1, Math.max(...ys) - minY);
+  const scale = Math.min(innerWidth / width, innerHeight / height, maxScale);
+  return {
+    scale,
+    offsetX: stage.padding - minX * scale + (innerWidth - width * scale) / 2,
+    offsetY: stage.padding - minY * scale + (innerHeight - height * scale) / 2,
+  };
+}
@@ -36,6 +36,7 @@ import {
   type EdgeRoom,
 } from '../index';
 import { useTargets } from '@/features/targets';
+import { RoomHeatMapDialog } from './RoomHeatMapDialog';
 
 const RoomsPage: React.FC = () => {
   const location = useLocation();
@@ -58,6 +59,7 @@ const RoomsPage: React.FC = () => {
   const [selectedTarget, setSelectedTarget] = useState<string>('');
   const [roomDetailsOpen, setRoomDetailsOpen] = useState(false);
   const [roomForDetails, setRoomForDetails] = useState<EdgeRoom | null>(null);
+  const [heatMapRoom, setHeatMapRoom] = useState<{ id: string; name: string } | null>(null);
   const [selectedTargets, setSelectedTargets] = useState<string[]>([]);
   const [pendingAssignments, setPendingAssignments] = useState<Map<string, string | null>>(new Map());
   const [roomPendingDelete, setRoomPendingDelete] = useState<Room | null>(null);
@@ -447,12 +449,15 @@ const RoomsPage: React.FC = () => {
                       const edgeRoom = rooms.find(r => r.id === room.id);
                       if (edgeRoom) openRoomDetails(edgeRoom);
                     }}
+                    onViewHeatMap={() => setHeatMapRoom({ id: room.id, name: room.name })}
                   />
                 ))}
               </div>
             )}
     </div>
 
+      <RoomHeatMapDialog room={heatMapRoom} onOpenChange={(open) => !open && setHeatMapRoom(null)} />
+
       {/* Delete Room Dialog */}
       <AlertDialog
         open={Boolean(roomPendingDelete)}
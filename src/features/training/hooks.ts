@@ -0,0 +1,181 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from '@/components/ui/sonner';
+import {
+  getTrainingProgramsService,
+  saveTrainingProgramService,
+  deleteTrainingProgramService,
+  getTrainingProgressService,
+  startTrainingProgramService,
+  leaveTrainingProgramService,
+  syncTrainingProgressService,
+} from './service';
+import type { TrainingProgram, TrainingProgramInput, TrainingProgress } from './schema';
+import type { TrainingRun } from '@/domain/games/training-programs';
+
+/**
+ * React Query hooks for Training feature
+ */
+
+export const trainingKeys = {
+  all: ['training'] as const,
+  programs: () => [...trainingKeys.all, 'programs'] as const,
+  progress: () => [...trainingKeys.all, 'progress'] as const,
+};
+
+/**
+ * Get the current user's training programs
+ */
+export function useTrainingPrograms() {
+  return useQuery<TrainingProgram[]>({
+    queryKey: trainingKeys.programs(),
+    queryFn: async () => {
+      const result = await getTrainingProgramsService();
+      if (!result.ok) {
+        throw new Error(result.error.message);
+      }
+      return result.data;
+    },
+    staleTime: 60 * 1000,
+  });
+}
+
+/**
+ * Get the current user's progress through their programs
+ */
+export function useTrainingProgress() {
+  return useQuery<TrainingProgress[]>({
+    queryKey: trainingKeys.progress(),
+    queryFn: async () => {
+      const result = await getTrainingProgressService();
+      if (!result.ok) {
+        throw new Error(result.error.message);
+      }
+      return result.data;
+    },
+    staleTime: 60 * 1000,
+  });
+}
+
+/**
+ * Create or update a training program
+ */
+export function useSaveTrainingProgram() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: TrainingProgramInput) => {
+      const result = await saveTrainingProgramService(input);
+      if (!result.ok) {
+        throw new Error(result.error.message);
+      }
+      return result.data;
+    },
+    onSuccess: (program, input) => {
+      queryClient.invalidateQueries({ queryKey: trainingKeys.programs() });
+      toast.success(input.id ? `Updated "${program.name}"` : `Created "${program.name}"`);
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to save program: ${error.message}`);
+    },
+  });
+}
+
+/**
+ * Delete a training program
+ */
+export function useDeleteTrainingProgram() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (programId: string) => {
+      const result = await deleteTrainingProgramService(programId);
+      if (!result.ok) {
+        throw new Error(result.error.message);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: trainingKeys.all });
+      toast.success('Program deleted');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to delete program: ${error.message}`);
+    },
+  });
+}
+
+/**
+ * Start (or restart) a program from level 1
+ */
+export function useStartTrainingProgram() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ programId, startedAt }: { programId: string; startedAt: number }) => {
+      const result = await startTrainingProgramService(programId, startedAt);
+      if (!result.ok) {
+        throw new Error(result.error.message);
+      }
+      return result.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: trainingKeys.progress() });
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to start program: ${error.message}`);
+    },
+  });
+}
+
+/**
+ * Leave a program, dropping the progress through it
+ */
+export function useLeaveTrainingProgram() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (programId: string) => {
+      const result = await leaveTrainingProgramService(programId);
+      if (!result.ok) {
+        throw new Error(result.error.message);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: trainingKeys.progress() });
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to leave program: ${error.message}`);
+    },
+  });
+}
+
+/**
+ * Store the levels the user's latest runs cleared
+ */
+export function useSyncTrainingProgress() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      program,
+      progress,
+      runs,
+    }: {
+      program: TrainingProgram;
+      progress: TrainingProgress;
+      runs: TrainingRun[];
+    }) => {
+      const result = await syncTrainingProgressService(program, progress, runs);
+      if (!result.ok) {
+        throw new Error(result.error.message);
+      }
+      return result.data;
+    },
+    onSuccess: ({ clearedLevels }, { program }) => {
+      queryClient.invalidateQueries({ queryKey: trainingKeys.progress() });
+      clearedLevels.forEach((level) => toast.success(`${program.name}: cleared ${level.name}`));
+    },
+    onError: (error: Error) => {
+      console.error('[Training] Failed to store program progress:', error);
+    },
+  });
+}
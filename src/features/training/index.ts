@@ -0,0 +1,29 @@
+/**
+ * Public API for Training feature
+ */
+
+// Hooks
+export {
+  useTrainingPrograms,
+  useTrainingProgress,
+  useSaveTrainingProgram,
+  useDeleteTrainingProgram,
+  useStartTrainingProgram,
+  useLeaveTrainingProgram,
+  useSyncTrainingProgress,
+  trainingKeys,
+} from './hooks';
+
+// Lib
+export { mapHistoryToTrainingRuns } from './lib/training-runs';
+
+// Types
+export type {
+  TrainingLevel,
+  TrainingLevelRequirement,
+  TrainingProgram,
+  TrainingProgramInput,
+  TrainingProgress,
+  TrainingProgramSummary,
+  TrainingUnlockCriterion,
+} from './schema';
@@ -0,0 +1,19 @@
+import type { GameHistory } from '@/features/games/lib/device-game-flow';
+import type { TrainingRun } from '@/domain/games/training-programs';
+import { getScoreDirection } from '@/domain/games/modes';
+
+// Converts stored game history into the runs training programs are judged on.
+// Squad runs are left out: a level is cleared by the user's own solo runs.
+export function mapHistoryToTrainingRuns(histories: GameHistory[]): TrainingRun[] {
+  return histories
+    .filter((history) => !history.squadId)
+    .map((history) => ({
+      gameId: history.gameId,
+      presetId: history.presetId ?? null,
+      startTime: history.startTime,
+      score: typeof history.score === 'number' && Number.isFinite(history.score) ? history.score : null,
+      isValid: history.isValid !== false,
+      scoreDirection: getScoreDirection(history.gameMode),
+      qualificationPassed: history.qualification ? history.qualification.passed : null,
+    }));
+}
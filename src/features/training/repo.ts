@@ -0,0 +1,249 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase, type Database } from '@/data/supabase-client';
+import { apiOk, apiErr, type ApiResponse } from '@/shared/lib/api-response';
+import type { TrainingProgramInput, TrainingProgramRepository } from '@/domain/games/ports';
+import type { TrainingLevel, TrainingProgram, TrainingProgress } from '@/domain/games/training-programs';
+
+/**
+ * Repository layer for Training feature
+ *
+ * Handles data access operations (Supabase queries).
+ * Returns ApiResponse<T> for consistent error handling.
+ */
+
+type TrainingTables = Pick<Database['public']['Tables'], 'training_programs' | 'training_program_progress'>;
+type TrainingProgramRow = TrainingTables['training_programs']['Row'];
+type TrainingProgressRow = TrainingTables['training_program_progress']['Row'];
+type StoredClearedLevel = { level_id: string; cleared_at: string };
+
+// The older tables in the generated schema carry no Relationships, which types every query on the
+// full schema as never; the training queries go through a client typed to the training tables only.
+const trainingDb = supabase as unknown as SupabaseClient<{
+  public: Omit<Database['public'], 'Tables'> & { Tables: TrainingTables };
+}>;
+
+const mapProgramRow = (row: TrainingProgramRow): TrainingProgram => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  levels: (row.levels as TrainingLevel[] | null) ?? [],
+});
+
+const mapProgressRow = (row: TrainingProgressRow): TrainingProgress => ({
+  programId: row.program_id,
+  startedAt: Date.parse(row.started_at),
+  clearedLevels: ((row.cleared_levels as StoredClearedLevel[] | null) ?? []).map((entry) => ({
+    levelId: entry.level_id,
+    clearedAt: Date.parse(entry.cleared_at),
+  })),
+});
+
+/**
+ * Get current user ID from Supabase auth
+ */
+async function getCurrentUserId(): Promise<string> {
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error) {
+    throw new Error(`Authentication error: ${error.message}`);
+  }
+
+  if (!user) {
+    throw new Error('No authenticated user found');
+  }
+
+  return user.id;
+}
+
+/**
+ * Get the current user's training programs, oldest first
+ */
+export async function getTrainingPrograms(): Promise<ApiResponse<TrainingProgram[]>> {
+  try {
+    const userId = await getCurrentUserId();
+
+    const { data, error } = await trainingDb.from('training_programs')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      return apiErr('FETCH_TRAINING_PROGRAMS_ERROR', error.message, error);
+    }
+
+    return apiOk((data ?? []).map(mapProgramRow));
+  } catch (error) {
+    console.error('[Training Repo] Error fetching training programs:', error);
+    return apiErr(
+      'FETCH_TRAINING_PROGRAMS_ERROR',
+      error instanceof Error ? error.message : 'Failed to fetch training programs',
+      error
+    );
+  }
+}
+
+/**
+ * Create or update a training program
+ */
+export async function saveTrainingProgram(input: TrainingProgramInput): Promise<ApiResponse<TrainingProgram>> {
+  try {
+    const userId = await getCurrentUserId();
+    const fields = {
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      levels: input.levels,
+      updated_at: new Date().toISOString(),
+    };
+
+    const request = input.id
+      ? trainingDb.from('training_programs')
+          .update(fields)
+          .eq('id', input.id)
+          .eq('user_id', userId)
+      : trainingDb.from('training_programs')
+          .insert({ ...fields, user_id: userId });
+
+    const { data, error } = await request.select('*').single();
+
+    if (error) {
+      return apiErr('SAVE_TRAINING_PROGRAM_ERROR', error.message, error);
+    }
+
+    return apiOk(mapProgramRow(data));
+  } catch (error) {
+    console.error('[Training Repo] Error saving training program:', error);
+    return apiErr(
+      'SAVE_TRAINING_PROGRAM_ERROR',
+      error instanceof Error ? error.message : 'Failed to save training program',
+      error
+    );
+  }
+}
+
+/**
+ * Delete a training program; its progress rows cascade
+ */
+export async function deleteTrainingProgram(programId: string): Promise<ApiResponse<void>> {
+  try {
+    const userId = await getCurrentUserId();
+
+    const { error } = await trainingDb.from('training_programs')
+      .delete()
+      .eq('id', programId)
+      .eq('user_id', userId);
+
+    if (error) {
+      return apiErr('DELETE_TRAINING_PROGRAM_ERROR', error.message, error);
+    }
+
+    return apiOk(undefined);
+  } catch (error) {
+    console.error('[Training Repo] Error deleting training program:', error);
+    return apiErr(
+      'DELETE_TRAINING_PROGRAM_ERROR',
+      error instanceof Error ? error.message : 'Failed to delete training program',
+      error
+    );
+  }
+}
+
+/**
+ * Get the current user's progress through every program they enrolled in
+ */
+export async function getTrainingProgress(): Promise<ApiResponse<TrainingProgress[]>> {
+  try {
+    const userId = await getCurrentUserId();
+
+    const { data, error } = await trainingDb.from('training_program_progress')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) {
+      return apiErr('FETCH_TRAINING_PROGRESS_ERROR', error.message, error);
+    }
+
+    return apiOk((data ?? []).map(mapProgressRow));
+  } catch (error) {
+    console.error('[Training Repo] Error fetching training progress:', error);
+    return apiErr(
+      'FETCH_TRAINING_PROGRESS_ERROR',
+      error instanceof Error ? error.message : 'Failed to fetch training progress',
+      error
+    );
+  }
+}
+
+/**
+ * Create or replace the current user's progress through a program
+ */
+export async function saveTrainingProgress(progress: TrainingProgress): Promise<ApiResponse<TrainingProgress>> {
+  try {
+    const userId = await getCurrentUserId();
+
+    const { data, error } = await trainingDb.from('training_program_progress')
+      .upsert(
+        {
+          user_id: userId,
+          program_id: progress.programId,
+          started_at: new Date(progress.startedAt).toISOString(),
+          cleared_levels: progress.clearedLevels.map((entry) => ({
+            level_id: entry.levelId,
+            cleared_at: new Date(entry.clearedAt).toISOString(),
+          })),
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id,program_id' }
+      )
+      .select('*')
+      .single();
+
+    if (error) {
+      return apiErr('SAVE_TRAINING_PROGRESS_ERROR', error.message, error);
+    }
+
+    return apiOk(mapProgressRow(data));
+  } catch (error) {
+    console.error('[Training Repo] Error saving training progress:', error);
+    return apiErr(
+      'SAVE_TRAINING_PROGRESS_ERROR',
+      error instanceof Error ? error.message : 'Failed to save training progress',
+      error
+    );
+  }
+}
+
+/**
+ * Drop the current user's progress through a program
+ */
+export async function deleteTrainingProgress(programId: string): Promise<ApiResponse<void>> {
+  try {
+    const userId = await getCurrentUserId();
+
+    const { error } = await trainingDb.from('training_program_progress')
+      .delete()
+      .eq('program_id', programId)
+      .eq('user_id', userId);
+
+    if (error) {
+      return apiErr('DELETE_TRAINING_PROGRESS_ERROR', error.message, error);
+    }
+
+    return apiOk(undefined);
+  } catch (error) {
+    console.error('[Training Repo] Error deleting training progress:', error);
+    return apiErr(
+      'DELETE_TRAINING_PROGRESS_ERROR',
+      error instanceof Error ? error.message : 'Failed to delete training progress',
+      error
+    );
+  }
+}
+
+export const trainingRepository: TrainingProgramRepository = {
+  getTrainingPrograms,
+  saveTrainingProgram,
+  deleteTrainingProgram,
+  getTrainingProgress,
+  saveTrainingProgress,
+  deleteTrainingProgress,
+};
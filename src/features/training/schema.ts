@@ -0,0 +1,15 @@
+/**
+ * Training Feature Schema
+ *
+ * Type definitions for the training feature.
+ */
+
+export type {
+  TrainingLevel,
+  TrainingLevelRequirement,
+  TrainingProgram,
+  TrainingProgress,
+  TrainingProgramSummary,
+  TrainingUnlockCriterion,
+} from '@/domain/games/training-programs';
+export type { TrainingProgramInput } from '@/domain/games/ports';
@@ -0,0 +1,109 @@
+/**
+ * Service layer for Training feature
+ *
+ * Contains business logic and orchestration.
+ * Uses repository functions and domain layer validators/rules.
+ * Returns ApiResponse<T>.
+ */
+
+import { apiErr, apiOk, type ApiResponse } from '@/shared/lib/api-response';
+import type { TrainingProgramInput, TrainingProgramRepository } from '@/domain/games/ports';
+import {
+  advanceTrainingProgress,
+  validateTrainingProgram,
+  type TrainingLevel,
+  type TrainingProgram,
+  type TrainingProgress,
+  type TrainingRun,
+} from '@/domain/games/training-programs';
+import { trainingRepository } from './repo';
+
+// Repository injection for testing
+let trainingRepo: TrainingProgramRepository = trainingRepository;
+
+/**
+ * Set the training repository (for testing/dependency injection)
+ */
+export const setTrainingRepository = (repo: TrainingProgramRepository): void => {
+  trainingRepo = repo;
+};
+
+/**
+ * Get the current user's training programs
+ */
+export async function getTrainingProgramsService(): Promise<ApiResponse<TrainingProgram[]>> {
+  return trainingRepo.getTrainingPrograms();
+}
+
+/**
+ * Validate and save a training program
+ */
+export async function saveTrainingProgramService(
+  input: TrainingProgramInput
+): Promise<ApiResponse<TrainingProgram>> {
+  const validation = validateTrainingProgram(input);
+  if (validation.valid === false) {
+    return apiErr(validation.code, validation.violation);
+  }
+
+  return trainingRepo.saveTrainingProgram(input);
+}
+
+/**
+ * Delete a training program
+ */
+export async function deleteTrainingProgramService(programId: string): Promise<ApiResponse<void>> {
+  return trainingRepo.deleteTrainingProgram(programId);
+}
+
+/**
+ * Get the current user's progress through their programs
+ */
+export async function getTrainingProgressService(): Promise<ApiResponse<TrainingProgress[]>> {
+  return trainingRepo.getTrainingProgress();
+}
+
+/**
+ * Enrol the current user in a program from level 1; runs from `startedAt` on count.
+ * Enrolling again restarts the program.
+ */
+export async function startTrainingProgramService(
+  programId: string,
+  startedAt: number
+): Promise<ApiResponse<TrainingProgress>> {
+  return trainingRepo.saveTrainingProgress({ programId, startedAt, clearedLevels: [] });
+}
+
+/**
+ * Leave a program, dropping the progress through it
+ */
+export async function leaveTrainingProgramService(programId: string): Promise<ApiResponse<void>> {
+  return trainingRepo.deleteTrainingProgress(programId);
+}
+
+/**
+ * Clear the levels the user's runs now meet and store the new progress.
+ * Returns the stored progress and the levels cleared by this call.
+ */
+export async function syncTrainingProgressService(
+  program: TrainingProgram,
+  progress: TrainingProgress,
+  runs: TrainingRun[]
+): Promise<ApiResponse<{ progress: TrainingProgress; clearedLevels: TrainingLevel[] }>> {
+  const advanced = advanceTrainingProgress(program, progress, runs);
+  if (advanced === progress) {
+    return apiOk({ progress, clearedLevels: [] });
+  }
+
+  const result = await trainingRepo.saveTrainingProgress(advanced);
+  if (!result.ok) {
+    return apiErr(result.error.code, result.error.message, result.error.details);
+  }
+
+  const clearedLevels = program.levels.slice(progress.clearedLevels.length, advanced.clearedLevels.length);
+  return apiOk({ progress: result.data, clearedLevels });
+}
+
+// Re-export types for consumers
+export type { TrainingProgram, TrainingProgress } from '@/domain/games/training-programs';
+export type { TrainingProgramInput } from '@/domain/games/ports';
@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, GraduationCap, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { GamePreset } from '@/lib/edge';
+import {
+  TRAINING_PROGRAM_CONSTRAINTS,
+  TRAINING_UNLOCK_CRITERIA,
+  validateTrainingProgram,
+  type TrainingLevel,
+  type TrainingProgram,
+  type TrainingUnlockCriterion,
+} from '@/domain/games/training-programs';
+import type { TrainingProgramInput } from '../schema';
+
+const FIELD_CLASS =
+  'bg-white border border-[rgba(28,25,43,0.1)] rounded-[var(--radius)] text-brand-dark placeholder:text-brand-dark/40 font-body';
+const LABEL_CLASS = 'text-label text-brand-secondary font-body uppercase tracking-wide';
+
+export type TrainingProgramDialogProps = {
+  open: boolean;
+  /** Program being edited; null creates a new one */
+  program: TrainingProgram | null;
+  presets: GamePreset[];
+  isSaving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (input: TrainingProgramInput) => void;
+};
+
+const createLevel = (index: number, presetId = ''): TrainingLevel => ({
+  id: crypto.randomUUID(),
+  name: `Level ${index + 1}`,
+  presetId,
+  requirement: { criterion: 'completion', requiredRuns: 1, targetScore: null },
+});
+
+const ProgramForm: React.FC<Omit<TrainingProgramDialogProps, 'open'>> = ({
+  program,
+  presets,
+  isSaving,
+  onOpenChange,
+  onSave,
+}) => {
+  const [name, setName] = useState(program?.name ?? '');
+  const [description, setDescription] = useState(program?.description ?? '');
+  const [levels, setLevels] = useState<TrainingLevel[]>(() => program?.levels ?? [createLevel(0, presets[0]?.id)]);
+  const [validationError, setValidationError] = useState('');
+
+  const updateLevel = (index: number, changes: Partial<TrainingLevel>) => {
+    setLevels((prev) => prev.map((level, i) => (i === index ? { ...level, ...changes } : level)));
+    setValidationError('');
+  };
+
+  const updateRequirement = (index: number, changes: Partial<TrainingLevel['requirement']>) => {
+    setLevels((prev) =>
+      prev.map((level, i) => (i === index ? { ...level, requirement: { ...level.requirement, ...changes } } : level)),
+    );
+    setValidationError('');
+  };
+
+  const moveLevel = (index: number, offset: -1 | 1) => {
+    setLevels((prev) => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const input: TrainingProgramInput = {
+      id: program?.id,
+      name: name.trim(),
+      description: description.trim() || null,
+      levels: levels.map((level, index) => ({ ...level, name: level.name.trim() || `Level ${index + 1}` })),
+    };
+    const validation = validateTrainingProgram(input);
+    if (validation.valid === false) {
+      setValidationError(validation.violation);
+      return;
+    }
+    onSave(input);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="space-y-2">
+        <Label htmlFor="program-name" className={LABEL_CLASS}>Program Name *</Label>
+        <Input
+          id="program-name"
+          placeholder="e.g., Precision Shooting Course"
+          value={name}
+          maxLength={TRAINING_PROGRAM_CONSTRAINTS.NAME_MAX_LENGTH}
+          onChange={(event) => {
+            setName(event.target.value);
+            setValidationError('');
+          }}
+          className={`${FIELD_CLASS} h-10`}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="program-description" className={LABEL_CLASS}>Description</Label>
+        <Textarea
+          id="program-description"
+          placeholder="What the program builds towards"
+          value={description}
+          maxLength={TRAINING_PROGRAM_CONSTRAINTS.DESCRIPTION_MAX_LENGTH}
+          onChange={(event) => setDescription(event.target.value)}
+          className={FIELD_CLASS}
+          rows={2}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label className={LABEL_CLASS}>Levels</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-8 px-3 text-xs"
+            disabled={levels.length >= TRAINING_PROGRAM_CONSTRAINTS.MAX_LEVELS}
+            onClick={() => setLevels((prev) => [...prev, createLevel(prev.length, prev[prev.length - 1]?.presetId)])}
+          >
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add Level
+          </Button>
+        </div>
+
+        {levels.map((level, index) => (
+          <div key={level.id} className="rounded-[var(--radius)] bg-brand-secondary/5 p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-bold text-brand-primary font-body tabular-nums w-5">{index + 1}</span>
+              <Input
+                value={level.name}
+                aria-label={`Level ${index + 1} name`}
+                onChange={(event) => updateLevel(index, { name: event.target.value })}
+                className={`${FIELD_CLASS} h-8 text-sm flex-1`}
+              />
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8" disabled={index === 0} onClick={() => moveLevel(index, -1)} aria-label="Move level up">
+                <ArrowUp className="h-3.5 w-3.5" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8" disabled={index === levels.length - 1} onClick={() => moveLevel(index, 1)} aria-label="Move level down">
+                <ArrowDown className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-brand-primary"
+                disabled={levels.length <= TRAINING_PROGRAM_CONSTRAINTS.MIN_LEVELS}
+                onClick={() => setLevels((prev) => prev.filter((_, i) => i !== index))}
+                aria-label="Remove level"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <Select value={level.presetId} onValueChange={(presetId) => updateLevel(index, { presetId })}>
+                <SelectTrigger className={`${FIELD_CLASS} h-8 text-xs`}>
+                  <SelectValue placeholder="Choose a preset" />
+                </SelectTrigger>
+                <SelectContent className="bg-white shadow-lg border-0">
+                  {presets.map((preset) => (
+                    <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={level.requirement.criterion}
+                onValueChange={(value) => updateRequirement(index, { criterion: value as TrainingUnlockCriterion })}
+              >
+                <SelectTrigger className={`${FIELD_CLASS} h-8 text-xs`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white shadow-lg border-0">
+                  {TRAINING_UNLOCK_CRITERIA.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-brand-dark/70 font-body">
+              {level.requirement.criterion === 'score' && (
+                <>
+                  <span>Score</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={level.requirement.targetScore ?? ''}
+                    aria-label={`Level ${index + 1} target score`}
+                    onChange={(event) =>
+                      updateRequirement(index, { targetScore: event.target.value === '' ? null : Number(event.target.value) })
+                    }
+                    className={`${FIELD_CLASS} h-8 w-24 text-xs`}
+                  />
+                  <span>or better,</span>
+                </>
+              )}
+              <Input
+                type="number"
+                min={TRAINING_PROGRAM_CONSTRAINTS.MIN_REQUIRED_RUNS}
+                max={TRAINING_PROGRAM_CONSTRAINTS.MAX_REQUIRED_RUNS}
+                value={level.requirement.requiredRuns}
+                aria-label={`Level ${index + 1} required runs`}
+                onChange={(event) => updateRequirement(index, { requiredRuns: Number(event.target.value) })}
+                className={`${FIELD_CLASS} h-8 w-16 text-xs`}
+              />
+              <span>{level.requirement.requiredRuns === 1 ? 'time' : 'times'} to unlock the next level</span>
+            </div>
+          </div>
+        ))}
+        {presets.length === 0 && (
+          <p className="text-xs text-brand-dark/70 font-body">Save a preset from the games page to use it as a level.</p>
+        )}
+      </div>
+
+      {validationError && <p className="text-sm text-red-600 font-body">{validationError}</p>}
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+          Cancel
+        </Button>
+        <Button type="submit" className="bg-brand-primary text-white" disabled={isSaving}>
+          {isSaving ? 'Saving...' : program ? 'Save Program' : 'Create Program'}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+};
+
+// Creates or edits a program: its name and the ordered levels, each a preset with an unlock requirement.
+export const TrainingProgramDialog: React.FC<TrainingProgramDialogProps> = ({ open, ...props }) => (
+  <Dialog open={open} onOpenChange={props.onOpenChange}>
+    <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-3 text-brand-dark font-heading">
+          <GraduationCap className="h-5 w-5 text-brand-primary" />
+          {props.program ? 'Edit Program' : 'New Training Program'}
+        </DialogTitle>
+        <DialogDescription className="text-brand-dark/70">
+          Levels unlock in order; each is shot as one of your presets until its requirement is met.
+        </DialogDescription>
+      </DialogHeader>
+      {open && <ProgramForm key={props.program?.id ?? 'new'} {...props} />}
+    </DialogContent>
+  </Dialog>
+);
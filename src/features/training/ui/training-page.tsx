@@ -0,0 +1,371 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import dayjs from 'dayjs';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, CheckCircle, GraduationCap, Lock, MoreVertical, Pencil, Play, Plus, RotateCcw, Trash2, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useGameHistory, useGamePresets } from '@/features/games';
+import { FeatureErrorBoundary } from '@/shared/ui/FeatureErrorBoundary';
+import { formatScoreValue } from '@/utils/dashboard';
+import {
+  advanceTrainingProgress,
+  summarizeTrainingProgram,
+  type TrainingLevelRequirement,
+  type TrainingProgramSummary,
+} from '@/domain/games/training-programs';
+import {
+  useDeleteTrainingProgram,
+  useLeaveTrainingProgram,
+  useSaveTrainingProgram,
+  useStartTrainingProgram,
+  useSyncTrainingProgress,
+  useTrainingPrograms,
+  useTrainingProgress,
+} from '../hooks';
+import { mapHistoryToTrainingRuns } from '../lib/training-runs';
+import type { TrainingProgram, TrainingProgress } from '../schema';
+import { TrainingProgramDialog } from './TrainingProgramDialog';
+
+const HISTORY_LIMIT = 10;
+
+const describeRequirement = (requirement: TrainingLevelRequirement): string => {
+  const times = `${requirement.requiredRuns}×`;
+  switch (requirement.criterion) {
+    case 'qualification':
+      return `Pass the qualification ${times}`;
+    case 'score':
+      return `Score ${formatScoreValue(requirement.targetScore)} or better ${times}`;
+    case 'completion':
+    default:
+      return `Complete the drill ${times}`;
+  }
+};
+
+type ProgramCardProps = {
+  program: TrainingProgram;
+  summary: TrainingProgramSummary | null;
+  presetNames: Map<string, string>;
+  onStartProgram: () => void;
+  onStartDrill: (presetId: string) => void;
+  onEdit: () => void;
+  onRestart: () => void;
+  onLeave: () => void;
+  onDelete: () => void;
+};
+
+// One program: where the user stands, the next drill to shoot, every level's status and recent runs.
+const ProgramCard: React.FC<ProgramCardProps> = ({
+  program,
+  summary,
+  presetNames,
+  onStartProgram,
+  onStartDrill,
+  onEdit,
+  onRestart,
+  onLeave,
+  onDelete,
+}) => {
+  const presetName = (presetId: string) => presetNames.get(presetId) ?? 'Deleted preset';
+  const nextDrill = summary?.currentLevel ?? null;
+  const nextDrillSummary = summary && nextDrill ? summary.levels[summary.currentLevelIndex] : null;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader className="space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <CardTitle className="text-lg font-heading text-brand-dark truncate">{program.name}</CardTitle>
+            {program.description && (
+              <p className="text-sm text-brand-dark/70 font-body mt-1">{program.description}</p>
+            )}
+          </div>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" aria-label="Program actions">
+                <MoreVertical className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="bg-white border-gray-200">
+              <DropdownMenuItem onClick={onEdit}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Edit
+              </DropdownMenuItem>
+              {summary && (
+                <>
+                  <DropdownMenuItem onClick={onRestart}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restart
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={onLeave}>
+                    <X className="h-4 w-4 mr-2" />
+                    Leave
+                  </DropdownMenuItem>
+                </>
+              )}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={onDelete} className="text-red-600">
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        {summary && (
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-label text-brand-secondary font-body uppercase tracking-wide">
+                {summary.isComplete
+                  ? 'Complete'
+                  : `Level ${summary.currentLevelIndex + 1} of ${program.levels.length}`}
+              </span>
+              <span className="text-sm font-bold text-brand-dark font-body tabular-nums">{summary.percentComplete}%</span>
+            </div>
+            <Progress value={summary.percentComplete} className="h-2" />
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!summary ? (
+          <Button className="w-full bg-brand-primary text-white rounded-full font-body" onClick={onStartProgram}>
+            Start Program
+          </Button>
+        ) : nextDrill && nextDrillSummary ? (
+          <div className="rounded-[var(--radius)] bg-brand-primary/5 p-3 space-y-2">
+            <p className="text-label text-brand-secondary font-body uppercase tracking-wide">Next Drill</p>
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-brand-dark font-body truncate">
+                  {nextDrill.name} · {presetName(nextDrill.presetId)}
+                </p>
+                <p className="text-xs text-brand-dark/70 font-body">
+                  {describeRequirement(nextDrill.requirement)} · {nextDrillSummary.countingRuns}/{nextDrill.requirement.requiredRuns} done
+                </p>
+              </div>
+              <Button
+                size="sm"
+                className="bg-brand-primary text-white rounded-full font-body shrink-0"
+                disabled={!presetNames.has(nextDrill.presetId)}
+                onClick={() => onStartDrill(nextDrill.presetId)}
+              >
+                <Play className="h-3.5 w-3.5 mr-1" />
+                Start Drill
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-brand-dark/70 font-body">Every level cleared. Restart the program to shoot it again.</p>
+        )}
+
+        <div className="space-y-1.5">
+          {(summary?.levels ?? program.levels.map((level) => ({ level, status: 'locked' as const, clearedAt: null, attempts: 0, countingRuns: 0 }))).map(
+            (entry, index) => (
+              <div key={entry.level.id} className="flex items-center gap-2 text-xs font-body">
+                {entry.status === 'cleared' ? (
+                  <CheckCircle className="h-4 w-4 text-green-600 shrink-0" />
+                ) : entry.status === 'current' ? (
+                  <span className="h-4 w-4 rounded-full border-2 border-brand-primary shrink-0" />
+                ) : (
+                  <Lock className="h-4 w-4 text-brand-dark/40 shrink-0" />
+                )}
+                <span className={`flex-1 min-w-0 truncate ${entry.status === 'locked' ? 'text-brand-dark/50' : 'text-brand-dark'}`}>
+                  {index + 1}. {entry.level.name} · {presetName(entry.level.presetId)}
+                </span>
+                <span className="text-brand-dark/60 tabular-nums shrink-0">
+                  {entry.clearedAt !== null
+                    ? `Cleared ${dayjs(entry.clearedAt).format('MMM D')}`
+                    : entry.status === 'current'
+                      ? `${entry.attempts} attempts`
+                      : describeRequirement(entry.level.requirement)}
+                </span>
+              </div>
+            ),
+          )}
+        </div>
+
+        {summary && summary.history.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-label text-brand-secondary font-body uppercase tracking-wide">History</p>
+            <div className="divide-y divide-[rgba(28,25,43,0.06)]">
+              {summary.history.slice(0, HISTORY_LIMIT).map((entry) => (
+                <div key={entry.gameId} className="flex items-center justify-between py-1.5 text-xs font-body">
+                  <div className="min-w-0">
+                    <p className="font-medium text-brand-dark truncate">{entry.levelName}</p>
+                    <p className="text-brand-dark/60">{dayjs(entry.startTime).format('MMM D, h:mm a')}</p>
+                  </div>
+                  <div className="text-right tabular-nums">
+                    <p className="text-brand-dark">{formatScoreValue(entry.score)}</p>
+                    <p className={entry.counted ? 'text-green-600' : 'text-brand-dark/60'}>
+                      {entry.counted ? 'Counted' : 'Did not count'}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const TrainingPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [editingProgram, setEditingProgram] = useState<TrainingProgram | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [deletingProgram, setDeletingProgram] = useState<TrainingProgram | null>(null);
+
+  const { data: programs = [], isLoading: programsLoading } = useTrainingPrograms();
+  const { data: progressRows = [], isLoading: progressLoading } = useTrainingProgress();
+  const { data: gameHistories = [], isLoading: historyLoading } = useGameHistory();
+  const { data: presets = [] } = useGamePresets();
+
+  const saveProgram = useSaveTrainingProgram();
+  const deleteProgram = useDeleteTrainingProgram();
+  const startProgram = useStartTrainingProgram();
+  const leaveProgram = useLeaveTrainingProgram();
+  const { mutate: syncProgress, isPending: isSyncing } = useSyncTrainingProgress();
+  // Advances already sent, so a failing save is not retried on every render
+  const attemptedSyncsRef = useRef(new Set<string>());
+
+  const presetNames = useMemo(() => new Map(presets.map((preset) => [preset.id, preset.name])), [presets]);
+  const runs = useMemo(() => mapHistoryToTrainingRuns(gameHistories), [gameHistories]);
+
+  // Stored progress brought up to date with the latest runs
+  const progressByProgram = useMemo(() => {
+    const stored = new Map(progressRows.map((progress) => [progress.programId, progress]));
+    const current = new Map<string, { stored: TrainingProgress; advanced: TrainingProgress }>();
+    programs.forEach((program) => {
+      const progress = stored.get(program.id);
+      if (progress) {
+        current.set(program.id, { stored: progress, advanced: advanceTrainingProgress(program, progress, runs) });
+      }
+    });
+    return current;
+  }, [programs, progressRows, runs]);
+
+  // Store levels cleared since the progress was last saved, one program at a time
+  useEffect(() => {
+    if (historyLoading || isSyncing) return;
+    for (const program of programs) {
+      const entry = progressByProgram.get(program.id);
+      if (!entry || entry.advanced === entry.stored) continue;
+      const key = `${program.id}:${entry.stored.clearedLevels.length}:${entry.advanced.clearedLevels.length}`;
+      if (attemptedSyncsRef.current.has(key)) continue;
+      attemptedSyncsRef.current.add(key);
+      syncProgress({ program, progress: entry.stored, runs });
+      return;
+    }
+  }, [historyLoading, isSyncing, programs, progressByProgram, runs, syncProgress]);
+
+  const openEditor = (program: TrainingProgram | null) => {
+    setEditingProgram(program);
+    setDialogOpen(true);
+  };
+
+  const isLoading = programsLoading || progressLoading;
+
+  return (
+    <FeatureErrorBoundary feature="Training">
+      <div className="container mx-auto p-4 md:p-6 lg:p-8 space-y-4 md:space-y-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/dashboard')} aria-label="Back to dashboard">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <h2 className="text-h1 font-heading text-brand-dark">Training Programs</h2>
+          </div>
+          <Button className="bg-brand-primary text-white rounded-full font-body" onClick={() => openEditor(null)}>
+            <Plus className="h-4 w-4 mr-1.5" />
+            New Program
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-brand-dark/60 font-body">Loading training programs...</p>
+        ) : programs.length === 0 ? (
+          <Card className="shadow-card">
+            <CardContent className="flex flex-col items-center text-center gap-3 py-10">
+              <GraduationCap className="h-8 w-8 text-brand-primary" />
+              <p className="text-sm text-brand-dark/70 font-body max-w-md">
+                Build a program from your presets: order them into levels and set what it takes to unlock the next one,
+                such as passing a qualification twice.
+              </p>
+              <Button className="bg-brand-primary text-white rounded-full font-body" onClick={() => openEditor(null)}>
+                Create Your First Program
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {programs.map((program) => {
+              const progress = progressByProgram.get(program.id)?.advanced ?? null;
+              return (
+                <ProgramCard
+                  key={program.id}
+                  program={program}
+                  summary={progress ? summarizeTrainingProgram(program, progress, runs) : null}
+                  presetNames={presetNames}
+                  onStartProgram={() => startProgram.mutate({ programId: program.id, startedAt: Date.now() })}
+                  onStartDrill={(presetId) => navigate(`/dashboard/games?preset=${encodeURIComponent(presetId)}`)}
+                  onEdit={() => openEditor(program)}
+                  onRestart={() => startProgram.mutate({ programId: program.id, startedAt: Date.now() })}
+                  onLeave={() => leaveProgram.mutate(program.id)}
+                  onDelete={() => setDeletingProgram(program)}
+                />
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <TrainingProgramDialog
+        open={dialogOpen}
+        program={editingProgram}
+        presets={presets}
+        isSaving={saveProgram.isPending}
+        onOpenChange={setDialogOpen}
+        onSave={(input) => saveProgram.mutate(input, { onSuccess: () => setDialogOpen(false) })}
+      />
+
+      <AlertDialog open={deletingProgram !== null} onOpenChange={(open) => !open && setDeletingProgram(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deletingProgram?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The program and your progress through it are removed. Your sessions and presets are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 text-white hover:bg-red-700"
+              onClick={() => deletingProgram && deleteProgram.mutate(deletingProgram.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </FeatureErrorBoundary>
+  );
+};
+
+export default TrainingPage;
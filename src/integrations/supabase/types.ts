@@ -289,6 +289,7 @@ export type Database = {
           room_name: string | null
           scenario_name: string | null
           scenario_type: string | null
+          game_mode: string | null
           score: number
           duration_ms: number
           hit_count: number
@@ -311,6 +312,7 @@ export type Database = {
           room_name?: string | null
           scenario_name?: string | null
           scenario_type?: string | null
+          game_mode?: string | null
           score?: number
           duration_ms?: number
           hit_count?: number
@@ -333,6 +335,7 @@ export type Database = {
           room_name?: string | null
           scenario_name?: string | null
           scenario_type?: string | null
+          game_mode?: string | null
           score?: number
           duration_ms?: number
           hit_count?: number
@@ -464,6 +467,71 @@ export type Database = {
           updated_at?: string
         }
       }
+      training_programs: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          description: string | null
+          levels: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          description?: string | null
+          levels?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          description?: string | null
+          levels?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      training_program_progress: {
+        Row: {
+          id: string
+          user_id: string
+          program_id: string
+          started_at: string
+          cleared_levels: Json
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          program_id: string
+          started_at?: string
+          cleared_levels?: Json
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          program_id?: string
+          started_at?: string
+          cleared_levels?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "training_program_progress_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "training_programs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
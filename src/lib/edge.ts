@@ -1,5 +1,10 @@
 import { supabase } from '@/data/supabase-client';
 import type { Target } from '@/features/targets/schema';
+import type { GameModeId } from '@/domain/games/validators';
+import type { GameModePenaltyValues } from '@/domain/games/modes';
+import type { DrillStage } from '@/domain/games/drills';
+import type { StartDelay } from '@/domain/games/start-signal';
+import type { QualificationStandard } from '@/domain/games/qualifications';
 import { getRateLimiter } from '@/shared/lib/rate-limit-config';
 import { RateLimitMonitor } from '@/shared/lib/rate-limit-monitor';
 import { throttledLog, throttledLogOnChange } from '@/utils/log-throttle';
@@ -719,6 +724,44 @@ export async function fetchTelemetryHistory(deviceIds: string[], startTs: number
   };
 }
 
+/**
+ * Opens the telemetry-stream edge function, which relays live target telemetry
+ * as Server-Sent Events. Streamed with fetch rather than EventSource so the
+ * Supabase session travels in the Authorization header.
+ */
+export async function openTelemetryStream(deviceIds: string[], keys: string[], signal: AbortSignal): Promise<Response> {
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string | undefined;
+  const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string | undefined;
+  if (!supabaseUrl || !anonKey) {
+    throw new Error('Supabase URL is not configured for the telemetry stream');
+  }
+
+  const { data: sessionData } = await supabase.auth.getSession();
+  const token = sessionData.session?.access_token;
+  if (!token) {
+    throw new Error('No Supabase session available for the telemetry stream');
+  }
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/telemetry-stream`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      apikey: anonKey,
+      Accept: 'text/event-stream',
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ deviceIds, keys }),
+    signal,
+    cache: 'no-store',
+  });
+
+  if (!response.ok || !response.body) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`telemetry-stream ${response.status}: ${detail}`);
+  }
+  return response;
+}
+
 interface DeviceAttributesResponse {
   deviceId?: string;
   attributes?: Record<string, unknown> | null;
@@ -957,12 +1000,21 @@ export interface GameControlCommandResult {
 }
 
 export interface GameControlCommandResponse {
-  action: 'configure' | 'start' | 'stop' | 'info';
+  action: 'configure' | 'start' | 'stop' | 'pause' | 'resume' | 'info';
   gameId?: string | null;
   gameDuration?: number | null;
+  gameMode?: GameModeId | null;
   configuredAt?: number;
   startedAt?: number;
+  /** Scheduled start the devices hold for (start only); null when starting on the command */
+  startAt?: number | null;
+  /** When the devices fire the start beep (start only); later than startedAt after a random delay */
+  beepAt?: number;
   stoppedAt?: number;
+  /** When the targets were told to ignore hits (pause only) */
+  pausedAt?: number;
+  /** When the targets were told to score hits again (resume only) */
+  resumedAt?: number;
   infoAt?: number;
   deviceIds?: string[];
   successCount?: number;
@@ -1007,13 +1059,18 @@ export async function fetchGameControlDevices(): Promise<{ devices: GameControlD
 }
 
 export async function invokeGameControl(
-  action: 'configure' | 'start' | 'stop' | 'info',
+  action: 'configure' | 'start' | 'stop' | 'pause' | 'resume' | 'info',
   payload: {
     deviceIds?: string[];
     gameId?: string | null;
     gameDuration?: number | null;
     desiredDurationSeconds?: number | null;
     roomId?: string | null;
+    gameMode?: GameModeId | null;
+    /** Delay before the start beep (start only) */
+    startDelayMs?: number | null;
+    /** Scheduled start timestamp (start only) */
+    startAt?: number | null;
   },
 ): Promise<GameControlCommandResponse> {
   const body: Record<string, unknown> = {
@@ -1036,6 +1093,15 @@ export async function invokeGameControl(
   if (payload.roomId) {
     body.roomId = payload.roomId;
   }
+  if (payload.gameMode) {
+    body.gameMode = payload.gameMode;
+  }
+  if (typeof payload.startDelayMs === 'number' && payload.startDelayMs > 0) {
+    body.startDelayMs = payload.startDelayMs;
+  }
+  if (typeof payload.startAt === 'number') {
+    body.startAt = payload.startAt;
+  }
 
   const headers: Record<string, string> = {};
   try {
@@ -1079,6 +1145,43 @@ export async function fetchGameControlInfo(
   return invokeGameControl('info', { deviceIds });
 }
 
+export interface ScenarioBeepResponse {
+  success: boolean;
+  action: 'send-beep';
+  deviceId: string;
+}
+
+// Triggers a single target through scenario-control's beep RPC (used by callout drills).
+export async function sendScenarioBeep(command: {
+  sessionId: string;
+  targetDeviceId: string;
+  beepType?: string;
+  beepSequence: number;
+  timestamp: number;
+  expectedResponseWindow: number;
+}): Promise<ScenarioBeepResponse> {
+  const { data, error } = await rateLimitedEdgeCall<ScenarioBeepResponse>('scenario-control', {
+    method: 'POST',
+    body: {
+      action: 'send-beep',
+      command: {
+        ...command,
+        beepType: command.beepType ?? 'callout',
+      },
+    },
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    throw new Error('No response from scenario-control function');
+  }
+
+  return data;
+}
+
 /**
  * Settings for game presets that configure scoring and session behavior.
  */
@@ -1092,6 +1195,23 @@ export interface GamePresetSettings {
    * Default: false (order not enforced)
    */
   orderEnforced?: boolean;
+  /**
+   * Scoring mode the preset runs under (see GAME_MODES in the games domain).
+   * Default: 'time-to-goal'
+   */
+  gameMode?: GameModeId;
+  /** Number of callouts issued by the 'random-callout' mode */
+  calloutCount?: number;
+  /** Par time per target in seconds from the start signal ('par-time' mode). Map of deviceId to seconds. */
+  parTimesPerTarget?: Record<string, number>;
+  /** Per-target penalty overrides in seconds ('par-time' mode). Missing values use the mode defaults. */
+  penaltiesPerTarget?: Record<string, Partial<GameModePenaltyValues>>;
+  /** Ordered drill stages (see drills in the games domain). Empty or missing for a plain session. */
+  drillStages?: DrillStage[];
+  /** Random start delay range after standby. Missing for an immediate start. */
+  startDelay?: StartDelay;
+  /** Qualification course the preset is shot as. Missing for a practice run. */
+  qualification?: QualificationStandard;
   /** Additional custom settings */
   [key: string]: unknown;
 }
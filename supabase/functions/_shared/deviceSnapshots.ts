@@ -1,6 +1,7 @@
 import { supabaseAdmin } from "./supabaseAdmin.ts";
 import { getTenantDevices, getBatchTelemetry, getDeviceTelemetry, getBatchServerAttributes } from "./thingsboard.ts";
 import { determineStatus, parseActiveAttribute, parseLastActivityTime } from "./deviceStatus.ts";
+import { TIMED_GAME_MODE_FILTER } from "./scoreDirection.ts";
 
 const DEFAULT_TELEMETRY_KEYS = [
   "hits",
@@ -421,11 +422,14 @@ async function fetchRecentSessions(userId: string) {
       .eq("user_id", userId)
       .order("started_at", { ascending: false })
       .limit(5),
+    // Scores are seconds (lower is better); a 0 is a DNF and hit-count modes are not comparable
     supabaseAdmin
       .from("sessions")
       .select("score")
       .eq("user_id", userId)
-      .order("score", { ascending: false })
+      .gt("score", 0)
+      .or(TIMED_GAME_MODE_FILTER)
+      .order("score", { ascending: true })
       .limit(1)
       .maybeSingle(),
     supabaseAdmin
@@ -436,6 +440,7 @@ async function fetchRecentSessions(userId: string) {
       .from("user_analytics")
       .select("avg_score")
       .eq("user_id", userId)
+      .eq("period_type", "all_time")
       .order("date", { ascending: false })
       .limit(1)
       .maybeSingle(),
@@ -0,0 +1,58 @@
+// Pairs the hits ThingsBoard recorded for one target with the hits the browser saw, to find the ones it missed.
+// Pause windows mirror PauseInterval in src/domain/games/pauses.ts.
+
+// A browser hit and a ThingsBoard hit this close together on the same target are the same hit
+export const RECONCILE_MATCH_TOLERANCE_MS = 250;
+
+export type ReconcilePauseInterval = {
+  pausedAt: number;
+  resumedAt: number | null;
+};
+
+export type DeviceHitMatch = {
+  /** ThingsBoard hit times no browser hit accounts for, up to the recoverable limit */
+  missedTimes: number[];
+  /** Browser hits with no matching ThingsBoard hit */
+  unmatchedClientHits: number;
+};
+
+export function isWithinPause(timestamp: number, pauseIntervals: ReconcilePauseInterval[]): boolean {
+  return pauseIntervals.some(
+    ({ pausedAt, resumedAt }) => timestamp >= pausedAt && (resumedAt === null || timestamp < resumedAt),
+  );
+}
+
+// Both lists are on the browser clock. Hits fired during a cease-fire never counted, so they are not recovered.
+export function matchDeviceHits(
+  serverTimes: number[],
+  clientTimes: number[],
+  options: { recoverable?: number; pauseIntervals?: ReconcilePauseInterval[] } = {},
+): DeviceHitMatch {
+  const pauseIntervals = options.pauseIntervals ?? [];
+  const server = serverTimes.filter((ts) => !isWithinPause(ts, pauseIntervals)).sort((a, b) => a - b);
+  const client = [...clientTimes].sort((a, b) => a - b);
+  let recoverable = options.recoverable ?? Infinity;
+  const missedTimes: number[] = [];
+  let unmatchedClientHits = 0;
+
+  // Both lists are sorted, so each server hit pairs with the nearest unclaimed browser hit
+  let clientIndex = 0;
+  for (const serverTime of server) {
+    while (clientIndex < client.length && client[clientIndex] < serverTime - RECONCILE_MATCH_TOLERANCE_MS) {
+      unmatchedClientHits += 1;
+      clientIndex += 1;
+    }
+    if (clientIndex < client.length && client[clientIndex] <= serverTime + RECONCILE_MATCH_TOLERANCE_MS) {
+      clientIndex += 1;
+      continue;
+    }
+    if (recoverable <= 0) {
+      continue;
+    }
+    recoverable -= 1;
+    missedTimes.push(serverTime);
+  }
+  unmatchedClientHits += client.length - clientIndex;
+
+  return { missedTimes, unmatchedClientHits };
+}
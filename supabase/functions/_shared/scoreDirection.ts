@@ -0,0 +1,11 @@
+// Game modes scored higher-is-better (hit counts); mirrors scoreDirection in src/domain/games/modes.ts.
+// Every other session is scored in seconds, lower is better.
+export const HIGHER_IS_BETTER_GAME_MODES = ["most-hits"];
+
+// PostgREST `or` filter for sessions scored in seconds; a null sessions.game_mode is the default timed mode
+export const TIMED_GAME_MODE_FILTER =
+  `game_mode.is.null,game_mode.not.in.(${HIGHER_IS_BETTER_GAME_MODES.join(",")})`;
+
+export function isTimedGameMode(gameMode: string | null | undefined): boolean {
+  return !HIGHER_IS_BETTER_GAME_MODES.includes(gameMode ?? "");
+}
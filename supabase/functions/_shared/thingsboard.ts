@@ -38,6 +38,10 @@ async function ensureToken(force = false): Promise<string> {
   return data.token;
 }
 
+export function getThingsboardBaseUrl(): string {
+  return TB_BASE_URL;
+}
+
 export async function tbFetch(path: string, init: RequestInit = {}): Promise<Response> {
   const token = await ensureToken();
   const headers = new Headers(init.headers);
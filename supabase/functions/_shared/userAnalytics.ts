@@ -0,0 +1,309 @@
+import { supabaseAdmin } from "./supabaseAdmin.ts";
+import { isTimedGameMode } from "./scoreDirection.ts";
+
+// Period types the profile and dashboard readers query
+export type AnalyticsPeriod = "daily" | "weekly" | "monthly" | "all_time";
+
+const ROLLUP_PERIODS: AnalyticsPeriod[] = ["daily", "weekly", "monthly"];
+
+// PostgREST returns at most this many rows per request (see [api] max_rows)
+const PAGE_SIZE = 1000;
+
+// Session ids per `in` filter, keeping the request URL short
+const SESSION_ID_CHUNK = 200;
+
+interface SessionRow {
+  id: string;
+  started_at: string;
+  game_mode: string | null;
+  score: number | null;
+  duration_ms: number | null;
+  hit_count: number | null;
+  miss_count: number | null;
+  total_shots: number | null;
+  avg_reaction_time_ms: number | null;
+  best_reaction_time_ms: number | null;
+  worst_reaction_time_ms: number | null;
+}
+
+interface AnalyticsRow {
+  user_id: string;
+  date: string;
+  period_type: AnalyticsPeriod;
+  total_sessions: number;
+  total_duration_ms: number;
+  avg_session_duration_ms: number;
+  total_score: number;
+  avg_score: number;
+  best_score: number;
+  total_shots: number;
+  total_hits: number;
+  total_misses: number;
+  accuracy_percentage: number;
+  avg_reaction_time_ms: number | null;
+  best_reaction_time_ms: number | null;
+  worst_reaction_time_ms: number | null;
+  score_improvement: number;
+  accuracy_improvement: number;
+}
+
+export interface RollupOptions {
+  /** Only periods containing this time or later are rewritten; omit to backfill the whole history */
+  from?: Date;
+}
+
+export interface RollupResult {
+  userId: string;
+  sessionCount: number;
+  upserted: number;
+  removed: number;
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// First day (UTC) of the period containing `date`; weeks start on Monday.
+export function periodStartDate(period: AnalyticsPeriod, date: Date): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (period === "weekly") {
+    day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  } else if (period === "monthly") {
+    day.setUTCDate(1);
+  }
+  return toDateKey(day);
+}
+
+function round(value: number, digits = 2): number {
+  return Number(value.toFixed(digits));
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function positive(value: number | null | undefined): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+async function fetchSessions(userId: string): Promise<SessionRow[]> {
+  const rows: SessionRow[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin!
+      .from("sessions")
+      .select("id, started_at, game_mode, score, duration_ms, hit_count, miss_count, total_shots, avg_reaction_time_ms, best_reaction_time_ms, worst_reaction_time_ms")
+      .eq("user_id", userId)
+      .order("started_at", { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) {
+      throw error;
+    }
+    rows.push(...((data ?? []) as SessionRow[]));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+// Per-hit reaction times keyed by session; callout drills record them on session_hits.
+async function fetchHitReactionTimes(sessionIds: string[]): Promise<Map<string, number[]>> {
+  const bySession = new Map<string, number[]>();
+  for (let start = 0; start < sessionIds.length; start += SESSION_ID_CHUNK) {
+    const chunk = sessionIds.slice(start, start + SESSION_ID_CHUNK);
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin!
+        .from("session_hits")
+        .select("session_id, reaction_time_ms")
+        .in("session_id", chunk)
+        .not("reaction_time_ms", "is", null)
+        .order("id", { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) {
+        throw error;
+      }
+      (data ?? []).forEach((hit) => {
+        if (positive(hit.reaction_time_ms)) {
+          const times = bySession.get(hit.session_id) ?? [];
+          times.push(hit.reaction_time_ms);
+          bySession.set(hit.session_id, times);
+        }
+      });
+      if (!data || data.length < PAGE_SIZE) {
+        break;
+      }
+    }
+  }
+  return bySession;
+}
+
+function buildRow(
+  userId: string,
+  period: AnalyticsPeriod,
+  date: string,
+  sessions: SessionRow[],
+  hitReactionTimes: Map<string, number[]>,
+): AnalyticsRow {
+  const totalDuration = sessions.reduce((sum, session) => sum + (session.duration_ms ?? 0), 0);
+  // Score 0 is a DNF; scores are times, so the best is the lowest. Hit-count modes are left out.
+  const scores = sessions
+    .filter((session) => isTimedGameMode(session.game_mode))
+    .map((session) => session.score)
+    .filter(positive);
+  const totalHits = sessions.reduce((sum, session) => sum + (session.hit_count ?? 0), 0);
+  const totalShots = sessions.reduce((sum, session) => sum + Math.max(session.total_shots ?? 0, session.hit_count ?? 0), 0);
+  const totalMisses = sessions.reduce((sum, session) => sum + (session.miss_count ?? 0), 0);
+
+  // Hit-level reaction times where the session recorded them, else the session's own figures
+  const reactionTimes = sessions.flatMap((session) => {
+    const hits = hitReactionTimes.get(session.id);
+    if (hits && hits.length > 0) {
+      return hits;
+    }
+    return positive(session.avg_reaction_time_ms) ? [session.avg_reaction_time_ms] : [];
+  });
+  const bestReactionTimes = sessions.flatMap((session) => {
+    const hits = hitReactionTimes.get(session.id);
+    return hits && hits.length > 0 ? [Math.min(...hits)] : [session.best_reaction_time_ms].filter(positive);
+  });
+  const worstReactionTimes = sessions.flatMap((session) => {
+    const hits = hitReactionTimes.get(session.id);
+    return hits && hits.length > 0 ? [Math.max(...hits)] : [session.worst_reaction_time_ms].filter(positive);
+  });
+  const avgReaction = average(reactionTimes);
+
+  return {
+    user_id: userId,
+    date,
+    period_type: period,
+    total_sessions: sessions.length,
+    total_duration_ms: totalDuration,
+    avg_session_duration_ms: Math.round(totalDuration / Math.max(1, sessions.length)),
+    total_score: round(scores.reduce((sum, score) => sum + score, 0)),
+    avg_score: round(average(scores) ?? 0),
+    best_score: scores.length > 0 ? Math.min(...scores) : 0,
+    total_shots: totalShots,
+    total_hits: totalHits,
+    total_misses: totalMisses,
+    accuracy_percentage: totalShots > 0 ? round((totalHits / totalShots) * 100) : 0,
+    avg_reaction_time_ms: avgReaction === null ? null : Math.round(avgReaction),
+    best_reaction_time_ms: bestReactionTimes.length > 0 ? Math.min(...bestReactionTimes) : null,
+    worst_reaction_time_ms: worstReactionTimes.length > 0 ? Math.max(...worstReactionTimes) : null,
+    score_improvement: 0,
+    accuracy_improvement: 0,
+  };
+}
+
+// Improvement is against the previous period that had sessions. Scores are times,
+// so a drop in the average score is a positive score improvement.
+function applyImprovement(rows: AnalyticsRow[]): void {
+  rows.forEach((row, index) => {
+    const previous = index > 0 ? rows[index - 1] : null;
+    if (!previous) {
+      return;
+    }
+    row.score_improvement = row.avg_score > 0 && previous.avg_score > 0 ? round(previous.avg_score - row.avg_score) : 0;
+    row.accuracy_improvement = round(row.accuracy_percentage - previous.accuracy_percentage);
+  });
+}
+
+/**
+ * Recompute a user's user_analytics rows from sessions and session_hits.
+ * Rows are rebuilt from source data on every run, so re-running is safe.
+ */
+export async function rollupUserAnalytics(userId: string, options: RollupOptions = {}): Promise<RollupResult> {
+  if (!supabaseAdmin) {
+    throw new Error("Supabase admin client not configured");
+  }
+
+  // Every session is read so improvement and the all-time row see the whole history; only rows from `from` are written.
+  const sessions = (await fetchSessions(userId)).filter((session) => !Number.isNaN(Date.parse(session.started_at)));
+  const hitReactionTimes = await fetchHitReactionTimes(sessions.map((session) => session.id));
+
+  const rows: AnalyticsRow[] = [];
+  for (const period of ROLLUP_PERIODS) {
+    const buckets = new Map<string, SessionRow[]>();
+    sessions.forEach((session) => {
+      const key = periodStartDate(period, new Date(session.started_at));
+      buckets.set(key, [...(buckets.get(key) ?? []), session]);
+    });
+    const periodRows = Array.from(buckets.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, bucket]) => buildRow(userId, period, date, bucket, hitReactionTimes));
+    applyImprovement(periodRows);
+    const windowStart = options.from ? periodStartDate(period, options.from) : null;
+    rows.push(...periodRows.filter((row) => windowStart === null || row.date >= windowStart));
+  }
+
+  if (sessions.length > 0) {
+    const allTime = buildRow(userId, "all_time", toDateKey(new Date(sessions[0].started_at)), sessions, hitReactionTimes);
+    // All-time improvement is the latest month over the month before
+    const latestMonth = rows.filter((row) => row.period_type === "monthly").at(-1);
+    allTime.score_improvement = latestMonth?.score_improvement ?? 0;
+    allTime.accuracy_improvement = latestMonth?.accuracy_improvement ?? 0;
+    rows.push(allTime);
+  }
+
+  // Match existing rows by period and date: update them in place, insert new ones,
+  // and drop rows in the window whose sessions have since been deleted.
+  const { data: existing, error: existingError } = await supabaseAdmin
+    .from("user_analytics")
+    .select("id, date, period_type")
+    .eq("user_id", userId);
+  if (existingError) {
+    throw existingError;
+  }
+
+  const rowKey = (period: string, date: string) => (period === "all_time" ? "all_time" : `${period}:${date}`);
+  const existingIds = new Map<string, string>();
+  const staleIds: string[] = [];
+  (existing ?? []).forEach((row) => {
+    const key = rowKey(row.period_type, row.date);
+    if (existingIds.has(key)) {
+      staleIds.push(row.id);
+    } else {
+      existingIds.set(key, row.id);
+    }
+  });
+
+  const now = new Date().toISOString();
+  const inserts: AnalyticsRow[] = [];
+  for (const row of rows) {
+    const id = existingIds.get(rowKey(row.period_type, row.date));
+    existingIds.delete(rowKey(row.period_type, row.date));
+    if (!id) {
+      inserts.push(row);
+      continue;
+    }
+    const { error } = await supabaseAdmin.from("user_analytics").update({ ...row, updated_at: now }).eq("id", id);
+    if (error) {
+      throw error;
+    }
+  }
+  if (inserts.length > 0) {
+    const { error } = await supabaseAdmin.from("user_analytics").insert(inserts);
+    if (error) {
+      throw error;
+    }
+  }
+
+  // Rows still unmatched had no sessions this run
+  existing?.forEach((row) => {
+    if (existingIds.get(rowKey(row.period_type, row.date)) !== row.id) {
+      return;
+    }
+    const period = row.period_type as AnalyticsPeriod;
+    const inWindow = period === "all_time" ||
+      (ROLLUP_PERIODS.includes(period) && (!options.from || row.date >= periodStartDate(period, options.from)));
+    if (inWindow) {
+      staleIds.push(row.id);
+    }
+  });
+  if (staleIds.length > 0) {
+    const { error } = await supabaseAdmin.from("user_analytics").delete().in("id", staleIds);
+    if (error) {
+      throw error;
+    }
+  }
+
+  return { userId, sessionCount: sessions.length, upserted: rows.length, removed: staleIds.length };
+}
@@ -4,12 +4,15 @@ import { requireUser } from "../_shared/auth.ts";
 import { errorResponse, jsonResponse, preflightResponse } from "../_shared/response.ts";
 import {
   getBatchTelemetry,
+  getHistoricalTelemetry,
   getTenantDevices,
   sendOneWayRpc,
   sendTwoWayRpc,
   setDeviceSharedAttributes,
 } from "../_shared/thingsboard.ts";
 import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { rollupUserAnalytics } from "../_shared/userAnalytics.ts";
+import { matchDeviceHits, type ReconcilePauseInterval } from "../_shared/hitReconciliation.ts";
 
 type DeviceStatusPayload = {
   deviceId: string;
@@ -31,12 +34,23 @@ type StartPayload = {
   gameId?: string;
   desiredDurationSeconds?: number;
   roomId?: string;
+  gameMode?: string;
+  startDelayMs?: number;
+  /** Scheduled start (epoch ms); devices hold until then and beep locally */
+  startAt?: number;
 };
 
 type StopPayload = {
   action: "stop";
   deviceIds?: string[];
   gameId?: string;
+  gameMode?: string;
+};
+
+type HoldPayload = {
+  action: "pause" | "resume";
+  deviceIds?: string[];
+  gameId?: string;
 };
 
 type ConfigurePayload = {
@@ -69,9 +83,32 @@ type HistoryPayload = {
     actualDuration?: number;
     averageHitInterval?: number;
     score?: number | null;
+    isValid?: boolean | null;
+    isPersonalBest?: boolean;
+    previousBestScore?: number | null;
     accuracy?: number | null;
+    totalShots?: number | null;
+    missCount?: number | null;
+    shotCountSource?: string | null;
     scenarioName?: string | null;
     scenarioType?: string | null;
+    gameMode?: string | null;
+    calloutResults?: Array<{ deviceId: string; calledAt: number; reactionTimeMs: number | null; wrongTargetHits?: number }>;
+    calloutCount?: number | null;
+    parTimesPerTarget?: Record<string, number>;
+    penaltiesPerTarget?: Record<string, Record<string, number>>;
+    rawScore?: number | null;
+    penaltySeconds?: number | null;
+    penalties?: Array<{ kind: string; deviceId: string | null; count: number; seconds: number }>;
+    squadId?: string | null;
+    squadFormat?: string | null;
+    shooter?: { id: string; name: string; profileId: string | null } | null;
+    squadLanes?: Array<Record<string, unknown>>;
+    drillStages?: Array<Record<string, unknown>>;
+    stageResults?: Array<Record<string, unknown>>;
+    startDelay?: { minSeconds: number; maxSeconds: number } | null;
+    drawTimeSeconds?: number | null;
+    qualification?: Record<string, unknown> | null;
     roomName?: string | null;
     roomId?: string | null;
     desiredDurationSeconds?: number | null;
@@ -84,15 +121,44 @@ type HistoryPayload = {
     splits?: Array<Record<string, unknown>>;
     transitions?: Array<Record<string, unknown>>;
     hitHistory?: Array<Record<string, unknown>>;
+    goalShotsPerTarget?: Record<string, number>;
+    roundSplits?: Array<{ roundNumber: number; completedAt: number; roundTime: number; pairGap: number }>;
+    reconciliation?: HitReconciliation | null;
+    /** Target clock minus browser clock (ms) per calibrated target; browser hit times are already shifted by these */
+    clockOffsetsMs?: Record<string, number>;
+    /** Cease-fire pauses; hits inside them never counted, so reconciliation leaves them out */
+    pauseIntervals?: ReconcilePauseInterval[];
   };
 };
 
-type RequestPayload = StartPayload | StopPayload | ConfigurePayload | InfoPayload | HistoryPayload;
+type HitReconciliation = {
+  reconciled: boolean;
+  reconciledAt: number;
+  /** Hits the browser reported */
+  clientHits: number;
+  /** Hits ThingsBoard recorded for the session window */
+  serverHits: number;
+  /** Hits in ThingsBoard the browser missed, now part of the session */
+  recoveredHits: number;
+  /** Browser hits with no matching hit in ThingsBoard */
+  unmatchedClientHits: number;
+  /** Targets whose history could not be read */
+  failedDeviceIds: string[];
+};
+
+type RequestPayload = StartPayload | StopPayload | HoldPayload | ConfigurePayload | InfoPayload | HistoryPayload;
 
 type HistorySummary = NonNullable<HistoryPayload['summary']>;
 
+const MAX_START_DELAY_MS = 10_000;
+const MAX_SCHEDULED_START_LEAD_MS = 60 * 60_000;
+
 const TELEMETRY_KEYS = ["hits", "wifiStrength", "ambientLight", "event", "gameStatus", "gameId", "hit_ts"];
 
+const RECONCILE_TELEMETRY_KEYS = ["hits", "hit_ts", "gameId", "zone", "intensity"];
+// Scoring zones zoned targets report with each hit
+const HIT_ZONES = ["A", "C", "D"];
+
 function isUuid(value: unknown): value is string {
   if (typeof value !== "string") {
     return false;
@@ -106,6 +172,12 @@ function normalizeNumber(value: unknown): number | null {
   return Number.isFinite(parsed) ? parsed : null;
 }
 
+function normalizeHitZone(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const zone = value.trim().toUpperCase();
+  return HIT_ZONES.includes(zone) ? zone : null;
+}
+
 function toErrorMessage(error: unknown): string | null {
   if (!error) {
     return null;
@@ -363,6 +435,145 @@ async function handleInfo(payload: InfoPayload) {
   });
 }
 
+// Re-reads the session window from ThingsBoard and merges hits the browser missed (dropped frames,
+// polling fallback) into the summary in place, so the saved session is authoritative.
+// Hits recovered here are tagged `source: "reconciled"`, which keeps re-saves from counting them twice.
+// Scoring lives in the browser's game modes, so the browser re-scores the merged hits and saves the run again.
+async function reconcileSessionHits(summary: HistorySummary): Promise<HitReconciliation> {
+  const clientHistory = Array.isArray(summary.hitHistory) ? summary.hitHistory : [];
+  const deviceIds = Array.from(new Set([
+    ...(summary.targetDeviceIds ?? []),
+    ...(summary.deviceResults ?? []).map((device) => String(device?.deviceId ?? "")),
+  ].filter((deviceId) => deviceId.length > 0)));
+  const deviceNames = new Map<string, string>();
+  (summary.deviceResults ?? []).forEach((device) => {
+    if (typeof device?.deviceId === "string" && typeof device?.deviceName === "string") {
+      deviceNames.set(device.deviceId, device.deviceName);
+    }
+  });
+
+  const endTime = typeof summary.endTime === "number" && summary.endTime > 0 ? summary.endTime : Date.now();
+  const failedDeviceIds: string[] = [];
+  const recovered: Array<Record<string, unknown>> = [];
+  let serverHits = 0;
+  let unmatchedClientHits = 0;
+
+  for (const deviceId of deviceIds) {
+    // ThingsBoard keeps the target's own clock; the browser moved its hits onto the browser clock
+    const offset = Number(summary.clockOffsetsMs?.[deviceId]);
+    const offsetMs = Number.isFinite(offset) ? offset : 0;
+    let telemetry: Record<string, unknown>;
+    try {
+      telemetry = await getHistoricalTelemetry(
+        deviceId,
+        RECONCILE_TELEMETRY_KEYS,
+        summary.startTime + offsetMs,
+        endTime + offsetMs,
+      );
+    } catch (error) {
+      console.warn("[game-control] Failed to read hit history for reconciliation", {
+        gameId: summary.gameId,
+        deviceId,
+        error: toErrorMessage(error),
+      });
+      failedDeviceIds.push(deviceId);
+      continue;
+    }
+
+    // Each hit reports hit_ts (and a running hits count) in one telemetry message
+    const readSeries = (key: string) =>
+      (Array.isArray(telemetry[key]) ? telemetry[key] : []) as Array<{ ts?: unknown; value?: unknown }>;
+    const series = readSeries("hit_ts").length > 0 ? readSeries("hit_ts") : readSeries("hits");
+    const gameIdAt = new Map(readSeries("gameId").map((point) => [normalizeNumber(point?.ts), String(point?.value)]));
+    const zoneAt = new Map(readSeries("zone").map((point) => [normalizeNumber(point?.ts), normalizeHitZone(point?.value)]));
+    const intensityAt = new Map(readSeries("intensity").map((point) => [normalizeNumber(point?.ts), normalizeNumber(point?.value)]));
+    const deviceTimes = series
+      .map((point) => normalizeNumber(point?.ts))
+      .filter((ts): ts is number => ts !== null && ts >= summary.startTime + offsetMs && ts <= endTime + offsetMs)
+      .filter((ts) => {
+        const hitGameId = gameIdAt.get(ts);
+        return hitGameId === undefined || hitGameId === summary.gameId;
+      })
+      .sort((a, b) => a - b);
+    const clientTimes = clientHistory
+      .filter((hit) => hit?.deviceId === deviceId)
+      .map((hit) => normalizeNumber(hit?.timestamp))
+      .filter((ts): ts is number => ts !== null);
+
+    serverHits += deviceTimes.length;
+    // A target stopped at its goal may keep firing; the browser ignores those hits, so never recover past the goal
+    const goal = Number(summary.goalShotsPerTarget?.[deviceId]);
+    const match = matchDeviceHits(
+      deviceTimes.map((deviceTime) => deviceTime - offsetMs),
+      clientTimes,
+      {
+        recoverable: goal > 0 ? Math.max(0, goal - clientTimes.length) : Infinity,
+        pauseIntervals: summary.pauseIntervals ?? [],
+      },
+    );
+    unmatchedClientHits += match.unmatchedClientHits;
+    match.missedTimes.forEach((serverTime) => {
+      const deviceTime = serverTime + offsetMs;
+      recovered.push({
+        deviceId,
+        deviceName: deviceNames.get(deviceId) ?? deviceId,
+        timestamp: serverTime,
+        gameId: summary.gameId,
+        source: "reconciled",
+        ...(zoneAt.get(deviceTime) ? { zone: zoneAt.get(deviceTime) } : {}),
+        ...(typeof intensityAt.get(deviceTime) === "number" ? { intensity: intensityAt.get(deviceTime) } : {}),
+      });
+    });
+  }
+
+  if (recovered.length > 0) {
+    const merged = [...clientHistory, ...recovered].sort(
+      (a, b) => (normalizeNumber(a?.timestamp) ?? 0) - (normalizeNumber(b?.timestamp) ?? 0),
+    );
+    const recoveredByDevice = new Map<string, number>();
+    recovered.forEach((hit) => {
+      const deviceId = String(hit.deviceId);
+      recoveredByDevice.set(deviceId, (recoveredByDevice.get(deviceId) ?? 0) + 1);
+    });
+
+    summary.hitHistory = merged;
+    summary.totalHits = (typeof summary.totalHits === "number" ? summary.totalHits : clientHistory.length) + recovered.length;
+    summary.deviceResults = (summary.deviceResults ?? []).map((device) => {
+      const extra = recoveredByDevice.get(String(device?.deviceId)) ?? 0;
+      return extra > 0 ? { ...device, hitCount: (Number(device?.hitCount) || 0) + extra } : device;
+    });
+    // Shots fired stay as counted; without a counter every shot is still taken as a hit.
+    const counted = summary.shotCountSource === "shot-counter" || summary.shotCountSource === "manual";
+    const totalShots = counted && typeof summary.totalShots === "number"
+      ? Math.max(summary.totalShots, summary.totalHits)
+      : summary.totalHits;
+    summary.totalShots = totalShots;
+    summary.missCount = totalShots - summary.totalHits;
+    summary.accuracy = totalShots > 0 ? Math.round((summary.totalHits / totalShots) * 100) : null;
+  }
+
+  const reconciliation: HitReconciliation = {
+    reconciled: failedDeviceIds.length === 0,
+    reconciledAt: Date.now(),
+    clientHits: clientHistory.filter((hit) => hit?.source !== "reconciled").length,
+    serverHits,
+    recoveredHits: (summary.hitHistory ?? []).filter((hit) => hit?.source === "reconciled").length,
+    unmatchedClientHits,
+    failedDeviceIds,
+  };
+
+  if (recovered.length > 0 || unmatchedClientHits > 0 || failedDeviceIds.length > 0) {
+    console.warn("[game-control] Hit reconciliation found a discrepancy", {
+      gameId: summary.gameId,
+      newlyRecovered: recovered.length,
+      ...reconciliation,
+    });
+  }
+
+  summary.reconciliation = reconciliation;
+  return reconciliation;
+}
+
 // Persists or retrieves user-specific game history records via Supabase, supporting upserts and filtered pagination.
 async function handleHistory(
   userId: string,
@@ -378,6 +589,7 @@ async function handleHistory(
       return errorResponse("Missing history summary payload", 400);
     }
 
+    const reconciliation = await reconcileSessionHits(summary);
     const summaryRecord = summary as Record<string, unknown>;
 
     // Compute safe endTime once — reused by both sessions INSERT and game_history upsert.
@@ -406,6 +618,11 @@ async function handleHistory(
             }, 0)
           : 0;
 
+      // Shots fired come from a shot counter or manual entry; without them every shot is taken as a hit.
+      const totalShots = typeof summary.totalShots === "number" && Number.isFinite(summary.totalShots)
+        ? Math.max(hitCount, Math.round(summary.totalShots))
+        : hitCount;
+
       const rawScoreValue = typeof summary.score === "number" ? summary.score : hitCount;
       const normalizedScore = Number.isFinite(rawScoreValue) ? Math.round(rawScoreValue) : hitCount;
 
@@ -416,6 +633,13 @@ async function handleHistory(
         ? Math.max(0, Math.round(summary.actualDuration * 1000))
         : null;
 
+      // Callout drills measure reaction time directly (callout to first hit on the called target).
+      const calloutReactionTimesMs = Array.isArray(summary.calloutResults)
+        ? summary.calloutResults
+            .map((result) => result?.reactionTimeMs)
+            .filter((value): value is number => typeof value === "number" && Number.isFinite(value) && value >= 0)
+        : [];
+
       const normalizedRoomId =
         typeof summaryRecord.roomId === "string" && summaryRecord.roomId.trim().length > 0 ? summaryRecord.roomId : null;
 
@@ -424,15 +648,22 @@ async function handleHistory(
         game_id: summary.gameId ?? null,
         scenario_name: summary.scenarioName ?? summary.gameName ?? null,
         scenario_type: summary.scenarioType ?? null,
+        game_mode: summary.gameMode ?? null,
         room_name: summary.roomName ?? null,
         room_id: roomId,
         score: normalizedScore,
         duration_ms: durationMs,
         hit_count: hitCount,
-        miss_count: 0,
-        total_shots: hitCount,
-        accuracy_percentage: typeof summary.accuracy === "number" ? summary.accuracy : null,
+        miss_count: totalShots - hitCount,
+        total_shots: totalShots,
+        accuracy_percentage: typeof summary.accuracy === "number"
+          ? summary.accuracy
+          : totalShots > 0 ? Math.round((hitCount / totalShots) * 100) : null,
         avg_reaction_time_ms: (() => {
+          // Callout drills: measured reaction times take precedence over derived cadence
+          if (calloutReactionTimesMs.length > 0) {
+            return Math.round(calloutReactionTimesMs.reduce((sum, t) => sum + t, 0) / calloutReactionTimesMs.length);
+          }
           // 1st: for multi-target sessions, prefer roundSplits (round-to-round cadence, in seconds)
           if (Array.isArray(summary.roundSplits) && summary.roundSplits.length > 0) {
             const validRoundTimes = summary.roundSplits
@@ -460,6 +691,9 @@ async function handleHistory(
           return null;
         })(),
         best_reaction_time_ms: (() => {
+          if (calloutReactionTimesMs.length > 0) {
+            return Math.round(Math.min(...calloutReactionTimesMs));
+          }
           // For multi-target: prefer roundSplits (best round-to-round time)
           if (Array.isArray(summary.roundSplits) && summary.roundSplits.length > 0) {
             const validRoundTimes = summary.roundSplits
@@ -480,6 +714,9 @@ async function handleHistory(
           return null;
         })(),
         worst_reaction_time_ms: (() => {
+          if (calloutReactionTimesMs.length > 0) {
+            return Math.round(Math.max(...calloutReactionTimesMs));
+          }
           // For multi-target: prefer roundSplits (worst round-to-round time)
           if (Array.isArray(summary.roundSplits) && summary.roundSplits.length > 0) {
             const validRoundTimes = summary.roundSplits
@@ -528,79 +765,14 @@ async function handleHistory(
           .single();
       };
 
-      let currentRoomId: string | null = normalizedRoomId;
-      let {
-        data: sessionInsert,
-        error: sessionError,
-        status: sessionStatus,
-      }: {
-        data: { id?: string | null } | null;
-        error: unknown;
-        status: number | null;
-      } = await attemptSessionInsert(currentRoomId);
-
-      if (sessionError && isRoomForeignKeyError(sessionError)) {
-        console.warn("[game-control] sessions insert failed due to room foreign key, retrying without room_id", {
-          summaryGameId: summary.gameId,
-          roomId: currentRoomId,
-          code: (sessionError as { code?: string }).code,
-          details: (sessionError as { details?: unknown }).details,
-        });
-        currentRoomId = null;
-        ({ data: sessionInsert, error: sessionError, status: sessionStatus } = await attemptSessionInsert(currentRoomId));
-      }
-
-      if (sessionError) {
-        throw sessionError;
-      }
-
-      sessionId = sessionInsert?.id ?? null;
-      sessionPersisted = Boolean(sessionId);
-      if (!sessionPersisted) {
-        console.warn("[game-control] Session insert succeeded but returned no id; attempting fallback lookup", {
-          summaryGameId: summary.gameId,
-          status: sessionStatus,
-          sessionInsert,
-        });
-        const { data: fallbackRow, error: fallbackError } = await supabaseAdmin
-          .from("sessions")
-          .select("id")
-          .eq("user_id", userId)
-          .eq("started_at", startedAtIso)
-          .eq("ended_at", endedAtIso)
-          .order("created_at", { ascending: false })
-          .limit(1)
-          .maybeSingle();
-        if (fallbackError) {
-          sessionPersistError = fallbackError;
-        }
-        if (fallbackRow?.id) {
-          sessionId = fallbackRow.id;
-          sessionPersisted = true;
-        }
-      }
-
-      if (!sessionPersisted) {
-        if (!sessionPersistError) {
-          sessionPersistError = {
-            message: "Session insert returned no id and fallback lookup failed",
-            status: sessionStatus,
-            payload: sessionInsert,
-          };
-        }
-        throw sessionPersistError;
-      }
-
-      summaryRecord.roomId = currentRoomId;
-
-      if (Array.isArray(summary.hitHistory) && summary.hitHistory.length > 0) {
-      const hitRows = summary.hitHistory.map((hit) => ({
-        session_id: sessionId,
+      // One session_hits row per saved hit, hits recovered by reconciliation included
+      const buildHitRows = (hitSessionId: string | null) => (summary.hitHistory ?? []).map((hit) => ({
+        session_id: hitSessionId,
         user_id: userId,
         target_id: hit.deviceId ?? null,
         target_name: hit.deviceName ?? null,
         room_name: summary.roomName ?? null,
-        hit_type: 'hit',
+        hit_type: (hit as Record<string, unknown>)?.hitType === 'wrong_target' ? 'wrong_target' : 'hit',
         reaction_time_ms: typeof (hit as Record<string, unknown>)?.reactionTimeMs === 'number'
           ? (hit as Record<string, unknown>).reactionTimeMs
           : null,
@@ -608,15 +780,122 @@ async function handleHistory(
           ? (hit as Record<string, unknown>).score
           : null,
         hit_timestamp: new Date(hit.timestamp).toISOString(),
-        hit_position: {},
+        // Zone and intensity come from zoned targets; the full hit, intensity included, stays in sensor_data
+        hit_position: normalizeHitZone(hit?.zone) ? { zone: normalizeHitZone(hit?.zone) } : {},
         sensor_data: hit,
       }));
 
-        const { error: hitsError } = await supabaseAdmin.from('session_hits').insert(hitRows);
-        if (hitsError) {
-          throw hitsError;
+      // Re-saving a game (e.g. after its shots fired were entered) updates its session row
+      // rather than inserting a duplicate session with a second copy of its hits.
+      const { data: existingSession } = await supabaseAdmin
+        .from("sessions")
+        .select("id, room_id")
+        .eq("user_id", userId)
+        .eq("started_at", startedAtIso)
+        .limit(1)
+        .maybeSingle();
+
+      if (existingSession?.id) {
+        const { error: sessionUpdateError } = await supabaseAdmin
+          .from("sessions")
+          .update(buildSessionPayload(existingSession.room_id ?? null))
+          .eq("id", existingSession.id);
+        if (sessionUpdateError) {
+          throw sessionUpdateError;
         }
+        sessionId = existingSession.id;
         sessionPersisted = true;
+        summaryRecord.roomId = existingSession.room_id ?? null;
+
+        // The saved hits may have changed (hits recovered on this save, re-scored tags), so they replace the old rows
+        const { error: hitsDeleteError } = await supabaseAdmin
+          .from('session_hits')
+          .delete()
+          .eq('session_id', existingSession.id);
+        if (hitsDeleteError) {
+          throw hitsDeleteError;
+        }
+        const hitRows = buildHitRows(existingSession.id);
+        if (hitRows.length > 0) {
+          const { error: hitsError } = await supabaseAdmin.from('session_hits').insert(hitRows);
+          if (hitsError) {
+            throw hitsError;
+          }
+        }
+      } else {
+        let currentRoomId: string | null = normalizedRoomId;
+        let {
+          data: sessionInsert,
+          error: sessionError,
+          status: sessionStatus,
+        }: {
+          data: { id?: string | null } | null;
+          error: unknown;
+          status: number | null;
+        } = await attemptSessionInsert(currentRoomId);
+
+        if (sessionError && isRoomForeignKeyError(sessionError)) {
+          console.warn("[game-control] sessions insert failed due to room foreign key, retrying without room_id", {
+            summaryGameId: summary.gameId,
+            roomId: currentRoomId,
+            code: (sessionError as { code?: string }).code,
+            details: (sessionError as { details?: unknown }).details,
+          });
+          currentRoomId = null;
+          ({ data: sessionInsert, error: sessionError, status: sessionStatus } = await attemptSessionInsert(currentRoomId));
+        }
+
+        if (sessionError) {
+          throw sessionError;
+        }
+
+        sessionId = sessionInsert?.id ?? null;
+        sessionPersisted = Boolean(sessionId);
+        if (!sessionPersisted) {
+          console.warn("[game-control] Session insert succeeded but returned no id; attempting fallback lookup", {
+            summaryGameId: summary.gameId,
+            status: sessionStatus,
+            sessionInsert,
+          });
+          const { data: fallbackRow, error: fallbackError } = await supabaseAdmin
+            .from("sessions")
+            .select("id")
+            .eq("user_id", userId)
+            .eq("started_at", startedAtIso)
+            .eq("ended_at", endedAtIso)
+            .order("created_at", { ascending: false })
+            .limit(1)
+            .maybeSingle();
+          if (fallbackError) {
+            sessionPersistError = fallbackError;
+          }
+          if (fallbackRow?.id) {
+            sessionId = fallbackRow.id;
+            sessionPersisted = true;
+          }
+        }
+
+        if (!sessionPersisted) {
+          if (!sessionPersistError) {
+            sessionPersistError = {
+              message: "Session insert returned no id and fallback lookup failed",
+              status: sessionStatus,
+              payload: sessionInsert,
+            };
+          }
+          throw sessionPersistError;
+        }
+
+        summaryRecord.roomId = currentRoomId;
+
+        const hitRows = buildHitRows(sessionId);
+        if (hitRows.length > 0) {
+          const { error: hitsError } = await supabaseAdmin.from('session_hits').insert(hitRows);
+          if (hitsError) {
+            throw hitsError;
+          }
+          sessionPersisted = true;
+        }
       }
 
       summaryRecord.sessionId = sessionId;
@@ -640,6 +919,18 @@ async function handleHistory(
       gameId: summary.gameId,
     });
 
+    // Refresh the user's analytics for the periods this session falls in; the scheduled rollup catches any miss.
+    if (sessionPersisted) {
+      try {
+        await rollupUserAnalytics(userId, { from: new Date(summary.startTime) });
+      } catch (rollupError) {
+        console.warn('[game-control] Failed to roll up user analytics', {
+          gameId: summary.gameId,
+          error: toErrorMessage(rollupError),
+        });
+      }
+    }
+
     let isUpdate = false;
     try {
       const { data: existingRows } = await supabaseAdmin
@@ -725,6 +1016,7 @@ async function handleHistory(
       sessionPersisted,
       sessionPersistError: toErrorMessage(sessionPersistError),
       status: isUpdate ? 'updated' : 'created',
+      reconciliation,
     });
   }
 
@@ -787,7 +1079,22 @@ async function handleStart(payload: StartPayload) {
   }
 
   const gameId = payload.gameId && payload.gameId.trim().length > 0 ? payload.gameId : `GM-${Date.now()}`;
+  const gameMode = payload.gameMode && payload.gameMode.trim().length > 0 ? payload.gameMode : null;
   const timestamp = Date.now();
+  // Shot-timer starts: devices hold in standby and fire the start beep at beepAt.
+  const startDelayMs =
+    typeof payload.startDelayMs === "number" && Number.isFinite(payload.startDelayMs) && payload.startDelayMs > 0
+      ? Math.min(Math.round(payload.startDelayMs), MAX_START_DELAY_MS)
+      : 0;
+  // Scheduled starts: the random delay, if any, runs from the scheduled time.
+  const startAt =
+    typeof payload.startAt === "number" &&
+    Number.isFinite(payload.startAt) &&
+    payload.startAt > timestamp &&
+    payload.startAt - timestamp <= MAX_SCHEDULED_START_LEAD_MS
+      ? Math.round(payload.startAt)
+      : null;
+  const beepAt = (startAt ?? timestamp) + startDelayMs;
 
   const results: DeviceCommandResult[] = await Promise.all(
     deviceIds.map(async (deviceId) => {
@@ -796,13 +1103,19 @@ async function handleStart(payload: StartPayload) {
       try {
         console.log(`[game-control:start] setting shared attributes for ${deviceId}`);
         const attributesStartedAt = Date.now();
-        const sharedAttrs: Record<string, unknown> = { gameId, status: "busy" };
+        // A session stopped during a cease fire may have left the targets ignoring hits
+        const sharedAttrs: Record<string, unknown> = { gameId, status: "busy", paused: false, ignoreHits: false };
         if (typeof payload.desiredDurationSeconds === 'number' && payload.desiredDurationSeconds > 0) {
           sharedAttrs.desiredDurationSeconds = payload.desiredDurationSeconds;
         }
         if (payload.roomId && payload.roomId.trim().length > 0) {
           sharedAttrs.roomId = payload.roomId;
         }
+        if (gameMode) {
+          sharedAttrs.gameMode = gameMode;
+        }
+        sharedAttrs.startBeepAt = beepAt;
+        sharedAttrs.scheduledStartAt = startAt;
         await setDeviceSharedAttributes(deviceId, sharedAttrs);
         const attributesCompletedAt = Date.now();
 
@@ -822,6 +1135,16 @@ async function handleStart(payload: StartPayload) {
         if (payload.roomId && payload.roomId.trim().length > 0) {
           commandValues.roomId = payload.roomId;
         }
+        if (gameMode) {
+          commandValues.gameMode = gameMode;
+        }
+        commandValues.beepAt = beepAt;
+        if (startAt !== null) {
+          commandValues.startAt = startAt;
+        }
+        if (startDelayMs > 0) {
+          commandValues.startDelayMs = startDelayMs;
+        }
         try {
           await sendOneWayRpc(deviceId, "start", {
             ts: timestamp,
@@ -874,7 +1197,10 @@ async function handleStart(payload: StartPayload) {
   return jsonResponse({
     action: "start",
     gameId,
+    gameMode,
     startedAt: timestamp,
+    startAt,
+    beepAt,
     deviceIds,
     successCount,
     failureCount,
@@ -891,6 +1217,7 @@ async function handleStop(payload: StopPayload) {
   }
 
   const gameId = payload.gameId && payload.gameId.trim().length > 0 ? payload.gameId : null;
+  const gameMode = payload.gameMode && payload.gameMode.trim().length > 0 ? payload.gameMode : null;
   const timestamp = Date.now();
 
   const results: DeviceCommandResult[] = [];
@@ -900,6 +1227,10 @@ async function handleStop(payload: StopPayload) {
       const attributes: Record<string, unknown> = {
         status: "free",
         gameId: gameId ?? null,
+        gameMode: null,
+        // Stopping during a cease fire ends it; the next session must not start with hits ignored
+        paused: false,
+        ignoreHits: false,
       };
       await setDeviceSharedAttributes(deviceId, attributes);
       try {
@@ -909,6 +1240,7 @@ async function handleStop(payload: StopPayload) {
             deviceId,
             event: "stop",
             gameId,
+            gameMode,
           },
         });
       } catch (error) {
@@ -934,6 +1266,7 @@ async function handleStop(payload: StopPayload) {
   return jsonResponse({
     action: "stop",
     gameId,
+    gameMode,
     stoppedAt: timestamp,
     deviceIds,
     successCount,
@@ -943,6 +1276,68 @@ async function handleStop(payload: StopPayload) {
   });
 }
 
+// Cease fire: tells targets to ignore hits on pause and to score them again on resume.
+// The game stays assigned to the targets so a resumed session keeps its gameId.
+async function handleHold(payload: HoldPayload) {
+  const deviceIds = Array.isArray(payload.deviceIds) ? payload.deviceIds.filter(Boolean) : [];
+  if (deviceIds.length === 0) {
+    return errorResponse("No deviceIds provided", 400);
+  }
+
+  const action = payload.action;
+  const paused = action === "pause";
+  const gameId = payload.gameId && payload.gameId.trim().length > 0 ? payload.gameId : null;
+  const timestamp = Date.now();
+
+  const results: DeviceCommandResult[] = await Promise.all(
+    deviceIds.map(async (deviceId) => {
+      const result: DeviceCommandResult = { deviceId, success: false };
+      try {
+        await setDeviceSharedAttributes(deviceId, { paused, ignoreHits: paused });
+        try {
+          await sendOneWayRpc(deviceId, action, {
+            ts: timestamp,
+            values: {
+              deviceId,
+              event: action,
+              gameId,
+              ignoreHits: paused,
+            },
+          });
+        } catch (error) {
+          if (isTimeoutError(error)) {
+            result.warning = "rpc-timeout";
+          } else {
+            throw error;
+          }
+        }
+        result.success = true;
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+        console.error(`[game-control:${action}] failed for device ${deviceId}`, error);
+      }
+      return result;
+    }),
+  );
+
+  const successCount = results.filter((r) => r.success).length;
+  const failureCount = results.length - successCount;
+  const warnings = results
+    .filter((r) => typeof r.warning === "string" && r.warning.length > 0)
+    .map((r) => ({ deviceId: r.deviceId, warning: r.warning as string }));
+
+  return jsonResponse({
+    action,
+    gameId,
+    ...(paused ? { pausedAt: timestamp } : { resumedAt: timestamp }),
+    deviceIds,
+    successCount,
+    failureCount,
+    results,
+    warnings,
+  });
+}
+
 Deno.serve(async (req) => {
   const method = req.method.toUpperCase();
   if (method === "OPTIONS") {
@@ -1020,6 +1415,9 @@ Deno.serve(async (req) => {
     if (payload.action === "stop") {
       return handleStop(payload as StopPayload);
     }
+    if (payload.action === "pause" || payload.action === "resume") {
+      return handleHold(payload as HoldPayload);
+    }
 
     return errorResponse(`Unsupported action: ${payload.action}`, 400);
   }
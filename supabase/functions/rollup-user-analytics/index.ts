@@ -0,0 +1,102 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+
+import { jsonResponse, errorResponse, preflightResponse } from "../_shared/response.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { rollupUserAnalytics, type RollupResult } from "../_shared/userAnalytics.ts";
+
+// Scheduled runs re-roll the last two days so sessions saved around midnight land in both days
+const DEFAULT_LOOKBACK_MS = 2 * 24 * 60 * 60 * 1000;
+
+interface UserRollupResult extends Partial<RollupResult> {
+  userId: string;
+  rolledUp: boolean;
+  error?: string;
+}
+
+async function fetchActiveUsers(targetUserId?: string) {
+  if (!supabaseAdmin) {
+    throw new Error("Supabase admin client not configured");
+  }
+
+  const query = supabaseAdmin
+    .from("user_profiles")
+    .select("id, is_active")
+    .eq("is_active", true);
+
+  if (targetUserId) {
+    query.eq("id", targetUserId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).map((row) => String(row.id));
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return preflightResponse(req);
+  }
+
+  if (req.method !== "POST") {
+    return errorResponse("Only POST is supported", 405);
+  }
+
+  if (!supabaseAdmin) {
+    return errorResponse("Supabase admin client not configured", 500);
+  }
+
+  const secret = Deno.env.get("ANALYTICS_ROLLUP_SECRET");
+  if (secret && req.headers.get("x-rollup-secret") !== secret) {
+    return errorResponse("Invalid rollup secret", 401);
+  }
+
+  try {
+    const url = new URL(req.url);
+    const targetUserId = url.searchParams.get("user_id");
+    const backfill = url.searchParams.get("backfill") === "true";
+    const from = backfill ? undefined : new Date(Date.now() - DEFAULT_LOOKBACK_MS);
+    console.log('[rollup-user-analytics] invocation received', { targetUserId, backfill });
+    const userIds = await fetchActiveUsers(targetUserId ?? undefined);
+
+    const results: UserRollupResult[] = [];
+
+    for (const userId of userIds) {
+      try {
+        const result = await rollupUserAnalytics(userId, { from });
+        results.push({ ...result, rolledUp: true });
+      } catch (error) {
+        console.error('[rollup-user-analytics] user rollup failed', { userId, error: error instanceof Error ? error.message : String(error) });
+        results.push({
+          userId,
+          rolledUp: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const successCount = results.filter((result) => result.rolledUp).length;
+    console.log('[rollup-user-analytics] completed', {
+      rolledUpAt: new Date().toISOString(),
+      backfill,
+      userCount: userIds.length,
+      successCount,
+    });
+
+    return jsonResponse({
+      rolledUpAt: new Date().toISOString(),
+      backfill,
+      userCount: userIds.length,
+      results,
+    });
+  } catch (error) {
+    console.error('[rollup-user-analytics] unexpected error', { error: error instanceof Error ? error.message : String(error) });
+    return errorResponse(
+      "Failed to roll up user analytics",
+      500,
+      error instanceof Error ? error.message : error,
+    );
+  }
+});
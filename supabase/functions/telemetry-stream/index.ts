@@ -0,0 +1,181 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+
+import { requireUser } from "../_shared/auth.ts";
+import { getThingsboardBaseUrl, getTokenWithExpiry } from "../_shared/thingsboard.ts";
+import { errorResponse, preflightResponse } from "../_shared/response.ts";
+
+const DEFAULT_KEYS = ["hits", "hit_ts", "event", "gameStatus", "gameId", "zone", "intensity"];
+const MAX_DEVICES = 50;
+// Comment line sent while idle so proxies keep the stream open
+const HEARTBEAT_INTERVAL_MS = 15_000;
+// Streams are closed before the edge runtime's wall-clock limit; clients reconnect
+const MAX_STREAM_DURATION_MS = 120_000;
+
+interface StreamRequest {
+  deviceIds?: string[];
+  keys?: string[];
+}
+
+const STREAM_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  "Connection": "keep-alive",
+} as const;
+
+const createThingsboardWsUrl = (token: string): string => {
+  const url = new URL(getThingsboardBaseUrl());
+  url.pathname = "/api/ws/plugins/telemetry";
+  url.searchParams.set("token", token);
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  return url.toString();
+};
+
+/**
+ * Relays live ThingsBoard telemetry for the requested devices as Server-Sent Events.
+ *
+ * Events:
+ * - `ready`: the ThingsBoard subscription is open
+ * - `telemetry`: `[{ deviceId, telemetry }]`, telemetry as ThingsBoard sends it (`{ key: [[ts, value]] }`)
+ * - `error`: `{ message }`
+ */
+Deno.serve(async (req) => {
+  const method = req.method.toUpperCase();
+
+  if (method === "OPTIONS") {
+    return preflightResponse(req);
+  }
+
+  if (method !== "POST") {
+    return errorResponse("Only POST is supported", 405);
+  }
+
+  const authResult = await requireUser(req);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  let payload: StreamRequest;
+  try {
+    payload = await req.json();
+  } catch (_err) {
+    return errorResponse("Request body must be valid JSON", 400);
+  }
+
+  const deviceIds = Array.isArray(payload.deviceIds)
+    ? Array.from(new Set(payload.deviceIds.filter(Boolean).map(String)))
+    : [];
+  if (deviceIds.length === 0) {
+    return errorResponse("deviceIds is required", 400);
+  }
+  if (deviceIds.length > MAX_DEVICES) {
+    return errorResponse(`At most ${MAX_DEVICES} devices can be streamed at once`, 400);
+  }
+  const keys = Array.isArray(payload.keys) && payload.keys.length > 0 ? payload.keys.map(String) : DEFAULT_KEYS;
+
+  let tbToken: string;
+  try {
+    ({ token: tbToken } = await getTokenWithExpiry());
+  } catch (error) {
+    console.error("❌ [telemetry-stream] ThingsBoard login failed:", error);
+    return errorResponse("ThingsBoard authentication failed", 502, error instanceof Error ? error.message : error);
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup: () => void = () => undefined;
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let finished = false;
+      const subscriptionMap = new Map<number, string>();
+      const socket = new WebSocket(createThingsboardWsUrl(tbToken));
+
+      const send = (chunk: string) => {
+        if (!finished) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+      const sendEvent = (event: string, data: unknown) => send(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+      const lifetime = setTimeout(() => finish(), MAX_STREAM_DURATION_MS);
+
+      const finish = () => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        clearInterval(heartbeat);
+        clearTimeout(lifetime);
+        req.signal.removeEventListener("abort", finish);
+        if (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING) {
+          socket.close();
+        }
+        try {
+          controller.close();
+        } catch (_err) {
+          // Already closed by the client
+        }
+      };
+      cleanup = finish;
+      req.signal.addEventListener("abort", finish);
+
+      socket.onopen = () => {
+        const tsSubCmds = deviceIds.map((deviceId, index) => {
+          const cmdId = index + 1;
+          subscriptionMap.set(cmdId, deviceId);
+          return {
+            entityType: "DEVICE",
+            entityId: deviceId,
+            scope: "LATEST_TELEMETRY",
+            keys: keys.join(","),
+            cmdId,
+          };
+        });
+        socket.send(JSON.stringify({ tsSubCmds, historyCmds: [], attrSubCmds: [] }));
+        sendEvent("ready", { deviceIds, keys });
+      };
+
+      socket.onmessage = (event: MessageEvent) => {
+        try {
+          const message = JSON.parse(String(event.data)) as {
+            subscriptionId?: number;
+            data?: Record<string, unknown>;
+            errorCode?: number;
+            errorMsg?: string;
+          };
+          if (message.errorCode) {
+            console.warn("⚠️ [telemetry-stream] ThingsBoard subscription error:", message.errorMsg);
+            sendEvent("error", { message: message.errorMsg ?? "ThingsBoard subscription error" });
+            return;
+          }
+          const deviceId = typeof message.subscriptionId === "number" ? subscriptionMap.get(message.subscriptionId) : undefined;
+          if (deviceId && message.data) {
+            sendEvent("telemetry", [{ deviceId, telemetry: message.data }]);
+          }
+        } catch (error) {
+          console.error("❌ [telemetry-stream] Failed to parse ThingsBoard message:", error);
+        }
+      };
+
+      socket.onerror = (event) => {
+        console.error("❌ [telemetry-stream] ThingsBoard WebSocket error:", event);
+        sendEvent("error", { message: "ThingsBoard WebSocket error" });
+        finish();
+      };
+
+      socket.onclose = (event) => {
+        if (!finished && (event.code === 4401 || event.code === 4403)) {
+          sendEvent("error", { message: "ThingsBoard rejected the session token" });
+        }
+        finish();
+      };
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(body, { headers: STREAM_HEADERS });
+});
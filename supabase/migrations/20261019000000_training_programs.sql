@@ -0,0 +1,68 @@
+-- Training programs and each user's progress through them.
+-- Both tables are read and written straight from the client, so row-level security keeps every row to its owner.
+
+create table if not exists public.training_programs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  description text,
+  -- Levels in unlock order: [{ id, name, presetId, requirement: { criterion, requiredRuns, targetScore } }]
+  levels jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists training_programs_user_id_idx
+  on public.training_programs (user_id, created_at);
+
+create table if not exists public.training_program_progress (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  program_id uuid not null references public.training_programs (id) on delete cascade,
+  started_at timestamptz not null default now(),
+  -- Levels cleared so far, in order: [{ level_id, cleared_at }]
+  cleared_levels jsonb not null default '[]'::jsonb,
+  updated_at timestamptz not null default now(),
+  -- One progress row per user and program; the client upserts on it
+  constraint training_program_progress_user_program_key unique (user_id, program_id)
+);
+
+create index if not exists training_program_progress_program_id_idx
+  on public.training_program_progress (program_id);
+
+alter table public.training_programs enable row level security;
+alter table public.training_program_progress enable row level security;
+
+create policy "Users read their own training programs"
+  on public.training_programs for select
+  using (auth.uid() = user_id);
+
+create policy "Users create their own training programs"
+  on public.training_programs for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users update their own training programs"
+  on public.training_programs for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users delete their own training programs"
+  on public.training_programs for delete
+  using (auth.uid() = user_id);
+
+create policy "Users read their own training progress"
+  on public.training_program_progress for select
+  using (auth.uid() = user_id);
+
+create policy "Users create their own training progress"
+  on public.training_program_progress for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users update their own training progress"
+  on public.training_program_progress for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users delete their own training progress"
+  on public.training_program_progress for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,14 @@
+-- The game mode a session was scored under, kept apart from scenario_type (the preset's scenario).
+-- Score direction (fastest time vs most hits) is derived from it; null is the default timed mode.
+
+alter table public.sessions
+  add column if not exists game_mode text;
+
+-- Live sessions used to store the mode id in scenario_type when they had no scenario of their own
+update public.sessions
+  set game_mode = scenario_type
+  where game_mode is null
+    and scenario_type in ('time-to-goal', 'most-hits', 'bill-drill', 'el-presidente', 'random-callout', 'par-time');
+
+create index if not exists sessions_user_id_game_mode_idx
+  on public.sessions (user_id, game_mode);
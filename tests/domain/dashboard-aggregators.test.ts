@@ -64,6 +64,25 @@ describe('dashboard aggregators', () => {
       const result = calculateSessionTotals(sessions);
       expect(result.avgScore).toBe(13); // 12.5 rounded
     });
+
+    it('keeps the headline totals to timed modes and totals each mode in its own direction', () => {
+      const sessions = [
+        createSession({ score: 12, gameMode: 'most-hits' }),
+        createSession({ score: 0, gameMode: 'most-hits' }),
+        createSession({ score: 8.5 }),
+        createSession({ score: 30, gameMode: 'most-hits' }),
+        createSession({ score: 6, gameMode: 'bill-drill' }),
+      ];
+      const result = calculateSessionTotals(sessions);
+      expect(result.totalSessions).toBe(5);
+      expect(result.bestScore).toBe(6);
+      expect(result.avgScore).toBe(7);
+      expect(result.byMode).toEqual([
+        { gameMode: 'most-hits', totalSessions: 3, bestScore: 30, avgScore: 14 }, // 0 is a valid hit count
+        { gameMode: 'time-to-goal', totalSessions: 1, bestScore: 8.5, avgScore: 9 },
+        { gameMode: 'bill-drill', totalSessions: 1, bestScore: 6, avgScore: 6 },
+      ]);
+    });
   });
 
   describe('calculateTargetSummary', () => {
@@ -250,6 +269,24 @@ describe('dashboard aggregators', () => {
       const dates = result.map(r => r.date);
       expect(dates).toEqual([...dates].sort());
     });
+
+    it('averages only scores in the requested direction', () => {
+      const todayStr = new Date().toISOString().split('T')[0];
+      const sessions = [
+        createSession({ score: 10, startedAt: `${todayStr}T10:00:00Z` }),
+        createSession({ score: 40, startedAt: `${todayStr}T11:00:00Z`, gameMode: 'most-hits' }),
+      ];
+      expect(calculateScoreTrend(sessions, 'week')[0].value).toBe(10);
+      expect(calculateScoreTrend(sessions, 'week', 'higher-is-better')[0].value).toBe(40);
+    });
+
+    it('includes every session for the all period and keeps hundredths', () => {
+      const sessions = [
+        createSession({ score: 12.31, startedAt: '2020-01-15T10:00:00Z' }),
+        createSession({ score: 12.36, startedAt: '2020-01-15T11:00:00Z' }),
+      ];
+      expect(calculateScoreTrend(sessions, 'all')).toEqual([{ date: '2020-01-15', value: 12.34 }]);
+    });
   });
 
   describe('calculateImprovementPercentage', () => {
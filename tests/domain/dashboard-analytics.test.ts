@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import {
+  filterAnalyticsSessions,
+  calculateConsistency,
+  calculateSplitHistogram,
+  calculatePresetTrends,
+  summarizeTransitionPairs,
+  calculateTimeOfDayPerformance,
+  buildSessionAnalytics,
+  type AnalyticsSession,
+} from '../../src/domain/dashboard/analytics';
+
+describe('dashboard analytics', () => {
+  const createSession = (overrides: Partial<AnalyticsSession> = {}): AnalyticsSession => ({
+    id: 'session-1',
+    startedAt: new Date(2026, 2, 10, 9, 0).toISOString(),
+    score: 12.5,
+    hitCount: 10,
+    durationMs: 15000,
+    accuracyPercentage: 80,
+    roomId: 'room-1',
+    roomName: 'Bay 1',
+    presetId: 'preset-1',
+    presetName: 'El Presidente',
+    splitTimes: [],
+    transitions: [],
+    roundTimes: [],
+    ...overrides,
+  });
+
+  describe('filterAnalyticsSessions', () => {
+    const sessions = [
+      createSession({ id: 'a', roomId: 'room-1', presetId: 'preset-1', startedAt: '2026-03-01T10:00:00.000Z' }),
+      createSession({ id: 'b', roomId: 'room-2', presetId: 'preset-1', startedAt: '2026-03-05T10:00:00.000Z' }),
+      createSession({ id: 'c', roomId: 'room-1', presetId: 'preset-2', startedAt: '2026-03-09T10:00:00.000Z' }),
+    ];
+
+    it('matches everything without filters', () => {
+      expect(filterAnalyticsSessions(sessions, {})).toHaveLength(3);
+    });
+
+    it('filters by room, preset and date range together', () => {
+      expect(filterAnalyticsSessions(sessions, { roomId: 'room-1' }).map((s) => s.id)).toEqual(['a', 'c']);
+      expect(filterAnalyticsSessions(sessions, { presetId: 'preset-1' }).map((s) => s.id)).toEqual(['a', 'b']);
+      expect(
+        filterAnalyticsSessions(sessions, {
+          from: new Date('2026-03-02T00:00:00.000Z'),
+          to: new Date('2026-03-09T23:59:59.999Z'),
+        }).map((s) => s.id)
+      ).toEqual(['b', 'c']);
+      expect(filterAnalyticsSessions(sessions, { roomId: 'room-1', presetId: 'preset-1' }).map((s) => s.id)).toEqual(['a']);
+    });
+  });
+
+  describe('calculateConsistency', () => {
+    it('returns null without valid times', () => {
+      expect(calculateConsistency([])).toBeNull();
+      expect(calculateConsistency([0, -1, Number.NaN])).toBeNull();
+    });
+
+    it('scores identical times as fully consistent', () => {
+      const stats = calculateConsistency([1.2, 1.2, 1.2]);
+      expect(stats?.standardDeviation).toBe(0);
+      expect(stats?.consistencyScore).toBe(100);
+    });
+
+    it('computes mean, standard deviation and score', () => {
+      const stats = calculateConsistency([1, 2, 3]);
+      expect(stats?.count).toBe(3);
+      expect(stats?.mean).toBe(2);
+      expect(stats?.standardDeviation).toBe(0.816);
+      expect(stats?.consistencyScore).toBe(59); // 1 - 0.408
+    });
+
+    it('floors the score at zero for wildly spread times', () => {
+      expect(calculateConsistency([0.1, 0.1, 0.1, 10])?.consistencyScore).toBe(0);
+    });
+  });
+
+  describe('calculateSplitHistogram', () => {
+    it('returns no buckets without times', () => {
+      expect(calculateSplitHistogram([])).toEqual([]);
+    });
+
+    it('counts times into fixed-width buckets', () => {
+      const buckets = calculateSplitHistogram([0.3, 0.45, 0.6, 1.1], 0.5);
+      expect(buckets.map((b) => [b.start, b.end, b.count])).toEqual([
+        [0, 0.5, 2],
+        [0.5, 1, 1],
+        [1, 1.5, 1],
+      ]);
+    });
+
+    it('picks a bucket width that keeps the histogram readable', () => {
+      const buckets = calculateSplitHistogram([0.2, 4.8, 9.9]);
+      expect(buckets.length).toBeLessThanOrEqual(20);
+      expect(buckets.reduce((sum, b) => sum + b.count, 0)).toBe(3);
+    });
+  });
+
+  describe('calculatePresetTrends', () => {
+    it('groups sessions by preset, falling back to the session name', () => {
+      const trends = calculatePresetTrends([
+        createSession({ id: 'a', presetId: 'preset-1', score: 10 }),
+        createSession({ id: 'b', presetId: 'preset-1', score: 14 }),
+        createSession({ id: 'c', presetId: null, presetName: 'Quick Drill', score: 8 }),
+      ]);
+      expect(trends.map((t) => [t.label, t.sessionCount])).toEqual([
+        ['El Presidente', 2],
+        ['Quick Drill', 1],
+      ]);
+      expect(trends[0].points).toEqual([{ date: '2026-03-10', value: 12 }]);
+    });
+
+    it('trends hit-count presets in their own direction', () => {
+      const [trend] = calculatePresetTrends([
+        createSession({ id: 'a', presetId: 'hits', gameMode: 'most-hits', score: 0 }),
+        createSession({ id: 'b', presetId: 'hits', gameMode: 'most-hits', score: 30 }),
+      ]);
+      expect(trend.direction).toBe('higher-is-better');
+      expect(trend.points).toEqual([{ date: '2026-03-10', value: 15 }]);
+    });
+  });
+
+  describe('summarizeTransitionPairs', () => {
+    it('aggregates transitions per ordered target pair, slowest first', () => {
+      const pairs = summarizeTransitionPairs([
+        createSession({
+          transitions: [
+            { fromTarget: 'A', toTarget: 'B', time: 0.8 },
+            { fromTarget: 'B', toTarget: 'A', time: 1.5 },
+          ],
+        }),
+        createSession({
+          id: 'session-2',
+          transitions: [
+            { fromTarget: 'A', toTarget: 'B', time: 0.6 },
+            { fromTarget: 'A', toTarget: 'B', time: 0 },
+          ],
+        }),
+      ]);
+      expect(pairs.map((p) => [p.fromTarget, p.toTarget, p.count, p.average, p.best])).toEqual([
+        ['B', 'A', 1, 1.5, 1.5],
+        ['A', 'B', 2, 0.7, 0.6],
+      ]);
+    });
+  });
+
+  describe('calculateTimeOfDayPerformance', () => {
+    it('buckets sessions by local start hour', () => {
+      const blocks = calculateTimeOfDayPerformance([
+        createSession({ startedAt: new Date(2026, 2, 10, 7, 30).toISOString(), score: 10, accuracyPercentage: 90 }),
+        createSession({ startedAt: new Date(2026, 2, 11, 9, 0).toISOString(), score: 14, accuracyPercentage: 70 }),
+        createSession({ startedAt: new Date(2026, 2, 11, 19, 0).toISOString(), score: 0, accuracyPercentage: null }),
+      ]);
+      const morning = blocks.find((b) => b.block === 'morning');
+      const evening = blocks.find((b) => b.block === 'evening');
+      expect(morning).toMatchObject({ sessionCount: 2, avgScore: 12, avgAccuracy: 80 });
+      expect(evening).toMatchObject({ sessionCount: 1, avgScore: null, avgAccuracy: null });
+      expect(blocks.find((b) => b.block === 'night')?.sessionCount).toBe(0);
+    });
+  });
+
+  describe('buildSessionAnalytics', () => {
+    it('builds every section from the filtered sessions', () => {
+      const now = new Date();
+      const recent = new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000).toISOString();
+      const analytics = buildSessionAnalytics(
+        [
+          createSession({ id: 'a', startedAt: recent, splitTimes: [1, 1.2], roundTimes: [0, 2, 2] }),
+          createSession({ id: 'b', startedAt: recent, roomId: 'room-2', splitTimes: [5] }),
+        ],
+        { roomId: 'room-1' },
+        now
+      );
+      expect(analytics.sessionCount).toBe(1);
+      expect(analytics.splitConsistency?.count).toBe(2);
+      expect(analytics.roundConsistency?.consistencyScore).toBe(100);
+      expect(analytics.splitHistogram.reduce((sum, b) => sum + b.count, 0)).toBe(2);
+      expect(analytics.presetTrends).toHaveLength(1);
+      expect(analytics.sessionsPerDay).toBe(0.3); // 1 session over 3 calendar days
+    });
+
+    it('returns empty sections without sessions', () => {
+      const analytics = buildSessionAnalytics([]);
+      expect(analytics.sessionCount).toBe(0);
+      expect(analytics.sessionsPerDay).toBe(0);
+      expect(analytics.presetTrends).toEqual([]);
+      expect(analytics.splitConsistency).toBeNull();
+    });
+  });
+});
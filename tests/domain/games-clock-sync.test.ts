@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CLOCK_SYNC_CONSTRAINTS,
+  estimateClockOffset,
+  isCalibrationFresh,
+  toLocalTime,
+} from '../../src/domain/games/clock-sync';
+
+const NOW = 1_000_000;
+
+describe('games clock sync', () => {
+  describe('estimateClockOffset', () => {
+    it('takes the offset from the fastest exchange', () => {
+      const calibration = estimateClockOffset(
+        [
+          { sentAt: NOW, deviceTime: NOW + 600, receivedAt: NOW + 400 },
+          { sentAt: NOW + 1000, deviceTime: NOW + 1350, receivedAt: NOW + 1100 },
+          { sentAt: NOW + 2000, deviceTime: NOW + 2500, receivedAt: NOW + 2300 },
+        ],
+        NOW + 3000,
+      );
+      expect(calibration).toEqual({ offsetMs: 300, roundTripMs: 100, sampleCount: 3, calibratedAt: NOW + 3000 });
+    });
+
+    it('discards slow or malformed exchanges', () => {
+      const slow = { sentAt: NOW, deviceTime: NOW, receivedAt: NOW + CLOCK_SYNC_CONSTRAINTS.MAX_ROUND_TRIP_MS + 1 };
+      const backwards = { sentAt: NOW, deviceTime: NOW, receivedAt: NOW - 1 };
+      const missing = { sentAt: NOW, deviceTime: Number.NaN, receivedAt: NOW + 50 };
+      expect(estimateClockOffset([slow, backwards, missing], NOW)).toBeNull();
+      expect(estimateClockOffset([], NOW)).toBeNull();
+    });
+  });
+
+  it('moves device timestamps onto the local clock', () => {
+    const calibration = { offsetMs: -250, roundTripMs: 80, sampleCount: 5, calibratedAt: NOW };
+    expect(toLocalTime(NOW, calibration)).toBe(NOW + 250);
+    expect(toLocalTime(NOW, null)).toBe(NOW);
+  });
+
+  it('expires old calibrations', () => {
+    const calibration = { offsetMs: 0, roundTripMs: 80, sampleCount: 5, calibratedAt: NOW };
+    expect(isCalibrationFresh(calibration, NOW + 1000)).toBe(true);
+    expect(isCalibrationFresh(calibration, NOW + CLOCK_SYNC_CONSTRAINTS.MAX_CALIBRATION_AGE_MS + 1)).toBe(false);
+    expect(isCalibrationFresh(null, NOW)).toBe(false);
+  });
+});
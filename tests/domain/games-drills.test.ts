@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateDrillProgress,
+  getDrillStageLabel,
+  validateDrill,
+  type DrillStage,
+} from '../../src/domain/games/drills';
+
+const START = 1_000_000;
+
+const stage = (id: string, steps: Array<[string, number]>, overrides: Partial<DrillStage> = {}): DrillStage => ({
+  id,
+  steps: steps.map(([deviceId, hits]) => ({ deviceId, hits })),
+  timeLimitSeconds: null,
+  startBeep: false,
+  onTimeout: 'advance',
+  ...overrides,
+});
+
+const hit = (deviceId: string, offsetMs: number) => ({ deviceId, timestamp: START + offsetMs });
+
+// "2 hits on T1, then 1 hit each on T2-T4, then 3 on T1"
+const DRILL = [
+  stage('s1', [['t1', 2]]),
+  stage('s2', [['t2', 1], ['t3', 1], ['t4', 1]]),
+  stage('s3', [['t1', 3]]),
+];
+
+describe('games drills', () => {
+  describe('validateDrill', () => {
+    const targets = ['t1', 't2', 't3', 't4'];
+
+    it('accepts a drill on the selected targets', () => {
+      expect(validateDrill(DRILL, targets).valid).toBe(true);
+    });
+
+    it('requires at least one stage with at least one step', () => {
+      expect(validateDrill([], targets).valid).toBe(false);
+      const empty = validateDrill([stage('s1', [])], targets);
+      expect(empty.valid).toBe(false);
+      if (!empty.valid) {
+        expect(empty.code).toBe('INVALID_STAGE_STEPS');
+      }
+    });
+
+    it('rejects unselected targets, repeated targets and bad hit counts', () => {
+      const unselected = validateDrill([stage('s1', [['t9', 1]])], targets);
+      expect(unselected.valid === false && unselected.code).toBe('STAGE_TARGET_NOT_SELECTED');
+      const duplicate = validateDrill([stage('s1', [['t1', 1], ['t1', 2]])], targets);
+      expect(duplicate.valid === false && duplicate.code).toBe('DUPLICATE_STAGE_TARGET');
+      const fractional = validateDrill([stage('s1', [['t1', 1.5]])], targets);
+      expect(fractional.valid === false && fractional.code).toBe('INVALID_STAGE_HITS');
+    });
+
+    it('bounds stage time limits', () => {
+      const result = validateDrill([stage('s1', [['t1', 1]], { timeLimitSeconds: 0.5 })], targets);
+      expect(result.valid === false && result.code).toBe('INVALID_STAGE_TIME_LIMIT');
+    });
+  });
+
+  it('labels unnamed stages by position', () => {
+    expect(getDrillStageLabel({ label: '  ' }, 1)).toBe('Stage 2');
+    expect(getDrillStageLabel({ label: 'Reload' }, 1)).toBe('Reload');
+  });
+
+  describe('evaluateDrillProgress', () => {
+    it('times each stage from the end of the previous one', () => {
+      const progress = evaluateDrillProgress(
+        [
+          hit('t1', 1000),
+          hit('t1', 1500),
+          hit('t3', 2500),
+          hit('t2', 3000),
+          hit('t4', 3200),
+          hit('t1', 4000),
+          hit('t1', 4300),
+          hit('t1', 5000),
+        ],
+        DRILL,
+        START,
+        START + 6000,
+      );
+      expect(progress.stages.map((s) => [s.status, s.timeSeconds])).toEqual([
+        ['completed', 1.5],
+        ['completed', 1.7],
+        ['completed', 1.8],
+      ]);
+      expect(progress.isComplete).toBe(true);
+      expect(progress.totalTimeSeconds).toBe(5);
+    });
+
+    it('ignores hits that do not belong to the stage in progress', () => {
+      const progress = evaluateDrillProgress(
+        [hit('t2', 500), hit('t1', 1000), hit('t1', 1200), hit('t1', 1300)],
+        DRILL,
+        START,
+        START + 2000,
+      );
+      expect(progress.stages[0].hitsByDevice).toEqual({ t1: 2 });
+      expect(progress.currentStageIndex).toBe(1);
+      expect(progress.stages[1].status).toBe('active');
+      expect(progress.stages[1].hitsByDevice).toEqual({});
+      expect(progress.totalTimeSeconds).toBeNull();
+    });
+
+    it('advances past a timed-out stage and reports the deadline of the active one', () => {
+      const stages = [
+        stage('s1', [['t1', 2]], { timeLimitSeconds: 2 }),
+        stage('s2', [['t2', 1]], { timeLimitSeconds: 3 }),
+      ];
+      const live = evaluateDrillProgress([hit('t1', 500)], stages, START, START + 1000);
+      expect(live.currentStageIndex).toBe(0);
+      expect(live.currentStageDeadline).toBe(START + 2000);
+
+      const later = evaluateDrillProgress([hit('t1', 500), hit('t2', 2500)], stages, START, START + 2600);
+      expect(later.stages.map((s) => s.status)).toEqual(['timed-out', 'completed']);
+      expect(later.stages[0].timeSeconds).toBe(2);
+      expect(later.stages[1].timeSeconds).toBe(0.5);
+      expect(later.totalTimeSeconds).toBe(2.5);
+    });
+
+    it('ends the drill when a stage set to end times out', () => {
+      const stages = [stage('s1', [['t1', 2]], { timeLimitSeconds: 2, onTimeout: 'end' }), stage('s2', [['t2', 1]])];
+      const progress = evaluateDrillProgress([hit('t1', 500)], stages, START, START + 2500);
+      expect(progress.stages.map((s) => s.status)).toEqual(['timed-out', 'skipped']);
+      expect(progress.isComplete).toBe(true);
+      expect(progress.endedEarly).toBe(true);
+      expect(progress.currentStageDeadline).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countZonedHits,
+  hitZoneWeight,
+  parseHitIntensity,
+  parseHitZone,
+  summarizeHitZones,
+  weightedHitCount,
+} from '../../src/domain/games/hit-zones';
+
+describe('games hit zones', () => {
+  describe('parseHitZone', () => {
+    it('reads zones in either case and rejects anything else', () => {
+      expect(parseHitZone('A')).toBe('A');
+      expect(parseHitZone(' c ')).toBe('C');
+      expect(parseHitZone('B')).toBeNull();
+      expect(parseHitZone(1)).toBeNull();
+      expect(parseHitZone(undefined)).toBeNull();
+    });
+  });
+
+  describe('parseHitIntensity', () => {
+    it('keeps finite non-negative readings', () => {
+      expect(parseHitIntensity('42.5')).toBe(42.5);
+      expect(parseHitIntensity(0)).toBe(0);
+      expect(parseHitIntensity(-1)).toBeNull();
+      expect(parseHitIntensity('loud')).toBeNull();
+      expect(parseHitIntensity('')).toBeNull();
+      expect(parseHitIntensity(null)).toBeNull();
+    });
+  });
+
+  describe('weightedHitCount', () => {
+    it('counts hits without a zone as A-zone hits', () => {
+      expect(hitZoneWeight(null)).toBe(1);
+      expect(weightedHitCount([{ zone: 'A' }, { zone: 'C' }, { zone: 'D' }, {}])).toBe(2.8);
+      expect(weightedHitCount([])).toBe(0);
+    });
+  });
+
+  describe('summarizeHitZones', () => {
+    it('counts hits per zone and those without one', () => {
+      const distribution = summarizeHitZones([{ zone: 'A' }, { zone: 'A' }, { zone: 'D' }, { zone: null }, {}]);
+      expect(distribution).toEqual({ A: 2, C: 0, D: 1, unzoned: 2 });
+      expect(countZonedHits(distribution)).toBe(3);
+    });
+  });
+});
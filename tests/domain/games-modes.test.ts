@@ -0,0 +1,308 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_GAME_MODE_ID,
+  GAME_MODES,
+  GAME_MODE_DEFAULTS,
+  calculateCalloutReactionTimes,
+  classifyCalloutHits,
+  evaluateCallouts,
+  getGameMode,
+  isGameModeId,
+  listGameModes,
+  resolveGameModeId,
+  resolvePenaltyValues,
+  type GameModeConfig,
+} from '../../src/domain/games/modes';
+import { GAME_MODE_IDS } from '../../src/domain/games/validators';
+
+const START = 1_000_000;
+
+const hit = (deviceId: string, offsetMs: number) => ({ deviceId, timestamp: START + offsetMs });
+
+const config = (overrides: Partial<GameModeConfig> = {}): GameModeConfig => ({
+  targetIds: ['t1'],
+  goalShotsPerTarget: {},
+  ...overrides,
+});
+
+describe('games modes', () => {
+  describe('registry', () => {
+    it('registers a definition for every mode id', () => {
+      for (const id of GAME_MODE_IDS) {
+        expect(GAME_MODES[id].id).toBe(id);
+      }
+      expect(listGameModes().map((mode) => mode.id)).toEqual([...GAME_MODE_IDS]);
+    });
+
+    it('recognises known mode ids', () => {
+      expect(isGameModeId('bill-drill')).toBe(true);
+      expect(isGameModeId('unknown')).toBe(false);
+      expect(isGameModeId(null)).toBe(false);
+    });
+
+    it('falls back to the default mode for unknown values', () => {
+      expect(resolveGameModeId('most-hits')).toBe('most-hits');
+      expect(resolveGameModeId(undefined)).toBe(DEFAULT_GAME_MODE_ID);
+      expect(resolveGameModeId('speedrun')).toBe(DEFAULT_GAME_MODE_ID);
+      expect(getGameMode(42).id).toBe(DEFAULT_GAME_MODE_ID);
+    });
+  });
+
+  describe('time-to-goal', () => {
+    const mode = GAME_MODES['time-to-goal'];
+
+    it('scores the time of the last required hit', () => {
+      const hits = [hit('t1', 1000), hit('t1', 2500)];
+      const result = mode.score(hits, config({ goalShotsPerTarget: { t1: 2 } }), START);
+      expect(result.isValid).toBe(true);
+      expect(result.score).toBe(2.5);
+    });
+
+    it('is complete once all goals are met', () => {
+      const goals = config({ goalShotsPerTarget: { t1: 2 } });
+      expect(mode.isComplete([hit('t1', 1000)], goals, 1000)).toBe(false);
+      expect(mode.isComplete([hit('t1', 1000), hit('t1', 2000)], goals, 2000)).toBe(true);
+    });
+
+    it('rejects out-of-range goal shots', () => {
+      const result = mode.validate(config({ goalShotsPerTarget: { t1: 0 } }));
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe('most-hits', () => {
+    const mode = GAME_MODES['most-hits'];
+
+    it('requires a time limit', () => {
+      const result = mode.validate(config());
+      expect(result.valid).toBe(false);
+      if (!result.valid) {
+        expect(result.code).toBe('MISSING_TIME_LIMIT');
+      }
+      expect(mode.validate(config({ timeLimitSeconds: 30 })).valid).toBe(true);
+    });
+
+    it('counts only hits inside the time limit', () => {
+      const hits = [hit('t1', 1000), hit('t1', 9000), hit('t1', 12000)];
+      const result = mode.score(hits, config({ timeLimitSeconds: 10 }), START);
+      expect(result.isValid).toBe(true);
+      expect(result.score).toBe(2);
+    });
+
+    it('weights zoned hits by zone', () => {
+      const hits = [{ ...hit('t1', 1000), zone: 'A' as const }, { ...hit('t1', 2000), zone: 'D' as const }, hit('t1', 3000)];
+      const result = mode.score(hits, config({ timeLimitSeconds: 10 }), START);
+      expect(result.score).toBe(2.2);
+    });
+
+    it('completes when the time limit elapses', () => {
+      const timed = config({ timeLimitSeconds: 10 });
+      expect(mode.isComplete([], timed, 9999)).toBe(false);
+      expect(mode.isComplete([], timed, 10000)).toBe(true);
+      expect(mode.getProgress([], timed, 5000).ratio).toBe(0.5);
+    });
+  });
+
+  describe('bill-drill', () => {
+    const mode = GAME_MODES['bill-drill'];
+
+    it('requires exactly one target', () => {
+      expect(mode.validate(config({ targetIds: ['t1', 't2'] })).valid).toBe(false);
+      expect(mode.validate(config()).valid).toBe(true);
+    });
+
+    it('scores the time of the sixth hit regardless of configured goals', () => {
+      const hits = Array.from({ length: GAME_MODE_DEFAULTS.BILL_DRILL_SHOTS + 1 }, (_, i) => hit('t1', (i + 1) * 500));
+      const result = mode.score(hits, config({ goalShotsPerTarget: { t1: 2 } }), START);
+      expect(result.isValid).toBe(true);
+      expect(result.score).toBe(3);
+    });
+
+    it('is a DNF with fewer than six hits', () => {
+      const result = mode.score([hit('t1', 500)], config(), START);
+      expect(result.isValid).toBe(false);
+      expect(result.score).toBeNull();
+    });
+  });
+
+  describe('el-presidente', () => {
+    const mode = GAME_MODES['el-presidente'];
+    const targets = config({ targetIds: ['a', 'b', 'c'] });
+
+    it('requires three targets', () => {
+      expect(mode.validate(config()).valid).toBe(false);
+      expect(mode.validate(targets).valid).toBe(true);
+    });
+
+    it('scores the hit that completes the second string', () => {
+      const hits = [
+        hit('a', 1000), hit('a', 1200), hit('b', 1500), hit('b', 1700), hit('c', 2000), hit('c', 2200),
+        hit('a', 5000), hit('a', 5200), hit('b', 5500), hit('b', 5700), hit('c', 6000), hit('c', 6250),
+      ];
+      const result = mode.score(hits, targets, START);
+      expect(result.isValid).toBe(true);
+      expect(result.score).toBe(6.25);
+      expect(mode.isComplete(hits, targets, 6250)).toBe(true);
+    });
+
+    it('is invalid when a target is hit for the next string early', () => {
+      const hits = [hit('a', 1000), hit('a', 1200), hit('a', 1400)];
+      const result = mode.score(hits, targets, START);
+      expect(result.isValid).toBe(false);
+      expect(result.score).toBeNull();
+    });
+  });
+
+  describe('random-callout', () => {
+    const mode = GAME_MODES['random-callout'];
+    const callouts = [
+      { deviceId: 'a', calledAt: START + 1000 },
+      { deviceId: 'b', calledAt: START + 3000 },
+    ];
+
+    it('requires at least two targets', () => {
+      expect(mode.validate(config()).valid).toBe(false);
+      expect(mode.validate(config({ targetIds: ['a', 'b'] })).valid).toBe(true);
+    });
+
+    it('measures reaction time from each callout to the first hit on the called target', () => {
+      const hits = [hit('b', 1200), hit('a', 1500), hit('b', 3800)];
+      expect(calculateCalloutReactionTimes(hits, callouts)).toEqual([0.5, 0.8]);
+    });
+
+    it('marks callouts answered only after the next callout as missed', () => {
+      const hits = [hit('a', 3500)];
+      expect(calculateCalloutReactionTimes(hits, callouts)).toEqual([null, null]);
+    });
+
+    it('scores the total reaction time once every callout is answered', () => {
+      const hits = [hit('a', 1500), hit('b', 3800)];
+      const drill = config({ targetIds: ['a', 'b'], calloutCount: 2, callouts });
+      const result = mode.score(hits, drill, START);
+      expect(result.isValid).toBe(true);
+      expect(result.score).toBe(1.3);
+      expect(mode.isComplete(hits, drill, 4000)).toBe(true);
+    });
+
+    it('penalizes hits on targets that were not called', () => {
+      const hits = [hit('b', 1200), hit('a', 1500), hit('b', 3800)];
+      const drill = config({ targetIds: ['a', 'b'], calloutCount: 2, callouts });
+      const result = mode.score(hits, drill, START);
+      expect(result.score).toBe(1.3 + GAME_MODE_DEFAULTS.RANDOM_CALLOUT_WRONG_TARGET_PENALTY_SECONDS);
+      expect(result.rawScore).toBe(1.3);
+      expect(result.penalties).toEqual([
+        {
+          kind: 'wrong-target',
+          deviceId: null,
+          count: 1,
+          seconds: GAME_MODE_DEFAULTS.RANDOM_CALLOUT_WRONG_TARGET_PENALTY_SECONDS,
+        },
+      ]);
+    });
+
+    it('classifies hits as responses, wrong-target or stray', () => {
+      const hits = [hit('a', 500), hit('b', 1200), hit('a', 1500), hit('a', 1700), hit('b', 3800)];
+      expect(classifyCalloutHits(hits, callouts).map((c) => c.kind)).toEqual([
+        'stray',
+        'wrong-target',
+        'response',
+        'stray',
+        'response',
+      ]);
+      expect(classifyCalloutHits(hits, callouts)[2].reactionTimeMs).toBe(500);
+    });
+
+    it('ignores answers that arrive after the callout expired', () => {
+      const expired = [{ deviceId: 'a', calledAt: START + 1000, expiredAt: START + 2000 }];
+      const [result] = evaluateCallouts([hit('a', 2500)], expired);
+      expect(result.reactionTimeMs).toBeNull();
+      expect(result.respondedAt).toBeNull();
+    });
+
+    it('completes once every callout is answered or expired', () => {
+      const drill = config({
+        targetIds: ['a', 'b'],
+        calloutCount: 2,
+        callouts: [callouts[0], { ...callouts[1], expiredAt: START + 6000 }],
+      });
+      expect(mode.isComplete([hit('a', 1500)], drill, 7000)).toBe(true);
+      expect(mode.isComplete([], config({ targetIds: ['a', 'b'], calloutCount: 2, callouts }), 7000)).toBe(false);
+    });
+
+    it('is a DNF when a callout goes unanswered', () => {
+      const drill = config({ targetIds: ['a', 'b'], calloutCount: 2, callouts });
+      const result = mode.score([hit('a', 1500)], drill, START);
+      expect(result.isValid).toBe(false);
+      expect(result.score).toBeNull();
+    });
+  });
+
+  describe('par-time', () => {
+    const mode = GAME_MODES['par-time'];
+    const stage = (overrides: Partial<GameModeConfig> = {}) =>
+      config({ targetIds: ['a', 'b'], goalShotsPerTarget: { a: 2, b: 1 }, ...overrides });
+
+    it('rejects non-positive par times', () => {
+      expect(mode.validate(stage({ parTimesPerTarget: { a: 0 } })).valid).toBe(false);
+      expect(mode.validate(stage({ parTimesPerTarget: { a: 2.5 } })).valid).toBe(true);
+    });
+
+    it('scores a clean run as the raw time with no penalties', () => {
+      const hits = [hit('a', 800), hit('a', 1200), hit('b', 2000)];
+      const result = mode.score(hits, stage({ parTimesPerTarget: { a: 1.5, b: 3 } }), START);
+      expect(result.score).toBe(2);
+      expect(result.rawScore).toBe(2);
+      expect(result.penaltySeconds).toBe(0);
+      expect(result.penalties).toEqual([]);
+      expect(mode.isComplete(hits, stage(), 2000)).toBe(true);
+    });
+
+    it('penalizes misses instead of marking the run a DNF', () => {
+      const result = mode.score([hit('a', 800), hit('a', 1200)], stage(), START);
+      expect(result.isValid).toBe(true);
+      expect(result.penalties).toEqual([
+        { kind: 'miss', deviceId: 'b', count: 1, seconds: GAME_MODE_DEFAULTS.PAR_TIME_MISS_PENALTY_SECONDS },
+      ]);
+      expect(result.score).toBe(1.2 + GAME_MODE_DEFAULTS.PAR_TIME_MISS_PENALTY_SECONDS);
+    });
+
+    it('penalizes extra and out-of-order hits', () => {
+      const hits = [hit('b', 500), hit('a', 800), hit('a', 1200), hit('a', 1400)];
+      const result = mode.score(hits, stage(), START);
+      expect(result.rawScore).toBe(1.2);
+      expect(result.penalties.map((penalty) => [penalty.kind, penalty.deviceId, penalty.count])).toEqual([
+        ['extra-hit', 'a', 1],
+        ['out-of-order', 'b', 1],
+      ]);
+    });
+
+    it('adds the time over par for each target', () => {
+      const hits = [hit('a', 800), hit('a', 1700), hit('b', 2000)];
+      const result = mode.score(hits, stage({ parTimesPerTarget: { a: 1.5, b: 3 } }), START);
+      expect(result.penalties).toEqual([{ kind: 'over-par', deviceId: 'a', count: 1, seconds: 0.2 }]);
+      expect(result.score).toBe(2.2);
+    });
+
+    it('applies per-target penalty overrides', () => {
+      const overrides = stage({ penaltiesPerTarget: { b: { missSeconds: 10 } } });
+      expect(resolvePenaltyValues(overrides, 'b').missSeconds).toBe(10);
+      expect(resolvePenaltyValues(overrides, 'a').missSeconds).toBe(GAME_MODE_DEFAULTS.PAR_TIME_MISS_PENALTY_SECONDS);
+      const result = mode.score([hit('a', 800), hit('a', 1200)], overrides, START);
+      expect(result.penaltySeconds).toBe(10);
+    });
+
+    it('penalizes counted shots that hit nothing on top of unmet goals', () => {
+      const result = mode.score([hit('a', 800), hit('a', 1200)], stage({ shotsFired: 5 }), START);
+      expect(result.penalties).toEqual([
+        { kind: 'miss', deviceId: 'b', count: 1, seconds: GAME_MODE_DEFAULTS.PAR_TIME_MISS_PENALTY_SECONDS },
+        { kind: 'miss', deviceId: null, count: 2, seconds: 2 * GAME_MODE_DEFAULTS.PAR_TIME_MISS_PENALTY_SECONDS },
+      ]);
+    });
+
+    it('is a DNF only when no counted hit landed', () => {
+      const result = mode.score([], stage(), START);
+      expect(result.isValid).toBe(false);
+      expect(result.score).toBeNull();
+    });
+  });
+});
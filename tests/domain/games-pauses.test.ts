@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  activeElapsedMs,
+  endPause,
+  excludePausedSeconds,
+  isPauseOpen,
+  isWithinPause,
+  pausedDurationMs,
+  startPause,
+  toActiveTimestamp,
+  type PauseInterval,
+} from '../../src/domain/games/pauses';
+
+const pauses: PauseInterval[] = [
+  { pausedAt: 2000, resumedAt: 5000 },
+  { pausedAt: 8000, resumedAt: 9000 },
+];
+
+describe('games pauses', () => {
+  describe('startPause / endPause', () => {
+    it('opens one pause at a time and closes it', () => {
+      const paused = startPause([], 1000);
+      expect(isPauseOpen(paused)).toBe(true);
+      expect(startPause(paused, 1500)).toBe(paused);
+
+      const resumed = endPause(paused, 4000);
+      expect(resumed).toEqual([{ pausedAt: 1000, resumedAt: 4000 }]);
+      expect(isPauseOpen(resumed)).toBe(false);
+      expect(endPause(resumed, 5000)).toBe(resumed);
+    });
+  });
+
+  describe('pausedDurationMs', () => {
+    it('counts only the paused time inside the window', () => {
+      expect(pausedDurationMs(pauses, 0, 10000)).toBe(4000);
+      expect(pausedDurationMs(pauses, 3000, 8500)).toBe(2500);
+      expect(pausedDurationMs(pauses, 5000, 8000)).toBe(0);
+    });
+
+    it('runs an open pause to the end of the window', () => {
+      expect(pausedDurationMs([{ pausedAt: 2000, resumedAt: null }], 0, 6000)).toBe(4000);
+    });
+  });
+
+  describe('activeElapsedMs', () => {
+    it('excludes paused intervals from elapsed time', () => {
+      expect(activeElapsedMs(0, 10000, pauses)).toBe(6000);
+      expect(activeElapsedMs(0, 10000, [])).toBe(10000);
+    });
+  });
+
+  describe('isWithinPause', () => {
+    it('includes the pause start and excludes the resume instant', () => {
+      expect(isWithinPause(2000, pauses)).toBe(true);
+      expect(isWithinPause(5000, pauses)).toBe(false);
+      expect(isWithinPause(9500, [{ pausedAt: 9000, resumedAt: null }])).toBe(true);
+    });
+  });
+
+  describe('toActiveTimestamp', () => {
+    it('moves timestamps back by the time paused before them', () => {
+      expect(toActiveTimestamp(1500, pauses)).toBe(1500);
+      expect(toActiveTimestamp(6000, pauses)).toBe(3000);
+      expect(toActiveTimestamp(9500, pauses)).toBe(5500);
+    });
+  });
+
+  describe('excludePausedSeconds', () => {
+    it('takes paused time out of a split that spans a pause', () => {
+      expect(excludePausedSeconds(4.5, 6000, pauses)).toBe(1.5);
+      expect(excludePausedSeconds(1.25, 7500, pauses)).toBe(1.25);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareToGhost,
+  computePersonalBests,
+  findPersonalBest,
+  getGhostSplitTimes,
+  isBetterScore,
+  type PersonalBestRun,
+} from '../../src/domain/games/personal-bests';
+
+const START = 1_000_000;
+
+const run = (gameId: string, overrides: Partial<PersonalBestRun> = {}): PersonalBestRun => ({
+  gameId,
+  presetId: 'p1',
+  gameMode: 'time-to-goal',
+  score: 5,
+  startTime: START,
+  ...overrides,
+});
+
+const hit = (deviceId: string, offsetMs: number, hitType?: string) => ({
+  deviceId,
+  timestamp: START + offsetMs,
+  hitType,
+});
+
+describe('games personal bests', () => {
+  it('compares scores in the mode direction', () => {
+    expect(isBetterScore(4.2, 5, 'time-to-goal')).toBe(true);
+    expect(isBetterScore(12, 10, 'most-hits')).toBe(true);
+    expect(isBetterScore(12, 10, 'bill-drill')).toBe(false);
+    expect(isBetterScore(4.2, 5, null)).toBe(true);
+  });
+
+  describe('computePersonalBests', () => {
+    it('keeps the fastest run of each preset and counts its runs', () => {
+      const bests = computePersonalBests([
+        run('a', { score: 6.1 }),
+        run('b', { score: 4.8, startTime: START + 1000 }),
+        run('c', { score: 5.3, startTime: START + 2000 }),
+        run('d', { presetId: 'p2', score: 9 }),
+      ]);
+      const p1 = findPersonalBest(bests, 'p1', 'time-to-goal');
+      expect(p1?.run.gameId).toBe('b');
+      expect(p1?.runCount).toBe(3);
+      expect(findPersonalBest(bests, 'p2', null)?.score).toBe(9);
+    });
+
+    it('keeps the highest count for hit-scored modes', () => {
+      const bests = computePersonalBests([
+        run('a', { gameMode: 'most-hits', score: 14 }),
+        run('b', { gameMode: 'most-hits', score: 18, startTime: START + 1000 }),
+      ]);
+      expect(findPersonalBest(bests, 'p1', 'most-hits')?.run.gameId).toBe('b');
+      expect(findPersonalBest(bests, 'p1', 'time-to-goal')).toBeNull();
+    });
+
+    it('skips invalid, squad and preset-less runs, and ties after the first', () => {
+      const bests = computePersonalBests([
+        run('invalid', { score: 1, isValid: false }),
+        run('no-preset', { score: 2, presetId: null }),
+        run('squad', { score: 3, squadId: 'sq1' }),
+        run('first', { score: 4 }),
+        run('tie', { score: 4, startTime: START + 1000 }),
+      ]);
+      expect(bests).toHaveLength(1);
+      expect(bests[0].run.gameId).toBe('first');
+      expect(bests[0].runCount).toBe(2);
+    });
+  });
+
+  describe('ghost comparison', () => {
+    it('times each counted hit of the best run from its start', () => {
+      const ghost = getGhostSplitTimes({
+        startTime: START,
+        hitHistory: [hit('t2', 1800), hit('t1', 900), hit('t3', 1200, 'wrong_target')],
+      });
+      expect(ghost).toEqual([0.9, 1.8]);
+    });
+
+    it('reports how far ahead or behind each split is', () => {
+      const deltas = compareToGhost([hit('t1', 1320), hit('t2', 1700), hit('t1', 2500)], START, [0.9, 1.8]);
+      expect(deltas.map((d) => [d.splitNumber, d.deltaSeconds])).toEqual([
+        [1, 0.42],
+        [2, -0.1],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareFirmwareVersions,
+  createPreflightProbe,
+  evaluatePreflight,
+  toPreflightReadiness,
+  type PreflightProbe,
+} from '../../src/domain/games/preflight';
+import { canUseTargetsForGame } from '../../src/domain/games/rules';
+
+const answered = (overrides: Partial<PreflightProbe> = {}): PreflightProbe => ({
+  ...createPreflightProbe('a', 'idle'),
+  pingMs: 120,
+  battery: 80,
+  wifiStrength: -55,
+  firmwareVersion: '1.4.0',
+  hitDetected: true,
+  ...overrides,
+});
+
+const statusOf = (probe: PreflightProbe, id: string, minFirmware: string | null = null) =>
+  evaluatePreflight(probe, minFirmware).checks.find((check) => check.id === id)?.status;
+
+describe('games preflight', () => {
+  describe('compareFirmwareVersions', () => {
+    it('compares dotted versions numerically', () => {
+      expect(compareFirmwareVersions('1.10.0', '1.9.3')).toBeGreaterThan(0);
+      expect(compareFirmwareVersions('v1.4', '1.4.0')).toBe(0);
+      expect(compareFirmwareVersions('1.3.9', '1.4')).toBeLessThan(0);
+    });
+  });
+
+  describe('evaluatePreflight', () => {
+    it('is pending until the ping answers and the hit test finishes', () => {
+      const result = evaluatePreflight(createPreflightProbe('a'));
+      expect(result.verdict).toBe('pending');
+      expect(result.checks.map((check) => check.status)).toEqual(['pending', 'pending', 'pending', 'pending', 'pending']);
+    });
+
+    it('is a go when every check passes', () => {
+      const result = evaluatePreflight(answered(), '1.2.0');
+      expect(result.verdict).toBe('go');
+      expect(result.checks.every((check) => check.status === 'pass')).toBe(true);
+    });
+
+    it('is a no-go when the target does not answer', () => {
+      const result = evaluatePreflight({ ...createPreflightProbe('a'), pingFailed: true });
+      expect(result.verdict).toBe('no-go');
+      expect(statusOf({ ...createPreflightProbe('a'), pingFailed: true }, 'battery')).toBe('fail');
+    });
+
+    it('warns on slow pings, low battery, poor signal and unreported values', () => {
+      expect(statusOf(answered({ pingMs: 1500 }), 'ping')).toBe('warn');
+      expect(statusOf(answered({ battery: 20 }), 'battery')).toBe('warn');
+      expect(statusOf(answered({ wifiStrength: -75 }), 'wifi')).toBe('warn');
+      expect(statusOf(answered({ firmwareVersion: null }), 'firmware')).toBe('warn');
+      expect(evaluatePreflight(answered({ battery: null, wifiStrength: null })).verdict).toBe('go');
+    });
+
+    it('fails critical battery, weak signal, old firmware and a missed hit', () => {
+      expect(statusOf(answered({ battery: 5 }), 'battery')).toBe('fail');
+      expect(statusOf(answered({ wifiStrength: -85 }), 'wifi')).toBe('fail');
+      expect(statusOf(answered({ firmwareVersion: '1.1.0' }), 'firmware', '1.2.0')).toBe('fail');
+      expect(statusOf(answered({ hitDetected: false, hitTestExpired: true }), 'hitTest')).toBe('fail');
+      expect(evaluatePreflight(answered({ hitDetected: false, hitTestExpired: true })).verdict).toBe('no-go');
+    });
+  });
+
+  describe('toPreflightReadiness', () => {
+    it('lets canUseTargetsForGame reject no-go targets', () => {
+      const good = answered();
+      const bad = answered({ deviceId: 'b', hitDetected: false, hitTestExpired: true });
+      const readiness = [good, bad].map((probe) => toPreflightReadiness(probe, evaluatePreflight(probe)));
+
+      expect(canUseTargetsForGame(readiness)).toMatchObject({ valid: false, code: 'TARGETS_HAVE_ERRORS' });
+      expect(canUseTargetsForGame(readiness.slice(0, 1))).toEqual({ valid: true });
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildQualificationReport,
+  evaluateQualification,
+  validateQualificationStandard,
+  type QualificationRun,
+  type QualificationStandard,
+} from '../../src/domain/games/qualifications';
+
+const START = 1_000_000;
+
+const standard = (overrides: Partial<QualificationStandard> = {}): QualificationStandard => ({
+  id: 'q1',
+  name: 'Quarterly',
+  roundCount: 10,
+  timeLimitSeconds: null,
+  minHits: null,
+  minAccuracyPercent: null,
+  minHitsPerTarget: null,
+  maxTimeSeconds: null,
+  ...overrides,
+});
+
+const hits = (deviceId: string, offsetsMs: number[]) =>
+  offsetsMs.map((offset) => ({ deviceId, timestamp: START + offset }));
+
+const run = (overrides: Partial<QualificationRun> = {}): QualificationRun => ({
+  startTime: START,
+  hitHistory: [...hits('t1', [1000, 2000, 3000, 4000, 5000]), ...hits('t2', [1500, 2500, 3500])],
+  targets: [
+    { deviceId: 't1', deviceName: 'Target 1' },
+    { deviceId: 't2', deviceName: 'Target 2' },
+  ],
+  score: 5,
+  isValid: true,
+  scoreUnit: 'seconds',
+  ...overrides,
+});
+
+describe('games qualifications', () => {
+  describe('validateQualificationStandard', () => {
+    it('accepts a course with at least one threshold', () => {
+      expect(validateQualificationStandard(standard({ minAccuracyPercent: 80 })).valid).toBe(true);
+    });
+
+    it('rejects a course without thresholds or with out-of-range ones', () => {
+      const empty = validateQualificationStandard(standard());
+      expect(empty.valid === false && empty.code).toBe('MISSING_QUALIFICATION_THRESHOLD');
+      const tooManyHits = validateQualificationStandard(standard({ minHits: 11 }));
+      expect(tooManyHits.valid === false && tooManyHits.code).toBe('INVALID_QUALIFICATION_THRESHOLD');
+      const unnamed = validateQualificationStandard(standard({ name: ' ', minHits: 5 }));
+      expect(unnamed.valid === false && unnamed.code).toBe('INVALID_QUALIFICATION_NAME');
+    });
+  });
+
+  describe('evaluateQualification', () => {
+    it('passes a run that meets every standard', () => {
+      const result = evaluateQualification(
+        standard({ minAccuracyPercent: 80, minHitsPerTarget: 3, maxTimeSeconds: 6 }),
+        run(),
+      );
+      expect(result.passed).toBe(true);
+      expect(result.accuracyPercent).toBe(80);
+      expect(result.reasons).toEqual([]);
+    });
+
+    it('drops hits after the time limit and lists every shortfall', () => {
+      const result = evaluateQualification(
+        standard({ timeLimitSeconds: 3, minAccuracyPercent: 80, minHitsPerTarget: 3, maxTimeSeconds: 4 }),
+        run(),
+      );
+      expect(result.countedHits).toBe(5);
+      expect(result.hitsByTarget).toEqual({ t1: 3, t2: 2 });
+      expect(result.passed).toBe(false);
+      expect(result.reasons).toEqual([
+        '50% accuracy, 80% required',
+        'Target 2: 2 hits, 3 required',
+        '5.00s, 4s or faster required',
+      ]);
+    });
+
+    it('fails a time standard when a time-scored run did not finish', () => {
+      const result = evaluateQualification(standard({ maxTimeSeconds: 10 }), run({ isValid: false, score: null }));
+      expect(result.timeSeconds).toBeNull();
+      expect(result.passed).toBe(false);
+    });
+  });
+
+  it('reports pass rate and current status per course over time', () => {
+    const q1 = standard({ minHits: 8 });
+    const pass = evaluateQualification(q1, run());
+    const fail = evaluateQualification(q1, run({ hitHistory: hits('t1', [1000]) }));
+    const other = evaluateQualification(standard({ id: 'q2', name: 'Annual', minHits: 1 }), run());
+
+    const report = buildQualificationReport([
+      { gameId: 'b', startTime: START + 2000, qualification: fail },
+      { gameId: 'a', startTime: START + 1000, qualification: pass },
+      { gameId: 'c', startTime: START, qualification: other },
+      { gameId: 'd', startTime: START + 3000, qualification: null },
+    ]);
+
+    expect(report.map((entry) => entry.standardId)).toEqual(['q1', 'q2']);
+    expect(report[0].attempts.map((attempt) => attempt.gameId)).toEqual(['a', 'b']);
+    expect(report[0].passRate).toBe(50);
+    expect(report[0].isQualified).toBe(false);
+  });
+});
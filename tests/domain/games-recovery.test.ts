@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractHistoryHits,
+  extractHistoryShotsFired,
+  isJournalStale,
+  mergeRecoveredHits,
+  RECOVERY_CONSTRAINTS,
+} from '../../src/domain/games/recovery';
+
+const START = 1_000_000;
+
+describe('games recovery', () => {
+  it('treats journals past the maximum age as stale', () => {
+    expect(isJournalStale(START, START + 60_000)).toBe(false);
+    expect(isJournalStale(START, START + RECOVERY_CONSTRAINTS.MAX_JOURNAL_AGE_MS + 1)).toBe(true);
+    expect(isJournalStale(Number.NaN, START)).toBe(true);
+  });
+
+  describe('extractHistoryHits', () => {
+    it('keeps hit events of the session within its time range', () => {
+      const hits = extractHistoryHits(
+        [
+          {
+            deviceId: 't1',
+            telemetry: {
+              event: [
+                { ts: START + 3000, value: 'hit' },
+                { ts: START + 2000, value: 'start' },
+                { ts: START + 1000, value: 'hit' },
+                { ts: START - 500, value: 'hit' },
+              ],
+              gameId: [
+                { ts: START + 3000, value: 'GM-1' },
+                { ts: START + 1000, value: 'GM-1' },
+              ],
+            },
+          },
+          { deviceId: 't2', telemetry: { event: [{ ts: START + 1500, value: 'hit' }] } },
+        ],
+        'GM-1',
+        START,
+        START + 10_000,
+      );
+      expect(hits).toEqual([
+        { deviceId: 't1', timestamp: START + 1000 },
+        { deviceId: 't2', timestamp: START + 1500 },
+        { deviceId: 't1', timestamp: START + 3000 },
+      ]);
+    });
+
+    it('drops hits tagged with another game and ignores malformed series', () => {
+      const hits = extractHistoryHits(
+        [
+          {
+            deviceId: 't1',
+            telemetry: {
+              event: [{ ts: START + 1000, value: 'hit' }, null, { value: 'hit' }],
+              gameId: [{ ts: START + 1000, value: 'GM-2' }],
+            },
+          },
+          { deviceId: 't2', telemetry: { event: 'hit' } },
+        ],
+        'GM-1',
+        START,
+        START + 10_000,
+      );
+      expect(hits).toEqual([]);
+    });
+  });
+
+  it('takes the highest shot counter total in range', () => {
+    const shots = extractHistoryShotsFired(
+      [
+        { deviceId: 't1', telemetry: { shots: [{ ts: START + 1000, value: '4' }, { ts: START + 2000, value: '7' }] } },
+        { deviceId: 't2', telemetry: { shots: [{ ts: START + 20_000, value: '12' }] } },
+      ],
+      START,
+      START + 10_000,
+    );
+    expect(shots).toBe(7);
+    expect(extractHistoryShotsFired([{ deviceId: 't1', telemetry: {} }], START, START + 10_000)).toBeNull();
+  });
+
+  it('merges hit sources without duplicates, oldest first', () => {
+    const merged = mergeRecoveredHits(
+      [{ deviceId: 't1', timestamp: START + 2000 }, { deviceId: 't1', timestamp: START + 1000 }],
+      [{ deviceId: 't1', timestamp: START + 1000 }, { deviceId: 't2', timestamp: START + 1000 }],
+    );
+    expect(merged).toEqual([
+      { deviceId: 't1', timestamp: START + 1000 },
+      { deviceId: 't2', timestamp: START + 1000 },
+      { deviceId: 't1', timestamp: START + 2000 },
+    ]);
+  });
+});
@@ -6,6 +6,8 @@ import {
   canStartNewSession,
   canStopGameSession,
   calculateAccuracy,
+  resolveShotTotals,
+  validateShotCount,
   calculateScore,
   isRunValid,
   calculateSessionScore,
@@ -39,6 +41,13 @@ describe('games rules', () => {
       expect(result.valid).toBe(true);
     });
 
+    it('allows pausing a running session and resuming or stopping it', () => {
+      expect(isValidStateTransition('running', 'paused').valid).toBe(true);
+      expect(isValidStateTransition('paused', 'running').valid).toBe(true);
+      expect(isValidStateTransition('paused', 'stopping').valid).toBe(true);
+      expect(isValidStateTransition('launching', 'paused').valid).toBe(false);
+    });
+
     it('allows transition to error from most states', () => {
       const result = isValidStateTransition('running', 'error');
       expect(result.valid).toBe(true);
@@ -253,6 +262,34 @@ describe('games rules', () => {
     });
   });
 
+  describe('resolveShotTotals', () => {
+    it('counts misses from shots fired', () => {
+      expect(resolveShotTotals(8, 10)).toEqual({ totalShots: 10, missCount: 2, accuracy: 80 });
+    });
+
+    it('assumes every shot hit without a shot count', () => {
+      expect(resolveShotTotals(6, null)).toEqual({ totalShots: 6, missCount: 0, accuracy: 100 });
+    });
+
+    it('never reports fewer shots than hits', () => {
+      expect(resolveShotTotals(6, 4)).toEqual({ totalShots: 6, missCount: 0, accuracy: 100 });
+    });
+  });
+
+  describe('validateShotCount', () => {
+    it('accepts a count at or above the hits', () => {
+      expect(validateShotCount(12, 10).valid).toBe(true);
+      expect(validateShotCount(10, 10).valid).toBe(true);
+    });
+
+    it('rejects fractional counts and counts below the hits', () => {
+      const fractional = validateShotCount(2.5, 0);
+      expect(fractional.valid === false && fractional.code).toBe('INVALID_SHOT_COUNT');
+      const belowHits = validateShotCount(4, 5);
+      expect(belowHits.valid === false && belowHits.code).toBe('SHOT_COUNT_BELOW_HITS');
+    });
+  });
+
   describe('calculateScore (deprecated)', () => {
     it('calculates base score from hits', () => {
       const score = calculateScore(10, 100, 30000, 60000);
@@ -514,6 +551,16 @@ describe('games rules', () => {
     it('handles zero expected score', () => {
       expect(getPerformanceRating(50, 100, 0)).toBe('needs_improvement');
     });
+
+    it('rates timed scores below the expected time as better', () => {
+      expect(getPerformanceRating(95, 4.5, 5)).toBe('excellent');
+      expect(getPerformanceRating(95, 12, 5)).toBe('needs_improvement');
+    });
+
+    it('rates counts above the expected count as better when higher is better', () => {
+      expect(getPerformanceRating(95, 12, 10, 'higher-is-better')).toBe('excellent');
+      expect(getPerformanceRating(95, 4, 10, 'higher-is-better')).toBe('needs_improvement');
+    });
   });
 
   describe('sortSessionsByRecency', () => {
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSquadStandings,
+  getNextShooter,
+  isSquadComplete,
+  mirrorTargetAssignments,
+  scoreHeadToHead,
+  validateSquad,
+  type Squad,
+  type SquadShooter,
+} from '../../src/domain/games/squads';
+
+const START = 1_000_000;
+
+const shooter = (id: string, name = id.toUpperCase()): SquadShooter => ({ id, name, profileId: null });
+
+const relay = (overrides: Partial<Squad> = {}): Squad => ({
+  id: 'squad-1',
+  format: 'relay',
+  shooters: [shooter('a'), shooter('b'), shooter('c')],
+  targetAssignments: {},
+  runs: [],
+  ...overrides,
+});
+
+const run = (shooterId: string, score: number | null, isValid = score !== null) => ({
+  shooterId,
+  gameId: `game-${shooterId}`,
+  score,
+  isValid,
+  totalHits: 3,
+});
+
+describe('games squads', () => {
+  describe('validateSquad', () => {
+    it('requires 2-8 relay shooters', () => {
+      expect(validateSquad(relay({ shooters: [shooter('a')] })).valid).toBe(false);
+      expect(validateSquad(relay()).valid).toBe(true);
+    });
+
+    it('rejects blank and duplicate shooter names', () => {
+      const blank = validateSquad(relay({ shooters: [shooter('a', ' '), shooter('b')] }));
+      expect(blank.valid).toBe(false);
+      const duplicate = validateSquad(relay({ shooters: [shooter('a', 'Sam'), shooter('b', 'sam')] }));
+      expect(duplicate.valid).toBe(false);
+      if (!duplicate.valid) {
+        expect(duplicate.code).toBe('DUPLICATE_SHOOTER');
+      }
+    });
+
+    it('requires equal, non-empty lanes for head-to-head', () => {
+      const shooters = [shooter('a'), shooter('b')];
+      const uneven = validateSquad({
+        format: 'head-to-head',
+        shooters,
+        targetAssignments: mirrorTargetAssignments(['t1'], shooters),
+      });
+      expect(uneven.valid).toBe(false);
+      const mirrored = validateSquad({
+        format: 'head-to-head',
+        shooters,
+        targetAssignments: mirrorTargetAssignments(['t1', 't2', 't3', 't4'], shooters),
+      });
+      expect(mirrored.valid).toBe(true);
+    });
+  });
+
+  it('splits targets into mirrored halves', () => {
+    const shooters = [shooter('a'), shooter('b')];
+    expect(mirrorTargetAssignments(['t1', 't2', 't3', 't4', 't5'], shooters)).toEqual({
+      a: ['t1', 't2'],
+      b: ['t3', 't4'],
+    });
+  });
+
+  it('queues relay shooters in order until each has run', () => {
+    const squad = relay({ runs: [run('a', 3)] });
+    expect(getNextShooter(squad)?.id).toBe('b');
+    expect(isSquadComplete(squad)).toBe(false);
+    const done = relay({ runs: [run('a', 3), run('b', 4), run('c', 5)] });
+    expect(getNextShooter(done)).toBeNull();
+    expect(isSquadComplete(done)).toBe(true);
+  });
+
+  it('scores each head-to-head shooter on their own lane', () => {
+    const hits = [
+      { deviceId: 't1', timestamp: START + 1200 },
+      { deviceId: 't3', timestamp: START + 1500 },
+      { deviceId: 't2', timestamp: START + 2000 },
+      { deviceId: 't4', timestamp: START + 1800 },
+    ];
+    const results = scoreHeadToHead(
+      hits,
+      { targetIds: ['t1', 't2', 't3', 't4'], goalShotsPerTarget: { t1: 1, t2: 1, t3: 1, t4: 1 } },
+      START,
+      'time-to-goal',
+      { a: ['t1', 't2'], b: ['t3', 't4'] },
+    );
+    expect(results.a.score).toBe(2);
+    expect(results.b.score).toBe(1.8);
+  });
+
+  describe('buildSquadStandings', () => {
+    it('ranks time scores lowest first, then DNFs, then shooters yet to run', () => {
+      const squad = relay({
+        shooters: [shooter('a'), shooter('b'), shooter('c'), shooter('d')],
+        runs: [run('a', 4.2), run('b', null), run('c', 3.1)],
+      });
+      const standings = buildSquadStandings(squad, 'time-to-goal');
+      expect(standings.map((row) => [row.shooter.id, row.rank])).toEqual([
+        ['c', 1],
+        ['a', 2],
+        ['b', null],
+        ['d', null],
+      ]);
+    });
+
+    it('ranks hit-count modes highest first and shares tied ranks', () => {
+      const squad = relay({ runs: [run('a', 10), run('b', 12), run('c', 10)] });
+      const standings = buildSquadStandings(squad, 'most-hits');
+      expect(standings.map((row) => [row.shooter.id, row.rank])).toEqual([
+        ['b', 1],
+        ['a', 2],
+        ['c', 2],
+      ]);
+    });
+  });
+});
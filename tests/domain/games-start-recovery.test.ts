@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  START_RECOVERY_CONSTRAINTS,
+  checkOrderedTargetsPresent,
+  findSubstituteTargets,
+  renameTargetKey,
+  startRetryDelayMs,
+  substituteSessionTarget,
+  type SubstituteCandidate,
+} from '../../src/domain/games/start-recovery';
+
+const candidate = (deviceId: string, overrides: Partial<SubstituteCandidate> = {}): SubstituteCandidate => ({
+  deviceId,
+  roomId: 'room-1',
+  groupIds: [],
+  isOnline: true,
+  gameStatus: 'idle',
+  ...overrides,
+});
+
+describe('games start recovery', () => {
+  describe('startRetryDelayMs', () => {
+    it('doubles the delay per attempt up to the cap', () => {
+      expect(startRetryDelayMs(1)).toBe(1000);
+      expect(startRetryDelayMs(2)).toBe(2000);
+      expect(startRetryDelayMs(3)).toBe(4000);
+      expect(startRetryDelayMs(10)).toBe(START_RECOVERY_CONSTRAINTS.RETRY_MAX_DELAY_MS);
+    });
+  });
+
+  describe('findSubstituteTargets', () => {
+    it('offers idle online targets from the same room or group, same room first', () => {
+      const failed = candidate('failed', { groupIds: ['g1'] });
+      const result = findSubstituteTargets(
+        failed,
+        [
+          candidate('grouped', { roomId: 'room-2', groupIds: ['g1'] }),
+          candidate('same-room'),
+          candidate('other-room', { roomId: 'room-2' }),
+          candidate('offline', { isOnline: false }),
+          candidate('busy', { gameStatus: 'start' }),
+          candidate('in-session'),
+          failed,
+        ],
+        ['failed', 'in-session'],
+      );
+      expect(result).toEqual(['same-room', 'grouped']);
+    });
+
+    it('does not match targets without a room to each other', () => {
+      const failed = candidate('failed', { roomId: null });
+      expect(findSubstituteTargets(failed, [candidate('loose', { roomId: null })], [])).toEqual([]);
+    });
+  });
+
+  describe('substituteSessionTarget', () => {
+    it('hands the failed target goal and order slot to the substitute', () => {
+      const result = substituteSessionTarget(
+        { targetIds: ['a', 'b', 'c'], goalShotsPerTarget: { a: 2, b: 3, c: 1 }, targetOrder: ['a', 'b', 'c'] },
+        'b',
+        'd',
+      );
+      expect(result).toEqual({
+        targetIds: ['a', 'd', 'c'],
+        goalShotsPerTarget: { a: 2, c: 1, d: 3 },
+        targetOrder: ['a', 'd', 'c'],
+      });
+    });
+
+    it('fills a missing ordered target that was never staged', () => {
+      const result = substituteSessionTarget({ targetIds: ['a'], goalShotsPerTarget: {}, targetOrder: ['a', 'b'] }, 'b', 'd');
+      expect(result.targetIds).toEqual(['a', 'd']);
+      expect(result.targetOrder).toEqual(['a', 'd']);
+    });
+  });
+
+  describe('renameTargetKey', () => {
+    it('leaves records without the target untouched', () => {
+      const record = { a: 1 };
+      expect(renameTargetKey(record, 'b', 'c')).toBe(record);
+    });
+  });
+
+  describe('checkOrderedTargetsPresent', () => {
+    it('rejects an enforced order with a missing target', () => {
+      expect(checkOrderedTargetsPresent(['a', 'b'], ['a'])).toMatchObject({ valid: false, code: 'ORDERED_TARGETS_MISSING' });
+      expect(checkOrderedTargetsPresent(['a', 'b'], ['b', 'a', 'c'])).toEqual({ valid: true });
+      expect(checkOrderedTargetsPresent([], [])).toEqual({ valid: true });
+    });
+  });
+});
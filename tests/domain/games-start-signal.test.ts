@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateDrawTime,
+  countdownSecondsRemaining,
+  DEFAULT_START_DELAY,
+  pickStartDelayMs,
+  resolveScheduledStartAt,
+  validateScheduledStart,
+  validateStartDelay,
+} from '../../src/domain/games/start-signal';
+
+const BEEP = 1_000_000;
+
+describe('games start signal', () => {
+  describe('validateStartDelay', () => {
+    it('accepts the default shot-timer range', () => {
+      expect(validateStartDelay(DEFAULT_START_DELAY).valid).toBe(true);
+    });
+
+    it('rejects out-of-bounds and inverted ranges', () => {
+      const tooLong = validateStartDelay({ minSeconds: 1, maxSeconds: 30 });
+      expect(tooLong.valid === false && tooLong.code).toBe('INVALID_START_DELAY');
+      const inverted = validateStartDelay({ minSeconds: 4, maxSeconds: 2 });
+      expect(inverted.valid === false && inverted.code).toBe('INVALID_START_DELAY_RANGE');
+    });
+  });
+
+  it('draws the delay from within the range', () => {
+    expect(pickStartDelayMs({ minSeconds: 1, maxSeconds: 4 }, () => 0)).toBe(1000);
+    expect(pickStartDelayMs({ minSeconds: 1, maxSeconds: 4 }, () => 0.5)).toBe(2500);
+    expect(pickStartDelayMs({ minSeconds: 2, maxSeconds: 2 }, () => 0.9)).toBe(2000);
+  });
+
+  describe('calculateDrawTime', () => {
+    it('times the first hit after the beep and ignores early hits', () => {
+      const hits = [
+        { deviceId: 't2', timestamp: BEEP + 1400 },
+        { deviceId: 't1', timestamp: BEEP - 300 },
+        { deviceId: 't1', timestamp: BEEP + 1180 },
+      ];
+      expect(calculateDrawTime(hits, BEEP)).toBe(1.18);
+    });
+
+    it('is null when nothing was hit after the beep', () => {
+      expect(calculateDrawTime([{ deviceId: 't1', timestamp: BEEP - 10 }], BEEP)).toBeNull();
+    });
+  });
+
+  describe('resolveScheduledStartAt', () => {
+    const now = new Date(2026, 2, 14, 9, 30, 15).getTime();
+
+    it('adds a countdown to the launch time', () => {
+      expect(resolveScheduledStartAt({ kind: 'countdown', seconds: 30 }, now)).toBe(now + 30_000);
+    });
+
+    it('starts at the next occurrence of a local time of day', () => {
+      expect(resolveScheduledStartAt({ kind: 'at', time: '09:45' }, now)).toBe(new Date(2026, 2, 14, 9, 45).getTime());
+      expect(resolveScheduledStartAt({ kind: 'at', time: '9:00' }, now)).toBe(new Date(2026, 2, 15, 9, 0).getTime());
+    });
+
+    it('is null for an unreadable time', () => {
+      expect(resolveScheduledStartAt({ kind: 'at', time: '25:00' }, now)).toBeNull();
+      expect(resolveScheduledStartAt({ kind: 'at', time: 'soon' }, now)).toBeNull();
+    });
+  });
+
+  describe('validateScheduledStart', () => {
+    it('requires a lead time within the allowed window', () => {
+      expect(validateScheduledStart(BEEP + 10_000, BEEP)).toEqual({ valid: true });
+      expect(validateScheduledStart(BEEP + 2_000, BEEP)).toMatchObject({ valid: false, code: 'SCHEDULED_START_TOO_SOON' });
+      expect(validateScheduledStart(BEEP + 2 * 3600_000, BEEP)).toMatchObject({ valid: false, code: 'SCHEDULED_START_TOO_FAR' });
+      expect(validateScheduledStart(null, BEEP)).toMatchObject({ valid: false, code: 'INVALID_SCHEDULED_START' });
+    });
+  });
+
+  describe('countdownSecondsRemaining', () => {
+    it('rounds up and stops at zero', () => {
+      expect(countdownSecondsRemaining(BEEP + 4_200, BEEP)).toBe(5);
+      expect(countdownSecondsRemaining(BEEP - 500, BEEP)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { recordTelemetrySample, summarizeTelemetryHealth } from '../../src/domain/games/telemetry-health';
+
+const NOW = 1_700_000_000_000;
+
+describe('games telemetry health', () => {
+  describe('recordTelemetrySample', () => {
+    it('smooths latency and keeps the worst sample', () => {
+      let health = recordTelemetrySample(undefined, { deviceId: 'a', receivedAt: NOW + 200, deviceTimestamp: NOW, hitCount: null });
+      expect(health).toMatchObject({ messageCount: 1, lastLatencyMs: 200, averageLatencyMs: 200, maxLatencyMs: 200 });
+
+      health = recordTelemetrySample(health, { deviceId: 'a', receivedAt: NOW + 2200, deviceTimestamp: NOW + 1000, hitCount: null });
+      expect(health).toMatchObject({ messageCount: 2, lastLatencyMs: 1200, averageLatencyMs: 500, maxLatencyMs: 1200 });
+
+      health = recordTelemetrySample(health, { deviceId: 'a', receivedAt: NOW + 3000, deviceTimestamp: null, hitCount: null });
+      expect(health).toMatchObject({ messageCount: 3, lastLatencyMs: 1200, lastMessageAt: NOW + 3000 });
+    });
+
+    it('counts hits the counter skipped and resets on a new game', () => {
+      const sample = (hitCount: number) => ({ deviceId: 'a', receivedAt: NOW, deviceTimestamp: null, hitCount });
+      let health = recordTelemetrySample(undefined, sample(1));
+      health = recordTelemetrySample(health, sample(2));
+      health = recordTelemetrySample(health, sample(5));
+      expect(health).toMatchObject({ droppedHits: 2, gapCount: 1, lastHitCount: 5 });
+
+      health = recordTelemetrySample(health, sample(1));
+      health = recordTelemetrySample(health, sample(2));
+      expect(health).toMatchObject({ droppedHits: 2, gapCount: 1, lastHitCount: 2 });
+    });
+  });
+
+  describe('summarizeTelemetryHealth', () => {
+    const device = (deviceId: string, averageLatencyMs: number | null, droppedHits = 0) => ({
+      deviceId,
+      messageCount: 1,
+      lastLatencyMs: averageLatencyMs,
+      averageLatencyMs,
+      maxLatencyMs: averageLatencyMs,
+      lastMessageAt: NOW,
+      lastHitCount: null,
+      droppedHits,
+      gapCount: droppedHits > 0 ? 1 : 0,
+    });
+
+    it('is unknown without latency samples', () => {
+      expect(summarizeTelemetryHealth([], 1000).status).toBe('unknown');
+      expect(summarizeTelemetryHealth([device('a', null)], 1000).status).toBe('unknown');
+    });
+
+    it('flags targets over the SLA and dropped hits', () => {
+      expect(summarizeTelemetryHealth([device('a', 300), device('b', 500)], 1000)).toEqual({
+        status: 'healthy',
+        averageLatencyMs: 400,
+        worstLatencyMs: 500,
+        overSlaDeviceIds: [],
+        droppedHits: 0,
+        gapCount: 0,
+      });
+      expect(summarizeTelemetryHealth([device('a', 300), device('b', 1500)], 1000)).toMatchObject({
+        status: 'degraded',
+        worstLatencyMs: 1500,
+        overSlaDeviceIds: ['b'],
+      });
+      expect(summarizeTelemetryHealth([device('a', 300, 2)], 1000)).toMatchObject({ status: 'degraded', droppedHits: 2 });
+    });
+  });
+});
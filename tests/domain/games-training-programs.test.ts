@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateTrainingProgram,
+  runMeetsRequirement,
+  advanceTrainingProgress,
+  summarizeTrainingProgram,
+  type TrainingLevel,
+  type TrainingProgram,
+  type TrainingProgress,
+  type TrainingRun,
+} from '../../src/domain/games/training-programs';
+
+describe('training programs', () => {
+  const level = (id: string, presetId: string, requirement: Partial<TrainingLevel['requirement']> = {}): TrainingLevel => ({
+    id,
+    name: `Level ${id}`,
+    presetId,
+    requirement: { criterion: 'completion', requiredRuns: 1, targetScore: null, ...requirement },
+  });
+
+  const program: TrainingProgram = {
+    id: 'program-1',
+    name: 'Precision Shooting Course',
+    description: null,
+    levels: [
+      level('1', 'warmup'),
+      level('2', 'qual', { criterion: 'qualification', requiredRuns: 2 }),
+      level('3', 'speed', { criterion: 'score', requiredRuns: 1, targetScore: 10 }),
+    ],
+  };
+
+  const progress: TrainingProgress = { programId: 'program-1', startedAt: 1_000, clearedLevels: [] };
+
+  const run = (gameId: string, presetId: string, startTime: number, overrides: Partial<TrainingRun> = {}): TrainingRun => ({
+    gameId,
+    presetId,
+    startTime,
+    score: 12,
+    isValid: true,
+    scoreDirection: 'lower-is-better',
+    qualificationPassed: null,
+    ...overrides,
+  });
+
+  describe('validateTrainingProgram', () => {
+    it('accepts a well-formed program', () => {
+      expect(validateTrainingProgram(program)).toEqual({ valid: true });
+    });
+
+    it('rejects programs without levels or with a score level missing its target', () => {
+      expect(validateTrainingProgram({ ...program, levels: [] })).toMatchObject({ code: 'INVALID_PROGRAM_LEVEL_COUNT' });
+      expect(
+        validateTrainingProgram({ ...program, levels: [level('1', 'speed', { criterion: 'score', targetScore: null })] })
+      ).toMatchObject({ code: 'INVALID_LEVEL_TARGET_SCORE' });
+      expect(validateTrainingProgram({ ...program, levels: [level('1', '')] })).toMatchObject({ code: 'MISSING_LEVEL_PRESET' });
+    });
+  });
+
+  describe('runMeetsRequirement', () => {
+    it('judges completion, qualification and score requirements', () => {
+      expect(runMeetsRequirement(run('a', 'warmup', 2_000), program.levels[0].requirement)).toBe(true);
+      expect(runMeetsRequirement(run('a', 'warmup', 2_000, { isValid: false }), program.levels[0].requirement)).toBe(false);
+      expect(runMeetsRequirement(run('a', 'qual', 2_000, { qualificationPassed: false }), program.levels[1].requirement)).toBe(false);
+      expect(runMeetsRequirement(run('a', 'qual', 2_000, { qualificationPassed: true }), program.levels[1].requirement)).toBe(true);
+      // Timed score: 10 or faster
+      expect(runMeetsRequirement(run('a', 'speed', 2_000, { score: 10 }), program.levels[2].requirement)).toBe(true);
+      expect(runMeetsRequirement(run('a', 'speed', 2_000, { score: 10.5 }), program.levels[2].requirement)).toBe(false);
+      // Hit-count score: 10 or more
+      expect(
+        runMeetsRequirement(run('a', 'speed', 2_000, { score: 11, scoreDirection: 'higher-is-better' }), program.levels[2].requirement)
+      ).toBe(true);
+    });
+  });
+
+  describe('advanceTrainingProgress', () => {
+    it('clears levels in order once each requirement is met after the previous level', () => {
+      const runs = [
+        run('before-start', 'warmup', 500),
+        run('warmup-1', 'warmup', 2_000),
+        run('qual-early', 'qual', 1_500, { qualificationPassed: true }), // before level 2 unlocked
+        run('qual-1', 'qual', 3_000, { qualificationPassed: true }),
+        run('qual-fail', 'qual', 4_000, { qualificationPassed: false }),
+        run('qual-2', 'qual', 5_000, { qualificationPassed: true }),
+        run('speed-slow', 'speed', 6_000, { score: 14 }),
+      ];
+
+      expect(advanceTrainingProgress(program, progress, runs).clearedLevels).toEqual([
+        { levelId: '1', clearedAt: 2_000 },
+        { levelId: '2', clearedAt: 5_000 },
+      ]);
+    });
+
+    it('returns the same progress when nothing new was cleared', () => {
+      expect(advanceTrainingProgress(program, progress, [run('old', 'warmup', 500)])).toBe(progress);
+    });
+
+    it('does not let one run clear two levels shot as the same preset', () => {
+      const repeated: TrainingProgram = { ...program, levels: [level('1', 'warmup'), level('2', 'warmup')] };
+      expect(advanceTrainingProgress(repeated, progress, [run('only', 'warmup', 2_000)]).clearedLevels).toHaveLength(1);
+    });
+  });
+
+  describe('summarizeTrainingProgram', () => {
+    it('reports the current level, next drill, per-level attempts and history newest first', () => {
+      const runs = [
+        run('warmup-1', 'warmup', 2_000),
+        run('qual-fail', 'qual', 3_000, { qualificationPassed: false }),
+        run('qual-1', 'qual', 4_000, { qualificationPassed: true }),
+      ];
+      const summary = summarizeTrainingProgram(program, advanceTrainingProgress(program, progress, runs), runs);
+
+      expect(summary.currentLevelIndex).toBe(1);
+      expect(summary.currentLevel?.id).toBe('2');
+      expect(summary.isComplete).toBe(false);
+      expect(summary.percentComplete).toBe(33);
+      expect(summary.levels.map((entry) => [entry.status, entry.attempts, entry.countingRuns])).toEqual([
+        ['cleared', 1, 1],
+        ['current', 2, 1],
+        ['locked', 0, 0],
+      ]);
+      expect(summary.history.map((entry) => [entry.gameId, entry.counted])).toEqual([
+        ['qual-1', true],
+        ['qual-fail', false],
+        ['warmup-1', true],
+      ]);
+    });
+
+    it('marks the program complete once every level is cleared', () => {
+      const cleared: TrainingProgress = {
+        ...progress,
+        clearedLevels: [
+          { levelId: '1', clearedAt: 2_000 },
+          { levelId: '2', clearedAt: 3_000 },
+          { levelId: '3', clearedAt: 4_000 },
+        ],
+      };
+      const summary = summarizeTrainingProgram(program, cleared, []);
+      expect(summary).toMatchObject({ currentLevelIndex: 3, currentLevel: null, isComplete: true, percentComplete: 100 });
+      expect(summary.levels.every((entry) => entry.status === 'cleared')).toBe(true);
+    });
+  });
+});
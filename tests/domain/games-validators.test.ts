@@ -286,6 +286,7 @@ describe('games validators', () => {
       expect(isActiveSessionStatus('configuring')).toBe(true);
       expect(isActiveSessionStatus('launching')).toBe(true);
       expect(isActiveSessionStatus('running')).toBe(true);
+      expect(isActiveSessionStatus('paused')).toBe(true);
       expect(isActiveSessionStatus('stopping')).toBe(true);
       expect(isActiveSessionStatus('finalizing')).toBe(true);
     });
@@ -331,6 +332,10 @@ describe('games validators', () => {
       expect(canStopSession('launching')).toBe(true);
     });
 
+    it('returns true for paused status', () => {
+      expect(canStopSession('paused')).toBe(true);
+    });
+
     it('returns false for other statuses', () => {
       expect(canStopSession('idle')).toBe(false);
       expect(canStopSession('completed')).toBe(false);
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { rankLeaderboardRecords, ranksAscending } from '../../src/domain/leaderboard/rules';
+import type { LeaderboardRecord } from '../../src/domain/leaderboard/ports';
+
+const record = (id: string, score: number, hits = 0, accuracy = 0): LeaderboardRecord => ({
+  id,
+  name: id,
+  score,
+  hits,
+  accuracy,
+});
+
+describe('leaderboard rules', () => {
+  describe('rankLeaderboardRecords', () => {
+    it('ranks the fastest time first and unfinished scores last', () => {
+      const ranked = rankLeaderboardRecords([record('slow', 12), record('dnf', 0), record('fast', 8.4)], 'score');
+      expect(ranked.map((entry) => [entry.id, entry.rank])).toEqual([
+        ['fast', 1],
+        ['slow', 2],
+        ['dnf', 3],
+      ]);
+    });
+
+    it('ranks the highest score first when higher is better', () => {
+      const ranked = rankLeaderboardRecords([record('low', 4), record('high', 20)], 'score', 'higher-is-better');
+      expect(ranked.map((entry) => entry.id)).toEqual(['high', 'low']);
+    });
+
+    it('always ranks hits and accuracy highest first', () => {
+      const ranked = rankLeaderboardRecords([record('a', 5, 10), record('b', 9, 30)], 'hits');
+      expect(ranked.map((entry) => entry.id)).toEqual(['b', 'a']);
+    });
+  });
+
+  describe('ranksAscending', () => {
+    it('is only ascending for timed scores', () => {
+      expect(ranksAscending('score')).toBe(true);
+      expect(ranksAscending('score', 'higher-is-better')).toBe(false);
+      expect(ranksAscending('accuracy')).toBe(false);
+    });
+  });
+});
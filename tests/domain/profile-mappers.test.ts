@@ -52,6 +52,7 @@ describe('profile mappers', () => {
       id: 'session-1',
       scenario_name: 'Drill',
       scenario_type: null,
+      game_mode: 'most-hits',
       room_name: 'Main',
       room_id: 'room-1',
       score: 42,
@@ -71,6 +72,7 @@ describe('profile mappers', () => {
 
     expect(session.accuracy).toBe(90.56);
     expect(session.roomId).toBe('room-1');
+    expect(session.gameMode).toBe('most-hits');
     expect(session.thingsboardData).toEqual({ key: 'value' });
   });
 });
@@ -5,6 +5,7 @@ import {
   calculateTotalPracticeTime,
   calculateAverageAccuracy,
   calculateBestScore,
+  calculateBestScoresByMode,
   calculateTotalHits,
   calculateCurrentStreak,
   buildProfileStats,
@@ -171,6 +172,28 @@ describe('profile rules', () => {
       ];
       expect(calculateBestScore(sessions)).toBe(10.2);
     });
+
+    it('leaves hit-count modes out of the timed best', () => {
+      const sessions = [
+        createSession({ score: 12, gameMode: 'most-hits' }),
+        createSession({ score: 9.4 }),
+        createSession({ score: 7.1, gameMode: 'bill-drill' }),
+      ];
+      expect(calculateBestScore(sessions)).toBe(7.1);
+    });
+  });
+
+  describe('calculateBestScoresByMode', () => {
+    it('picks each mode\'s best in its own direction', () => {
+      const sessions = [
+        createSession({ score: 12, gameMode: 'most-hits' }),
+        createSession({ score: 18, gameMode: 'most-hits' }),
+        createSession({ score: 9.4 }),
+        createSession({ score: 11 }),
+        createSession({ score: 0, gameMode: 'bill-drill' }),
+      ];
+      expect(calculateBestScoresByMode(sessions)).toEqual({ 'most-hits': 18, 'time-to-goal': 9.4 });
+    });
   });
 
   describe('calculateTotalHits', () => {
@@ -242,6 +265,7 @@ describe('profile rules', () => {
       expect(stats.totalPracticeTimeMs).toBe(75000);
       expect(stats.averageAccuracy).toBe(85);
       expect(stats.bestScore).toBe(10);
+      expect(stats.bestScoresByMode).toEqual({ 'time-to-goal': 10 });
       expect(stats.currentStreak).toBe(1);
     });
 
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  filterHeatMapSessions,
+  calculateTargetHeatStats,
+  calculateHeatIntensities,
+  heatColor,
+  getTargetSessionHistory,
+  type HeatMapSession,
+} from '../../src/domain/rooms/heat-map';
+
+describe('rooms heat map', () => {
+  const createSession = (overrides: Partial<HeatMapSession> = {}): HeatMapSession => ({
+    id: 'session-1',
+    name: 'Drill',
+    startedAt: '2026-03-10T10:00:00.000Z',
+    roomId: 'room-1',
+    durationSeconds: 60,
+    targets: [],
+    ...overrides,
+  });
+
+  describe('filterHeatMapSessions', () => {
+    it('keeps sessions in the room since the period start', () => {
+      const sessions = [
+        createSession({ id: 'a', startedAt: '2026-03-01T10:00:00.000Z' }),
+        createSession({ id: 'b', startedAt: '2026-03-09T10:00:00.000Z' }),
+        createSession({ id: 'c', roomId: 'room-2', startedAt: '2026-03-09T10:00:00.000Z' }),
+      ];
+      expect(filterHeatMapSessions(sessions, 'room-1', null).map((s) => s.id)).toEqual(['a', 'b']);
+      expect(filterHeatMapSessions(sessions, 'room-1', new Date('2026-03-05T00:00:00.000Z')).map((s) => s.id)).toEqual(['b']);
+    });
+  });
+
+  describe('calculateTargetHeatStats', () => {
+    it('combines hits, splits and misses per target across sessions', () => {
+      const stats = calculateTargetHeatStats([
+        createSession({
+          durationSeconds: 60,
+          targets: [
+            { deviceId: 't1', hits: 6, misses: 2, splitTimes: [1, 2] },
+            { deviceId: 't2', hits: 3, misses: null, splitTimes: [] },
+          ],
+        }),
+        createSession({
+          id: 'session-2',
+          durationSeconds: 120,
+          targets: [{ deviceId: 't1', hits: 12, misses: 0, splitTimes: [3, 0] }],
+        }),
+      ]);
+
+      expect(stats.t1).toEqual({
+        deviceId: 't1',
+        sessionCount: 2,
+        hits: 18,
+        misses: 2,
+        hitRate: 6, // 18 hits over 3 minutes
+        avgSplit: 2,
+        missRate: 0.1, // 2 of 20 shots
+      });
+      expect(stats.t2).toMatchObject({ hitRate: 3, avgSplit: null, missRate: null });
+    });
+
+    it('leaves the hit rate unknown without session time', () => {
+      const stats = calculateTargetHeatStats([
+        createSession({ durationSeconds: 0, targets: [{ deviceId: 't1', hits: 4, misses: null, splitTimes: [] }] }),
+      ]);
+      expect(stats.t1.hitRate).toBeNull();
+    });
+  });
+
+  describe('calculateHeatIntensities', () => {
+    it('scales each value between the lowest and highest target', () => {
+      const stats = calculateTargetHeatStats([
+        createSession({
+          targets: [
+            { deviceId: 'slow', hits: 2, misses: null, splitTimes: [3] },
+            { deviceId: 'mid', hits: 4, misses: null, splitTimes: [2] },
+            { deviceId: 'fast', hits: 6, misses: null, splitTimes: [1] },
+            { deviceId: 'none', hits: 1, misses: null, splitTimes: [] },
+          ],
+        }),
+      ]);
+      expect(calculateHeatIntensities(stats, 'avgSplit')).toEqual({ slow: 1, mid: 0.5, fast: 0, none: null });
+    });
+
+    it('puts a lone value in the middle of the scale', () => {
+      const stats = calculateTargetHeatStats([
+        createSession({ targets: [{ deviceId: 't1', hits: 2, misses: 1, splitTimes: [] }] }),
+      ]);
+      expect(calculateHeatIntensities(stats, 'missRate')).toEqual({ t1: 0.5 });
+    });
+  });
+
+  describe('heatColor', () => {
+    it('runs from the cool to the hot brand colour and clamps', () => {
+      expect(heatColor(0)).toBe('#816e94');
+      expect(heatColor(1)).toBe('#ce3e0a');
+      expect(heatColor(2)).toBe('#ce3e0a');
+      expect(heatColor(-1)).toBe('#816e94');
+    });
+  });
+
+  describe('getTargetSessionHistory', () => {
+    it('lists the sessions a target took part in, newest first', () => {
+      const history = getTargetSessionHistory(
+        [
+          createSession({ id: 'old', startedAt: '2026-03-01T10:00:00.000Z', targets: [{ deviceId: 't1', hits: 3, misses: 1, splitTimes: [1, 1.5] }] }),
+          createSession({ id: 'other', targets: [{ deviceId: 't2', hits: 5, misses: null, splitTimes: [] }] }),
+          createSession({ id: 'new', startedAt: '2026-03-12T10:00:00.000Z', targets: [{ deviceId: 't1', hits: 4, misses: null, splitTimes: [] }] }),
+        ],
+        't1'
+      );
+      expect(history.map((entry) => [entry.sessionId, entry.hits, entry.misses, entry.avgSplit])).toEqual([
+        ['new', 4, null, null],
+        ['old', 3, 1, 1.25],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import {
+  beatsScore,
+  compareScores,
+  isCompletedScore,
+  pickBestScore,
+  scoreRatio,
+} from '../../src/domain/shared/score-direction';
+
+describe('shared score direction', () => {
+  describe('isCompletedScore', () => {
+    it('treats a timed 0 as a DNF but a count of 0 as a result', () => {
+      expect(isCompletedScore(0, 'lower-is-better')).toBe(false);
+      expect(isCompletedScore(0, 'higher-is-better')).toBe(true);
+      expect(isCompletedScore(null, 'higher-is-better')).toBe(false);
+      expect(isCompletedScore(Number.NaN, 'lower-is-better')).toBe(false);
+    });
+  });
+
+  describe('beatsScore and compareScores', () => {
+    it('follow the direction', () => {
+      expect(beatsScore(4.2, 5, 'lower-is-better')).toBe(true);
+      expect(beatsScore(4.2, 5, 'higher-is-better')).toBe(false);
+      expect([3, 1, 2].sort((a, b) => compareScores(a, b, 'lower-is-better'))).toEqual([1, 2, 3]);
+      expect([3, 1, 2].sort((a, b) => compareScores(a, b, 'higher-is-better'))).toEqual([3, 2, 1]);
+    });
+  });
+
+  describe('pickBestScore', () => {
+    it('picks the fastest finished time or the highest count', () => {
+      expect(pickBestScore([0, 12.5, 9.8, null], 'lower-is-better')).toBe(9.8);
+      expect(pickBestScore([0, 12, 9], 'higher-is-better')).toBe(12);
+      expect(pickBestScore([0], 'lower-is-better')).toBeNull();
+    });
+  });
+
+  describe('scoreRatio', () => {
+    it('is above 1 when the score beats the expected score', () => {
+      expect(scoreRatio(4, 5, 'lower-is-better')).toBe(1.25);
+      expect(scoreRatio(15, 10, 'higher-is-better')).toBe(1.5);
+      expect(scoreRatio(5, 0, 'lower-is-better')).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isWithinPause,
+  matchDeviceHits,
+  RECONCILE_MATCH_TOLERANCE_MS,
+} from '../../supabase/functions/_shared/hitReconciliation';
+
+describe('game-control hit reconciliation', () => {
+  describe('matchDeviceHits', () => {
+    it('pairs hits within the tolerance and reports the ones the browser missed', () => {
+      const match = matchDeviceHits([1_000, 2_000, 3_000], [1_000 + RECONCILE_MATCH_TOLERANCE_MS, 3_100]);
+      expect(match).toEqual({ missedTimes: [2_000], unmatchedClientHits: 0 });
+    });
+
+    it('counts browser hits ThingsBoard has no record of', () => {
+      expect(matchDeviceHits([1_000], [1_000, 5_000])).toEqual({ missedTimes: [], unmatchedClientHits: 1 });
+      expect(matchDeviceHits([5_000], [1_000, 5_000])).toEqual({ missedTimes: [], unmatchedClientHits: 1 });
+    });
+
+    it('never recovers more hits than the target still needed', () => {
+      expect(matchDeviceHits([1_000, 2_000, 3_000], [], { recoverable: 2 }).missedTimes).toEqual([1_000, 2_000]);
+      expect(matchDeviceHits([1_000, 2_000], [1_000], { recoverable: 0 }).missedTimes).toEqual([]);
+    });
+
+    it('leaves out hits fired during a cease-fire', () => {
+      const pauseIntervals = [{ pausedAt: 2_000, resumedAt: 4_000 }];
+      const match = matchDeviceHits([1_000, 2_500, 3_900, 4_000, 5_000], [1_000, 5_000], { pauseIntervals });
+      expect(match).toEqual({ missedTimes: [4_000], unmatchedClientHits: 0 });
+    });
+
+    it('treats a pause still open at the end of the session as running to the end', () => {
+      const match = matchDeviceHits([1_000, 6_000], [], { pauseIntervals: [{ pausedAt: 5_000, resumedAt: null }] });
+      expect(match.missedTimes).toEqual([1_000]);
+    });
+  });
+
+  describe('isWithinPause', () => {
+    it('includes the pause start and excludes the resume time', () => {
+      const pauseIntervals = [{ pausedAt: 2_000, resumedAt: 4_000 }];
+      expect(isWithinPause(2_000, pauseIntervals)).toBe(true);
+      expect(isWithinPause(4_000, pauseIntervals)).toBe(false);
+      expect(isWithinPause(1_999, [])).toBe(false);
+    });
+  });
+});
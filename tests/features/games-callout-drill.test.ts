@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useCalloutDrill, type UseCalloutDrillOptions } from '@/features/games/hooks/use-callout-drill';
+import { GAME_MODE_DEFAULTS } from '@/domain/games/modes';
+import type { PauseInterval } from '@/domain/games/pauses';
+
+vi.mock('@/lib/edge', () => ({
+  sendScenarioBeep: vi.fn(() => Promise.resolve()),
+}));
+
+vi.mock('@/components/ui/sonner', () => ({
+  toast: { error: vi.fn(), warning: vi.fn(), success: vi.fn(), info: vi.fn() },
+}));
+
+const NOW = 1_700_000_000_000;
+const WINDOW_MS = GAME_MODE_DEFAULTS.RANDOM_CALLOUT_RESPONSE_WINDOW_MS;
+
+const baseOptions: UseCalloutDrillOptions = {
+  isRunningLifecycle: true,
+  gameModeId: 'random-callout',
+  directSessionGameId: 'GM-1',
+  activeDeviceIds: ['t1', 't2'],
+  hitHistory: [],
+  calloutCount: 2,
+  isSessionPaused: false,
+  pauseIntervals: [],
+  register: vi.fn(),
+};
+
+describe('useCalloutDrill', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    // Shortest delay between callouts, first candidate target
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('holds the response window during a pause and resumes it with the time left', () => {
+    const { result, rerender } = renderHook((options: UseCalloutDrillOptions) => useCalloutDrill(options), {
+      initialProps: baseOptions,
+    });
+
+    act(() => {
+      vi.advanceTimersByTime(GAME_MODE_DEFAULTS.RANDOM_CALLOUT_MIN_DELAY_MS);
+    });
+    expect(result.current.callouts).toHaveLength(1);
+    const { calledAt } = result.current.callouts[0];
+
+    // Cease fire one second into the callout, for ten seconds
+    act(() => {
+      vi.advanceTimersByTime(1_000);
+    });
+    const pausedAt = Date.now();
+    const paused: PauseInterval[] = [{ pausedAt, resumedAt: null }];
+    rerender({ ...baseOptions, isSessionPaused: true, pauseIntervals: paused });
+    act(() => {
+      vi.advanceTimersByTime(10_000);
+    });
+    expect(result.current.activeCallout).toEqual({ deviceId: 't1', calledAt });
+    expect(result.current.callouts).toHaveLength(1);
+
+    const resumed: PauseInterval[] = [{ pausedAt, resumedAt: Date.now() }];
+    rerender({ ...baseOptions, pauseIntervals: resumed });
+    act(() => {
+      vi.advanceTimersByTime(WINDOW_MS - 1_000 - 1);
+    });
+    expect(result.current.callouts[0].expiredAt).toBeUndefined();
+
+    act(() => {
+      vi.advanceTimersByTime(1);
+    });
+    expect(result.current.callouts[0].expiredAt).toBe(calledAt + WINDOW_MS + 10_000);
+  });
+
+  it('issues no callout while paused and keeps the delay that was left', () => {
+    const { result, rerender } = renderHook((options: UseCalloutDrillOptions) => useCalloutDrill(options), {
+      initialProps: baseOptions,
+    });
+
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+    const pausedAt = Date.now();
+    rerender({ ...baseOptions, isSessionPaused: true, pauseIntervals: [{ pausedAt, resumedAt: null }] });
+    act(() => {
+      vi.advanceTimersByTime(5_000);
+    });
+    expect(result.current.callouts).toHaveLength(0);
+
+    rerender({ ...baseOptions, pauseIntervals: [{ pausedAt, resumedAt: Date.now() }] });
+    act(() => {
+      vi.advanceTimersByTime(GAME_MODE_DEFAULTS.RANDOM_CALLOUT_MIN_DELAY_MS - 500 - 1);
+    });
+    expect(result.current.callouts).toHaveLength(0);
+
+    act(() => {
+      vi.advanceTimersByTime(1);
+    });
+    expect(result.current.callouts).toHaveLength(1);
+  });
+});
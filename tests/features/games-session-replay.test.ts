@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildReplayTimeline,
+  getReplayFrame,
+  REPLAY_HIT_FLASH_MS,
+} from '@/features/games/lib/session-replay';
+import type { GameHistory } from '@/features/games/lib/device-game-flow';
+
+const START = 1_700_000_000_000;
+
+const entry = (overrides: Partial<GameHistory> = {}): GameHistory => ({
+  gameId: 'GM-1',
+  gameName: 'Replay',
+  duration: 1,
+  startTime: START,
+  endTime: START + 10_000,
+  totalHits: 3,
+  actualDuration: 10,
+  averageHitInterval: null,
+  targetDeviceIds: ['t1', 't2'],
+  targetDeviceNames: ['Left', 'Right'],
+  deviceResults: [
+    { deviceId: 't1', deviceName: 'Left (results)', hitCount: 2 },
+    { deviceId: 't2', deviceName: 'Right', hitCount: 1 },
+  ],
+  targetStats: [],
+  crossTargetStats: null,
+  hitHistory: [
+    { deviceId: 't1', deviceName: 't1', timestamp: START + 3_000, gameId: 'GM-1' },
+    { deviceId: 't2', deviceName: 't2', timestamp: START + 2_000, gameId: 'GM-1' },
+    { deviceId: 't1', deviceName: 't1', timestamp: START + 1_000, gameId: 'GM-1' },
+  ],
+  ...overrides,
+});
+
+describe('buildReplayTimeline', () => {
+  it('orders hits, numbers them per target and names targets from the session', () => {
+    const timeline = buildReplayTimeline(entry());
+
+    expect(timeline.events.map((event) => [event.offsetMs, event.deviceId, event.deviceName, event.hitNumber])).toEqual([
+      [1_000, 't1', 'Left', 1],
+      [2_000, 't2', 'Right', 1],
+      [3_000, 't1', 'Left', 2],
+    ]);
+    expect(timeline.targets).toEqual([
+      { deviceId: 't1', deviceName: 'Left' },
+      { deviceId: 't2', deviceName: 'Right' },
+    ]);
+    expect(timeline.durationMs).toBe(10_000);
+  });
+
+  it('extends the duration to the last hit and adds targets only seen in the hits', () => {
+    const timeline = buildReplayTimeline(
+      entry({
+        endTime: START + 500,
+        hitHistory: [
+          { deviceId: 't3', deviceName: 't3', timestamp: START + 4_000, gameId: 'GM-1' },
+          { deviceId: 't1', deviceName: 't1', timestamp: Number.NaN, gameId: 'GM-1' },
+        ],
+      }),
+    );
+
+    expect(timeline.events).toHaveLength(1);
+    expect(timeline.durationMs).toBe(4_000);
+    expect(timeline.targets.map((target) => target.deviceId)).toEqual(['t1', 't2', 't3']);
+  });
+
+  it('prefers round splits for markers and falls back to timestamped splits', () => {
+    const rounds = buildReplayTimeline(
+      entry({
+        roundSplits: [{ roundNumber: 1, completedAt: START + 2_000, roundTime: 2, pairGap: 1 }],
+        splits: [{ deviceId: 't1', deviceName: 'Left', splitNumber: 1, time: 2, timestamp: START + 3_000 }],
+      }),
+    );
+    expect(rounds.markers).toEqual([{ offsetMs: 2_000, label: 'Round 1' }]);
+
+    const splits = buildReplayTimeline(
+      entry({
+        splits: [
+          { deviceId: 't1', deviceName: 'Left', splitNumber: 1, time: 2, timestamp: START + 3_000 },
+          { deviceId: 't1', deviceName: 'Left', splitNumber: 2, time: 1.5 },
+        ],
+      }),
+    );
+    expect(splits.markers).toEqual([{ offsetMs: 3_000, label: 'Split 1 (2.00s)' }]);
+  });
+});
+
+describe('getReplayFrame', () => {
+  const timeline = buildReplayTimeline(entry());
+
+  it('shows nothing before the first hit', () => {
+    const frame = getReplayFrame(timeline, 500);
+    expect(frame.hitCounts).toEqual({});
+    expect(frame.litDeviceIds.size).toBe(0);
+    expect(frame.lastEvent).toBeNull();
+  });
+
+  it('counts hits up to the position and lights targets hit within the flash window', () => {
+    const frame = getReplayFrame(timeline, 2_000 + REPLAY_HIT_FLASH_MS);
+    expect(frame.hitCounts).toEqual({ t1: 1, t2: 1 });
+    expect([...frame.litDeviceIds]).toEqual(['t2']);
+    expect(frame.lastEvent?.offsetMs).toBe(2_000);
+
+    expect(getReplayFrame(timeline, 2_001 + REPLAY_HIT_FLASH_MS).litDeviceIds.size).toBe(0);
+  });
+
+  it('ends with every hit counted', () => {
+    expect(getReplayFrame(timeline, timeline.durationMs).hitCounts).toEqual({ t1: 2, t2: 1 });
+  });
+});
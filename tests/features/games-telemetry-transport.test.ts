@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createTransportHealthTracker,
+  newestTelemetryTimestamp,
+  selectTelemetryTransport,
+} from '@/features/games/lib/telemetry-transport';
+
+const NOW = 1_700_000_000_000;
+
+describe('selectTelemetryTransport', () => {
+  const candidates = ['websocket', 'sse', 'polling'] as const;
+
+  it('prefers the first candidate that is unmeasured or within the SLA', () => {
+    expect(selectTelemetryTransport([...candidates], {}, new Set(), 1000)).toBe('websocket');
+    expect(selectTelemetryTransport([...candidates], { websocket: 1800 }, new Set(), 1000)).toBe('sse');
+    expect(selectTelemetryTransport([...candidates], { websocket: 1800, sse: 400 }, new Set(), 1000)).toBe('sse');
+  });
+
+  it('skips unavailable transports', () => {
+    expect(selectTelemetryTransport([...candidates], {}, new Set(['websocket', 'sse']), 1000)).toBe('polling');
+    expect(selectTelemetryTransport(['websocket'], {}, new Set(['websocket']), 1000)).toBeNull();
+  });
+
+  it('keeps the fastest transport when every one misses the SLA', () => {
+    expect(
+      selectTelemetryTransport([...candidates], { websocket: 1800, sse: 1300, polling: 2500 }, new Set(), 1000),
+    ).toBe('sse');
+  });
+});
+
+describe('newestTelemetryTimestamp', () => {
+  it('reads WebSocket pairs and REST entries', () => {
+    expect(newestTelemetryTimestamp({ hits: [[NOW, '3']], event: [[NOW + 5, 'hit']] })).toBe(NOW + 5);
+    expect(newestTelemetryTimestamp({ hits: [{ ts: NOW + 9, value: '3' }] })).toBe(NOW + 9);
+    expect(newestTelemetryTimestamp({ hits: '3' })).toBeNull();
+    expect(newestTelemetryTimestamp(undefined)).toBeNull();
+  });
+});
+
+describe('createTransportHealthTracker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('samples latency only from telemetry newer than the subscription and the last value', () => {
+    const tracker = createTransportHealthTracker('polling');
+    tracker.reset();
+
+    tracker.recordMessage({ entityId: 'a', data: { event: [[NOW - 60_000, 'hit']] } }, NOW + 100);
+    expect(tracker.snapshot().latencyMs).toBeNull();
+
+    tracker.recordMessage({ entityId: 'a', data: { event: [[NOW + 100, 'hit']] } }, NOW + 500);
+    expect(tracker.snapshot().latencyMs).toBe(400);
+
+    // A repeated poll of the same value is not a new delivery
+    tracker.recordMessage({ entityId: 'a', data: { event: [[NOW + 100, 'hit']] } }, NOW + 1500);
+    expect(tracker.snapshot().latencyMs).toBe(400);
+
+    tracker.recordMessage({ entityId: 'a', data: { event: [[NOW + 2000, 'hit']] } }, NOW + 3400);
+    expect(tracker.snapshot()).toMatchObject({ kind: 'polling', latencyMs: 700, lastMessageAt: NOW + 3400 });
+  });
+});
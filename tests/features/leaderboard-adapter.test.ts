@@ -26,6 +26,7 @@ describe('leaderboard adapter conformance', () => {
     setLeaderboardRepository(mockRepo);
 
     const result = await getLeaderboardService({
+      gameMode: 'time-to-goal',
       timeframe: 'week',
       sortBy: 'score',
       limit: 10,
@@ -38,6 +39,22 @@ describe('leaderboard adapter conformance', () => {
     }
   });
 
+  it('ranks by the score direction of the board\'s game mode', async () => {
+    setLeaderboardRepository({
+      getLeaderboard: async () =>
+        apiOk([
+          { id: 'low', name: 'Low', score: 12, hits: 12, accuracy: 80 },
+          { id: 'high', name: 'High', score: 30, hits: 30, accuracy: 90 },
+        ]),
+    });
+
+    const hits = await getLeaderboardService({ gameMode: 'most-hits', timeframe: 'all', sortBy: 'score' });
+    const timed = await getLeaderboardService({ gameMode: 'time-to-goal', timeframe: 'all', sortBy: 'score' });
+
+    expect(hits.ok && hits.data.map((entry) => entry.id)).toEqual(['high', 'low']);
+    expect(timed.ok && timed.data.map((entry) => entry.id)).toEqual(['low', 'high']);
+  });
+
   it('real repository exports match interface', () => {
     expect(typeof leaderboardRepository.getLeaderboard).toBe('function');
   });
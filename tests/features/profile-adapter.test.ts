@@ -57,6 +57,7 @@ describe('profile adapter conformance', () => {
       id: 'session-1',
       scenarioName: 'Quick Draw',
       scenarioType: 'speed',
+      gameMode: 'time-to-goal',
       roomName: 'Living Room',
       roomId: 'room-1',
       score: 85,